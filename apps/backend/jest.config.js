@@ -6,6 +6,11 @@ module.exports = {
     '**/__tests__/**/*.+(ts|tsx|js)',
     '**/*.(test|spec).+(ts|tsx|js)'
   ],
+  // Benchmarks time themselves against wall-clock limits, so they only run through `npm run bench`;
+  // helpers are shared test code, not tests
+  testPathIgnorePatterns: process.env.BENCHMARK
+    ? ['/node_modules/', '/__tests__/helpers/']
+    : ['/node_modules/', '/__tests__/helpers/', '\\.benchmark\\.test\\.ts$'],
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest'
   },
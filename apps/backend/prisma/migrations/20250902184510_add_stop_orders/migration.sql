@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'TRIGGERED';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "stopPrice" DECIMAL(10,4),
+ADD COLUMN     "triggeredAt" TIMESTAMP(3);
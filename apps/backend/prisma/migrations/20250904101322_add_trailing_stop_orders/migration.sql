@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "OrderType" ADD VALUE 'TRAILING_STOP';
+
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'RATCHETED';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "highWaterMark" DECIMAL(10,4),
+ADD COLUMN     "trailAmount" DECIMAL(10,4),
+ADD COLUMN     "trailPercent" DECIMAL(5,2);
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'EXPIRED';
+
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'EXPIRED';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "expiredAt" TIMESTAMP(3);
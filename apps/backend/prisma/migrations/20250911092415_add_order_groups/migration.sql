@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "OrderGroupType" AS ENUM ('BRACKET', 'OCO');
+
+-- CreateEnum
+CREATE TYPE "OrderGroupStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "OrderGroupRole" AS ENUM ('ENTRY', 'TAKE_PROFIT', 'STOP_LOSS', 'OCO_LEG');
+
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'HELD';
+
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'ACTIVATED';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "groupId" TEXT,
+ADD COLUMN     "groupRole" "OrderGroupRole";
+
+-- CreateTable
+CREATE TABLE "order_groups" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "type" "OrderGroupType" NOT NULL,
+    "status" "OrderGroupStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_groups_accountId_idx" ON "order_groups"("accountId");
+
+-- CreateIndex
+CREATE INDEX "orders_groupId_idx" ON "orders"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "order_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_groups" ADD CONSTRAINT "order_groups_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "PriceModel" AS ENUM ('RAW', 'BOUNDED_NOISE', 'MEAN_REVERTING');
+
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "meanReversion" DECIMAL(4,3) NOT NULL DEFAULT 0.2,
+ADD COLUMN     "noiseSigma" DECIMAL(6,4) NOT NULL DEFAULT 0.04,
+ADD COLUMN     "priceModel" "PriceModel" NOT NULL DEFAULT 'BOUNDED_NOISE';
@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "BacktestStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "backtest_runs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "status" "BacktestStatus" NOT NULL DEFAULT 'RUNNING',
+    "config" JSONB NOT NULL,
+    "symbols" TEXT[],
+    "initialCash" DECIMAL(15,2) NOT NULL,
+    "finalEquity" DECIMAL(15,2),
+    "totalFees" DECIMAL(15,2),
+    "barsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "dataStart" TIMESTAMP(3),
+    "dataEnd" TIMESTAMP(3),
+    "equityCurve" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "backtest_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backtest_orders" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "orderRef" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "type" "OrderType" NOT NULL,
+    "side" "OrderSide" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "filledQuantity" INTEGER NOT NULL DEFAULT 0,
+    "price" DECIMAL(10,4),
+    "stopPrice" DECIMAL(10,4),
+    "avgFillPrice" DECIMAL(10,4),
+    "status" "OrderStatus" NOT NULL,
+    "timeInForce" "TimeInForce" NOT NULL,
+    "rejectReason" TEXT,
+    "submittedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "backtest_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backtest_fills" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "orderRef" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "side" "OrderSide" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "price" DECIMAL(10,4) NOT NULL,
+    "fees" DECIMAL(10,4) NOT NULL,
+    "executedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backtest_fills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backtest_runs_status_idx" ON "backtest_runs"("status");
+
+-- CreateIndex
+CREATE INDEX "backtest_runs_startedAt_idx" ON "backtest_runs"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "backtest_orders_runId_idx" ON "backtest_orders"("runId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "backtest_orders_runId_orderRef_key" ON "backtest_orders"("runId", "orderRef");
+
+-- CreateIndex
+CREATE INDEX "backtest_fills_runId_idx" ON "backtest_fills"("runId");
+
+-- AddForeignKey
+ALTER TABLE "backtest_orders" ADD CONSTRAINT "backtest_orders_runId_fkey" FOREIGN KEY ("runId") REFERENCES "backtest_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backtest_fills" ADD CONSTRAINT "backtest_fills_runId_fkey" FOREIGN KEY ("runId") REFERENCES "backtest_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
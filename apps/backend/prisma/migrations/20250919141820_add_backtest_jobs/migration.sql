@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "BacktestJobType" AS ENUM ('SWEEP', 'WALK_FORWARD');
+
+-- CreateEnum
+CREATE TYPE "WindowRole" AS ENUM ('IN_SAMPLE', 'OUT_OF_SAMPLE');
+
+-- CreateTable
+CREATE TABLE "backtest_jobs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "strategy" TEXT NOT NULL,
+    "type" "BacktestJobType" NOT NULL,
+    "status" "BacktestStatus" NOT NULL DEFAULT 'RUNNING',
+    "config" JSONB NOT NULL,
+    "objective" TEXT NOT NULL DEFAULT 'sharpeRatio',
+    "totalRuns" INTEGER NOT NULL DEFAULT 0,
+    "completedRuns" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "backtest_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "backtest_runs" ADD COLUMN     "jobId" TEXT,
+ADD COLUMN     "strategy" TEXT,
+ADD COLUMN     "params" JSONB,
+ADD COLUMN     "fold" INTEGER,
+ADD COLUMN     "windowRole" "WindowRole",
+ADD COLUMN     "totalReturn" DOUBLE PRECISION,
+ADD COLUMN     "maxDrawdown" DOUBLE PRECISION,
+ADD COLUMN     "sharpeRatio" DOUBLE PRECISION,
+ADD COLUMN     "tradeCount" INTEGER,
+ADD COLUMN     "feeDrag" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "backtest_jobs_status_idx" ON "backtest_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "backtest_jobs_startedAt_idx" ON "backtest_jobs"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "backtest_runs_jobId_idx" ON "backtest_runs"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "backtest_runs" ADD CONSTRAINT "backtest_runs_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "backtest_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
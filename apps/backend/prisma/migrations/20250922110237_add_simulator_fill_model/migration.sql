@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "FillModel" AS ENUM ('CLOSE', 'CONSERVATIVE', 'OPTIMISTIC');
+
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "fillModel" "FillModel" NOT NULL DEFAULT 'CONSERVATIVE';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "impactBps" INTEGER NOT NULL DEFAULT 50,
+ADD COLUMN     "participationRate" DECIMAL(4,3) NOT NULL DEFAULT 0.1;
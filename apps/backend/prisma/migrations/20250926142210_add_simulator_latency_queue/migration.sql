@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "latencyMs" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "queueAheadPct" DECIMAL(4,3) NOT NULL DEFAULT 0.25;
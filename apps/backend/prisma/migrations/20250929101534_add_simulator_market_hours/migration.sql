@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "marketHours" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "OrderType" ADD VALUE 'MOO';
+ALTER TYPE "OrderType" ADD VALUE 'MOC';
+ALTER TYPE "OrderType" ADD VALUE 'LOO';
+ALTER TYPE "OrderType" ADD VALUE 'LOC';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "simulator_state" ADD COLUMN     "haltDurationMs" INTEGER NOT NULL DEFAULT 300000,
+ADD COLUMN     "luldBandPct" DECIMAL(4,3) NOT NULL DEFAULT 0.05;
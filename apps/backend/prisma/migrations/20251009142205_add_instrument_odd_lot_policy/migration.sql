@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "OddLotPolicy" AS ENUM ('ALLOW', 'MIXED_LOTS', 'ROUND_LOTS');
+
+-- AlterTable
+ALTER TABLE "instruments" ADD COLUMN     "oddLotPolicy" "OddLotPolicy" NOT NULL DEFAULT 'ROUND_LOTS';
@@ -8,6 +8,9 @@ export const validateBody = (schema: z.ZodSchema) => {
       const parsedBody = { ...req.body };
       if (parsedBody.quantity) parsedBody.quantity = parseInt(parsedBody.quantity);
       if (parsedBody.price) parsedBody.price = parseFloat(parsedBody.price);
+      if (parsedBody.stopPrice) parsedBody.stopPrice = parseFloat(parsedBody.stopPrice);
+      if (parsedBody.trailAmount) parsedBody.trailAmount = parseFloat(parsedBody.trailAmount);
+      if (parsedBody.trailPercent) parsedBody.trailPercent = parseFloat(parsedBody.trailPercent);
       
       const validatedData = schema.parse(parsedBody);
       req.body = validatedData;
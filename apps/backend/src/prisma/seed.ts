@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DEFAULT_DATA_DIR } from '../services/marketData';
 
 const prisma = new PrismaClient();
 
@@ -253,10 +254,9 @@ const seedDatabase = async (options: SeedOptions = {}): Promise<void> => {
     // Load market data if not skipped and in development
     if (!skipMarketData && environment === 'development') {
       console.log('📈 Loading market data...');
-      const dataDir = path.join(process.cwd(), '../../infra/data');
       
       for (const instrument of instruments.slice(0, 2)) { // Only load for first 2 instruments
-        const csvFile = path.join(dataDir, `${instrument.symbol}_minute_bars.csv`);
+        const csvFile = path.join(DEFAULT_DATA_DIR, `${instrument.symbol}_minute_bars.csv`);
         
         if (fs.existsSync(csvFile)) {
           try {
@@ -4,6 +4,8 @@ import express from 'express';
 import { PrismaClient } from '@prisma/client';
 import { RiskEngine } from '../../services/riskEngine';
 import ordersRoutes from '../orders';
+import { getSimulatorInstance } from '../../services/simulatorInstance';
+import { tradeAroundTheClock } from '../../services/__tests__/helpers/marketHours';
 
 // Create test app
 const app = express();
@@ -15,6 +17,8 @@ describe('POST /orders Integration Tests', () => {
   let testAccountId: string;
   let testInstrumentId: string;
 
+  tradeAroundTheClock();
+
   beforeAll(async () => {
     prisma = new PrismaClient();
   });
@@ -65,6 +69,7 @@ describe('POST /orders Integration Tests', () => {
     await prisma.fill.deleteMany({ where: { accountId: testAccountId } });
     await prisma.orderEvent.deleteMany({});
     await prisma.order.deleteMany({ where: { accountId: testAccountId } });
+    await prisma.orderGroup.deleteMany({ where: { accountId: testAccountId } });
     await prisma.position.deleteMany({ where: { accountId: testAccountId } });
     await prisma.account.delete({ where: { id: testAccountId } });
     await prisma.instrument.delete({ where: { id: testInstrumentId } });
@@ -163,6 +168,108 @@ describe('POST /orders Integration Tests', () => {
 
       expect(response.body.error).toContain('Validation failed');
     });
+
+    it('should reject tickers that are not in the reference data', async () => {
+      const response = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'NOSUCH',
+          type: 'MARKET',
+          side: 'BUY',
+          quantity: 10
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Unknown ticker: NOSUCH');
+      expect(await prisma.instrument.findUnique({ where: { symbol: 'NOSUCH' } })).toBeNull();
+    });
+
+    it('should accept valid STOP_LIMIT SELL order', async () => {
+      await prisma.position.create({
+        data: {
+          accountId: testAccountId,
+          instrumentId: testInstrumentId,
+          quantity: 100,
+          avgPrice: 95,
+          marketValue: 10000,
+          unrealizedPL: 500
+        }
+      });
+
+      const orderRequest = {
+        accountId: testAccountId,
+        ticker: 'INTEG',
+        type: 'STOP_LIMIT',
+        side: 'SELL',
+        quantity: 100,
+        stopPrice: 92.00,
+        price: 91.50
+      };
+
+      const response = await request(app)
+        .post('/api/orders')
+        .send(orderRequest)
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        type: 'STOP_LIMIT',
+        side: 'SELL',
+        status: 'PENDING'
+      });
+      expect(response.body.stopPrice).toBe('92');
+      expect(response.body.price).toBe('91.5');
+    });
+
+    it('should default timeInForce to DAY and accept GTC', async () => {
+      const dayResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00
+        })
+        .expect(201);
+
+      expect(dayResponse.body.timeInForce).toBe('DAY');
+
+      const gtcResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00,
+          timeInForce: 'GTC'
+        })
+        .expect(201);
+
+      expect(gtcResponse.body.timeInForce).toBe('GTC');
+    });
+
+    it('should require stop price for STOP orders', async () => {
+      const orderRequest = {
+        accountId: testAccountId,
+        ticker: 'INTEG',
+        type: 'STOP',
+        side: 'BUY',
+        quantity: 100
+        // Missing stopPrice
+      };
+
+      const response = await request(app)
+        .post('/api/orders')
+        .send(orderRequest)
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation failed');
+      expect(response.body.details[0].field).toBe('stopPrice');
+    });
   });
 
   describe('Rejection Path - Risk Violations', () => {
@@ -318,6 +425,251 @@ describe('POST /orders Integration Tests', () => {
     });
   });
 
+  describe('Order Groups', () => {
+    it('should create a bracket with exits held until the entry fills', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00,
+          takeProfitPrice: 110.00,
+          stopLossPrice: 85.00
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ type: 'BRACKET', status: 'ACTIVE' });
+      expect(response.body.orders.map((o: any) => [o.groupRole, o.type, o.side, o.status])).toEqual([
+        ['ENTRY', 'LIMIT', 'BUY', 'PENDING'],
+        ['TAKE_PROFIT', 'LIMIT', 'SELL', 'HELD'],
+        ['STOP_LOSS', 'STOP', 'SELL', 'HELD']
+      ]);
+    });
+
+    it('should reject a bracket whose exits are on the wrong side of each other', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'MARKET',
+          side: 'BUY',
+          quantity: 10,
+          takeProfitPrice: 85.00,
+          stopLossPrice: 110.00
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation failed');
+    });
+
+    it('should reject a bracket whose stop-loss limit is on the wrong side of its stop', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'MARKET',
+          side: 'BUY',
+          quantity: 10,
+          takeProfitPrice: 110.00,
+          stopLossPrice: 85.00,
+          stopLossLimitPrice: 86.00
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation failed');
+    });
+
+    it('should reject the whole bracket when an exit is off the tick grid', async () => {
+      const response = await request(app)
+        .post('/api/orders/bracket')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00,
+          takeProfitPrice: 110.005,
+          stopLossPrice: 85.00
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ type: 'BRACKET', status: 'REJECTED' });
+      expect(response.body.orders.map((o: any) => o.status)).toEqual(['REJECTED', 'REJECTED', 'REJECTED']);
+
+      const rejection = await prisma.orderEvent.findFirst({
+        where: { orderId: response.body.orders[0].id, type: 'REJECTED' }
+      });
+      expect((rejection?.payload as any).rejectedReasons).toContain('Price 110.005 is not a multiple of the 0.01 tick size for INTEG');
+    });
+
+    it('should cancel the whole OCO group when one leg is cancelled', async () => {
+      await prisma.position.create({
+        data: {
+          accountId: testAccountId,
+          instrumentId: testInstrumentId,
+          quantity: 100,
+          avgPrice: 95,
+          marketValue: 10000,
+          unrealizedPL: 500
+        }
+      });
+
+      const response = await request(app)
+        .post('/api/orders/oco')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          side: 'SELL',
+          quantity: 100,
+          timeInForce: 'GTC',
+          legs: [
+            { type: 'LIMIT', price: 120.00 },
+            { type: 'STOP', stopPrice: 80.00 }
+          ]
+        })
+        .expect(201);
+
+      const [first, second] = response.body.orders;
+      await request(app)
+        .post(`/api/orders/${first.id}/cancel`)
+        .expect(200);
+
+      const sibling = await prisma.order.findUnique({ where: { id: second.id } });
+      const group = await prisma.orderGroup.findUnique({ where: { id: response.body.id } });
+      expect(sibling?.status).toBe('CANCELLED');
+      expect(group?.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('Order Amendment', () => {
+    it('should amend a pending LIMIT order and record a REPLACED event', async () => {
+      const createResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .patch(`/api/orders/${createResponse.body.id}`)
+        .send({ quantity: 20, price: 91.00 })
+        .expect(200);
+
+      expect(response.body.quantity).toBe(20);
+      expect(response.body.price).toBe('91');
+
+      const events = await prisma.orderEvent.findMany({
+        where: { orderId: createResponse.body.id, type: 'REPLACED' }
+      });
+      expect(events).toHaveLength(1);
+      expect(events[0].payload).toMatchObject({
+        previousQuantity: 10,
+        previousPrice: 90,
+        lostTimePriority: true
+      });
+    });
+
+    it('should not allow amending the price of a MARKET order', async () => {
+      const order = await prisma.order.create({
+        data: {
+          accountId: testAccountId,
+          instrumentId: testInstrumentId,
+          type: 'MARKET',
+          side: 'BUY',
+          quantity: 10,
+          status: 'PENDING'
+        }
+      });
+
+      const response = await request(app)
+        .patch(`/api/orders/${order.id}`)
+        .send({ price: 95.00 })
+        .expect(400);
+
+      expect(response.body.error).toContain('Price cannot be amended');
+    });
+
+    it('should return 409 when the order has already left the book', async () => {
+      // Written straight to the database, so the simulator never had it on its book
+      const order = await prisma.order.create({
+        data: {
+          accountId: testAccountId,
+          instrumentId: testInstrumentId,
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00,
+          status: 'PENDING'
+        }
+      });
+
+      const response = await request(app)
+        .patch(`/api/orders/${order.id}`)
+        .send({ quantity: 20 })
+        .expect(409);
+
+      expect(response.body.error).toContain('no longer on the book');
+
+      const events = await prisma.orderEvent.findMany({
+        where: { orderId: order.id, type: 'REPLACED' }
+      });
+      expect(events).toHaveLength(0);
+    });
+
+    it('should reject an amendment whose added quantity fails risk checks', async () => {
+      const createResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .patch(`/api/orders/${createResponse.body.id}`)
+        .send({ quantity: 5000 })
+        .expect(400);
+
+      expect(response.body.reasons[0]).toContain('Insufficient buying power');
+    });
+
+    it('should reject an amended price off the instrument tick grid', async () => {
+      const createResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 90.00
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .patch(`/api/orders/${createResponse.body.id}`)
+        .send({ price: 90.005 })
+        .expect(400);
+
+      expect(response.body.reasons[0]).toContain('not a multiple of the 0.01 tick size');
+    });
+  });
+
   describe('Order Cancellation', () => {
     it('should successfully cancel ACCEPTED order', async () => {
       // First create an order
@@ -358,6 +710,49 @@ describe('POST /orders Integration Tests', () => {
       expect(orderEvents).toHaveLength(1);
     });
 
+    it('should remove a cancelled order from the simulator book', async () => {
+      const createResponse = await request(app)
+        .post('/api/orders')
+        .send({
+          accountId: testAccountId,
+          ticker: 'INTEG',
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 100,
+          price: 95.00
+        })
+        .expect(201);
+
+      const orderId = createResponse.body.id;
+      const simulator = getSimulatorInstance();
+      expect(simulator.getPendingOrders().some(o => o.orderId === orderId)).toBe(true);
+
+      await request(app)
+        .post(`/api/orders/${orderId}/cancel`)
+        .expect(200);
+
+      expect(simulator.getPendingOrders().some(o => o.orderId === orderId)).toBe(false);
+    });
+
+    it('should report too late to cancel when the order filled first', async () => {
+      const order = await prisma.order.create({
+        data: {
+          accountId: testAccountId,
+          instrumentId: testInstrumentId,
+          type: 'LIMIT',
+          side: 'BUY',
+          quantity: 10,
+          price: 95,
+          status: 'FILLED'
+        }
+      });
+
+      const result = await getSimulatorInstance().cancelOrder(order.id);
+
+      expect(result.cancelled).toBe(false);
+      expect(result.reason).toContain('Too late to cancel');
+    });
+
     it('should not allow cancelling FILLED order', async () => {
       // Create a filled order
       const order = await prisma.order.create({
@@ -452,6 +847,24 @@ describe('POST /orders Integration Tests', () => {
       expect(response.body.error).toContain('Validation failed');
     });
 
+    it('should validate timeInForce enum values', async () => {
+      const orderRequest = {
+        accountId: testAccountId,
+        ticker: 'INTEG',
+        type: 'MARKET',
+        side: 'BUY',
+        quantity: 100,
+        timeInForce: 'GTD'
+      };
+
+      const response = await request(app)
+        .post('/api/orders')
+        .send(orderRequest)
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation failed');
+    });
+
     it('should validate positive price for limit orders', async () => {
       const orderRequest = {
         accountId: testAccountId,
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { validateBody } from '../middleware/validation';
+import { haltSymbolSchema } from '../validation/adminSchemas';
+import { getSimulatorInstance } from '../services/simulatorInstance';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Manually halt trading in a symbol, until resumed or for a set duration
+router.post('/symbols/:symbol/halt', validateBody(haltSymbolSchema), async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+    const { message, durationMs } = req.body;
+
+    const instrument = await prisma.instrument.findUnique({
+      where: { symbol },
+    });
+
+    if (!instrument) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    const halt = getSimulatorInstance().haltTrading(symbol, 'MANUAL', { message, durationMs });
+    res.json({ success: true, halt });
+  } catch (error) {
+    console.error('Error halting symbol:', error);
+    res.status(500).json({ error: 'Failed to halt symbol' });
+  }
+});
+
+// Resume trading in a halted symbol
+router.post('/symbols/:symbol/resume', async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+    const resumed = await getSimulatorInstance().resumeTrading(symbol);
+
+    if (!resumed) {
+      return res.status(400).json({ error: `${symbol} is not halted` });
+    }
+
+    res.json({ success: true, symbol });
+  } catch (error) {
+    console.error('Error resuming symbol:', error);
+    res.status(500).json({ error: 'Failed to resume symbol' });
+  }
+});
+
+export default router;
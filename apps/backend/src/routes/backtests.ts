@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { CompareBacktestsRequest, createBacktestSchema, createBacktestJobSchema, compareBacktestsSchema } from '../validation/backtestSchemas';
+import { BacktestService } from '../services/backtestService';
+import { LOWER_IS_BETTER } from '../services/backtestMetrics';
+import { StrategyRuntime } from '../services/strategyRuntime';
+import { registerBuiltInStrategies } from '../services/strategies';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+registerBuiltInStrategies();
+
+const runMetricsSelect = {
+  id: true,
+  name: true,
+  status: true,
+  strategy: true,
+  params: true,
+  fold: true,
+  windowRole: true,
+  dataStart: true,
+  dataEnd: true,
+  initialCash: true,
+  finalEquity: true,
+  totalReturn: true,
+  maxDrawdown: true,
+  sharpeRatio: true,
+  tradeCount: true,
+  feeDrag: true,
+  error: true
+};
+
+// Run a scripted or strategy-driven backtest over the historical bars and store it as a new run
+router.post('/', validateBody(createBacktestSchema), async (req, res) => {
+  try {
+    const { name, config, orders, strategy, params } = req.body;
+
+    if (strategy && !StrategyRuntime.getDefinition(strategy)) {
+      return res.status(404).json({ error: `Unknown strategy: ${strategy}` });
+    }
+
+    const { runId, result, metrics } = await BacktestService.runBacktest({ name, config, orders, strategy, params });
+
+    res.status(201).json({
+      runId,
+      barsProcessed: result.barsProcessed,
+      dataStart: result.dataStart,
+      dataEnd: result.dataEnd,
+      initialCash: result.initialCash,
+      finalEquity: result.finalEquity,
+      totalReturn: result.totalReturn,
+      totalFees: result.totalFees,
+      orderCount: result.orders.length,
+      fillCount: result.fills.length,
+      positions: result.positions,
+      metrics
+    });
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    res.status(500).json({ error: 'Failed to run backtest' });
+  }
+});
+
+// List backtest runs, newest first
+router.get('/', async (req, res) => {
+  try {
+    const runs = await prisma.backtestRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: 100,
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        symbols: true,
+        initialCash: true,
+        finalEquity: true,
+        totalFees: true,
+        barsProcessed: true,
+        jobId: true,
+        strategy: true,
+        totalReturn: true,
+        maxDrawdown: true,
+        sharpeRatio: true,
+        startedAt: true,
+        completedAt: true
+      }
+    });
+
+    res.json(runs);
+  } catch (error) {
+    console.error('Error fetching backtest runs:', error);
+    res.status(500).json({ error: 'Failed to fetch backtest runs' });
+  }
+});
+
+// Start a parameter sweep or walk-forward job; it runs in the background
+router.post('/jobs', validateBody(createBacktestJobSchema), async (req, res) => {
+  try {
+    if (!StrategyRuntime.getDefinition(req.body.strategy)) {
+      return res.status(404).json({ error: `Unknown strategy: ${req.body.strategy}` });
+    }
+
+    const jobId = await BacktestService.startJob(req.body);
+    const job = await prisma.backtestJob.findUnique({ where: { id: jobId } });
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Error starting backtest job:', error);
+    res.status(500).json({ error: 'Failed to start backtest job' });
+  }
+});
+
+// List backtest jobs, newest first
+router.get('/jobs', async (req, res) => {
+  try {
+    const jobs = await prisma.backtestJob.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: 100
+    });
+
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching backtest jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch backtest jobs' });
+  }
+});
+
+// Get a job's progress and the metrics of every run it has produced so far
+router.get('/jobs/:jobId', async (req, res) => {
+  try {
+    const job = await prisma.backtestJob.findUnique({
+      where: { id: req.params.jobId },
+      include: {
+        runs: {
+          orderBy: [{ fold: 'asc' }, { startedAt: 'asc' }],
+          select: runMetricsSelect
+        }
+      }
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Backtest job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching backtest job:', error);
+    res.status(500).json({ error: 'Failed to fetch backtest job' });
+  }
+});
+
+// Rank completed runs, optionally within one job, best first by the chosen metric
+router.get('/compare', validateQuery(compareBacktestsSchema), async (req, res) => {
+  try {
+    const { jobId, metric, windowRole, limit } = req.query as unknown as CompareBacktestsRequest;
+
+    const runs = await prisma.backtestRun.findMany({
+      where: {
+        status: 'COMPLETED',
+        ...(jobId && { jobId }),
+        ...(windowRole && { windowRole })
+      },
+      // Runs without a value (e.g. no Sharpe ratio when nothing traded) rank last
+      orderBy: { [metric]: { sort: LOWER_IS_BETTER.includes(metric) ? 'asc' : 'desc', nulls: 'last' } },
+      take: limit,
+      select: runMetricsSelect
+    });
+
+    res.json({
+      metric,
+      order: LOWER_IS_BETTER.includes(metric) ? 'asc' : 'desc',
+      runs: runs.map((run, index) => ({ rank: index + 1, ...run }))
+    });
+  } catch (error) {
+    console.error('Error comparing backtest runs:', error);
+    res.status(500).json({ error: 'Failed to compare backtest runs' });
+  }
+});
+
+// Get a backtest run with its orders and fills
+router.get('/:runId', async (req, res) => {
+  try {
+    const run = await prisma.backtestRun.findUnique({
+      where: { id: req.params.runId },
+      include: {
+        orders: { orderBy: { submittedAt: 'asc' } },
+        fills: { orderBy: { executedAt: 'asc' } }
+      }
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Backtest run not found' });
+    }
+
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching backtest run:', error);
+    res.status(500).json({ error: 'Failed to fetch backtest run' });
+  }
+});
+
+// Delete a backtest run; its orders and fills go with it
+router.delete('/:runId', async (req, res) => {
+  try {
+    const run = await prisma.backtestRun.findUnique({
+      where: { id: req.params.runId }
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Backtest run not found' });
+    }
+
+    await prisma.backtestRun.delete({ where: { id: run.id } });
+
+    res.json({ success: true, runId: run.id });
+  } catch (error) {
+    console.error('Error deleting backtest run:', error);
+    res.status(500).json({ error: 'Failed to delete backtest run' });
+  }
+});
+
+export default router;
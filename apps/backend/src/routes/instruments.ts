@@ -0,0 +1,165 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { validateBody, validateQuery } from '../middleware/validation';
+import {
+  CreateInstrumentRequest,
+  GetInstrumentsRequest,
+  createInstrumentSchema,
+  getInstrumentsSchema,
+  importInstrumentsSchema,
+  updateInstrumentSchema
+} from '../validation/instrumentSchemas';
+import { parseInstrumentCsv } from '../services/instrumentImport';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// A new instrument opens at its price unless told otherwise
+function toInstrumentData(request: CreateInstrumentRequest) {
+  return {
+    symbol: request.symbol,
+    name: request.name,
+    sector: request.sector,
+    exchange: request.exchange,
+    tickSize: request.tickSize,
+    lotSize: request.lotSize,
+    oddLotPolicy: request.oddLotPolicy,
+    referencePrice: request.referencePrice ?? request.price,
+    price: request.price,
+    previousClose: request.previousClose ?? request.price,
+    isActive: request.isActive
+  };
+}
+
+// List instruments, optionally searching symbol and name and filtering by sector, exchange and status
+router.get('/', validateQuery(getInstrumentsSchema), async (req, res) => {
+  try {
+    const { search, sector, exchange, isActive } = req.query as unknown as GetInstrumentsRequest;
+
+    const instruments = await prisma.instrument.findMany({
+      where: {
+        ...(search && {
+          OR: [
+            { symbol: { contains: search, mode: 'insensitive' } },
+            { name: { contains: search, mode: 'insensitive' } }
+          ]
+        }),
+        ...(sector && { sector: { equals: sector, mode: 'insensitive' } }),
+        ...(exchange && { exchange: exchange.toUpperCase() }),
+        ...(isActive !== undefined && { isActive })
+      },
+      orderBy: { symbol: 'asc' }
+    });
+
+    res.json(instruments);
+  } catch (error) {
+    console.error('Error fetching instruments:', error);
+    res.status(500).json({ error: 'Failed to fetch instruments' });
+  }
+});
+
+// Get one instrument's reference data
+router.get('/:symbol', async (req, res) => {
+  try {
+    const instrument = await prisma.instrument.findUnique({
+      where: { symbol: req.params.symbol.toUpperCase() }
+    });
+
+    if (!instrument) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    res.json(instrument);
+  } catch (error) {
+    console.error('Error fetching instrument:', error);
+    res.status(500).json({ error: 'Failed to fetch instrument' });
+  }
+});
+
+// Add an instrument to the reference data
+router.post('/', validateBody(createInstrumentSchema), async (req, res) => {
+  try {
+    const request = req.body as CreateInstrumentRequest;
+
+    const existing = await prisma.instrument.findUnique({
+      where: { symbol: request.symbol }
+    });
+    if (existing) {
+      return res.status(409).json({ error: `Instrument ${request.symbol} already exists` });
+    }
+
+    const instrument = await prisma.instrument.create({
+      data: toInstrumentData(request)
+    });
+
+    res.status(201).json(instrument);
+  } catch (error) {
+    console.error('Error creating instrument:', error);
+    res.status(500).json({ error: 'Failed to create instrument' });
+  }
+});
+
+// Bulk import reference data from CSV: new symbols are added, existing ones updated
+router.post('/import', validateBody(importInstrumentsSchema), async (req, res) => {
+  try {
+    const { instruments, errors } = parseInstrumentCsv(req.body.csv);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid instrument CSV',
+        details: errors.map(err => ({ field: `row ${err.row}: ${err.field}`, message: err.message }))
+      });
+    }
+    if (instruments.length === 0) {
+      return res.status(400).json({ error: 'CSV contains no instruments' });
+    }
+
+    const existing = await prisma.instrument.findMany({
+      where: { symbol: { in: instruments.map(instrument => instrument.symbol) } },
+      select: { symbol: true }
+    });
+    const existingSymbols = new Set(existing.map(instrument => instrument.symbol));
+
+    // Imports update reference data only; live prices of existing instruments are left to the market
+    await prisma.$transaction(instruments.map(request => {
+      const { symbol, price, previousClose, ...reference } = request;
+      return prisma.instrument.upsert({
+        where: { symbol },
+        create: toInstrumentData(request),
+        update: reference
+      });
+    }));
+
+    const created = instruments.filter(instrument => !existingSymbols.has(instrument.symbol)).length;
+    res.json({ imported: instruments.length, created, updated: instruments.length - created });
+  } catch (error) {
+    console.error('Error importing instruments:', error);
+    res.status(500).json({ error: 'Failed to import instruments' });
+  }
+});
+
+// Edit an instrument's reference data, including activating or deactivating it
+router.patch('/:symbol', validateBody(updateInstrumentSchema), async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+
+    const existing = await prisma.instrument.findUnique({
+      where: { symbol }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    const instrument = await prisma.instrument.update({
+      where: { symbol },
+      data: req.body
+    });
+
+    res.json(instrument);
+  } catch (error) {
+    console.error('Error updating instrument:', error);
+    res.status(500).json({ error: 'Failed to update instrument' });
+  }
+});
+
+export default router;
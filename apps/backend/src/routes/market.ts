@@ -0,0 +1,157 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { getSimulatorInstance } from '../services/simulatorInstance';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { GetCandlesRequest, getCandlesSchema, uploadMarketDataSchema } from '../validation/marketSchemas';
+import { MarketBar, parseMarketBars, validateMarketBars } from '../services/marketData';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Get the current trading session (pre-market, regular, post-market or closed) and when it next changes
+router.get('/session', async (req, res) => {
+  try {
+    const simulator = getSimulatorInstance();
+    res.json(simulator.getMarketSession());
+  } catch (error) {
+    console.error('Error fetching market session:', error);
+    res.status(500).json({ error: 'Failed to fetch market session' });
+  }
+});
+
+// Get the symbols whose trading is currently halted
+router.get('/halts', async (req, res) => {
+  try {
+    const simulator = getSimulatorInstance();
+    res.json({ halts: simulator.getHalts() });
+  } catch (error) {
+    console.error('Error fetching trading halts:', error);
+    res.status(500).json({ error: 'Failed to fetch trading halts' });
+  }
+});
+
+// Get aggregated order book depth (price levels) for a symbol
+router.get('/:symbol/depth', async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+    const levels = req.query.levels ? parseInt(req.query.levels as string) : undefined;
+
+    if (levels !== undefined && (isNaN(levels) || levels <= 0)) {
+      return res.status(400).json({ error: 'levels must be a positive integer' });
+    }
+
+    const instrument = await prisma.instrument.findUnique({
+      where: { symbol },
+    });
+
+    if (!instrument) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    const simulator = getSimulatorInstance();
+    const depth = simulator.getDepthSnapshot(symbol, levels);
+
+    res.json({
+      ...depth,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching order book depth:', error);
+    res.status(500).json({ error: 'Failed to fetch order book depth' });
+  }
+});
+
+// Get OHLCV candles for a symbol, aggregated from minute bars; the latest may still be forming
+router.get('/:symbol/candles', validateQuery(getCandlesSchema), async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+    const { interval, from, to, limit } = req.query as unknown as GetCandlesRequest;
+
+    const instrument = await prisma.instrument.findUnique({
+      where: { symbol },
+    });
+
+    if (!instrument) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    const simulator = getSimulatorInstance();
+    const candles = await simulator.getCandles(symbol, interval, {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      limit
+    });
+
+    res.json({
+      symbol,
+      interval,
+      candles
+    });
+  } catch (error) {
+    console.error('Error fetching candles:', error);
+    res.status(500).json({ error: 'Failed to fetch candles' });
+  }
+});
+
+// Upload minute bars for a symbol: validated, stored, and loaded into the running simulator
+router.post('/:symbol/bars', validateBody(uploadMarketDataSchema), async (req, res) => {
+  try {
+    const symbol = req.params.symbol.toUpperCase();
+
+    const instrument = await prisma.instrument.findUnique({
+      where: { symbol },
+    });
+
+    if (!instrument) {
+      return res.status(404).json({ error: 'Instrument not found' });
+    }
+
+    let bars: MarketBar[];
+    try {
+      bars = req.body.csv ? parseMarketBars(req.body.csv) : req.body.bars;
+    } catch (error: any) {
+      return res.status(400).json({ error: `Invalid CSV: ${error.message}` });
+    }
+
+    const errors = bars.length === 0 ? ['No bars to upload'] : validateMarketBars(bars);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid market data', details: errors });
+    }
+
+    // Uploaded bars replace any stored bars with the same timestamps
+    const timestamps = bars.map(bar => new Date(bar.timestamp));
+    await prisma.$transaction([
+      prisma.marketData.deleteMany({
+        where: { instrumentId: instrument.id, timestamp: { in: timestamps } }
+      }),
+      prisma.marketData.createMany({
+        data: bars.map((bar, index) => ({
+          instrumentId: instrument.id,
+          timestamp: timestamps[index],
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+          volume: bar.volume
+        }))
+      })
+    ]);
+
+    const simulator = getSimulatorInstance();
+    const loaded = await simulator.addMarketBars(symbol, bars);
+
+    res.status(201).json({
+      symbol,
+      stored: bars.length,
+      from: bars[0].timestamp,
+      to: bars[bars.length - 1].timestamp,
+      totalBars: loaded.bars,
+      newSymbol: loaded.isNew
+    });
+  } catch (error) {
+    console.error('Error uploading market data:', error);
+    res.status(500).json({ error: 'Failed to upload market data' });
+  }
+});
+
+export default router;
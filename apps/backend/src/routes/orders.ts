@@ -1,14 +1,73 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { validateBody, validateQuery } from '../middleware/validation';
-import { createOrderSchema, getOrdersSchema, cancelOrderSchema } from '../validation/orderSchemas';
+import { createOrderSchema, createBracketOrderSchema, createOcoOrderSchema, amendOrderSchema, getOrdersSchema, cancelOrderSchema } from '../validation/orderSchemas';
 import { OrderEventService } from '../services/orderEventService';
 import { RiskEngine } from '../services/riskEngine';
-import { getSimulatorInstance } from './simulator';
+import { getInstrumentRejections } from '../services/instrumentRules';
+import { toPendingOrder } from '../services/executionSimulator';
+import { OrderService, findInstrument } from '../services/orderService';
+import { ValidationError } from '../middleware/errorHandling';
+import { getSimulatorInstance } from '../services/simulatorInstance';
 
 const router = Router();
 const prisma = new PrismaClient();
 
+// Create one order of a bracket/OCO group along with its audit event
+async function createGroupOrder(
+  tx: any,
+  data: {
+    accountId: string;
+    instrumentId: string;
+    groupId: string;
+    groupRole: 'ENTRY' | 'TAKE_PROFIT' | 'STOP_LOSS' | 'OCO_LEG';
+    type: string;
+    side: string;
+    quantity: number;
+    price?: number;
+    stopPrice?: number;
+    timeInForce: string;
+  },
+  status: 'PENDING' | 'HELD' | 'REJECTED',
+  rejectedReasons: string[]
+) {
+  const order = await tx.order.create({
+    data: { ...data, status },
+    include: {
+      instrument: true,
+    },
+  });
+
+  const eventPayload = {
+    orderType: data.type,
+    side: data.side,
+    quantity: data.quantity,
+    price: data.price,
+    stopPrice: data.stopPrice,
+    timeInForce: data.timeInForce,
+    groupId: data.groupId,
+    groupRole: data.groupRole,
+  };
+
+  await tx.orderEvent.create({
+    data: {
+      orderId: order.id,
+      instrumentId: data.instrumentId,
+      type: status === 'REJECTED' ? 'REJECTED' : 'ACCEPTED',
+      payload: status === 'REJECTED'
+        ? { rejectedReasons, ...eventPayload }
+        : {
+            acceptedReason: status === 'HELD'
+              ? 'Held until the bracket entry order fills'
+              : 'Order passed all pre-trade risk checks',
+            ...eventPayload,
+          },
+    },
+  });
+
+  return order;
+}
+
 // Get all orders for an account
 router.get('/', validateQuery(getOrdersSchema), async (req, res) => {
   try {
@@ -36,32 +95,39 @@ router.get('/', validateQuery(getOrdersSchema), async (req, res) => {
 // Create a new order
 router.post('/', validateBody(createOrderSchema), async (req, res) => {
   try {
-    const { accountId, ticker, type, side, quantity, price } = req.body;
+    const order = await OrderService.placeOrder(req.body);
 
-    // Use transaction for atomic order creation + audit trail
-    const result = await prisma.$transaction(async (tx) => {
-      // Find or create instrument
-      let instrument = await tx.instrument.findUnique({
-        where: { symbol: ticker.toUpperCase() },
-      });
+    res.status(201).json(order);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating order:', error);
+    res.status(500).json({ error: 'Failed to create order' });
+  }
+});
 
-      if (!instrument) {
-        // Create instrument with mock data for demo
-        instrument = await tx.instrument.create({
-          data: {
-            symbol: ticker.toUpperCase(),
-            name: `${ticker.toUpperCase()} Company`,
-            exchange: 'NASDAQ',
-            tickSize: 0.01,
-            lotSize: 1,
-            referencePrice: price || 100,
-            price: price || 100,
-            previousClose: price || 100,
-          },
-        });
-      }
+// Create a bracket order: an entry with take-profit and stop-loss exits held until it fills
+router.post('/bracket', validateBody(createBracketOrderSchema), async (req, res) => {
+  try {
+    const {
+      accountId,
+      ticker,
+      type,
+      side,
+      quantity,
+      price,
+      timeInForce,
+      takeProfitPrice,
+      stopLossPrice,
+      stopLossLimitPrice,
+    } = req.body;
+    const exitSide = side === 'BUY' ? 'SELL' : 'BUY';
+
+    const result = await prisma.$transaction(async (tx) => {
+      const instrument = await findInstrument(tx, ticker);
 
-      // Run risk checks BEFORE creating order
+      // Only the entry is risk checked: the exits can only ever close what it opens
       const riskCheck = await RiskEngine.validateOrder({
         accountId,
         instrumentId: instrument.id,
@@ -69,234 +135,297 @@ router.post('/', validateBody(createOrderSchema), async (req, res) => {
         quantity,
         type,
         price,
+        timeInForce,
       });
 
-      let order;
-      if (riskCheck.passed) {
-        // Create order with PENDING status (will be filled immediately for MARKET orders)
-        order = await tx.order.create({
-          data: {
-            accountId,
-            instrumentId: instrument.id,
-            type,
-            side,
-            quantity,
-            price,
-            status: 'PENDING',
-          },
-          include: {
-            instrument: true,
-          },
-        });
+      const legs = [
+        { groupRole: 'ENTRY' as const, type, side, price, timeInForce },
+        { groupRole: 'TAKE_PROFIT' as const, type: 'LIMIT', side: exitSide, price: takeProfitPrice, timeInForce: 'GTC' },
+        {
+          groupRole: 'STOP_LOSS' as const,
+          type: stopLossLimitPrice ? 'STOP_LIMIT' : 'STOP',
+          side: exitSide,
+          price: stopLossLimitPrice,
+          stopPrice: stopLossPrice,
+          timeInForce: 'GTC',
+        },
+      ];
+
+      // The exits still have to fit the instrument's tick grid, or they would be stuck once activated
+      const reasons = new Set(riskCheck.reasons);
+      for (const leg of legs.slice(1)) {
+        getInstrumentRejections({
+          symbol: instrument.symbol,
+          tickSize: parseFloat(instrument.tickSize.toString()),
+          lotSize: instrument.lotSize,
+          oddLotPolicy: instrument.oddLotPolicy,
+        }, {
+          type: leg.type,
+          quantity,
+          price: leg.price,
+          stopPrice: leg.stopPrice,
+        }).forEach(reason => reasons.add(reason));
+      }
+      const passed = reasons.size === 0;
 
-        // Create ACCEPTED event
-        await tx.orderEvent.create({
-          data: {
-            orderId: order.id,
-            instrumentId: instrument.id,
-            type: 'ACCEPTED',
-            payload: {
-              acceptedReason: 'Order passed all pre-trade risk checks',
-              orderType: type,
-              side,
-              quantity,
-              price,
-            },
-          },
+      const group = await tx.orderGroup.create({
+        data: {
+          accountId,
+          type: 'BRACKET',
+          status: passed ? 'ACTIVE' : 'REJECTED',
+        },
+      });
+
+      const orders = [];
+      for (const leg of legs) {
+        const status = !passed ? 'REJECTED' : leg.groupRole === 'ENTRY' ? 'PENDING' : 'HELD';
+        orders.push(await createGroupOrder(
+          tx,
+          { accountId, instrumentId: instrument.id, groupId: group.id, quantity, ...leg },
+          status,
+          Array.from(reasons)
+        ));
+      }
+
+      return { group, orders };
+    });
+
+    const { group, orders } = result;
+
+    // Only the entry goes to the simulator now; the exits are activated when it fills
+    if (group.status === 'ACTIVE') {
+      const simulator = getSimulatorInstance();
+      await simulator.addPendingOrder(toPendingOrder(orders[0]));
+    }
+
+    res.status(201).json({ ...group, orders });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating bracket order:', error);
+    res.status(500).json({ error: 'Failed to create bracket order' });
+  }
+});
+
+// Create a one-cancels-other pair: the first leg to fill cancels the other
+router.post('/oco', validateBody(createOcoOrderSchema), async (req, res) => {
+  try {
+    const { accountId, ticker, side, quantity, timeInForce, legs } = req.body;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const instrument = await findInstrument(tx, ticker);
+
+      // Each leg must pass on its own, since either one may be the one that executes
+      const reasons = new Set<string>();
+      for (const leg of legs) {
+        const riskCheck = await RiskEngine.validateOrder({
+          accountId,
+          instrumentId: instrument.id,
+          side,
+          quantity,
+          type: leg.type,
+          price: leg.price,
+          stopPrice: leg.stopPrice,
+          timeInForce,
         });
-      } else {
-        // Create order with REJECTED status
-        order = await tx.order.create({
-          data: {
+        riskCheck.reasons.forEach(reason => reasons.add(reason));
+      }
+      const passed = reasons.size === 0;
+
+      const group = await tx.orderGroup.create({
+        data: {
+          accountId,
+          type: 'OCO',
+          status: passed ? 'ACTIVE' : 'REJECTED',
+        },
+      });
+
+      const orders = [];
+      for (const leg of legs) {
+        orders.push(await createGroupOrder(
+          tx,
+          {
             accountId,
             instrumentId: instrument.id,
-            type,
+            groupId: group.id,
+            groupRole: 'OCO_LEG',
+            type: leg.type,
             side,
             quantity,
-            price,
-            status: 'REJECTED',
+            price: leg.price,
+            stopPrice: leg.stopPrice,
+            timeInForce,
           },
-          include: {
-            instrument: true,
-          },
-        });
-
-        // Create REJECTED event with reasons
-        await tx.orderEvent.create({
-          data: {
-            orderId: order.id,
-            instrumentId: instrument.id,
-            type: 'REJECTED',
-            payload: {
-              rejectedReasons: riskCheck.reasons,
-              orderType: type,
-              side,
-              quantity,
-              price,
-            },
-          },
-        });
+          passed ? 'PENDING' : 'REJECTED',
+          Array.from(reasons)
+        ));
       }
 
-      return { order, instrument };
+      return { group, orders };
     });
 
-    const { order, instrument } = result;
+    const { group, orders } = result;
 
-    // Submit order to execution simulator if it was ACCEPTED by risk engine
-    if (order.status === 'PENDING') {
+    if (group.status === 'ACTIVE') {
       const simulator = getSimulatorInstance();
-      await simulator.addPendingOrder({
-        id: order.id,
-        accountId,
-        instrumentId: instrument.id,
-        type,
-        side,
-        quantity,
-        price
-      });
+      for (const order of orders) {
+        // The first leg may fill on arrival and cancel this one before it reaches the book
+        const currentOrder = await prisma.order.findUnique({ where: { id: order.id } });
+        if (currentOrder?.status === 'PENDING') {
+          await simulator.addPendingOrder(toPendingOrder(currentOrder));
+        }
+      }
     }
 
-    res.status(201).json(order);
+    res.status(201).json({ ...group, orders });
   } catch (error) {
-    console.error('Error creating order:', error);
-    res.status(500).json({ error: 'Failed to create order' });
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating OCO order:', error);
+    res.status(500).json({ error: 'Failed to create OCO order' });
   }
 });
 
-// Transaction-safe version of updatePosition
-async function updatePositionInTransaction(tx: any, accountId: string, instrumentId: string, side: string, quantity: number, price: number, instrument: any) {
-  const existingPosition = await tx.position.findUnique({
-    where: {
-      accountId_instrumentId: {
-        accountId,
-        instrumentId,
-      },
-    },
-  });
+// Get an order group with its orders
+router.get('/groups/:groupId', async (req, res) => {
+  try {
+    const { groupId } = req.params;
 
-  if (existingPosition) {
-    // Update existing position
-    const currentQty = existingPosition.quantity;
-    const currentAvgPrice = parseFloat(existingPosition.avgPrice.toString());
-    
-    let newQty: number;
-    let newAvgPrice: number;
-    
-    if (side === 'BUY') {
-      newQty = currentQty + quantity;
-      newAvgPrice = ((currentQty * currentAvgPrice) + (quantity * price)) / newQty;
-    } else {
-      newQty = currentQty - quantity;
-      newAvgPrice = currentAvgPrice; // Avg price doesn't change on sells
-    }
-    
-    const marketValue = newQty * parseFloat(instrument.price.toString());
-    const unrealizedPL = (parseFloat(instrument.price.toString()) - newAvgPrice) * newQty;
-
-    if (newQty === 0) {
-      // Close position
-      await tx.position.delete({
-        where: { id: existingPosition.id },
-      });
-    } else {
-      await tx.position.update({
-        where: { id: existingPosition.id },
-        data: {
-          quantity: newQty,
-          avgPrice: newAvgPrice,
-          marketValue,
-          unrealizedPL,
+    const group = await prisma.orderGroup.findUnique({
+      where: { id: groupId },
+      include: {
+        orders: {
+          include: {
+            instrument: true,
+            fills: true,
+          },
+          orderBy: { createdAt: 'asc' },
         },
-      });
-    }
-  } else if (side === 'BUY') {
-    // Create new position (only for buys)
-    const marketValue = quantity * parseFloat(instrument.price.toString());
-    const unrealizedPL = (parseFloat(instrument.price.toString()) - price) * quantity;
-
-    await tx.position.create({
-      data: {
-        accountId,
-        instrumentId,
-        quantity,
-        avgPrice: price,
-        marketValue,
-        unrealizedPL,
       },
     });
+
+    if (!group) {
+      return res.status(404).json({ error: 'Order group not found' });
+    }
+
+    res.json(group);
+  } catch (error) {
+    console.error('Error fetching order group:', error);
+    res.status(500).json({ error: 'Failed to fetch order group' });
   }
-}
+});
 
-// Legacy non-transactional version (keeping for compatibility)
-async function updatePosition(accountId: string, instrumentId: string, side: string, quantity: number, price: number) {
-  const existingPosition = await prisma.position.findUnique({
-    where: {
-      accountId_instrumentId: {
-        accountId,
-        instrumentId,
-      },
-    },
-  });
+// Amend a working order's quantity, price or stop price (cancel-replace semantics)
+router.patch('/:orderId', validateBody(amendOrderSchema), async (req, res) => {
+  try {
+    const { orderId } = req.params;
+    const { quantity, price, stopPrice } = req.body;
 
-  const instrument = await prisma.instrument.findUnique({
-    where: { id: instrumentId },
-  });
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        fills: true,
+        instrument: true,
+      },
+    });
 
-  if (!instrument) return;
-
-  if (existingPosition) {
-    // Update existing position
-    const currentQty = existingPosition.quantity;
-    const currentAvgPrice = parseFloat(existingPosition.avgPrice.toString());
-    
-    let newQty: number;
-    let newAvgPrice: number;
-    
-    if (side === 'BUY') {
-      newQty = currentQty + quantity;
-      newAvgPrice = ((currentQty * currentAvgPrice) + (quantity * price)) / newQty;
-    } else {
-      newQty = currentQty - quantity;
-      newAvgPrice = currentAvgPrice; // Avg price doesn't change on sells
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
     }
-    
-    const marketValue = newQty * parseFloat(instrument.price.toString());
-    const unrealizedPL = (parseFloat(instrument.price.toString()) - newAvgPrice) * newQty;
-
-    if (newQty === 0) {
-      // Close position
-      await prisma.position.delete({
-        where: { id: existingPosition.id },
+
+    if (!['PENDING', 'PARTIALLY_FILLED'].includes(order.status)) {
+      return res.status(400).json({
+        error: `Cannot amend order with status ${order.status}. Only PENDING or PARTIALLY_FILLED orders can be amended.`
       });
-    } else {
-      await prisma.position.update({
-        where: { id: existingPosition.id },
-        data: {
-          quantity: newQty,
-          avgPrice: newAvgPrice,
-          marketValue,
-          unrealizedPL,
-        },
+    }
+
+    if (price !== undefined && !['LIMIT', 'STOP_LIMIT', 'LOO', 'LOC'].includes(order.type)) {
+      return res.status(400).json({ error: `Price cannot be amended on ${order.type} orders` });
+    }
+
+    if (stopPrice !== undefined && ((order.type !== 'STOP' && order.type !== 'STOP_LIMIT') || order.triggeredAt)) {
+      return res.status(400).json({ error: 'Stop price can only be amended on untriggered STOP and STOP_LIMIT orders' });
+    }
+
+    const filledQuantity = order.fills.reduce((sum, fill) => sum + fill.quantity, 0);
+    if (quantity !== undefined && quantity <= filledQuantity) {
+      return res.status(400).json({
+        error: `Quantity must be greater than the ${filledQuantity} shares already filled`
       });
     }
-  } else if (side === 'BUY') {
-    // Create new position (only for buys)
-    const marketValue = quantity * parseFloat(instrument.price.toString());
-    const unrealizedPL = (parseFloat(instrument.price.toString()) - price) * quantity;
 
-    await prisma.position.create({
-      data: {
-        accountId,
-        instrumentId,
-        quantity,
-        avgPrice: price,
-        marketValue,
-        unrealizedPL,
-      },
+    const previousPrice = order.price ? parseFloat(order.price.toString()) : undefined;
+    const previousStopPrice = order.stopPrice ? parseFloat(order.stopPrice.toString()) : undefined;
+    const newQuantity = quantity ?? order.quantity;
+    const newPrice = price ?? previousPrice;
+    const newStopPrice = stopPrice ?? previousStopPrice;
+
+    // The amended order as a whole has to fit the instrument's tick and lot sizes
+    const instrumentRejections = getInstrumentRejections({
+      symbol: order.instrument.symbol,
+      tickSize: parseFloat(order.instrument.tickSize.toString()),
+      lotSize: order.instrument.lotSize,
+      oddLotPolicy: order.instrument.oddLotPolicy,
+    }, {
+      type: order.type,
+      quantity: newQuantity,
+      price: newPrice,
+      stopPrice: newStopPrice,
     });
+
+    if (instrumentRejections.length > 0) {
+      return res.status(400).json({
+        error: 'Amendment does not fit the instrument',
+        reasons: instrumentRejections,
+      });
+    }
+
+    // Only risk check what the amendment adds: extra shares, or a higher price on a working buy
+    const addedQuantity = newQuantity - order.quantity;
+    const previousEffectivePrice = previousPrice ?? previousStopPrice ?? 0;
+    const newEffectivePrice = newPrice ?? newStopPrice ?? 0;
+    const deltaQuantity = addedQuantity > 0
+      ? addedQuantity
+      : order.side === 'BUY' && newEffectivePrice > previousEffectivePrice
+        ? newQuantity - filledQuantity
+        : 0;
+
+    if (deltaQuantity > 0) {
+      const riskCheck = await RiskEngine.validateOrder({
+        accountId: order.accountId,
+        instrumentId: order.instrumentId,
+        side: order.side,
+        quantity: deltaQuantity,
+        type: order.type,
+        price: newPrice,
+        stopPrice: newStopPrice,
+        lotQuantity: newQuantity,
+      });
+
+      if (!riskCheck.passed) {
+        return res.status(400).json({
+          error: 'Amendment failed pre-trade risk checks',
+          reasons: riskCheck.reasons,
+        });
+      }
+    }
+
+    // The simulator takes the order off its book while it writes the amendment, like a cancel
+    const simulator = getSimulatorInstance();
+    const result = await simulator.replaceOrder(orderId, { quantity, price, stopPrice });
+
+    if (!result.replaced) {
+      return res.status(409).json({ error: result.reason });
+    }
+
+    res.json(result.order);
+  } catch (error) {
+    console.error('Error amending order:', error);
+    res.status(500).json({ error: 'Failed to amend order' });
   }
-}
+});
 
 // Cancel an order
 router.post('/:orderId/cancel', async (req, res) => {
@@ -316,43 +445,20 @@ router.post('/:orderId/cancel', async (req, res) => {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    // Check if order can be cancelled (only PENDING or PARTIALLY_FILLED orders)
-    if (!['PENDING', 'PARTIALLY_FILLED'].includes(order.status)) {
+    // Check if order can be cancelled (only PENDING, PARTIALLY_FILLED or HELD orders)
+    if (!['PENDING', 'PARTIALLY_FILLED', 'HELD'].includes(order.status)) {
       return res.status(400).json({ 
-        error: `Cannot cancel order with status ${order.status}. Only PENDING or PARTIALLY_FILLED orders can be cancelled.` 
+        error: `Cannot cancel order with status ${order.status}. Only PENDING, PARTIALLY_FILLED or HELD orders can be cancelled.` 
       });
     }
 
-    // Update order status to CANCELLED with audit trail
-    const cancelledOrder = await prisma.$transaction(async (tx) => {
-      const updatedOrder = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          cancelledAt: new Date(),
-        },
-        include: {
-          instrument: true,
-        },
-      });
-
-      // Create CANCELED event
-      await tx.orderEvent.create({
-        data: {
-          orderId: orderId,
-          instrumentId: order.instrumentId,
-          type: 'CANCELED',
-          payload: {
-            canceledReason: 'User requested cancellation',
-            canceledBy: 'user',
-            canceledAt: new Date().toISOString(),
-            previousStatus: order.status,
-          },
-        },
-      });
+    // The simulator takes the order off its book and writes the audit trail in one step
+    const simulator = getSimulatorInstance();
+    const result = await simulator.cancelOrder(orderId, 'User requested cancellation', 'user');
 
-      return updatedOrder;
-    });
+    if (!result.cancelled) {
+      return res.status(409).json({ error: result.reason });
+    }
 
     res.json({ message: 'Order cancelled successfully' });
   } catch (error) {
@@ -390,6 +496,10 @@ router.delete('/', async (req, res) => {
       return res.status(400).json({ error: 'accountId is required' });
     }
 
+    // Pull the account's orders off the simulator book so nothing fills while they are deleted
+    const simulator = getSimulatorInstance();
+    simulator.removeAccountOrders(accountId);
+
     // Delete all orders and related data for the account in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // First get all order IDs for this account
@@ -415,6 +525,11 @@ router.delete('/', async (req, res) => {
         where: { accountId }
       });
 
+      // Delete the bracket/OCO groups those orders belonged to
+      await tx.orderGroup.deleteMany({
+        where: { accountId }
+      });
+
       return {
         deletedOrders: deletedOrders.count,
         deletedEvents: deletedEvents.count,
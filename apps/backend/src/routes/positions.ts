@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { getSimulatorInstance } from '../services/simulatorInstance';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -38,6 +39,10 @@ router.delete('/', async (req, res) => {
       return res.status(400).json({ error: 'accountId is required' });
     }
 
+    // Pull the account's orders off the simulator book so nothing fills while they are deleted
+    const simulator = getSimulatorInstance();
+    simulator.removeAccountOrders(accountId);
+
     // Delete all trading data for the account in a comprehensive transaction
     const result = await prisma.$transaction(async (tx) => {
       // First get all order IDs for this account
@@ -63,6 +68,11 @@ router.delete('/', async (req, res) => {
         where: { accountId }
       });
 
+      // Delete the bracket/OCO groups those orders belonged to
+      await tx.orderGroup.deleteMany({
+        where: { accountId }
+      });
+
       // Delete all positions for the account
       const deletedPositions = await tx.position.deleteMany({
         where: { accountId }
@@ -1,20 +1,12 @@
 import { Router } from 'express';
-import { ExecutionSimulator } from '../services/executionSimulator';
+import { getSimulatorInstance } from '../services/simulatorInstance';
 import { PrismaClient } from '@prisma/client';
+import { validateBody } from '../middleware/validation';
+import { updateSimulatorConfigSchema } from '../validation/simulatorSchemas';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Global simulator instance (shared with orders route)
-let simulatorInstance: ExecutionSimulator | null = null;
-
-export const getSimulatorInstance = (): ExecutionSimulator => {
-  if (!simulatorInstance) {
-    simulatorInstance = new ExecutionSimulator(prisma);
-  }
-  return simulatorInstance;
-};
-
 // Start market simulation
 router.post('/start', async (req, res) => {
   try {
@@ -80,14 +72,29 @@ router.get('/status', async (req, res) => {
         side: order.side,
         quantity: order.quantity,
         remainingQuantity: order.remainingQuantity,
-        price: order.price
+        price: order.price,
+        stopPrice: order.stopPrice,
+        highWaterMark: order.highWaterMark,
+        timeInForce: order.timeInForce,
+        triggered: !!order.triggeredAt
       })),
       config: {
         playbackSpeedMs: state?.playbackSpeedMs || 3000,
         bidAskSpreadBps: state?.bidAskSpreadBps || 20,
         feePerShare: state?.feePerShare ? parseFloat(state.feePerShare.toString()) : 0.005,
         slippageBps: state?.slippageBps || 5,
-        maxPartialFillPct: state?.maxPartialFillPct ? parseFloat(state.maxPartialFillPct.toString()) : 0.30
+        maxPartialFillPct: state?.maxPartialFillPct ? parseFloat(state.maxPartialFillPct.toString()) : 0.30,
+        priceModel: state?.priceModel || 'BOUNDED_NOISE',
+        noiseSigma: state?.noiseSigma ? parseFloat(state.noiseSigma.toString()) : 0.04,
+        meanReversion: state?.meanReversion ? parseFloat(state.meanReversion.toString()) : 0.2,
+        fillModel: state?.fillModel || 'CONSERVATIVE',
+        participationRate: state?.participationRate ? parseFloat(state.participationRate.toString()) : 0.1,
+        impactBps: state?.impactBps ?? 50,
+        latencyMs: state?.latencyMs ?? 0,
+        queueAheadPct: state?.queueAheadPct ? parseFloat(state.queueAheadPct.toString()) : 0.25,
+        marketHours: state?.marketHours ?? true,
+        luldBandPct: state?.luldBandPct ? parseFloat(state.luldBandPct.toString()) : 0.05,
+        haltDurationMs: state?.haltDurationMs ?? 300000
       }
     });
   } catch (error) {
@@ -96,29 +103,65 @@ router.get('/status', async (req, res) => {
   }
 });
 
+// Report drift between open orders in the database and the in-memory order book
+router.get('/consistency', async (req, res) => {
+  try {
+    const simulator = getSimulatorInstance();
+    const report = await simulator.checkConsistency();
+
+    res.json(report);
+  } catch (error) {
+    console.error('Error checking order book consistency:', error);
+    res.status(500).json({ error: 'Failed to check order book consistency' });
+  }
+});
+
 // Update simulation configuration
-router.put('/config', async (req, res) => {
+router.put('/config', validateBody(updateSimulatorConfigSchema), async (req, res) => {
   try {
     const {
       bidAskSpreadBps,
       feePerShare,
       slippageBps,
       playbackSpeedMs,
-      maxPartialFillPct
+      maxPartialFillPct,
+      priceModel,
+      noiseSigma,
+      meanReversion,
+      fillModel,
+      participationRate,
+      impactBps,
+      latencyMs,
+      queueAheadPct,
+      marketHours,
+      luldBandPct,
+      haltDurationMs
     } = req.body;
 
     const simulator = getSimulatorInstance();
-    simulator.updateConfig({
+    await simulator.updateConfig({
       bidAskSpreadBps,
       feePerShare,
       slippageBps,
       playbackSpeedMs,
-      maxPartialFillPct
+      maxPartialFillPct,
+      priceModel,
+      noiseSigma,
+      meanReversion,
+      fillModel,
+      participationRate,
+      impactBps,
+      latencyMs,
+      queueAheadPct,
+      marketHours,
+      luldBandPct,
+      haltDurationMs
     });
     
     res.json({
       success: true,
-      message: 'Simulation configuration updated'
+      message: 'Simulation configuration updated',
+      config: simulator.getConfig()
     });
   } catch (error) {
     console.error('Error updating simulation config:', error);
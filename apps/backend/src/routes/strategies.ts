@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { validateBody, validateQuery } from '../middleware/validation';
+import { startStrategySchema, getStrategyLogsSchema } from '../validation/strategySchemas';
+import { StrategyRuntime } from '../services/strategyRuntime';
+import { registerBuiltInStrategies } from '../services/strategies';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+registerBuiltInStrategies();
+
+// List registered strategies and their default parameters
+router.get('/', async (req, res) => {
+  try {
+    res.json(StrategyRuntime.listDefinitions());
+  } catch (error) {
+    console.error('Error listing strategies:', error);
+    res.status(500).json({ error: 'Failed to list strategies' });
+  }
+});
+
+// List running and stopped strategy instances, optionally for one account
+router.get('/instances', async (req, res) => {
+  try {
+    const accountId = req.query.accountId as string | undefined;
+    res.json(StrategyRuntime.listInstances(accountId));
+  } catch (error) {
+    console.error('Error listing strategy instances:', error);
+    res.status(500).json({ error: 'Failed to list strategy instances' });
+  }
+});
+
+// Start a strategy against an account
+router.post('/instances', validateBody(startStrategySchema), async (req, res) => {
+  try {
+    const { strategy, accountId, symbols, params } = req.body;
+
+    if (!StrategyRuntime.getDefinition(strategy)) {
+      return res.status(404).json({ error: `Unknown strategy: ${strategy}` });
+    }
+
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+    });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const instance = await StrategyRuntime.start(strategy, accountId, symbols, params);
+
+    if (instance.status === 'ERROR') {
+      return res.status(400).json({ error: `Strategy failed to start: ${instance.lastError}`, instance });
+    }
+
+    res.status(201).json(instance);
+  } catch (error) {
+    console.error('Error starting strategy:', error);
+    res.status(500).json({ error: 'Failed to start strategy' });
+  }
+});
+
+// Get a strategy instance's status
+router.get('/instances/:instanceId', async (req, res) => {
+  try {
+    const instance = StrategyRuntime.getStatus(req.params.instanceId);
+
+    if (!instance) {
+      return res.status(404).json({ error: 'Strategy instance not found' });
+    }
+
+    res.json(instance);
+  } catch (error) {
+    console.error('Error fetching strategy instance:', error);
+    res.status(500).json({ error: 'Failed to fetch strategy instance' });
+  }
+});
+
+// Stop a running strategy instance
+router.post('/instances/:instanceId/stop', async (req, res) => {
+  try {
+    const instance = await StrategyRuntime.stop(req.params.instanceId);
+
+    if (!instance) {
+      return res.status(404).json({ error: 'Strategy instance not found' });
+    }
+
+    res.json(instance);
+  } catch (error) {
+    console.error('Error stopping strategy:', error);
+    res.status(500).json({ error: 'Failed to stop strategy' });
+  }
+});
+
+// Get a strategy instance's most recent log entries
+router.get('/instances/:instanceId/logs', validateQuery(getStrategyLogsSchema), async (req, res) => {
+  try {
+    const logs = StrategyRuntime.getLogs(req.params.instanceId, Number(req.query.limit));
+
+    if (!logs) {
+      return res.status(404).json({ error: 'Strategy instance not found' });
+    }
+
+    res.json(logs);
+  } catch (error) {
+    console.error('Error fetching strategy logs:', error);
+    res.status(500).json({ error: 'Failed to fetch strategy logs' });
+  }
+});
+
+export default router;
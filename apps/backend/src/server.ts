@@ -15,6 +15,11 @@ import fillsRoutes from './routes/fills';
 import accountsRoutes from './routes/accounts';
 import riskRoutes from './routes/risk';
 import simulatorRoutes from './routes/simulator';
+import marketRoutes from './routes/market';
+import backtestRoutes from './routes/backtests';
+import strategyRoutes from './routes/strategies';
+import adminRoutes from './routes/admin';
+import instrumentRoutes from './routes/instruments';
 import { setupWebSocket } from './websocket/websocket';
 
 // Middleware
@@ -55,7 +60,7 @@ app.use(cors({
   origin: process.env.NODE_ENV === 'production' 
     ? process.env.ALLOWED_ORIGINS?.split(',') || ['https://your-domain.com']
     : ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:3002', 'http://localhost:3003', 'http://localhost:3004', 'http://localhost:3005', 'http://localhost:3006', 'http://localhost:3007', 'http://localhost:3008', 'http://localhost:3009', 'http://localhost:3010', 'http://localhost:3011', 'http://localhost:3012', 'http://localhost:3013', 'http://localhost:3014', 'http://localhost:3015'],
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   credentials: true
 }));
 app.use(compression());
@@ -91,6 +96,11 @@ app.use('/api/fills', rateLimitConfigs.public, fillsRoutes);
 app.use('/api/accounts', rateLimitConfigs.accounts, accountsRoutes);
 app.use('/api/risk', rateLimitConfigs.risk, riskRoutes);
 app.use('/api/simulator', rateLimitConfigs.public, simulatorRoutes);
+app.use('/api/market', rateLimitConfigs.public, marketRoutes);
+app.use('/api/instruments', rateLimitConfigs.public, instrumentRoutes);
+app.use('/api/backtests', rateLimitConfigs.public, backtestRoutes);
+app.use('/api/strategies', rateLimitConfigs.public, strategyRoutes);
+app.use('/api/admin', rateLimitConfigs.risk, adminRoutes);
 
 // WebSocket setup
 setupWebSocket(wss, prisma);
@@ -133,7 +143,7 @@ const startServer = async (): Promise<void> => {
       // Auto-start market simulator in development or restore state
       setTimeout(async () => {
         try {
-          const { getSimulatorInstance } = await import('./routes/simulator');
+          const { getSimulatorInstance } = await import('./services/simulatorInstance');
           const simulator = getSimulatorInstance();
           await simulator.initialize();
           
@@ -168,7 +178,30 @@ const startServer = async (): Promise<void> => {
           'GET /api/accounts',
           'GET /api/risk/limits',
           'PUT /api/risk/limits',
-          'GET /api/simulator/status'
+          'GET /api/simulator/status',
+          'GET /api/simulator/consistency',
+          'GET /api/market/session',
+          'GET /api/market/halts',
+          'GET /api/market/:symbol/depth',
+          'GET /api/market/:symbol/candles',
+          'POST /api/market/:symbol/bars',
+          'GET /api/instruments',
+          'GET /api/instruments/:symbol',
+          'POST /api/instruments',
+          'PATCH /api/instruments/:symbol',
+          'POST /api/instruments/import',
+          'POST /api/backtests',
+          'GET /api/backtests',
+          'GET /api/backtests/:runId',
+          'POST /api/backtests/jobs',
+          'GET /api/backtests/jobs/:jobId',
+          'GET /api/backtests/compare',
+          'GET /api/strategies',
+          'POST /api/strategies/instances',
+          'POST /api/strategies/instances/:id/stop',
+          'GET /api/strategies/instances/:id/logs',
+          'POST /api/admin/symbols/:symbol/halt',
+          'POST /api/admin/symbols/:symbol/resume'
         ]
       });
     });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { expandParamGrid, countParamCombinations, buildWalkForwardFolds, rankByMetric } from '../backtestJobs';
+
+const minutes = (count: number) =>
+  Array.from({ length: count }, (_, i) => new Date(Date.UTC(2024, 0, 2, 14, 30 + i)).toISOString());
+
+describe('Backtest Jobs', () => {
+  it('should expand a parameter grid into every combination', () => {
+    const grid = { fastPeriod: [3, 5], slowPeriod: [10, 20, 30] };
+
+    const combinations = expandParamGrid(grid);
+
+    expect(combinations).toHaveLength(6);
+    expect(countParamCombinations(grid)).toBe(6);
+    expect(combinations[0]).toEqual({ fastPeriod: 3, slowPeriod: 10 });
+    expect(combinations[1]).toEqual({ fastPeriod: 3, slowPeriod: 20 });
+    expect(combinations[5]).toEqual({ fastPeriod: 5, slowPeriod: 30 });
+    expect(expandParamGrid({})).toEqual([{}]);
+  });
+
+  it('should split timestamps into consecutive in-sample and out-of-sample windows', () => {
+    const timestamps = minutes(20);
+
+    const folds = buildWalkForwardFolds([...timestamps].reverse(), 2, 0.7);
+
+    expect(folds).toEqual([
+      {
+        fold: 0,
+        inSample: { startDate: timestamps[0], endDate: timestamps[6] },
+        outOfSample: { startDate: timestamps[7], endDate: timestamps[9] }
+      },
+      {
+        fold: 1,
+        inSample: { startDate: timestamps[10], endDate: timestamps[16] },
+        outOfSample: { startDate: timestamps[17], endDate: timestamps[19] }
+      }
+    ]);
+  });
+
+  it('should give the remainder to the last fold and always leave an out-of-sample bar', () => {
+    const timestamps = minutes(7);
+
+    const folds = buildWalkForwardFolds(timestamps, 3, 0.99);
+
+    expect(folds[2].outOfSample.endDate).toBe(timestamps[6]);
+    folds.forEach(fold => expect(Date.parse(fold.inSample.endDate)).toBeLessThan(Date.parse(fold.outOfSample.startDate)));
+    expect(() => buildWalkForwardFolds(minutes(3), 2, 0.5)).toThrow('Not enough bars for 2 folds');
+  });
+
+  it('should rank runs best first and put missing values last', () => {
+    const runs = [
+      { id: 'a', metrics: { sharpeRatio: 0.5, maxDrawdown: 0.1 } },
+      { id: 'b', metrics: { sharpeRatio: null, maxDrawdown: 0.02 } },
+      { id: 'c', metrics: { sharpeRatio: 1.5, maxDrawdown: 0.3 } }
+    ];
+
+    expect(rankByMetric(runs, 'sharpeRatio').map(r => r.id)).toEqual(['c', 'a', 'b']);
+    expect(rankByMetric(runs, 'maxDrawdown').map(r => r.id)).toEqual(['b', 'a', 'c']);
+  });
+});
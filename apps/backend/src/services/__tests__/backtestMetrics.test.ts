@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateMaxDrawdown, calculateSharpeRatio, calculateMetrics } from '../backtestMetrics';
+import { BacktestResult } from '../backtestRunner';
+
+const curve = (equities: number[]) =>
+  equities.map((equity, i) => ({ timestamp: new Date(Date.UTC(2024, 0, 2, 14, 30 + i)).toISOString(), equity }));
+
+describe('Backtest Metrics', () => {
+  it('should measure the largest peak-to-trough fall', () => {
+    expect(calculateMaxDrawdown(curve([100, 110, 99, 105, 88, 120]))).toBeCloseTo(0.2);
+    expect(calculateMaxDrawdown(curve([100, 101, 102]))).toBe(0);
+    expect(calculateMaxDrawdown([])).toBe(0);
+  });
+
+  it('should annualize the Sharpe ratio of per-bar returns', () => {
+    const equities = [100, 101, 100.5, 101.5, 101];
+    const returns = equities.slice(1).map((equity, i) => equity / equities[i] - 1);
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const stdDev = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1));
+
+    expect(calculateSharpeRatio(curve(equities), 252)).toBeCloseTo((mean / stdDev) * Math.sqrt(252));
+  });
+
+  it('should leave the Sharpe ratio empty when equity never moves', () => {
+    expect(calculateSharpeRatio(curve([100, 100, 100]))).toBeNull();
+    expect(calculateSharpeRatio(curve([100]))).toBeNull();
+  });
+
+  it('should derive trade count and fee drag from the result', () => {
+    const result = {
+      initialCash: 10000,
+      totalReturn: 0.05,
+      totalFees: 25,
+      fills: [{}, {}, {}],
+      equityCurve: curve([10000, 10500])
+    } as unknown as BacktestResult;
+
+    expect(calculateMetrics(result)).toEqual({
+      totalReturn: 0.05,
+      maxDrawdown: 0,
+      sharpeRatio: null,
+      tradeCount: 3,
+      feeDrag: 0.0025
+    });
+  });
+});
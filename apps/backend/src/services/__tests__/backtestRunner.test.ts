@@ -0,0 +1,323 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import { BacktestRunner, BacktestContext } from '../backtestRunner';
+import { MarketBar, loadMarketBars } from '../marketData';
+
+// Flat-spread, no-impact config so fill prices are easy to reason about
+const config = { bidAskSpreadBps: 0, slippageBps: 0, impactBps: 0, feePerShare: 0.01, initialCash: 10000 };
+
+function bars(closes: number[], start = '2024-01-02T14:30:00Z', volume = 1000): MarketBar[] {
+  const startTime = Date.parse(start);
+  return closes.map((close, i) => ({
+    timestamp: new Date(startTime + i * 60000).toISOString(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume
+  }));
+}
+
+describe('Backtest Runner', () => {
+  it('should fill a scripted market order and mark the position to market', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 101, 102])]]), config, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10 }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.barsProcessed).toBe(3);
+    expect(result.fills).toEqual([
+      { orderId: 'bt-1', symbol: 'AAPL', side: 'BUY', quantity: 10, price: 100, fees: 0.1, executedAt: '2024-01-02T14:30:00.000Z' }
+    ]);
+    expect(result.orders[0].status).toBe('FILLED');
+    expect(result.finalCash).toBeCloseTo(10000 - 1000 - 0.1);
+    expect(result.finalEquity).toBeCloseTo(10000 - 0.1 + 20);
+    expect(result.equityCurve.map(p => p.equity)).toEqual([
+      expect.closeTo(9999.9), expect.closeTo(10009.9), expect.closeTo(10019.9)
+    ]);
+  });
+
+  it('should cap market fills at the participation rate and carry the rest to later bars', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 101, 102], undefined, 1000)]]), { ...config, participationRate: 0.1 }, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 250 }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.fills.map(f => [f.quantity, f.price])).toEqual([[100, 100], [100, 101], [50, 102]]);
+    expect(result.orders[0].status).toBe('FILLED');
+    expect(result.orders[0].avgFillPrice).toBeCloseTo(100.8);
+  });
+
+  it('should widen market fill prices with the square root of size relative to volume', async () => {
+    const run = (quantity: number) => new BacktestRunner(new Map([['AAPL', bars([100], undefined, 10000)]]), { ...config, participationRate: 1, impactBps: 100 }, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'SELL', type: 'MARKET', quantity }
+    ]).run();
+
+    const [small, large] = await Promise.all([run(100), run(2500)]);
+
+    expect(small.fills[0].price).toBeCloseTo(100 * (1 - 0.01 * Math.sqrt(0.01)));
+    expect(large.fills[0].price).toBeCloseTo(100 * (1 - 0.01 * Math.sqrt(0.25)));
+  });
+
+  it('should realize P&L when a position is closed', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 105])]]), config, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10 },
+      { at: '2024-01-02T14:31:00Z', symbol: 'AAPL', side: 'SELL', type: 'MARKET', quantity: 10 }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.positions).toEqual([{ symbol: 'AAPL', quantity: 0, avgPrice: 0, realizedPnl: 50 }]);
+    expect(result.finalEquity).toBeCloseTo(10050 - 0.2);
+    expect(result.totalFees).toBeCloseTo(0.2);
+  });
+
+  it('should rest a limit order and work it on later bars', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 99, 98, 98, 98])]]), { ...config, maxPartialFillPct: 1 }, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 100, price: 98.5, timeInForce: 'GTC' }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.fills.length).toBeGreaterThan(0);
+    expect(result.fills.every(f => f.price === 98 && Date.parse(f.executedAt) >= Date.parse('2024-01-02T14:32:00Z'))).toBe(true);
+  });
+
+  it('should fill a limit at the touch only after the volume queued ahead of it has traded', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 100, 100, 100])]]), {
+      ...config,
+      bidAskSpreadBps: 100, // bid 99.5, ask 100.5
+      maxPartialFillPct: 1,
+      participationRate: 1,
+      queueAheadPct: 0.8,
+      fillModel: 'CLOSE'
+    }, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 300, price: 99.5, timeInForce: 'GTC' }
+    ]);
+
+    const result = await runner.run();
+
+    // 800 shares ahead and 500 traded at the bid per bar: nothing on the first bar, at most 200 on the second
+    expect(result.fills.length).toBeGreaterThan(0);
+    expect(result.fills[0].executedAt).toBe('2024-01-02T14:32:00.000Z');
+    expect(result.fills[0].quantity).toBeLessThanOrEqual(200);
+    expect(result.fills.every(f => f.price === 99.5)).toBe(true);
+  });
+
+  it('should fill resting orders the bar traded through, unless the fill model only sees the close', async () => {
+    const data = bars([100, 100]);
+    data[1] = { ...data[1], open: 100, high: 100.5, low: 97, close: 99.5 };
+    const orders = [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY' as const, type: 'LIMIT' as const, quantity: 10, price: 98, timeInForce: 'GTC' as const }
+    ];
+
+    const intrabar = await new BacktestRunner(new Map([['AAPL', data]]), { ...config, maxPartialFillPct: 1, fillModel: 'CONSERVATIVE' }, {}, orders).run();
+    const closeOnly = await new BacktestRunner(new Map([['AAPL', data]]), { ...config, maxPartialFillPct: 1, fillModel: 'CLOSE' }, {}, orders).run();
+
+    expect(intrabar.fills.map(f => f.price)).toEqual([98]);
+    expect(closeOnly.fills).toEqual([]);
+  });
+
+  it('should expire DAY orders when the regular session closes', async () => {
+    const marketData = new Map([['AAPL', [
+      ...bars([100, 100], '2024-01-02T20:58:00Z'),
+      ...bars([100], '2024-01-03T14:30:00Z')
+    ]]]);
+    const runner = new BacktestRunner(marketData, { ...config, marketHours: true }, {}, [
+      { at: '2024-01-02T20:58:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 10, price: 90 },
+      { at: '2024-01-02T20:58:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 10, price: 90, timeInForce: 'GTC' }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.orders.map(o => o.status)).toEqual(['EXPIRED', 'PENDING']);
+    expect(result.orders[0].closedAt).toBe('2024-01-02T21:00:00.000Z');
+  });
+
+  it('should hold orders in transit for the configured latency', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 101])]]), { ...config, latencyMs: 30000 }, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10 }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.fills.map(f => [f.executedAt, f.price])).toEqual([['2024-01-02T14:30:30.000Z', 100]]);
+  });
+
+  it('should apply session rules and trading halts as the live simulator does', async () => {
+    const marketData = new Map([['AAPL', [
+      ...bars([100], '2024-01-02T13:00:00Z'), // pre-market
+      ...bars([100, 120, 121], '2024-01-02T14:30:00Z')
+    ]]]);
+    const runner = new BacktestRunner(marketData, { ...config, marketHours: true }, {}, [
+      { at: '2024-01-02T13:00:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10 },
+      { at: '2024-01-02T14:31:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10, timeInForce: 'IOC' }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.orders.map(o => o.status)).toEqual(['REJECTED', 'REJECTED']);
+    expect(result.orders[0].rejectReason).toMatch(/pre-market/);
+    expect(result.orders[1].rejectReason).toMatch(/halted/i);
+    expect(result.fills).toEqual([]);
+  });
+
+  it('should trade the bundled market data with the default config', async () => {
+    const marketData = loadMarketBars(path.resolve(__dirname, '../../../../../infra/data'));
+    const runner = new BacktestRunner(marketData, { symbols: ['AAPL'] }, {}, [
+      { at: '2024-01-02T09:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 100 },
+      { at: '2024-01-02T09:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'STOP', quantity: 100, stopPrice: 186, timeInForce: 'GTC' }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.barsProcessed).toBe(10);
+    expect(result.orders.map(o => o.status)).toEqual(['FILLED', 'FILLED']);
+    expect(result.orders[1].triggeredAt).toBeDefined();
+    expect(result.fills).toHaveLength(2);
+  });
+
+  it('should trigger a stop once the close crosses it', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 99, 97, 96])]]), config, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'MARKET', quantity: 10 },
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'SELL', type: 'STOP', quantity: 10, stopPrice: 97.5, timeInForce: 'GTC' }
+    ]);
+
+    const result = await runner.run();
+
+    const stop = result.orders[1];
+    expect(stop.status).toBe('FILLED');
+    expect(stop.triggeredAt).toBe('2024-01-02T14:32:00.000Z');
+    expect(stop.avgFillPrice).toBe(97);
+  });
+
+  it('should keep trailing stops on the tick grid when placed and as they ratchet', async () => {
+    const order = { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'SELL' as const, type: 'TRAILING_STOP' as const, quantity: 10, trailPercent: 1.5, timeInForce: 'GTC' as const };
+
+    // 1.5% below 101 is 99.485, rounded down to the cent
+    const placed = await new BacktestRunner(new Map([['AAPL', bars([101])]]), config, {}, [order]).run();
+    expect(placed.orders[0]).toMatchObject({ highWaterMark: 101, stopPrice: 99.48 });
+
+    // 1.5% below 103 is 101.455, so a close of 101.452 stays above the rounded stop
+    const ratcheted = await new BacktestRunner(new Map([['AAPL', bars([101, 103, 101.452])]]), config, {}, [order]).run();
+    expect(ratcheted.orders[0]).toMatchObject({ status: 'PENDING', highWaterMark: 103, stopPrice: 101.45 });
+  });
+
+  it('should reject orders it cannot process', async () => {
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100])]]), config, {}, [
+      { at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 10 }
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.orders[0].status).toBe('REJECTED');
+    expect(result.orders[0].rejectReason).toBe('Price is required for LIMIT and STOP_LIMIT orders');
+  });
+
+  it('should drive a strategy through onBar and onFill', async () => {
+    const fills: string[] = [];
+    const source = {
+      async onBar(symbol: string, bar: MarketBar, context: BacktestContext) {
+        const position = context.getPosition(symbol);
+        if (!position && bar.close < 100) {
+          await context.submitOrder({ symbol, side: 'BUY', type: 'MARKET', quantity: 5 });
+        } else if (position && position.quantity > 0 && bar.close > 100) {
+          await context.submitOrder({ symbol, side: 'SELL', type: 'MARKET', quantity: position.quantity });
+        }
+      },
+      onFill(fill: { side: string; price: number }) {
+        fills.push(`${fill.side}@${fill.price}`);
+      }
+    };
+
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 98, 99, 102, 101])]]), config, source);
+    const result = await runner.run();
+
+    expect(fills).toEqual(['BUY@98', 'SELL@102']);
+    expect(result.positions[0].realizedPnl).toBe(20);
+  });
+
+  it('should report order updates before the fill they describe, and call onStart/onStop once', async () => {
+    const events: string[] = [];
+    const source = {
+      onStart() {
+        events.push('start');
+      },
+      async onBar(symbol: string, bar: MarketBar, context: BacktestContext) {
+        if ((await context.getOpenOrders()).length === 0 && !context.getPosition(symbol)) {
+          await context.submitOrder({ symbol, side: 'BUY', type: 'STOP', stopPrice: 101, quantity: 5, timeInForce: 'GTC' });
+        }
+      },
+      onStop() {
+        events.push('stop');
+      },
+      onOrderUpdate(update: { type: string; status: string }) {
+        events.push(`${update.type}:${update.status}`);
+      },
+      onFill(fill: { price: number }) {
+        events.push(`fill@${fill.price}`);
+      }
+    };
+
+    const runner = new BacktestRunner(new Map([['AAPL', bars([100, 102, 103])]]), config, source);
+    await runner.run();
+
+    expect(events).toEqual(['start', 'TRIGGERED:PENDING', 'FILL:FILLED', 'fill@102', 'stop']);
+  });
+
+  it('should merge symbols by timestamp and respect the date window', async () => {
+    const seen: string[] = [];
+    const marketData = new Map([
+      ['MSFT', bars([300, 301, 302])],
+      ['AAPL', bars([100, 101, 102])]
+    ]);
+    const runner = new BacktestRunner(marketData, { ...config, startDate: '2024-01-02T14:31:00Z' }, {
+      onBar(symbol: string, bar: MarketBar) {
+        seen.push(`${bar.timestamp.slice(11, 16)} ${symbol}`);
+      }
+    });
+
+    const result = await runner.run();
+
+    expect(seen).toEqual(['14:31 AAPL', '14:31 MSFT', '14:32 AAPL', '14:32 MSFT']);
+    expect(result.equityCurve).toHaveLength(2);
+  });
+
+  it('should produce identical results for the same seed', async () => {
+    const run = (seed: number) => new BacktestRunner(
+      new Map([['AAPL', bars(Array.from({ length: 50 }, (_, i) => 100 + Math.sin(i) * 2))]]),
+      { ...config, seed, priceModel: 'MEAN_REVERTING', noiseSigma: 0.01 },
+      {},
+      [{ at: '2024-01-02T14:30:00Z', symbol: 'AAPL', side: 'BUY', type: 'LIMIT', quantity: 1000, price: 100, timeInForce: 'GTC' }]
+    ).run();
+
+    const [first, second, other] = await Promise.all([run(7), run(7), run(8)]);
+
+    expect(second.fills).toEqual(first.fills);
+    expect(second.equityCurve).toEqual(first.equityCurve);
+    expect(other.equityCurve).not.toEqual(first.equityCurve);
+  });
+
+  it('should replay a large bar set in seconds', async () => {
+    const closes = Array.from({ length: 20000 }, (_, i) => 100 + Math.sin(i / 50) * 5);
+    const runner = new BacktestRunner(new Map([['AAPL', bars(closes)]]), config, {
+      async onBar(symbol: string, bar: MarketBar, context: BacktestContext) {
+        const position = context.getPosition(symbol);
+        if (bar.close < 96 && !position?.quantity) {
+          await context.submitOrder({ symbol, side: 'BUY', type: 'MARKET', quantity: 10 });
+        } else if (bar.close > 104 && position?.quantity) {
+          await context.submitOrder({ symbol, side: 'SELL', type: 'MARKET', quantity: position.quantity });
+        }
+      }
+    });
+
+    const start = Date.now();
+    const result = await runner.run();
+
+    expect(result.barsProcessed).toBe(20000);
+    expect(result.fills.length).toBeGreaterThan(10);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
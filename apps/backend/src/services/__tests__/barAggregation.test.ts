@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import { aggregateBars, getIntervalStart } from '../barAggregation';
+
+// One bar a minute from 09:30, closing at 100, 101, 102, ...
+const bars = Array.from({ length: 12 }, (_, i) => ({
+  timestamp: new Date(Date.parse('2024-01-02T09:30:00Z') + i * 60000).toISOString(),
+  open: 100 + i - 0.5,
+  high: 100 + i + 1,
+  low: 100 + i - 1,
+  close: 100 + i,
+  volume: 10
+}));
+
+describe('Bar Aggregation', () => {
+  it('should align intervals to UTC boundaries', () => {
+    expect(new Date(getIntervalStart('2024-01-02T09:33:20Z', '5m')).toISOString()).toBe('2024-01-02T09:30:00.000Z');
+    expect(new Date(getIntervalStart('2024-01-02T09:33:20Z', '1h')).toISOString()).toBe('2024-01-02T09:00:00.000Z');
+    expect(new Date(getIntervalStart('2024-01-02T20:59:00Z', '1d')).toISOString()).toBe('2024-01-02T00:00:00.000Z');
+  });
+
+  it('should roll minute bars up into OHLCV candles', () => {
+    expect(aggregateBars(bars, '5m')).toEqual([
+      { timestamp: '2024-01-02T09:30:00.000Z', open: 99.5, high: 105, low: 99, close: 104, volume: 50, partial: false },
+      { timestamp: '2024-01-02T09:35:00.000Z', open: 104.5, high: 110, low: 104, close: 109, volume: 50, partial: false },
+      { timestamp: '2024-01-02T09:40:00.000Z', open: 109.5, high: 112, low: 109, close: 111, volume: 20, partial: false }
+    ]);
+    expect(aggregateBars(bars, '1m')).toHaveLength(12);
+  });
+
+  it('should mark the candle the latest bar falls in as partial until its last minute', () => {
+    expect(aggregateBars(bars, '5m', bars[11].timestamp).map(c => c.partial)).toEqual([false, false, true]);
+    expect(aggregateBars(bars.slice(0, 10), '5m', bars[9].timestamp).map(c => c.partial)).toEqual([false, false]);
+    expect(aggregateBars(bars, '1m', bars[11].timestamp).some(c => c.partial)).toBe(false);
+  });
+});
@@ -0,0 +1,500 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ExecutionSimulator, toPendingOrder } from '../executionSimulator';
+import { VirtualClock } from '../simulationClock';
+import { MarketBar } from '../marketData';
+import { PrismaSimulatorStore } from '../simulatorStore';
+import { createMemoryPrisma } from './helpers/memoryPrisma';
+
+// A Tuesday in the regular session, so nothing waits on the calendar
+const START = new Date('2024-01-02T15:00:00Z');
+
+// Raw bars with no spread, slippage or impact, so fill prices are easy to reason about
+const BASE_CONFIG = {
+  seed: 1,
+  priceModel: 'RAW' as const,
+  playbackSpeedMs: 1000,
+  bidAskSpreadBps: 0,
+  slippageBps: 0,
+  impactBps: 0,
+  maxPartialFillPct: 1,
+  participationRate: 1,
+  queueAheadPct: 0.25,
+  latencyMs: 0,
+  marketHours: false
+};
+
+type BarSpec = Partial<MarketBar> & { close: number };
+
+function toBars(specs: BarSpec[]): MarketBar[] {
+  return specs.map((spec, i) => ({
+    timestamp: new Date(Date.parse('2024-01-02T14:30:00Z') + i * 60000).toISOString(),
+    open: spec.close,
+    high: spec.close,
+    low: spec.close,
+    volume: 1000,
+    ...spec
+  }));
+}
+
+interface Harness {
+  clock: VirtualClock;
+  prisma: PrismaClient;
+  simulator: ExecutionSimulator;
+  submit(order: Record<string, any>): Promise<string>;
+  nextBar(): Promise<MarketBar>;
+  fills(orderId: string): Promise<Array<{ quantity: number; price: number }>>;
+}
+
+const dataDirs: string[] = [];
+
+interface HarnessOptions {
+  config?: Record<string, any>;
+  referencePrice?: number; // gives AAPL price bands
+  beforeInitialize?: (prisma: PrismaClient) => Promise<void>; // rows already in the database when the simulator starts up
+}
+
+/**
+ * A simulator on a virtual clock and an in-memory database, replaying the
+ * given AAPL bars from a data directory of its own
+ */
+async function createHarness(bars: BarSpec[], { config = {}, referencePrice, beforeInitialize }: HarnessOptions = {}): Promise<Harness> {
+  const clock = new VirtualClock(START);
+  const prisma = createMemoryPrisma({ now: () => clock.now() });
+
+  await prisma.account.create({
+    data: { id: 'acc1', name: 'Test', email: 'test@example.com', balance: 1000000, buyingPower: 1000000 }
+  });
+  await prisma.instrument.create({
+    data: { id: 'inst-aapl', symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', price: bars[0].close, previousClose: bars[0].close, referencePrice }
+  });
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulator-test-'));
+  dataDirs.push(dataDir);
+  const csv = ['timestamp,open,high,low,close,volume', ...toBars(bars).map(bar =>
+    [bar.timestamp, bar.open, bar.high, bar.low, bar.close, bar.volume].join(',')
+  )].join('\n');
+  fs.writeFileSync(path.join(dataDir, 'AAPL_minute_bars.csv'), csv);
+
+  await beforeInitialize?.(prisma);
+
+  const simulator = new ExecutionSimulator(new PrismaSimulatorStore(prisma), { ...BASE_CONFIG, ...config, clock, dataDir });
+  await simulator.initialize();
+
+  return {
+    clock,
+    prisma,
+    simulator,
+    async submit(order) {
+      const row = await prisma.order.create({
+        data: { accountId: 'acc1', instrumentId: 'inst-aapl', timeInForce: 'GTC', ...order } as any
+      });
+      await simulator.addPendingOrder(toPendingOrder(row));
+      return row.id;
+    },
+    // Advance virtual time until the replay has moved AAPL onto its next bar
+    async nextBar() {
+      const before = simulator.getCurrentPrices().get('AAPL')!.timestamp;
+      for (let i = 0; i < 100 && simulator.getCurrentPrices().get('AAPL')!.timestamp === before; i++) {
+        await clock.advance(50);
+      }
+      return simulator.getCurrentPrices().get('AAPL')!;
+    },
+    async fills(orderId) {
+      const fills = await prisma.fill.findMany({ where: { orderId }, orderBy: { executedAt: 'asc' } });
+      return fills.map(fill => ({ quantity: fill.quantity, price: parseFloat(fill.price.toString()) }));
+    }
+  };
+}
+
+describe('Execution Simulator', () => {
+  let harness: Harness | undefined;
+
+  beforeAll(() => {
+    // Every tick and fill is logged
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await harness?.simulator.stopSimulation();
+    harness = undefined;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    for (const dataDir of dataDirs) {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('order entry latency', () => {
+    it('should keep an order off the book until its latency has passed', async () => {
+      harness = await createHarness([{ close: 100 }], { config: { latencyMs: 500 } });
+      const { clock, simulator, submit } = harness;
+
+      const orderId = await submit({ type: 'LIMIT', side: 'BUY', quantity: 100, price: 99 });
+      await clock.advance(499);
+
+      expect(simulator.getPendingOrders()).toEqual([]);
+      expect(simulator.getDepthSnapshot('AAPL').bids).toEqual([]);
+
+      await clock.advance(1);
+
+      const [entry] = simulator.getPendingOrders();
+      expect(entry.orderId).toBe(orderId);
+      // Time priority runs from arrival, not acceptance
+      expect(entry.createdAt).toEqual(new Date(START.getTime() + 500));
+      expect(simulator.getDepthSnapshot('AAPL').bids).toEqual([{ price: 99, size: 100, orderCount: 1 }]);
+    });
+
+    it('should fill a market order at the price when it arrives, not when it was sent', async () => {
+      harness = await createHarness([{ close: 100 }, { close: 101 }, { close: 102 }, { close: 103 }, { close: 104 }, { close: 105 }], { config: { latencyMs: 3000 } });
+      const { clock, simulator, submit, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'MARKET', side: 'BUY', quantity: 100 });
+      await clock.advance(2999);
+
+      expect(await fills(orderId)).toEqual([]);
+
+      await clock.advance(1);
+
+      const arrivalPrice = simulator.getCurrentPrices().get('AAPL')!.close;
+      expect(arrivalPrice).toBeGreaterThan(100);
+      expect(await fills(orderId)).toEqual([{ quantity: 100, price: arrivalPrice }]);
+    });
+
+    it('should stop an order cancelled in transit from ever arriving', async () => {
+      harness = await createHarness([{ close: 100 }], { config: { latencyMs: 500 } });
+      const { clock, prisma, simulator, submit } = harness;
+
+      const orderId = await submit({ type: 'MARKET', side: 'BUY', quantity: 100 });
+      expect(await simulator.cancelOrder(orderId)).toEqual({ cancelled: true });
+
+      await clock.advance(1000);
+
+      expect(simulator.getPendingOrders()).toEqual([]);
+      expect(await prisma.fill.count({ where: { orderId } })).toBe(0);
+      expect((await prisma.order.findUnique({ where: { id: orderId } }))!.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('queue position', () => {
+    // The limit rests at the bar's low: at the touch, but never traded through
+    const touchBars: BarSpec[] = Array.from({ length: 6 }, () => ({ open: 100, high: 100.5, low: 99, close: 100, volume: 1000 }));
+
+    it('should only fill a limit at the touch once the volume queued ahead of it has traded', async () => {
+      // 750 shares join ahead of the order, and each bar trades 500 passively at the touch
+      harness = await createHarness(touchBars, { config: { queueAheadPct: 0.75 } });
+      const { simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'LIMIT', side: 'BUY', quantity: 1000, price: 99 });
+
+      await nextBar();
+      expect(await fills(orderId)).toEqual([]);
+
+      await nextBar();
+      const [first] = await fills(orderId);
+      expect(first.price).toBe(99);
+      expect(first.quantity).toBeLessThanOrEqual(250);
+    });
+
+    it('should keep filling a limit on consecutive bars, with no cooldown between fills', async () => {
+      harness = await createHarness(touchBars, { config: { queueAheadPct: 0 } });
+      const { clock, simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'LIMIT', side: 'BUY', quantity: 1000, price: 99 });
+      const submittedAt = clock.now().getTime();
+
+      await nextBar();
+      await nextBar();
+
+      // Both bars came well inside the 5 seconds the old cooldown waited between fills
+      expect(clock.now().getTime() - submittedAt).toBeLessThan(5000);
+      expect((await fills(orderId)).length).toBe(2);
+    });
+  });
+
+  describe('volume and market impact', () => {
+    it('should cap market fills at the participation rate and carry the rest over to later bars', async () => {
+      harness = await createHarness([{ close: 100 }, { close: 101 }, { close: 102 }, { close: 103 }], { config: { participationRate: 0.1 } });
+      const { prisma, simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'MARKET', side: 'BUY', quantity: 250 });
+      expect(await fills(orderId)).toEqual([{ quantity: 100, price: 100 }]);
+
+      await nextBar();
+      await nextBar();
+
+      expect(await fills(orderId)).toEqual([
+        { quantity: 100, price: 100 },
+        { quantity: 100, price: 101 },
+        { quantity: 50, price: 102 }
+      ]);
+      expect((await prisma.order.findUnique({ where: { id: orderId } }))!.status).toBe('FILLED');
+      expect(simulator.getPendingOrders()).toEqual([]);
+    });
+
+    it('should move market fill prices against the order with the square root of its share of volume', async () => {
+      harness = await createHarness([{ close: 100, volume: 10000 }], { config: { impactBps: 100 } });
+      const { submit, fills } = harness;
+
+      const buyId = await submit({ type: 'MARKET', side: 'BUY', quantity: 100 });
+      const sellId = await submit({ type: 'MARKET', side: 'SELL', quantity: 2500 });
+
+      // 100 bps * sqrt(0.01) and * sqrt(0.25), rounded away from the order onto the cent
+      expect(await fills(buyId)).toEqual([{ quantity: 100, price: 100.1 }]);
+      expect(await fills(sellId)).toEqual([{ quantity: 2500, price: 99.5 }]);
+    });
+  });
+
+  describe('intrabar fills', () => {
+    it('should fill a limit the bar traded through even when the bar closed beyond it', async () => {
+      harness = await createHarness([{ close: 100 }, { open: 100, high: 101, low: 99, close: 100.5 }]);
+      const { prisma, simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'LIMIT', side: 'BUY', quantity: 100, price: 99.5 });
+      await nextBar();
+
+      const [fill] = await fills(orderId);
+      expect(fill.price).toBe(99.5);
+
+      const event = await prisma.orderEvent.findFirst({ where: { orderId, type: { in: ['FILLED', 'PARTIALLY_FILLED'] } } });
+      expect((event!.payload as any).fillModel).toBe('CONSERVATIVE');
+    });
+
+    it('should trigger a stop on the bar low and fill it at the stop price', async () => {
+      harness = await createHarness([{ close: 100 }, { open: 100, high: 100.5, low: 98, close: 100 }]);
+      const { prisma, simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      const orderId = await submit({ type: 'STOP', side: 'SELL', quantity: 100, stopPrice: 99 });
+      await nextBar();
+
+      expect((await prisma.order.findUnique({ where: { id: orderId } }))!.triggeredAt).toBeTruthy();
+      expect(await fills(orderId)).toEqual([{ quantity: 100, price: 99 }]);
+    });
+  });
+
+  describe('trading halts', () => {
+    it('should halt on a band breach, hold orders while halted and resume at the new price', async () => {
+      harness = await createHarness(
+        [{ close: 100 }, { close: 110 }, { close: 111 }],
+        { config: { luldBandPct: 0.05, haltDurationMs: 60000 }, referencePrice: 100 }
+      );
+      const { clock, prisma, simulator, submit, nextBar, fills } = harness;
+      await simulator.startSimulation();
+
+      await nextBar();
+      expect(simulator.getHalts()).toMatchObject([{ symbol: 'AAPL', reason: 'LIMIT_UP', price: 110 }]);
+
+      // The order waits on the book and the replay stays on the breaching bar
+      const orderId = await submit({ type: 'MARKET', side: 'BUY', quantity: 100 });
+      await clock.advance(30000);
+      expect(await fills(orderId)).toEqual([]);
+      expect(simulator.getCurrentPrices().get('AAPL')!.close).toBe(110);
+
+      await clock.advance(30000);
+
+      expect(simulator.getHalts()).toEqual([]);
+      expect(await fills(orderId)).toEqual([{ quantity: 100, price: 110 }]);
+      const instrument = await prisma.instrument.findUnique({ where: { id: 'inst-aapl' } });
+      expect(parseFloat(instrument!.referencePrice!.toString())).toBe(110);
+    });
+  });
+
+  describe('data directory', () => {
+    it('should load a new bar file once it has settled on the simulation clock', async () => {
+      harness = await createHarness([{ close: 100 }]);
+      const { clock, simulator } = harness;
+
+      const dataDir = dataDirs[dataDirs.length - 1];
+      fs.writeFileSync(path.join(dataDir, 'MSFT_minute_bars.csv'), [
+        'timestamp,open,high,low,close,volume',
+        '2024-01-02T14:30:00Z,370,371,369,370.5,1000'
+      ].join('\n'));
+
+      // The watcher is the only thing that runs on real time
+      for (let i = 0; i < 100 && simulator['dataFileTimers'].size === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      expect(simulator['dataFileTimers'].size).toBe(1);
+      expect(simulator.getCurrentPrices().has('MSFT')).toBe(false);
+
+      await clock.advance(1000);
+
+      expect(simulator.getCurrentPrices().get('MSFT')).toMatchObject({ close: 370.5 });
+    });
+  });
+
+  describe('expiry', () => {
+    it('should leave an order that closed before it could expire as it was', async () => {
+      const orderUpdate = jest.fn();
+      const broadcaster = {
+        priceUpdate: jest.fn(), orderUpdate, fillUpdate: jest.fn(), positionUpdate: jest.fn(), accountUpdate: jest.fn(),
+        depthUpdate: jest.fn(), marketSession: jest.fn(), auctionUpdate: jest.fn(), tradingStatus: jest.fn()
+      };
+      harness = await createHarness([{ close: 100 }], { config: { broadcaster } });
+      const { prisma, simulator, submit } = harness;
+
+      const orderId = await submit({ type: 'LIMIT', side: 'BUY', quantity: 100, price: 99, timeInForce: 'DAY' });
+      const [entry] = simulator.getPendingOrders();
+
+      // A cancel that landed behind the simulator's back
+      await prisma.order.update({ where: { id: orderId }, data: { status: 'CANCELLED' } });
+      await simulator['expireOrder'](entry, 'DAY order expired at session close');
+
+      expect((await prisma.order.findUnique({ where: { id: orderId } }))!.status).toBe('CANCELLED');
+      expect(await prisma.orderEvent.findMany({ where: { orderId, type: 'EXPIRED' } })).toEqual([]);
+      expect(orderUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restart', () => {
+    const order = (data: Record<string, any>) => ({ accountId: 'acc1', instrumentId: 'inst-aapl', timeInForce: 'GTC', ...data } as any);
+    const fill = (orderId: string, side: 'BUY' | 'SELL', quantity: number, price: number) => ({
+      orderId, accountId: 'acc1', instrumentId: 'inst-aapl', side, quantity, price
+    });
+
+    it('should put PENDING and PARTIALLY_FILLED orders back on the book with what they have left', async () => {
+      harness = await createHarness([{ close: 100 }], {
+        beforeInitialize: async (prisma) => {
+          await prisma.order.create({ data: order({ id: 'pending', type: 'LIMIT', side: 'BUY', quantity: 100, price: 99 }) });
+          await prisma.order.create({ data: order({ id: 'partial', type: 'LIMIT', side: 'SELL', quantity: 100, price: 101, status: 'PARTIALLY_FILLED' }) });
+          await prisma.fill.create({ data: fill('partial', 'SELL', 30, 101) });
+          await prisma.fill.create({ data: fill('partial', 'SELL', 20, 101) });
+          await prisma.order.create({ data: order({ id: 'filled', type: 'LIMIT', side: 'BUY', quantity: 10, price: 99, status: 'FILLED' }) });
+          await prisma.order.create({ data: order({ id: 'cancelled', type: 'LIMIT', side: 'BUY', quantity: 10, price: 99, status: 'CANCELLED' }) });
+        }
+      });
+      const { simulator } = harness;
+
+      expect(simulator.getPendingOrders().map(o => [o.orderId, o.remainingQuantity])).toEqual([['pending', 100], ['partial', 50]]);
+      expect(simulator.getDepthSnapshot('AAPL')).toMatchObject({
+        bids: [{ price: 99, size: 100, orderCount: 1 }],
+        asks: [{ price: 101, size: 50, orderCount: 1 }]
+      });
+      expect((await simulator.checkConsistency()).consistent).toBe(true);
+    });
+
+    it('should keep HELD bracket exits off the book until their entry fills', async () => {
+      harness = await createHarness([{ close: 100 }, { close: 100 }, { close: 98 }], {
+        beforeInitialize: async (prisma) => {
+          await prisma.orderGroup.create({ data: { id: 'bracket', accountId: 'acc1', type: 'BRACKET' } });
+          await prisma.order.create({ data: order({ id: 'entry', type: 'LIMIT', side: 'BUY', quantity: 100, price: 99, groupId: 'bracket', groupRole: 'ENTRY' }) });
+          await prisma.order.create({ data: order({ id: 'take-profit', type: 'LIMIT', side: 'SELL', quantity: 100, price: 110, status: 'HELD', groupId: 'bracket', groupRole: 'TAKE_PROFIT' }) });
+        }
+      });
+      const { prisma, simulator, nextBar } = harness;
+
+      expect(simulator.getPendingOrders().map(o => o.orderId)).toEqual(['entry']);
+      expect((await prisma.order.findUnique({ where: { id: 'take-profit' } }))!.status).toBe('HELD');
+
+      await simulator.startSimulation();
+      while ((await prisma.order.findUnique({ where: { id: 'entry' } }))!.status !== 'FILLED') {
+        await nextBar();
+      }
+
+      expect((await prisma.order.findUnique({ where: { id: 'take-profit' } }))!.status).toBe('PENDING');
+      expect(simulator.getPendingOrders().map(o => o.orderId)).toEqual(['take-profit']);
+    });
+
+    it('should settle the exits of a bracket entry that finished while the server was down', async () => {
+      harness = await createHarness([{ close: 100 }], {
+        beforeInitialize: async (prisma) => {
+          await prisma.orderGroup.create({ data: { id: 'filled-bracket', accountId: 'acc1', type: 'BRACKET' } });
+          await prisma.order.create({ data: order({ id: 'filled-entry', type: 'LIMIT', side: 'BUY', quantity: 50, price: 99, status: 'FILLED', groupId: 'filled-bracket', groupRole: 'ENTRY' }) });
+          await prisma.fill.create({ data: fill('filled-entry', 'BUY', 50, 99) });
+          await prisma.order.create({ data: order({ id: 'released', type: 'LIMIT', side: 'SELL', quantity: 50, price: 110, status: 'HELD', groupId: 'filled-bracket', groupRole: 'TAKE_PROFIT' }) });
+
+          await prisma.orderGroup.create({ data: { id: 'cancelled-bracket', accountId: 'acc1', type: 'BRACKET' } });
+          await prisma.order.create({ data: order({ id: 'cancelled-entry', type: 'LIMIT', side: 'BUY', quantity: 50, price: 99, status: 'CANCELLED', groupId: 'cancelled-bracket', groupRole: 'ENTRY' }) });
+          await prisma.order.create({ data: order({ id: 'orphaned', type: 'LIMIT', side: 'SELL', quantity: 50, price: 110, status: 'HELD', groupId: 'cancelled-bracket', groupRole: 'TAKE_PROFIT' }) });
+        }
+      });
+      const { prisma, simulator } = harness;
+
+      expect(simulator.getPendingOrders().map(o => [o.orderId, o.remainingQuantity])).toEqual([['released', 50]]);
+      expect((await prisma.order.findUnique({ where: { id: 'released' } }))!.status).toBe('PENDING');
+      expect((await prisma.order.findUnique({ where: { id: 'orphaned' } }))!.status).toBe('CANCELLED');
+      expect((await prisma.orderGroup.findUnique({ where: { id: 'cancelled-bracket' } }))!.status).toBe('CANCELLED');
+    });
+
+    it('should report open orders missing from the book, orders no longer open and quantities that disagree', async () => {
+      harness = await createHarness([{ close: 100 }], {
+        beforeInitialize: async (prisma) => {
+          await prisma.order.create({ data: order({ id: 'resting', type: 'LIMIT', side: 'BUY', quantity: 100, price: 99 }) });
+          await prisma.order.create({ data: order({ id: 'closed', type: 'LIMIT', side: 'BUY', quantity: 100, price: 98 }) });
+        }
+      });
+      const { prisma, simulator } = harness;
+
+      // Changes made behind the simulator's back
+      await prisma.order.create({ data: order({ id: 'unbooked', type: 'LIMIT', side: 'SELL', quantity: 100, price: 101 }) });
+      await prisma.order.update({ where: { id: 'closed' }, data: { status: 'CANCELLED' } });
+      await prisma.fill.create({ data: fill('resting', 'BUY', 40, 99) });
+
+      expect(await simulator.checkConsistency()).toMatchObject({
+        consistent: false,
+        bookSize: 2,
+        openOrderCount: 2,
+        missingFromBook: ['unbooked'],
+        staleOnBook: [{ orderId: 'closed', status: 'CANCELLED' }],
+        quantityMismatches: [{ orderId: 'resting', bookRemainingQuantity: 100, dbRemainingQuantity: 60 }]
+      });
+    });
+  });
+
+  describe('candles', () => {
+    it('should build history and the forming candle from the bars as they were broadcast', async () => {
+      harness = await createHarness([100, 101, 102, 103, 104, 105, 106].map(close => ({ close })), {
+        config: { priceModel: 'BOUNDED_NOISE', noiseSigma: 0.01, meanReversion: 0.5 }
+      });
+      const { simulator, nextBar } = harness;
+
+      const broadcast = [simulator.getCurrentPrices().get('AAPL')!];
+      await simulator.startSimulation();
+      for (let i = 0; i < 6; i++) {
+        broadcast.push(await nextBar());
+      }
+
+      // The price model moved every replayed bar off the data
+      expect(broadcast.slice(1).some((bar, i) => bar.close !== 101 + i)).toBe(true);
+
+      const minutes = await simulator.getCandles('AAPL', '1m');
+      expect(minutes.map(candle => [candle.timestamp, candle.close])).toEqual(broadcast.map(bar => [bar.timestamp, bar.close]));
+
+      const fiveMinutes = await simulator.getCandles('AAPL', '5m');
+      expect(fiveMinutes).toHaveLength(2);
+      expect(fiveMinutes[0]).toMatchObject({ close: broadcast[4].close, partial: false });
+      expect(fiveMinutes[1]).toMatchObject({ open: broadcast[5].open, close: broadcast[6].close, partial: true });
+    });
+
+    it('should only read the intervals a limit asks for', async () => {
+      harness = await createHarness([100, 101, 102, 103].map(close => ({ close })));
+      const { prisma, simulator, nextBar } = harness;
+
+      await simulator.startSimulation();
+      for (let i = 0; i < 3; i++) {
+        await nextBar();
+      }
+      const findMany = jest.spyOn(prisma.marketData, 'findMany');
+
+      const candles = await simulator.getCandles('AAPL', '1m', { limit: 2 });
+
+      expect(candles.map(candle => candle.close)).toEqual([102, 103]);
+      expect(findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          timestamp: { gte: new Date('2024-01-02T14:32:00Z'), lte: new Date('2024-01-02T14:33:00Z') }
+        })
+      }));
+    });
+  });
+});
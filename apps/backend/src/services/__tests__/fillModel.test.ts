@@ -0,0 +1,127 @@
+import { describe, it, expect } from '@jest/globals';
+import { getIntrabarPath, getIntrabarLimitFillPrice, getStopTriggerPrice, walkTrailingStop, getMarketFillPrice, getParticipationCapacity, applyMarketImpact, calculateQuote, roundToTick, isLimitAtTouch, joinQueue, advanceQueue, FillModel } from '../fillModel';
+
+// Opens at 100, trades up to 104 and down to 96, closes at 101
+const bar = { timestamp: '2024-01-02T14:30:00Z', open: 100, high: 104, low: 96, close: 101, volume: 1000 };
+const noSpread = { bidAskSpreadBps: 0, slippageBps: 0 };
+const withModel = (fillModel: FillModel) => ({ ...noSpread, fillModel });
+
+describe('Fill Model', () => {
+  it('should visit the adverse extreme first on the conservative path', () => {
+    expect(getIntrabarPath('BUY', bar, 'CONSERVATIVE')).toEqual([100, 104, 96, 101]);
+    expect(getIntrabarPath('SELL', bar, 'CONSERVATIVE')).toEqual([100, 96, 104, 101]);
+    expect(getIntrabarPath('BUY', bar, 'OPTIMISTIC')).toEqual([100, 96, 104, 101]);
+    expect(getIntrabarPath('BUY', bar, 'CLOSE')).toEqual([101]);
+  });
+
+  it('should fill a buy limit the bar traded through even though the close is above it', () => {
+    expect(getIntrabarLimitFillPrice('BUY', 98, bar, withModel('CLOSE'))).toBeNull();
+    expect(getIntrabarLimitFillPrice('BUY', 98, bar, withModel('CONSERVATIVE'))).toBe(98);
+    expect(getIntrabarLimitFillPrice('SELL', 103, bar, withModel('OPTIMISTIC'))).toBe(103);
+    expect(getIntrabarLimitFillPrice('BUY', 95, bar, withModel('OPTIMISTIC'))).toBeNull();
+  });
+
+  it('should only fill on a touch of the low with the optimistic model', () => {
+    expect(getIntrabarLimitFillPrice('BUY', 96, bar, withModel('CONSERVATIVE'))).toBeNull();
+    expect(getIntrabarLimitFillPrice('BUY', 96, bar, withModel('OPTIMISTIC'))).toBe(96);
+  });
+
+  it('should fill at the opening quote when the bar gaps through the limit', () => {
+    expect(getIntrabarLimitFillPrice('BUY', 102, bar, withModel('CONSERVATIVE'))).toBe(100);
+    expect(getIntrabarLimitFillPrice('BUY', 102, bar, { ...withModel('CONSERVATIVE'), bidAskSpreadBps: 100 })).toBeCloseTo(100.5);
+  });
+
+  it('should trigger stops at the stop price, or the open on a gap', () => {
+    expect(getStopTriggerPrice('BUY', 103, bar, 'CLOSE')).toBeNull();
+    expect(getStopTriggerPrice('BUY', 103, bar, 'CONSERVATIVE')).toBe(103);
+    expect(getStopTriggerPrice('SELL', 97, bar, 'OPTIMISTIC')).toBe(97);
+    expect(getStopTriggerPrice('SELL', 102, bar, 'CONSERVATIVE')).toBe(100);
+    expect(getStopTriggerPrice('SELL', 95, bar, 'CONSERVATIVE')).toBeNull();
+  });
+
+  it('should quote a market fill at a price inside the bar', () => {
+    expect(getMarketFillPrice('BUY', bar, { bidAskSpreadBps: 100, slippageBps: 0 }, 103)).toBeCloseTo(103.515);
+  });
+
+  it('should round prices onto the tick grid in the direction asked', () => {
+    expect(roundToTick(185.123, 0.01)).toBe(185.12);
+    expect(roundToTick(185.121, 0.01, 'UP')).toBe(185.13);
+    expect(roundToTick(185.129, 0.01, 'DOWN')).toBe(185.12);
+    expect(roundToTick(185.1, 0.01, 'UP')).toBe(185.1);
+    expect(roundToTick(101.3, 0.25, 'DOWN')).toBe(101.25);
+    expect(roundToTick(185.123, undefined)).toBe(185.123);
+  });
+
+  it('should widen the quote and market fills out to the tick grid', () => {
+    const onCents = { bidAskSpreadBps: 10, slippageBps: 0, tickSize: 0.01 };
+
+    expect(calculateQuote(101, onCents)).toEqual({ bid: 100.94, ask: 101.06 });
+    expect(getMarketFillPrice('BUY', bar, { bidAskSpreadBps: 100, slippageBps: 0, tickSize: 0.01 }, 103)).toBe(103.52);
+    expect(getMarketFillPrice('SELL', bar, { bidAskSpreadBps: 100, slippageBps: 0, tickSize: 0.01 }, 103)).toBe(102.48);
+  });
+
+  it('should cap participation at a fraction of the bar volume', () => {
+    expect(getParticipationCapacity(bar, { participationRate: 0.1, impactBps: 0 })).toBe(100);
+    expect(getParticipationCapacity({ ...bar, volume: 15 }, { participationRate: 0.1, impactBps: 0 })).toBe(1);
+  });
+
+  it('should grow market impact with the square root of size over volume', () => {
+    const liquidity = { participationRate: 1, impactBps: 100 };
+
+    expect(applyMarketImpact('BUY', 100, 10, 1000, liquidity)).toBeCloseTo(100.1);
+    expect(applyMarketImpact('BUY', 100, 40, 1000, liquidity)).toBeCloseTo(100.2);
+    expect(applyMarketImpact('SELL', 100, 1000, 1000, liquidity)).toBeCloseTo(99);
+    expect(applyMarketImpact('SELL', 100, 10, 0, liquidity)).toBe(100);
+  });
+
+  it('should treat a limit between the bid and the ask as at the touch', () => {
+    const spread = { ...withModel('CLOSE'), bidAskSpreadBps: 100 }; // 100.495 / 101.505 around the close
+
+    expect(isLimitAtTouch('BUY', 100.5, bar, spread)).toBe(true);
+    expect(isLimitAtTouch('BUY', 100.4, bar, spread)).toBe(false);
+    expect(isLimitAtTouch('SELL', 101.5, bar, spread)).toBe(true);
+    expect(isLimitAtTouch('BUY', 96, bar, withModel('CONSERVATIVE'))).toBe(true);
+  });
+
+  it('should only leave bar volume for an order once the queue ahead of it has traded', () => {
+    const joined = joinQueue(bar, { queueAheadPct: 0.8 });
+    expect(joined).toEqual({ ahead: 800, barTimestamp: bar.timestamp, available: 0 });
+
+    // The bar the order joined on never counts
+    expect(advanceQueue(joined, bar)).toBe(joined);
+
+    // Half of each bar's volume trades against the order's side
+    const next = { ...bar, timestamp: '2024-01-02T14:31:00Z' };
+    const first = advanceQueue(joined, next);
+    expect(first).toEqual({ ahead: 300, barTimestamp: next.timestamp, available: 0 });
+
+    const last = { ...bar, timestamp: '2024-01-02T14:32:00Z' };
+    expect(advanceQueue(first, last)).toEqual({ ahead: 0, barTimestamp: last.timestamp, available: 200 });
+  });
+
+  it('should let the path decide whether a trailing stop ratchets before it triggers', () => {
+    const current = { highWaterMark: 100, stopPrice: 97 };
+    const offset = { trailAmount: 3 };
+
+    // Low first: the stop at 97 is hit before the high can ratchet it
+    const conservative = walkTrailingStop('SELL', current, bar, offset, 'CONSERVATIVE');
+    expect(conservative).toEqual({ state: current, ratcheted: false, triggerPrice: 97 });
+
+    // High first: the stop ratchets to 101 and is then hit on the way down
+    const optimistic = walkTrailingStop('SELL', current, bar, offset, 'OPTIMISTIC');
+    expect(optimistic).toEqual({ state: { highWaterMark: 104, stopPrice: 101 }, ratcheted: true, triggerPrice: 101 });
+
+    // Close only: ratchets to the close, no trigger
+    expect(walkTrailingStop('SELL', current, bar, offset, 'CLOSE')).toEqual({
+      state: { highWaterMark: 101, stopPrice: 98 }, ratcheted: true, triggerPrice: null
+    });
+  });
+
+  it('should round a ratcheted trailing stop to the tick away from the market', () => {
+    const offset = { trailPercent: 1.5 };
+
+    // 1.5% off 101 is 99.485 for a sell and 102.515 for a buy
+    expect(walkTrailingStop('SELL', undefined, bar, offset, 'CLOSE', 0.01).state).toEqual({ highWaterMark: 101, stopPrice: 99.48 });
+    expect(walkTrailingStop('BUY', undefined, bar, offset, 'CLOSE', 0.01).state).toEqual({ highWaterMark: 101, stopPrice: 102.52 });
+  });
+});
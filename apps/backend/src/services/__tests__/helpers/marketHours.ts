@@ -0,0 +1,13 @@
+import { beforeAll } from '@jest/globals';
+import { getSimulatorInstance } from '../../simulatorInstance';
+
+/**
+ * Have the shared simulator trade around the clock for a suite, so order
+ * acceptance doesn't depend on the time of day the suite runs. The setting
+ * isn't saved, so it goes no further than the suite's own process.
+ */
+export function tradeAroundTheClock(): void {
+  beforeAll(async () => {
+    await getSimulatorInstance().updateConfig({ marketHours: false }, { persist: false });
+  });
+}
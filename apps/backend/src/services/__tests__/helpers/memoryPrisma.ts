@@ -0,0 +1,304 @@
+import { PrismaClient } from '@prisma/client';
+
+type Row = Record<string, any>;
+type Undo = () => void;
+
+interface Relation {
+  model: string;
+  field: string; // on this model's rows for a to-one relation, on the related rows for a to-many one
+  many?: boolean;
+}
+
+// The relations the simulator reads or filters through
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  account: {
+    orders: { model: 'order', field: 'accountId', many: true },
+    positions: { model: 'position', field: 'accountId', many: true },
+    fills: { model: 'fill', field: 'accountId', many: true }
+  },
+  instrument: {
+    orders: { model: 'order', field: 'instrumentId', many: true },
+    marketData: { model: 'marketData', field: 'instrumentId', many: true }
+  },
+  order: {
+    account: { model: 'account', field: 'accountId' },
+    instrument: { model: 'instrument', field: 'instrumentId' },
+    group: { model: 'orderGroup', field: 'groupId' },
+    fills: { model: 'fill', field: 'orderId', many: true },
+    orderEvents: { model: 'orderEvent', field: 'orderId', many: true }
+  },
+  orderGroup: {
+    orders: { model: 'order', field: 'groupId', many: true }
+  },
+  orderEvent: {
+    order: { model: 'order', field: 'orderId' },
+    instrument: { model: 'instrument', field: 'instrumentId' }
+  },
+  fill: {
+    order: { model: 'order', field: 'orderId' },
+    instrument: { model: 'instrument', field: 'instrumentId' }
+  },
+  position: {
+    account: { model: 'account', field: 'accountId' },
+    instrument: { model: 'instrument', field: 'instrumentId' }
+  },
+  marketData: {
+    instrument: { model: 'instrument', field: 'instrumentId' }
+  },
+  simulatorState: {}
+};
+
+// Column defaults the schema fills in, other than ids and timestamps
+const DEFAULTS: Record<string, Row> = {
+  instrument: { tickSize: 0.01, lotSize: 1, oddLotPolicy: 'ROUND_LOTS', referencePrice: null, sector: null, isActive: true },
+  order: {
+    price: null, stopPrice: null, trailAmount: null, trailPercent: null, highWaterMark: null,
+    status: 'PENDING', timeInForce: 'DAY', filledAt: null, cancelledAt: null, triggeredAt: null, expiredAt: null,
+    groupId: null, groupRole: null
+  },
+  orderGroup: { status: 'ACTIVE' }
+};
+
+// Models whose rows carry these timestamps
+const CREATED_AT = ['account', 'instrument', 'order', 'orderGroup', 'position', 'simulatorState'];
+const UPDATED_AT = ['account', 'instrument', 'order', 'orderGroup', 'position', 'simulatorState'];
+const STAMPED_AT: Record<string, string> = { fill: 'executedAt', orderEvent: 'timestamp' };
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte']);
+
+function compare(a: any, b: any): number {
+  const left = a instanceof Date ? a.getTime() : typeof a === 'object' && a !== null ? Number(a) : a;
+  const right = b instanceof Date ? b.getTime() : typeof b === 'object' && b !== null ? Number(b) : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function equals(a: any, b: any): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  return compare(a, b) === 0;
+}
+
+function isOperatorFilter(value: any): boolean {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value)
+    && Object.keys(value).length > 0 && Object.keys(value).every(key => OPERATORS.has(key));
+}
+
+/**
+ * An in-memory stand-in for the part of PrismaClient the simulator's store
+ * uses: the models it touches, with where filters, includes, selects,
+ * ordering, relation filters and transactions that undo their own writes when
+ * their callback throws. Timestamps the database would default come from
+ * `now`, so rows follow a virtual clock.
+ */
+export function createMemoryPrisma(options: { now?: () => Date } = {}): PrismaClient {
+  const now = options.now || (() => new Date());
+  const tables: Record<string, Row[]> = Object.fromEntries(Object.keys(RELATIONS).map(model => [model, []]));
+  let nextId = 1;
+
+  const matches = (model: string, row: Row, where: Row = {}): boolean => Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === 'AND') return [].concat(condition).every((inner: Row) => matches(model, row, inner));
+    if (key === 'OR') return condition.some((inner: Row) => matches(model, row, inner));
+    if (key === 'NOT') return ![].concat(condition).some((inner: Row) => matches(model, row, inner));
+
+    const relation = RELATIONS[model][key];
+    if (relation && !relation.many) {
+      const related = tables[relation.model].find(other => other.id === row[relation.field]);
+      return !!related && matches(relation.model, related, condition);
+    }
+
+    // Compound unique keys, such as accountId_instrumentId, name the columns they're made of
+    if (!(key in row) && typeof condition === 'object' && condition !== null && !isOperatorFilter(condition)) {
+      return matches(model, row, condition);
+    }
+
+    const value = row[key];
+    if (!isOperatorFilter(condition)) return equals(value, condition);
+
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+      switch (operator) {
+        case 'equals': return equals(value, operand);
+        case 'in': return operand.some((item: any) => equals(value, item));
+        case 'notIn': return !operand.some((item: any) => equals(value, item));
+        case 'not': return isOperatorFilter(operand) ? !matches(model, { [key]: value }, { [key]: operand }) : !equals(value, operand);
+        case 'lt': return value !== null && compare(value, operand) < 0;
+        case 'lte': return value !== null && compare(value, operand) <= 0;
+        case 'gt': return value !== null && compare(value, operand) > 0;
+        case 'gte': return value !== null && compare(value, operand) >= 0;
+        default: return false;
+      }
+    });
+  });
+
+  const project = (model: string, row: Row, args: { include?: Row; select?: Row } = {}): Row => {
+    const shape = args.select || args.include;
+    const result: Row = args.select ? {} : { ...row };
+
+    for (const [key, spec] of Object.entries(shape || {})) {
+      if (!spec) continue;
+
+      const relation = RELATIONS[model][key];
+      if (!relation) {
+        result[key] = row[key];
+        continue;
+      }
+
+      const nested = typeof spec === 'object' ? spec : {};
+      if (relation.many) {
+        result[key] = sort(tables[relation.model].filter(other => other[relation.field] === row.id && matches(relation.model, other, nested.where)), nested.orderBy)
+          .map(other => project(relation.model, other, nested));
+      } else {
+        const related = tables[relation.model].find(other => other.id === row[relation.field]);
+        result[key] = related ? project(relation.model, related, nested) : null;
+      }
+    }
+    return result;
+  };
+
+  const sort = (rows: Row[], orderBy?: Row | Row[]): Row[] => {
+    const orders = orderBy ? [].concat(orderBy) as Row[] : [];
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const [key, direction] = Object.entries(order)[0];
+        const result = compare(a[key], b[key]);
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  };
+
+  const applyData = (model: string, row: Row, data: Row): void => {
+    for (const [key, value] of Object.entries(data)) {
+      // Prisma leaves a column alone when it's given undefined
+      if (value === undefined) continue;
+
+      if (typeof value === 'object' && value !== null && !(value instanceof Date) && ('increment' in value || 'decrement' in value || 'set' in value)) {
+        if ('set' in value) row[key] = value.set;
+        if ('increment' in value) row[key] = Number(row[key]) + Number(value.increment);
+        if ('decrement' in value) row[key] = Number(row[key]) - Number(value.decrement);
+      } else {
+        row[key] = value;
+      }
+    }
+    if (UPDATED_AT.includes(model)) {
+      row.updatedAt = now();
+    }
+  };
+
+  // Rows that could match a filter, narrowed by id first when it names one, as most lookups do
+  const candidates = (model: string, where: Row = {}): Row[] =>
+    typeof where.id === 'string' ? tables[model].filter(row => row.id === where.id) : tables[model];
+
+  const findRows = (model: string, args: Row = {}): Row[] => {
+    const rows = sort(candidates(model, args.where).filter(row => matches(model, row, args.where)), args.orderBy);
+    return args.take !== undefined ? rows.slice(0, args.take) : rows;
+  };
+
+  const findOne = (model: string, where: Row): Row => {
+    const row = candidates(model, where).find(candidate => matches(model, candidate, where));
+    if (!row) {
+      throw new Error(`No ${model} record found for ${JSON.stringify(where)}`);
+    }
+    return row;
+  };
+
+  const create = (model: string, data: Row, journal?: Undo[]): Row => {
+    const row: Row = { ...DEFAULTS[model] };
+    if (CREATED_AT.includes(model)) row.createdAt = now();
+    if (STAMPED_AT[model]) row[STAMPED_AT[model]] = now();
+    applyData(model, row, data);
+    if (row.id === undefined) row.id = `${model}-${nextId++}`;
+    tables[model].push(row);
+    journal?.push(() => {
+      tables[model] = tables[model].filter(other => other !== row);
+    });
+    return row;
+  };
+
+  const update = (model: string, row: Row, data: Row, journal?: Undo[]): void => {
+    const previous = { ...row };
+    applyData(model, row, data);
+    journal?.push(() => {
+      for (const key of Object.keys(row)) delete row[key];
+      Object.assign(row, previous);
+    });
+  };
+
+  const remove = (model: string, rows: Row[], journal?: Undo[]): void => {
+    const before = tables[model];
+    tables[model] = before.filter(row => !rows.includes(row));
+    journal?.push(() => {
+      tables[model] = [...tables[model], ...rows].sort((a, b) => before.indexOf(a) - before.indexOf(b));
+    });
+  };
+
+  // Writes made through a transaction's client log how to undo themselves in its journal
+  const delegate = (model: string, journal?: Undo[]) => ({
+    findMany: async (args: Row = {}) => findRows(model, args).map(row => project(model, row, args)),
+    findFirst: async (args: Row = {}) => {
+      const [row] = findRows(model, args);
+      return row ? project(model, row, args) : null;
+    },
+    findUnique: async (args: Row) => {
+      const row = candidates(model, args.where).find(candidate => matches(model, candidate, args.where));
+      return row ? project(model, row, args) : null;
+    },
+    count: async (args: Row = {}) => findRows(model, args).length,
+    create: async (args: Row) => project(model, create(model, args.data, journal), args),
+    createMany: async (args: { data: Row[] }) => {
+      for (const data of args.data) create(model, data, journal);
+      return { count: args.data.length };
+    },
+    update: async (args: Row) => {
+      const row = findOne(model, args.where);
+      update(model, row, args.data, journal);
+      return project(model, row, args);
+    },
+    updateMany: async (args: Row) => {
+      const rows = candidates(model, args.where).filter(row => matches(model, row, args.where));
+      for (const row of rows) update(model, row, args.data, journal);
+      return { count: rows.length };
+    },
+    upsert: async (args: Row) => {
+      const row = candidates(model, args.where).find(candidate => matches(model, candidate, args.where));
+      if (row) {
+        update(model, row, args.update, journal);
+        return project(model, row, args);
+      }
+      return project(model, create(model, args.create, journal), args);
+    },
+    delete: async (args: Row) => {
+      const row = findOne(model, args.where);
+      remove(model, [row], journal);
+      return row;
+    },
+    deleteMany: async (args: Row = {}) => {
+      const rows = tables[model].filter(row => matches(model, row, args.where));
+      remove(model, rows, journal);
+      return { count: rows.length };
+    }
+  });
+
+  const createClient = (journal?: Undo[]): Row =>
+    Object.fromEntries(Object.keys(RELATIONS).map(model => [model, delegate(model, journal)]));
+  const client = createClient();
+
+  // Transactions run against the same tables; if the callback throws, the writes it made are undone, newest first
+  client.$transaction = async (work: ((tx: Row) => Promise<any>) | Promise<any>[]) => {
+    if (Array.isArray(work)) {
+      const results = [];
+      for (const operation of work) results.push(await operation);
+      return results;
+    }
+
+    const journal: Undo[] = [];
+    try {
+      return await work(createClient(journal));
+    } catch (error) {
+      for (const undo of journal.reverse()) undo();
+      throw error;
+    }
+  };
+  client.$disconnect = async () => {};
+
+  return client as unknown as PrismaClient;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseInstrumentCsv } from '../instrumentImport';
+
+const header = 'symbol,name,sector,exchange,tickSize,lotSize,oddLotPolicy,price,isActive';
+
+describe('Instrument Import', () => {
+  it('should convert CSV cells and fill in defaults for blank columns', () => {
+    const { instruments, errors } = parseInstrumentCsv([
+      header,
+      'amd,Advanced Micro Devices,Technology,nasdaq,0.01,100,mixed_lots,155.2,true',
+      'BRK.A,Berkshire Hathaway,,NYSE,,,,612000,0'
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(instruments[0]).toMatchObject({
+      symbol: 'AMD', exchange: 'NASDAQ', tickSize: 0.01, lotSize: 100, oddLotPolicy: 'MIXED_LOTS', price: 155.2, isActive: true
+    });
+    expect(instruments[1]).toMatchObject({
+      symbol: 'BRK.A', tickSize: 0.01, lotSize: 1, oddLotPolicy: 'ROUND_LOTS', isActive: false
+    });
+    expect(instruments[1].sector).toBeUndefined();
+  });
+
+  it('should report every bad row with its row number', () => {
+    const { instruments, errors } = parseInstrumentCsv([
+      header,
+      'AMD,Advanced Micro Devices,Technology,NASDAQ,0.01,100,ROUND_LOTS,155.2,true',
+      'XYZ,Bad Lots,,NYSE,abc,1.5,,10,true',
+      'amd,Duplicate,,NASDAQ,0.01,1,,155.2,true'
+    ].join('\n'));
+
+    expect(instruments.map(instrument => instrument.symbol)).toEqual(['AMD']);
+    expect(errors).toEqual([
+      { row: 2, field: 'tickSize', message: expect.any(String) },
+      { row: 2, field: 'lotSize', message: expect.any(String) },
+      { row: 3, field: 'symbol', message: 'Duplicate symbol AMD, first seen on row 1' }
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { InstrumentRules, getInstrumentRejections, isOnTickGrid } from '../instrumentRules';
+
+const aapl: InstrumentRules = { symbol: 'AAPL', tickSize: 0.01, lotSize: 1, oddLotPolicy: 'ROUND_LOTS' };
+const roundLots: InstrumentRules = { symbol: 'XYZ', tickSize: 0.05, lotSize: 100, oddLotPolicy: 'ROUND_LOTS' };
+
+describe('Instrument Rules', () => {
+  it('should only accept limit and stop prices on the tick grid', () => {
+    expect(isOnTickGrid(185.1 + 0.02, 0.01)).toBe(true);
+    expect(getInstrumentRejections(aapl, { type: 'LIMIT', quantity: 7, price: 185.12 })).toEqual([]);
+    expect(getInstrumentRejections(aapl, { type: 'LIMIT', quantity: 7, price: 185.123 }))
+      .toEqual(['Price 185.123 is not a multiple of the 0.01 tick size for AAPL']);
+    expect(getInstrumentRejections(roundLots, { type: 'STOP_LIMIT', quantity: 100, price: 20.05, stopPrice: 20.02 }))
+      .toEqual(['Stop price 20.02 is not a multiple of the 0.05 tick size for XYZ']);
+  });
+
+  it('should leave market prices and trailing offsets alone', () => {
+    expect(getInstrumentRejections(aapl, { type: 'MARKET', quantity: 1, price: 185.123 })).toEqual([]);
+    expect(getInstrumentRejections(aapl, { type: 'TRAILING_STOP', quantity: 1, stopPrice: 0.333 })).toEqual([]);
+  });
+
+  it('should apply the odd-lot policy to quantities', () => {
+    expect(getInstrumentRejections(roundLots, { type: 'MARKET', quantity: 7 }))
+      .toEqual(['Quantity 7 is not a multiple of the 100-share lot size for XYZ']);
+    expect(getInstrumentRejections(roundLots, { type: 'MARKET', quantity: 300 })).toEqual([]);
+
+    const mixedLots: InstrumentRules = { ...roundLots, oddLotPolicy: 'MIXED_LOTS' };
+    expect(getInstrumentRejections(mixedLots, { type: 'MARKET', quantity: 150 })).toEqual([]);
+    expect(getInstrumentRejections(mixedLots, { type: 'MARKET', quantity: 50 })).toHaveLength(1);
+
+    expect(getInstrumentRejections({ ...roundLots, oddLotPolicy: 'ALLOW' }, { type: 'MARKET', quantity: 7 })).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { MarketCalendar, getSessionRejection } from '../marketCalendar';
+
+const calendar = new MarketCalendar();
+const statusAt = (iso: string) => calendar.getStatus(new Date(iso));
+
+describe('Market Calendar', () => {
+  it('should split a trading day into pre-market, regular and post-market sessions', () => {
+    expect(statusAt('2024-01-02T08:59:00Z')).toMatchObject({ session: 'CLOSED', nextSession: 'PRE_MARKET', nextChangeAt: '2024-01-02T09:00:00.000Z' });
+    expect(statusAt('2024-01-02T10:00:00Z')).toMatchObject({ session: 'PRE_MARKET', nextSession: 'REGULAR', nextChangeAt: '2024-01-02T14:30:00.000Z' });
+    expect(statusAt('2024-01-02T14:30:00Z')).toMatchObject({ session: 'REGULAR', nextSession: 'POST_MARKET', nextChangeAt: '2024-01-02T21:00:00.000Z' });
+    expect(statusAt('2024-01-02T21:30:00Z')).toMatchObject({ session: 'POST_MARKET', nextSession: 'CLOSED', nextChangeAt: '2024-01-03T01:00:00.000Z' });
+  });
+
+  it('should read session times in exchange time across daylight saving', () => {
+    expect(statusAt('2024-07-01T13:29:00Z').session).toBe('PRE_MARKET');
+    expect(statusAt('2024-07-01T13:30:00Z').session).toBe('REGULAR');
+  });
+
+  it('should date the evening by the exchange date, not the UTC date', () => {
+    expect(statusAt('2024-01-03T02:00:00Z')).toMatchObject({
+      session: 'CLOSED',
+      tradingDate: '2024-01-02',
+      nextChangeAt: '2024-01-03T09:00:00.000Z'
+    });
+  });
+
+  it('should stay closed over weekends and holidays', () => {
+    expect(statusAt('2024-01-06T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Weekend', nextChangeAt: '2024-01-08T09:00:00.000Z' });
+    expect(statusAt('2024-07-04T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Independence Day' });
+
+    // Friday evening before Martin Luther King Jr. Day reopens on Tuesday
+    expect(statusAt('2024-01-13T02:00:00Z').nextChangeAt).toBe('2024-01-16T09:00:00.000Z');
+  });
+
+  it('should close early on early-close days', () => {
+    expect(statusAt('2024-11-29T18:30:00Z')).toMatchObject({
+      session: 'POST_MARKET',
+      earlyClose: true,
+      reason: 'Day after Thanksgiving',
+      nextChangeAt: '2024-11-29T22:00:00.000Z'
+    });
+  });
+
+  it('should work out holidays and early closes for years without a published schedule', () => {
+    expect(statusAt('2027-03-26T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Good Friday' });
+    expect(statusAt('2027-05-31T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Memorial Day' });
+    expect(statusAt('2027-11-26T15:00:00Z')).toMatchObject({ session: 'REGULAR', earlyClose: true });
+
+    // Weekend holidays move to the nearest weekday, and the early close before them goes away
+    expect(statusAt('2027-06-18T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Juneteenth (observed)' });
+    expect(statusAt('2027-07-05T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Independence Day (observed)' });
+    expect(statusAt('2027-12-24T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'Christmas Day (observed)' });
+
+    // A Saturday New Year's Day isn't made up on the last trading day of the year
+    expect(statusAt('2027-12-31T15:00:00Z')).toMatchObject({ session: 'REGULAR', earlyClose: false });
+  });
+
+  it('should keep unscheduled closures alongside the rules', () => {
+    expect(statusAt('2025-01-09T15:00:00Z')).toMatchObject({ session: 'CLOSED', reason: 'National Day of Mourning' });
+  });
+
+  it('should refuse dates past the years its rules cover', () => {
+    expect(() => statusAt('2031-01-02T15:00:00Z')).toThrow('Market calendar only covers 2020-2030');
+
+    // Looking ahead from New Year's Eve evening for the next session counts too
+    expect(() => statusAt('2031-01-01T02:00:00Z')).toThrow('not 2031-01-01');
+  });
+
+  it('should only accept limit orders in extended hours', () => {
+    const preMarket = statusAt('2024-01-02T10:00:00Z');
+
+    expect(getSessionRejection(preMarket, { type: 'LIMIT', timeInForce: 'DAY' })).toBeUndefined();
+    expect(getSessionRejection(preMarket, { type: 'MARKET' })).toBe('Only LIMIT orders are accepted during pre-market trading');
+    expect(getSessionRejection(preMarket, { type: 'STOP' })).toBeDefined();
+  });
+
+  it('should let orders that can rest wait for the open while the market is closed', () => {
+    const weekend = statusAt('2024-01-06T15:00:00Z');
+
+    expect(getSessionRejection(weekend, { type: 'LIMIT', timeInForce: 'GTC' })).toBeUndefined();
+    expect(getSessionRejection(weekend, { type: 'STOP', timeInForce: 'DAY' })).toBeUndefined();
+    expect(getSessionRejection(weekend, { type: 'MARKET', timeInForce: 'DAY' })).toBe('Market is closed (Weekend): MARKET orders are not accepted');
+    expect(getSessionRejection(weekend, { type: 'LIMIT', timeInForce: 'IOC' })).toBe('Market is closed (Weekend): IOC orders need an open session');
+  });
+
+  it('should accept everything in the regular session', () => {
+    const regular = statusAt('2024-01-02T15:00:00Z');
+
+    expect(getSessionRejection(regular, { type: 'MARKET', timeInForce: 'FOK' })).toBeUndefined();
+  });
+
+  it('should only accept auction orders while their auction is collecting', () => {
+    const preMarket = statusAt('2024-01-02T10:00:00Z');
+    const beforeCloseWindow = statusAt('2024-01-02T20:49:00Z');
+    const closeWindow = statusAt('2024-01-02T20:50:00Z');
+
+    expect(preMarket.auction).toBe('OPENING');
+    expect(beforeCloseWindow.auction).toBeUndefined();
+    expect(closeWindow.auction).toBe('CLOSING');
+    expect(statusAt('2024-11-29T17:55:00Z').auction).toBe('CLOSING'); // early close at 13:00
+
+    expect(getSessionRejection(preMarket, { type: 'MOO', timeInForce: 'DAY' })).toBeUndefined();
+    expect(getSessionRejection(closeWindow, { type: 'LOC', timeInForce: 'DAY' })).toBeUndefined();
+    expect(getSessionRejection(beforeCloseWindow, { type: 'MOC', timeInForce: 'DAY' }))
+      .toBe('MOC orders are only accepted while the closing auction is collecting orders');
+    expect(getSessionRejection(closeWindow, { type: 'MOO', timeInForce: 'DAY' })).toBeDefined();
+  });
+});
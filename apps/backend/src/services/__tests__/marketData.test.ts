@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { getBarFileSymbol, mergeMarketBars, parseMarketBars, validateMarketBars } from '../marketData';
+
+const bar = (timestamp: string, close: number) => ({ timestamp, open: close, high: close + 1, low: close - 1, close, volume: 100 });
+
+describe('Market Data', () => {
+  it('should only take symbols from bar files', () => {
+    expect(getBarFileSymbol('AMD_minute_bars.csv')).toBe('AMD');
+    expect(getBarFileSymbol('/data/BRK.B_minute_bars.csv')).toBe('BRK.B');
+    expect(getBarFileSymbol('_minute_bars.csv')).toBeUndefined();
+    expect(getBarFileSymbol('AMD_minute_bars.csv.tmp')).toBeUndefined();
+  });
+
+  it('should accept bars parsed from a well-formed file', () => {
+    const bars = parseMarketBars('timestamp,open,high,low,close,volume\n2024-01-02T09:30:00Z,185.50,185.75,185.45,185.60,15000\n');
+
+    expect(bars).toEqual([{ timestamp: '2024-01-02T09:30:00Z', open: 185.5, high: 185.75, low: 185.45, close: 185.6, volume: 15000 }]);
+    expect(validateMarketBars(bars)).toEqual([]);
+  });
+
+  it('should reject out-of-order timestamps, inverted ranges and negative volume', () => {
+    expect(validateMarketBars([
+      bar('2024-01-02T09:31:00Z', 100),
+      bar('2024-01-02T09:31:00Z', 100),
+      { ...bar('2024-01-02T09:32:00Z', 100), high: 98, low: 102 },
+      { ...bar('2024-01-02T09:33:00Z', 100), volume: -5 },
+      bar('not a time', 100)
+    ])).toEqual([
+      'Bar 1: timestamp 2024-01-02T09:31:00Z is not after the previous bar',
+      'Bar 2: high 98 is below low 102',
+      'Bar 3: volume must be a non-negative integer',
+      'Bar 4: invalid timestamp not a time'
+    ]);
+  });
+
+  it('should merge new bars in time order, replacing bars at the same time', () => {
+    const merged = mergeMarketBars(
+      [bar('2024-01-02T09:30:00Z', 100), bar('2024-01-02T09:32:00Z', 102)],
+      [bar('2024-01-02T09:31:00.000Z', 101), bar('2024-01-02T09:32:00.000Z', 105)]
+    );
+
+    expect(merged.map(b => b.close)).toEqual([100, 101, 105]);
+  });
+});
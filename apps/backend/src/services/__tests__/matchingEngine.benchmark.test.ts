@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { MatchingEngine, OrderBookEntry } from '../matchingEngine';
+
+const RESTING_ORDERS = 100000;
+const PRICE_LEVELS = 1000; // per side, one cent apart
+
+function restingOrder(i: number): OrderBookEntry {
+  const side = i % 2 === 0 ? 'BUY' : 'SELL';
+  const tick = Math.floor(i / 2) % PRICE_LEVELS;
+  return {
+    orderId: `order${i}`,
+    accountId: `acc${i % 50}`,
+    instrumentId: 'inst1',
+    type: 'LIMIT',
+    side,
+    quantity: 100,
+    remainingQuantity: 100,
+    // Bids from 99.99 down, asks from 100.01 up, so the resting book never crosses
+    price: side === 'BUY' ? Math.round((99.99 - tick * 0.01) * 100) / 100 : Math.round((100.01 + tick * 0.01) * 100) / 100,
+    createdAt: new Date(1704067200000 + i)
+  };
+}
+
+function timeIt(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+describe('Matching Engine Benchmark', () => {
+  let engine: MatchingEngine;
+
+  beforeAll(() => {
+    engine = new MatchingEngine();
+  });
+
+  it(`should insert ${RESTING_ORDERS} resting orders quickly`, () => {
+    const orders = Array.from({ length: RESTING_ORDERS }, (_, i) => restingOrder(i));
+
+    const elapsedMs = timeIt(() => {
+      for (const order of orders) {
+        engine.addOrder(order);
+      }
+    });
+
+    expect(engine.getBestBidAsk()).toEqual({ bestBid: 99.99, bestAsk: 100.01 });
+    expect(elapsedMs).toBeLessThan(5000);
+  });
+
+  it('should match a non-crossing book without scanning it', () => {
+    const elapsedMs = timeIt(() => {
+      for (let i = 0; i < 1000; i++) {
+        engine.matchOrders({ bid: 99.99, ask: 100.01, last: 100 });
+      }
+    });
+
+    expect(engine.getDepth().bids).toHaveLength(PRICE_LEVELS);
+    expect(elapsedMs).toBeLessThan(1000);
+  });
+
+  it('should cancel orders by id quickly', () => {
+    const cancels = 10000;
+    let cancelled = 0;
+
+    const elapsedMs = timeIt(() => {
+      for (let i = 0; i < cancels; i++) {
+        if (engine.cancelOrder(`order${i * 7}`)) cancelled++;
+      }
+    });
+
+    expect(cancelled).toBe(cancels);
+    expect(engine.hasOrder('order7')).toBe(false);
+    expect(elapsedMs).toBeLessThan(2000);
+  });
+
+  it('should sweep many price levels with a single aggressive order', () => {
+    engine.addOrder({
+      orderId: 'sweep',
+      accountId: 'sweeper',
+      instrumentId: 'inst1',
+      type: 'LIMIT',
+      side: 'BUY',
+      quantity: 50000,
+      remainingQuantity: 50000,
+      price: 105.00,
+      createdAt: new Date()
+    });
+
+    let fillCount = 0;
+    const elapsedMs = timeIt(() => {
+      fillCount = engine.matchOrders({ bid: 99.99, ask: 100.01, last: 100 }).length;
+    });
+
+    expect(fillCount).toBeGreaterThan(400);
+    expect(engine.getBestBidAsk().bestAsk).toBeGreaterThan(100.01);
+    expect(elapsedMs).toBeLessThan(1000);
+  });
+});
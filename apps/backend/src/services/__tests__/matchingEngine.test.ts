@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { MatchingEngine, OrderBookEntry, MarketData } from '../matchingEngine';
+import { MatchingEngine, OrderBookEntry, MarketData, diffDepthLevels } from '../matchingEngine';
 
 describe('Matching Engine', () => {
   let engine: MatchingEngine;
@@ -350,6 +350,170 @@ describe('Matching Engine', () => {
       expect(fills[0].quantity).toBe(50);
       expect(fills[0].buyOrderId).toBe('MARKET');
     });
+
+    it('should cap quote fills at the available liquidity and keep the remainder queued', () => {
+      const marketBuy: OrderBookEntry = {
+        orderId: 'market_buy',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'MARKET',
+        side: 'BUY',
+        quantity: 100,
+        remainingQuantity: 100,
+        createdAt: new Date()
+      };
+      const marketSell: OrderBookEntry = {
+        orderId: 'market_sell',
+        accountId: 'acc2',
+        instrumentId: 'inst1',
+        type: 'MARKET',
+        side: 'SELL',
+        quantity: 20,
+        remainingQuantity: 20,
+        createdAt: new Date()
+      };
+
+      engine.addOrder(marketBuy);
+      engine.addOrder(marketSell);
+      const first = engine.matchOrders({ ...marketData, liquidity: 60 });
+
+      expect(first.map(f => f.quantity)).toEqual([60]);
+      expect(engine.hasOrder('market_buy')).toBe(true);
+      expect(engine.hasOrder('market_sell')).toBe(true);
+
+      const second = engine.matchOrders({ ...marketData, liquidity: 60 });
+
+      expect(second.map(f => [f.buyOrderId, f.sellOrderId, f.quantity])).toEqual([
+        ['market_buy', 'MARKET', 40],
+        ['MARKET', 'market_sell', 20]
+      ]);
+      expect(engine.hasOrder('market_buy')).toBe(false);
+      expect(engine.getOrderBook().sells).toHaveLength(0);
+    });
+
+    it('should fill market orders against internal orders priced better than the quote first', () => {
+      const restingSell: OrderBookEntry = {
+        orderId: 'sell1',
+        accountId: 'acc2',
+        instrumentId: 'inst1',
+        type: 'LIMIT',
+        side: 'SELL',
+        quantity: 30,
+        remainingQuantity: 30,
+        price: 100.00, // Better than the 100.05 ask
+        createdAt: new Date()
+      };
+
+      const marketBuy: OrderBookEntry = {
+        orderId: 'market_buy',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'MARKET',
+        side: 'BUY',
+        quantity: 100,
+        remainingQuantity: 100,
+        createdAt: new Date()
+      };
+
+      engine.addOrder(restingSell);
+      engine.addOrder(marketBuy);
+      const fills = engine.matchOrders(marketData);
+
+      expect(fills).toHaveLength(2);
+      expect(fills[0]).toMatchObject({ buyOrderId: 'market_buy', sellOrderId: 'sell1', quantity: 30, price: 100.00 });
+      expect(fills[1]).toMatchObject({ buyOrderId: 'market_buy', sellOrderId: 'MARKET', quantity: 70, price: marketData.ask });
+      expect(engine.getOrderBook().sells).toHaveLength(0);
+    });
+
+    it('should leave internal orders priced worse than the quote alone', () => {
+      const restingBuy: OrderBookEntry = {
+        orderId: 'buy1',
+        accountId: 'acc2',
+        instrumentId: 'inst1',
+        type: 'LIMIT',
+        side: 'BUY',
+        quantity: 50,
+        remainingQuantity: 50,
+        price: 99.90, // Worse than the 99.95 bid
+        createdAt: new Date()
+      };
+
+      const marketSell: OrderBookEntry = {
+        orderId: 'market_sell',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'MARKET',
+        side: 'SELL',
+        quantity: 50,
+        remainingQuantity: 50,
+        createdAt: new Date()
+      };
+
+      engine.addOrder(restingBuy);
+      engine.addOrder(marketSell);
+      const fills = engine.matchOrders(marketData);
+
+      expect(fills).toHaveLength(1);
+      expect(fills[0].buyOrderId).toBe('MARKET');
+      expect(engine.getOrderBook().buys[0].remainingQuantity).toBe(50);
+    });
+  });
+
+  describe('Self-Trade Prevention', () => {
+    it('should not cross orders from the same account', () => {
+      const buyOrder: OrderBookEntry = {
+        orderId: 'buy1',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'LIMIT',
+        side: 'BUY',
+        quantity: 100,
+        remainingQuantity: 100,
+        price: 100.50,
+        createdAt: new Date()
+      };
+
+      const sellOrder: OrderBookEntry = {
+        orderId: 'sell1',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'LIMIT',
+        side: 'SELL',
+        quantity: 100,
+        remainingQuantity: 100,
+        price: 100.00,
+        createdAt: new Date()
+      };
+
+      engine.addOrder(buyOrder);
+      engine.addOrder(sellOrder);
+      const fills = engine.matchOrders(marketData);
+
+      expect(fills).toHaveLength(0);
+    });
+  });
+
+  describe('Remaining Quantity Updates', () => {
+    it('should update remaining quantity and drop orders with nothing left', () => {
+      engine.addOrder({
+        orderId: 'buy1',
+        accountId: 'acc1',
+        instrumentId: 'inst1',
+        type: 'LIMIT',
+        side: 'BUY',
+        quantity: 100,
+        remainingQuantity: 100,
+        price: 100.00,
+        createdAt: new Date()
+      });
+
+      expect(engine.setRemainingQuantity('buy1', 40)).toBe(true);
+      expect(engine.getOrderBook().buys[0].remainingQuantity).toBe(40);
+
+      expect(engine.setRemainingQuantity('buy1', 0)).toBe(true);
+      expect(engine.hasOrder('buy1')).toBe(false);
+      expect(engine.setRemainingQuantity('buy1', 10)).toBe(false);
+    });
   });
 
   describe('Order Cancellation', () => {
@@ -440,4 +604,124 @@ describe('Matching Engine', () => {
       expect(bestAsk).toBe(100.50);
     });
   });
-});
\ No newline at end of file
+
+  describe('Depth', () => {
+    const restingOrder = (orderId: string, side: 'BUY' | 'SELL', price: number, quantity: number): OrderBookEntry => ({
+      orderId,
+      accountId: 'acc1',
+      instrumentId: 'inst1',
+      type: 'LIMIT',
+      side,
+      quantity,
+      remainingQuantity: quantity,
+      price,
+      createdAt: new Date()
+    });
+
+    it('should aggregate resting orders into price levels, best first', () => {
+      engine.addOrder(restingOrder('buy1', 'BUY', 99.50, 100));
+      engine.addOrder(restingOrder('buy2', 'BUY', 100.00, 50));
+      engine.addOrder(restingOrder('buy3', 'BUY', 100.00, 25));
+      engine.addOrder(restingOrder('sell1', 'SELL', 101.00, 10));
+
+      const depth = engine.getDepth();
+
+      expect(depth.bids).toEqual([
+        { price: 100.00, size: 75, orderCount: 2 },
+        { price: 99.50, size: 100, orderCount: 1 }
+      ]);
+      expect(depth.asks).toEqual([{ price: 101.00, size: 10, orderCount: 1 }]);
+      expect(engine.getDepth(1).bids).toHaveLength(1);
+    });
+
+    it('should report changed and removed levels between snapshots', () => {
+      const changes = diffDepthLevels(
+        [{ price: 100, size: 75, orderCount: 2 }, { price: 99.5, size: 100, orderCount: 1 }],
+        [{ price: 100, size: 50, orderCount: 1 }, { price: 99, size: 10, orderCount: 1 }]
+      );
+
+      expect(changes).toEqual([
+        { price: 100, size: 50, orderCount: 1 },
+        { price: 99, size: 10, orderCount: 1 },
+        { price: 99.5, size: 0, orderCount: 0 }
+      ]);
+    });
+  });
+
+  describe('Auctions', () => {
+    const auctionOrder = (
+      orderId: string,
+      accountId: string,
+      side: 'BUY' | 'SELL',
+      quantity: number,
+      price?: number
+    ): OrderBookEntry => ({
+      orderId,
+      accountId,
+      instrumentId: 'inst1',
+      type: price === undefined ? 'MARKET' : 'LIMIT',
+      side,
+      quantity,
+      remainingQuantity: quantity,
+      price,
+      createdAt: new Date('2024-01-02T20:55:00Z')
+    });
+
+    it('should pick the clearing price that executes the most volume, closest to the reference on a tie', () => {
+      engine.addAuctionOrder('CLOSING', auctionOrder('buy1', 'acc1', 'BUY', 100, 101.00));
+      engine.addAuctionOrder('CLOSING', auctionOrder('buy2', 'acc2', 'BUY', 100, 100.00));
+      engine.addAuctionOrder('CLOSING', auctionOrder('sell1', 'acc3', 'SELL', 50, 99.00));
+      engine.addAuctionOrder('CLOSING', auctionOrder('sell2', 'acc4', 'SELL', 150, 100.50));
+
+      // 100 shares cross at both 100.50 and 101.00 with the same imbalance; 100.50 is nearer the reference
+      expect(engine.getAuctionIndication('CLOSING', 100.00)).toEqual({
+        price: 100.50,
+        matchedQuantity: 100,
+        imbalance: 100,
+        imbalanceSide: 'SELL'
+      });
+      expect(engine.getAuctionIndication('OPENING', 100.00)).toBeNull();
+    });
+
+    it('should uncross at one price, market orders first, with the outside market taking the imbalance', () => {
+      engine.addAuctionOrder('CLOSING', auctionOrder('buy1', 'acc1', 'BUY', 100));
+      engine.addAuctionOrder('CLOSING', auctionOrder('sell1', 'acc2', 'SELL', 60, 101.00));
+      engine.addAuctionOrder('CLOSING', auctionOrder('sell2', 'acc3', 'SELL', 20));
+
+      const result = engine.runAuction('CLOSING', { referencePrice: 100.00, liquidity: 30 });
+
+      expect(result).toMatchObject({ price: 101.00, matchedQuantity: 80, imbalance: 20, imbalanceSide: 'BUY' });
+      expect(result!.fills.map(({ buyOrderId, sellOrderId, quantity, price }) => ({ buyOrderId, sellOrderId, quantity, price }))).toEqual([
+        { buyOrderId: 'buy1', sellOrderId: 'sell2', quantity: 20, price: 101.00 },
+        { buyOrderId: 'buy1', sellOrderId: 'sell1', quantity: 60, price: 101.00 },
+        { buyOrderId: 'buy1', sellOrderId: 'MARKET', quantity: 20, price: 101.00 }
+      ]);
+      expect(engine.hasOrder('buy1')).toBe(false);
+      expect(engine.hasOrder('sell1')).toBe(false);
+    });
+
+    it('should uncross at the reference price when nothing crosses, leaving limits it does not reach unfilled', () => {
+      engine.addAuctionOrder('OPENING', auctionOrder('buy1', 'acc1', 'BUY', 50));
+      engine.addAuctionOrder('OPENING', auctionOrder('buy2', 'acc2', 'BUY', 50, 99.00));
+
+      const result = engine.runAuction('OPENING', { referencePrice: 100.00, liquidity: 1000 });
+
+      expect(result).toMatchObject({ price: 100.00, matchedQuantity: 0, imbalance: 50, imbalanceSide: 'BUY' });
+      expect(result!.fills).toHaveLength(1);
+      expect(result!.fills[0]).toMatchObject({ buyOrderId: 'buy1', sellOrderId: 'MARKET', quantity: 50 });
+      expect(engine.hasOrder('buy2')).toBe(false);
+    });
+
+    it('should keep auction orders out of continuous trading until they are cancelled', () => {
+      engine.addAuctionOrder('OPENING', auctionOrder('buy1', 'acc1', 'BUY', 100, 100.10));
+      engine.addOrder({ ...auctionOrder('sell1', 'acc2', 'SELL', 100, 100.00), createdAt: new Date() });
+
+      expect(engine.matchOrders(marketData)).toEqual([]);
+      expect(engine.getOrderBook().buys).toEqual([]);
+      expect(engine.getDepth().bids).toEqual([]);
+
+      expect(engine.cancelOrder('buy1')).toBe(true);
+      expect(engine.getAuctionIndication('OPENING', 100.00)).toBeNull();
+    });
+  });
+});
@@ -1,16 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { PrismaClient } from '@prisma/client';
-import { ExecutionSimulator } from '../executionSimulator';
+import { FillRecord, PrismaSimulatorStore } from '../simulatorStore';
 
 describe('Position Management', () => {
   let prisma: PrismaClient;
-  let simulator: ExecutionSimulator;
+  let store: PrismaSimulatorStore;
   let testAccountId: string;
   let testInstrumentId: string;
 
   beforeEach(async () => {
     prisma = new PrismaClient();
-    simulator = new ExecutionSimulator(prisma);
+    store = new PrismaSimulatorStore(prisma);
 
     // Create test account
     const account = await prisma.account.create({
@@ -39,6 +39,19 @@ describe('Position Management', () => {
     testInstrumentId = instrument.id;
   });
 
+  const fill = (side: 'BUY' | 'SELL', quantity: number, price: number): FillRecord => ({
+    orderId: '',
+    accountId: testAccountId,
+    instrumentId: testInstrumentId,
+    side,
+    quantity,
+    price,
+    fees: 0,
+    status: 'FILLED',
+    executedAt: new Date(),
+    payload: {}
+  });
+
   afterEach(async () => {
     // Clean up test data
     await prisma.fill.deleteMany({ where: { accountId: testAccountId } });
@@ -67,7 +80,7 @@ describe('Position Management', () => {
 
       // Simulate the updatePosition call for first buy
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'BUY', 100, 100);
+        await store['updatePosition'](tx, fill('BUY', 100, 100));
       });
 
       let position = await prisma.position.findUnique({
@@ -97,7 +110,7 @@ describe('Position Management', () => {
       });
 
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'BUY', 50, 110);
+        await store['updatePosition'](tx, fill('BUY', 50, 110));
       });
 
       position = await prisma.position.findUnique({
@@ -128,7 +141,7 @@ describe('Position Management', () => {
       });
 
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'SELL', 75, 105);
+        await store['updatePosition'](tx, fill('SELL', 75, 105));
       });
 
       position = await prisma.position.findUnique({
@@ -148,7 +161,7 @@ describe('Position Management', () => {
     it('should calculate unrealized P&L correctly', async () => {
       // Buy 100 shares at $100
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'BUY', 100, 100);
+        await store['updatePosition'](tx, fill('BUY', 100, 100));
       });
 
       // Update instrument price to $105
@@ -159,7 +172,7 @@ describe('Position Management', () => {
 
       // Position should show unrealized P&L
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'BUY', 0, 100);
+        await store['updatePosition'](tx, fill('BUY', 0, 100));
       });
 
       const position = await prisma.position.findUnique({
@@ -179,7 +192,7 @@ describe('Position Management', () => {
     it('should delete position when quantity reaches zero', async () => {
       // Buy 100 shares at $100
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'BUY', 100, 100);
+        await store['updatePosition'](tx, fill('BUY', 100, 100));
       });
 
       let position = await prisma.position.findUnique({
@@ -194,7 +207,7 @@ describe('Position Management', () => {
 
       // Sell all 100 shares
       await prisma.$transaction(async (tx) => {
-        await simulator['updatePosition'](tx, testAccountId, testInstrumentId, 'SELL', 100, 105);
+        await store['updatePosition'](tx, fill('SELL', 100, 105));
       });
 
       position = await prisma.position.findUnique({
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { nextDeviation, applyDeviation, normalRandom, MAX_NOISE_SIGMAS, PriceModelConfig } from '../priceModel';
+import { createSeededRandom } from '../simulationClock';
+
+const bar = { timestamp: '2024-01-02T14:30:00Z', open: 100, high: 101, low: 99, close: 100, volume: 1000 };
+
+describe('Price Model', () => {
+  it('should replay the historical bar untouched in RAW mode', () => {
+    const config: PriceModelConfig = { priceModel: 'RAW', noiseSigma: 0.05, meanReversion: 0.2 };
+    const random = createSeededRandom(1);
+
+    for (let i = 0; i < 100; i++) {
+      expect(nextDeviation(0, config, random)).toBe(0);
+    }
+    expect(applyDeviation(bar, 0)).toEqual(bar);
+  });
+
+  it('should keep bounded noise within the sigma clamp', () => {
+    const config: PriceModelConfig = { priceModel: 'BOUNDED_NOISE', noiseSigma: 0.01, meanReversion: 0 };
+    const random = createSeededRandom(2);
+
+    for (let i = 0; i < 10000; i++) {
+      expect(Math.abs(nextDeviation(0, config, random))).toBeLessThanOrEqual(MAX_NOISE_SIGMAS * 0.01);
+    }
+  });
+
+  it('should scale bounded noise with the configured sigma', () => {
+    const config: PriceModelConfig = { priceModel: 'BOUNDED_NOISE', noiseSigma: 0.01, meanReversion: 0 };
+    const random = createSeededRandom(3);
+    const draws = Array.from({ length: 10000 }, () => nextDeviation(0, config, random));
+    const mean = draws.reduce((sum, d) => sum + d, 0) / draws.length;
+    const sd = Math.sqrt(draws.reduce((sum, d) => sum + (d - mean) ** 2, 0) / draws.length);
+
+    expect(Math.abs(mean)).toBeLessThan(0.001);
+    // Clamping at 2 sigma trims the tails, so the observed spread sits a little under sigma
+    expect(sd).toBeGreaterThan(0.008);
+    expect(sd).toBeLessThan(0.01);
+  });
+
+  it('should pull a mean-reverting deviation back toward the real close', () => {
+    const config: PriceModelConfig = { priceModel: 'MEAN_REVERTING', noiseSigma: 0.01, meanReversion: 0.5 };
+    // u2 = 0.25 puts Box-Muller at cos(pi/2), so every shock is zero and only the decay remains
+    const noShock = () => 0.25;
+
+    expect(nextDeviation(0.02, config, noShock)).toBeCloseTo(0.01);
+    expect(nextDeviation(-0.02, config, noShock)).toBeCloseTo(-0.01);
+    expect(nextDeviation(0.01, { ...config, priceModel: 'BOUNDED_NOISE' }, noShock)).toBeCloseTo(0);
+  });
+
+  it('should widen high and low to contain the adjusted close', () => {
+    const up = applyDeviation(bar, 0.05);
+    expect(up.close).toBeCloseTo(105);
+    expect(up.high).toBeCloseTo(105);
+    expect(up.low).toBe(99);
+    expect(up.open).toBe(100);
+
+    const down = applyDeviation(bar, -0.05);
+    expect(down.close).toBeCloseTo(95);
+    expect(down.low).toBeCloseTo(95);
+    expect(down.high).toBe(101);
+  });
+
+  it('should be reproducible for a given seed', () => {
+    const config: PriceModelConfig = { priceModel: 'MEAN_REVERTING', noiseSigma: 0.02, meanReversion: 0.1 };
+    const run = () => {
+      const random = createSeededRandom(99);
+      let deviation = 0;
+      return Array.from({ length: 50 }, () => (deviation = nextDeviation(deviation, config, random)));
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  it('should draw standard normals', () => {
+    const random = createSeededRandom(5);
+    const draws = Array.from({ length: 20000 }, () => normalRandom(random));
+    const mean = draws.reduce((sum, d) => sum + d, 0) / draws.length;
+    const variance = draws.reduce((sum, d) => sum + (d - mean) ** 2, 0) / draws.length;
+
+    expect(Math.abs(mean)).toBeLessThan(0.05);
+    expect(variance).toBeGreaterThan(0.9);
+    expect(variance).toBeLessThan(1.1);
+  });
+});
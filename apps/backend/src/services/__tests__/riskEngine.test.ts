@@ -1,12 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { PrismaClient } from '@prisma/client';
 import { RiskEngine, OrderRequest } from '../riskEngine';
+import { tradeAroundTheClock } from './helpers/marketHours';
 
 describe('Risk Engine', () => {
   let prisma: PrismaClient;
   let testAccountId: string;
   let testInstrumentId: string;
 
+  tradeAroundTheClock();
+
   beforeEach(async () => {
     prisma = new PrismaClient();
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from '@jest/globals';
+import { createSeededRandom, VirtualClock } from '../simulationClock';
+import { MatchingEngine } from '../matchingEngine';
+
+describe('Simulation Clock', () => {
+  describe('Seeded random', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      const seqA = Array.from({ length: 100 }, () => a());
+      const seqB = Array.from({ length: 100 }, () => b());
+
+      expect(seqA).toEqual(seqB);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      expect(Array.from({ length: 10 }, () => a())).not.toEqual(Array.from({ length: 10 }, () => b()));
+    });
+
+    it('should stay within [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 10000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('Virtual clock', () => {
+    it('should only move time when advanced', async () => {
+      const clock = new VirtualClock(new Date('2024-01-02T14:30:00Z'));
+      expect(clock.now().toISOString()).toBe('2024-01-02T14:30:00.000Z');
+
+      await clock.advance(1500);
+      expect(clock.now().toISOString()).toBe('2024-01-02T14:30:01.500Z');
+    });
+
+    it('should fire intervals in due-time order, then creation order', async () => {
+      const clock = new VirtualClock(0);
+      const fired: string[] = [];
+
+      clock.setInterval(() => { fired.push(`A@${clock.now().getTime()}`); }, 300);
+      clock.setInterval(() => { fired.push(`B@${clock.now().getTime()}`); }, 200);
+      clock.setInterval(() => { fired.push(`C@${clock.now().getTime()}`); }, 600);
+
+      await clock.advance(600);
+
+      expect(fired).toEqual(['B@200', 'A@300', 'B@400', 'A@600', 'B@600', 'C@600']);
+    });
+
+    it('should await each async callback before firing the next', async () => {
+      const clock = new VirtualClock(0);
+      const events: string[] = [];
+
+      clock.setInterval(async () => {
+        events.push('slow:start');
+        await new Promise(resolve => setImmediate(resolve));
+        events.push('slow:end');
+      }, 100);
+      clock.setInterval(() => { events.push('fast'); }, 100);
+
+      await clock.advance(100);
+
+      expect(events).toEqual(['slow:start', 'slow:end', 'fast']);
+    });
+
+    it('should stop firing a cleared interval', async () => {
+      const clock = new VirtualClock(0);
+      let count = 0;
+      const handle = clock.setInterval(() => {
+        count++;
+        if (count === 2) clock.clearInterval(handle);
+      }, 100);
+
+      await clock.advance(1000);
+
+      expect(count).toBe(2);
+    });
+
+    it('should fire a timeout once, in due-time order with intervals', async () => {
+      const clock = new VirtualClock(0);
+      const events: string[] = [];
+      clock.setInterval(() => { events.push(`interval@${clock.now().getTime()}`); }, 100);
+      clock.setTimeout(() => { events.push(`timeout@${clock.now().getTime()}`); }, 150);
+
+      await clock.advance(300);
+
+      expect(events).toEqual(['interval@100', 'timeout@150', 'interval@200', 'interval@300']);
+    });
+
+    it('should not fire a cleared timeout', async () => {
+      const clock = new VirtualClock(0);
+      let fired = false;
+      const handle = clock.setTimeout(() => { fired = true; }, 50);
+
+      clock.clearTimeout(handle);
+      await clock.advance(100);
+
+      expect(fired).toBe(false);
+    });
+
+    it('should stamp matching engine fills with virtual time', () => {
+      const clock = new VirtualClock(new Date('2024-01-02T14:30:00Z'));
+      const engine = new MatchingEngine(() => clock.now());
+
+      engine.addOrder({
+        orderId: 'buy1', accountId: 'acc1', instrumentId: 'inst1', type: 'LIMIT', side: 'BUY',
+        quantity: 10, remainingQuantity: 10, price: 100, createdAt: clock.now()
+      });
+      engine.addOrder({
+        orderId: 'sell1', accountId: 'acc2', instrumentId: 'inst1', type: 'LIMIT', side: 'SELL',
+        quantity: 10, remainingQuantity: 10, price: 100, createdAt: clock.now()
+      });
+
+      const fills = engine.matchOrders({ bid: 99.9, ask: 100.1, last: 100 });
+
+      expect(fills).toHaveLength(1);
+      expect(fills[0].timestamp.toISOString()).toBe('2024-01-02T14:30:00.000Z');
+    });
+  });
+});
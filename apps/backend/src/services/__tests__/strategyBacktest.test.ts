@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { BacktestRunner } from '../backtestRunner';
+import { createStrategyOrderSource } from '../strategyBacktest';
+import { movingAverageCrossover } from '../strategies/movingAverageCrossover';
+import { StrategyDefinition } from '../strategyRuntime';
+
+// Bands wide enough that the swings below don't halt trading
+const config = { bidAskSpreadBps: 0, slippageBps: 0, impactBps: 0, feePerShare: 0, initialCash: 10000, luldBandPct: 0.5 };
+
+function bars(closes: number[]) {
+  return closes.map((close, i) => ({
+    timestamp: new Date(Date.UTC(2024, 0, 2, 14, 30 + i)).toISOString(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000
+  }));
+}
+
+describe('Strategy Backtest', () => {
+  it('should run a registered strategy against the replayed bars', async () => {
+    const closes = [100, 99, 98, 97, 101, 104, 106, 103, 99, 96, 95];
+    const source = createStrategyOrderSource(movingAverageCrossover, { fastPeriod: 2, slowPeriod: 4, quantity: 10 });
+
+    const result = await new BacktestRunner(new Map([['AAPL', bars(closes)]]), config, source).run();
+
+    expect(result.fills.map(f => `${f.side}@${f.price}`)).toEqual(['BUY@101', 'SELL@99']);
+    expect(result.positions[0]).toMatchObject({ quantity: 0, realizedPnl: -20 });
+  });
+
+  it('should hand the strategy its fills, order updates and log lines', async () => {
+    const seen: string[] = [];
+    const logged: string[] = [];
+    const definition: StrategyDefinition = {
+      name: 'buy-once',
+      description: 'Buys on the first bar',
+      defaultParams: { quantity: 1 },
+      create: (params) => ({
+        async onBar(bar, context) {
+          if (!(await context.getPosition(bar.symbol))) {
+            const placed = await context.placeOrder({ ticker: bar.symbol.toLowerCase(), type: 'MARKET', side: 'BUY', quantity: Number(params.quantity) });
+            context.log(`placed ${placed.id} ${placed.status}`);
+          }
+        },
+        onFill(fill) {
+          seen.push(`fill ${fill.quantity}@${fill.price}`);
+        },
+        onOrderUpdate(update) {
+          seen.push(`${update.type} ${update.orderId}`);
+        }
+      })
+    };
+
+    const source = createStrategyOrderSource(definition, { quantity: 3 }, (timestamp, message) => logged.push(`${timestamp} ${message}`));
+    await new BacktestRunner(new Map([['AAPL', bars([50, 51])]]), config, source).run();
+
+    expect(logged).toEqual(['2024-01-02T14:30:00.000Z placed bt-1 FILLED']);
+    expect(seen).toEqual(['FILL bt-1', 'fill 3@50']);
+  });
+
+  it('should fail the run when the strategy rejects its parameters', async () => {
+    const source = createStrategyOrderSource(movingAverageCrossover, { fastPeriod: 10, slowPeriod: 5 });
+
+    await expect(new BacktestRunner(new Map([['AAPL', bars([100])]]), config, source).run())
+      .rejects.toThrow('Requires 0 < fastPeriod < slowPeriod');
+  });
+});
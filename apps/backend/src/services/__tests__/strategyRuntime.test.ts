@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { StrategyRuntime, StrategyContext, StrategyOrderRequest } from '../strategyRuntime';
+import { movingAverageCrossover } from '../strategies/movingAverageCrossover';
+import { broadcastPriceUpdate, broadcastFillUpdate } from '../../websocket/websocket';
+import { PriceEvent } from '../tradingEvents';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+function price(symbol: string, value: number): void {
+  broadcastPriceUpdate(symbol, { price: value, timestamp: new Date().toISOString() });
+}
+
+describe('Strategy Runtime', () => {
+  const received: string[] = [];
+
+  beforeAll(() => {
+    StrategyRuntime.register({
+      name: 'recorder',
+      description: 'Records the events it sees',
+      defaultParams: { label: 'default' },
+      create: (params) => ({
+        async onBar(bar) {
+          received.push(`${params.label}:${bar.symbol}@${bar.price}`);
+          await flush(); // a slow handler must not let the next event overtake it
+        }
+      })
+    });
+    StrategyRuntime.register({
+      name: 'broken-start',
+      description: 'Fails in onStart',
+      defaultParams: {},
+      create: () => ({
+        onStart() {
+          throw new Error('bad params');
+        }
+      })
+    });
+    StrategyRuntime.register({
+      name: 'always-throws',
+      description: 'Fails on every bar',
+      defaultParams: {},
+      create: () => ({
+        onBar() {
+          throw new Error('boom');
+        }
+      })
+    });
+  });
+
+  it('should deliver price updates for its symbols, in order', async () => {
+    received.length = 0;
+    const instance = await StrategyRuntime.start('recorder', 'acc1', ['aapl'], { label: 'a' });
+
+    price('AAPL', 100);
+    price('MSFT', 300);
+    price('AAPL', 101);
+    await flush();
+    await flush();
+    await flush();
+
+    expect(received).toEqual(['a:AAPL@100', 'a:AAPL@101']);
+    expect(StrategyRuntime.getStatus(instance.id)).toMatchObject({
+      status: 'RUNNING',
+      symbols: ['AAPL'],
+      params: { label: 'a' },
+      eventsProcessed: 2
+    });
+
+    await StrategyRuntime.stop(instance.id);
+  });
+
+  it('should stop delivering events once stopped', async () => {
+    received.length = 0;
+    const instance = await StrategyRuntime.start('recorder', 'acc1', ['AAPL']);
+    const stopped = await StrategyRuntime.stop(instance.id);
+
+    price('AAPL', 102);
+    await flush();
+
+    expect(stopped?.status).toBe('STOPPED');
+    expect(received).toEqual([]);
+    expect(StrategyRuntime.getLogs(instance.id)?.map(l => l.message)).toEqual([
+      'Started recorder on AAPL',
+      'Stopped'
+    ]);
+  });
+
+  it('should only deliver fills for orders the strategy placed', async () => {
+    const fills: string[] = [];
+    StrategyRuntime.register({
+      name: 'fill-recorder',
+      description: 'Records fills',
+      defaultParams: {},
+      create: () => ({ onFill: (fill) => { fills.push(fill.orderId); } })
+    });
+    const instance = await StrategyRuntime.start('fill-recorder', 'acc1', ['AAPL']);
+
+    broadcastFillUpdate('acc1', { orderId: 'manual-order', quantity: 1, price: 100, side: 'BUY' });
+    await flush();
+
+    expect(fills).toEqual([]);
+    await StrategyRuntime.stop(instance.id);
+  });
+
+  it('should mark a strategy that fails to start as ERROR', async () => {
+    const instance = await StrategyRuntime.start('broken-start', 'acc1', ['AAPL']);
+
+    expect(instance.status).toBe('ERROR');
+    expect(instance.lastError).toBe('bad params');
+  });
+
+  it('should stop a strategy after repeated handler errors', async () => {
+    const instance = await StrategyRuntime.start('always-throws', 'acc1', ['AAPL']);
+
+    for (let i = 0; i < 10; i++) price('AAPL', 100 + i);
+    await flush();
+
+    const status = StrategyRuntime.getStatus(instance.id);
+    expect(status?.status).toBe('ERROR');
+    expect(status?.lastError).toBe('boom');
+    expect(StrategyRuntime.getLogs(instance.id)?.filter(l => l.message === 'onBar failed: boom')).toHaveLength(5);
+  });
+
+  it('should reject unknown strategies', async () => {
+    await expect(StrategyRuntime.start('missing', 'acc1', ['AAPL'])).rejects.toThrow('Unknown strategy: missing');
+  });
+});
+
+describe('Moving Average Crossover', () => {
+  function fakeContext() {
+    let held = 0;
+    const orders: StrategyOrderRequest[] = [];
+    const context: StrategyContext = {
+      strategyId: 'test',
+      accountId: 'acc1',
+      params: {},
+      placeOrder: async (order) => {
+        orders.push(order);
+        held += order.side === 'BUY' ? order.quantity : -order.quantity;
+        return { id: `order${orders.length}`, status: 'PENDING' };
+      },
+      cancelOrder: async () => false,
+      getPosition: async () => (held ? { quantity: held, avgPrice: 100 } : null),
+      log: () => {}
+    };
+    return { context, orders };
+  }
+
+  it('should buy on an upward cross and sell the position on a downward cross', async () => {
+    const strategy = movingAverageCrossover.create({ fastPeriod: 2, slowPeriod: 4, quantity: 10 });
+    const { context, orders } = fakeContext();
+    const bar = (value: number): PriceEvent => ({ symbol: 'AAPL', price: value, timestamp: '' });
+
+    strategy.onStart!(context);
+    for (const value of [100, 99, 98, 97, 96, 99, 103, 104, 100, 95, 94]) {
+      await strategy.onBar!(bar(value), context);
+    }
+
+    expect(orders.map(o => `${o.side} ${o.quantity}`)).toEqual(['BUY 10', 'SELL 10']);
+  });
+
+  it('should refuse inconsistent periods', () => {
+    const strategy = movingAverageCrossover.create({ fastPeriod: 20, slowPeriod: 5, quantity: 10 });
+    expect(() => strategy.onStart!(fakeContext().context)).toThrow('Requires 0 < fastPeriod < slowPeriod');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { TradingHalt, calculatePriceBands, getBandBreach, getHaltRejection } from '../tradingHalts';
+
+describe('Trading Halts', () => {
+  it('should put the bands a share either side of the reference price, to the cent', () => {
+    expect(calculatePriceBands(229.15, 0.05)).toEqual({ referencePrice: 229.15, lower: 217.69, upper: 240.61 });
+  });
+
+  it('should only report a breach once the price is outside a band', () => {
+    const bands = calculatePriceBands(100, 0.05);
+
+    expect(getBandBreach(105, bands)).toBeNull();
+    expect(getBandBreach(95, bands)).toBeNull();
+    expect(getBandBreach(105.01, bands)).toBe('LIMIT_UP');
+    expect(getBandBreach(94.99, bands)).toBe('LIMIT_DOWN');
+  });
+
+  it('should queue orders that can wait for the resumption and turn away the rest', () => {
+    const halt: TradingHalt = { symbol: 'AAPL', reason: 'LIMIT_UP', haltedAt: '2024-01-02T15:00:00.000Z' };
+
+    expect(getHaltRejection(halt, { timeInForce: 'DAY' })).toBeUndefined();
+    expect(getHaltRejection(halt, { timeInForce: 'GTC' })).toBeUndefined();
+    expect(getHaltRejection(halt, { timeInForce: 'IOC' })).toBe('Trading in AAPL is halted (LIMIT_UP): IOC orders are not accepted');
+  });
+});
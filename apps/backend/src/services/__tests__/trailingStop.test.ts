@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateTrailingStopPrice,
+  ratchetTrailingStop,
+  isTrailingStopTriggered
+} from '../trailingStop';
+
+describe('Trailing Stop', () => {
+  describe('Stop level calculation', () => {
+    it('should trail below the high-water mark for SELL orders', () => {
+      expect(calculateTrailingStopPrice('SELL', 100, { trailAmount: 2 })).toBe(98);
+      expect(calculateTrailingStopPrice('SELL', 100, { trailPercent: 5 })).toBe(95);
+    });
+
+    it('should trail above the low-water mark for BUY orders', () => {
+      expect(calculateTrailingStopPrice('BUY', 100, { trailAmount: 2 })).toBe(102);
+      expect(calculateTrailingStopPrice('BUY', 100, { trailPercent: 5 })).toBe(105);
+    });
+  });
+
+  describe('Ratcheting', () => {
+    it('should initialize from the first price seen', () => {
+      const state = ratchetTrailingStop('SELL', undefined, 100, { trailAmount: 1 });
+      expect(state).toEqual({ highWaterMark: 100, stopPrice: 99 });
+    });
+
+    it('should ratchet a SELL stop up when price makes a new high', () => {
+      const state = ratchetTrailingStop('SELL', { highWaterMark: 100, stopPrice: 95 }, 110, { trailPercent: 5 });
+      expect(state?.highWaterMark).toBe(110);
+      expect(state?.stopPrice).toBeCloseTo(104.5);
+    });
+
+    it('should never move a SELL stop down', () => {
+      const state = ratchetTrailingStop('SELL', { highWaterMark: 100, stopPrice: 95 }, 97, { trailPercent: 5 });
+      expect(state).toBeNull();
+    });
+
+    it('should ratchet a BUY stop down when price makes a new low', () => {
+      const state = ratchetTrailingStop('BUY', { highWaterMark: 100, stopPrice: 102 }, 90, { trailAmount: 2 });
+      expect(state).toEqual({ highWaterMark: 90, stopPrice: 92 });
+    });
+
+    it('should never move a BUY stop up', () => {
+      const state = ratchetTrailingStop('BUY', { highWaterMark: 100, stopPrice: 102 }, 101, { trailAmount: 2 });
+      expect(state).toBeNull();
+    });
+  });
+
+  describe('Triggering', () => {
+    it('should trigger SELL stops at or below the stop price', () => {
+      expect(isTrailingStopTriggered('SELL', 95, 95.01)).toBe(false);
+      expect(isTrailingStopTriggered('SELL', 95, 95)).toBe(true);
+      expect(isTrailingStopTriggered('SELL', 95, 94)).toBe(true);
+    });
+
+    it('should trigger BUY stops at or above the stop price', () => {
+      expect(isTrailingStopTriggered('BUY', 105, 104.99)).toBe(false);
+      expect(isTrailingStopTriggered('BUY', 105, 105)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { BacktestMetric, LOWER_IS_BETTER } from './backtestMetrics';
+import { StrategyParams } from './strategyRuntime';
+
+export type ParamGrid = Record<string, Array<number | string | boolean>>;
+
+export interface BacktestWindow {
+  startDate: string;
+  endDate: string;
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  inSample: BacktestWindow;
+  outOfSample: BacktestWindow;
+}
+
+/**
+ * Every combination of the grid's values, in a stable order: the last key
+ * varies fastest. An empty grid yields a single empty combination.
+ */
+export function expandParamGrid(grid: ParamGrid): StrategyParams[] {
+  return Object.entries(grid).reduce<StrategyParams[]>(
+    (combinations, [key, values]) =>
+      combinations.flatMap(params => values.map(value => ({ ...params, [key]: value }))),
+    [{}]
+  );
+}
+
+export function countParamCombinations(grid: ParamGrid): number {
+  return Object.values(grid).reduce((count, values) => count * values.length, 1);
+}
+
+/**
+ * Split the bar timestamps into consecutive, non-overlapping folds, each with
+ * an in-sample window followed by an out-of-sample window. Window bounds are
+ * bar timestamps and inclusive, matching the runner's startDate/endDate.
+ */
+export function buildWalkForwardFolds(timestamps: string[], folds: number, inSampleRatio: number): WalkForwardFold[] {
+  const sorted = Array.from(new Set(timestamps)).sort((a, b) => Date.parse(a) - Date.parse(b));
+  const foldSize = Math.floor(sorted.length / folds);
+  if (foldSize < 2) {
+    throw new Error(`Not enough bars for ${folds} folds: ${sorted.length} timestamps in range`);
+  }
+
+  const result: WalkForwardFold[] = [];
+  for (let fold = 0; fold < folds; fold++) {
+    const start = fold * foldSize;
+    const end = fold === folds - 1 ? sorted.length : start + foldSize; // the last fold takes the remainder
+    const split = start + Math.min(Math.max(Math.round((end - start) * inSampleRatio), 1), end - start - 1);
+
+    result.push({
+      fold,
+      inSample: { startDate: sorted[start], endDate: sorted[split - 1] },
+      outOfSample: { startDate: sorted[split], endDate: sorted[end - 1] }
+    });
+  }
+  return result;
+}
+
+/**
+ * Order runs best-first by a metric. Runs without a value for it (e.g. a
+ * Sharpe ratio on a run that never traded) always sort last.
+ */
+export function rankByMetric<T extends { metrics: Partial<Record<BacktestMetric, number | null>> }>(
+  runs: T[],
+  metric: BacktestMetric
+): T[] {
+  const direction = LOWER_IS_BETTER.includes(metric) ? 1 : -1;
+  return [...runs].sort((a, b) => {
+    const left = a.metrics[metric];
+    const right = b.metrics[metric];
+    if (left == null || right == null) {
+      return (left == null ? 1 : 0) - (right == null ? 1 : 0);
+    }
+    return direction * (left - right);
+  });
+}
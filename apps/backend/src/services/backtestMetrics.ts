@@ -0,0 +1,63 @@
+import { BacktestResult, EquityPoint } from './backtestRunner';
+
+export interface BacktestMetrics {
+  totalReturn: number; // fraction of initial cash
+  maxDrawdown: number; // largest peak-to-trough fall, as a positive fraction of the peak
+  sharpeRatio: number | null; // null when returns have no variance (e.g. nothing traded)
+  tradeCount: number;
+  feeDrag: number; // fees as a fraction of initial cash
+}
+
+export type BacktestMetric = keyof BacktestMetrics;
+
+// Ranking direction for each metric; everything not listed here is better when higher
+export const LOWER_IS_BETTER: BacktestMetric[] = ['maxDrawdown', 'feeDrag'];
+
+// The bar data is one-minute bars over regular US sessions
+export const PERIODS_PER_YEAR = 252 * 390;
+
+export function calculateMaxDrawdown(equityCurve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  for (const { equity } of equityCurve) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Annualized Sharpe ratio of the per-bar equity returns, with a zero risk-free
+ * rate
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[], periodsPerYear: number = PERIODS_PER_YEAR): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) {
+      returns.push(equityCurve[i].equity / previous - 1);
+    }
+  }
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  if (stdDev < 1e-12) return null;
+
+  return (mean / stdDev) * Math.sqrt(periodsPerYear);
+}
+
+export function calculateMetrics(result: BacktestResult): BacktestMetrics {
+  return {
+    totalReturn: result.totalReturn,
+    maxDrawdown: calculateMaxDrawdown(result.equityCurve),
+    sharpeRatio: calculateSharpeRatio(result.equityCurve),
+    tradeCount: result.fills.length,
+    feeDrag: result.initialCash > 0 ? result.totalFees / result.initialCash : 0
+  };
+}
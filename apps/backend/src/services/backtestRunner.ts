@@ -0,0 +1,588 @@
+import { MarketBar } from './marketData';
+import { FillModel, roundToTick } from './fillModel';
+import { PriceModelConfig } from './priceModel';
+import { VirtualClock } from './simulationClock';
+import { ExecutionSimulator, SimulatorBroadcaster, SimulatorFillUpdate, SimulatorOrderUpdate, toPendingOrder } from './executionSimulator';
+import { InstrumentRules, getInstrumentRejections } from './instrumentRules';
+import { calculateTrailingStopPrice } from './trailingStop';
+import { BacktestStore, BacktestStoredOrder } from './backtestStore';
+
+export type BacktestOrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP';
+export type BacktestOrderStatus = 'PENDING' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED';
+
+export interface BacktestOrderRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: BacktestOrderType;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: 'DAY' | 'GTC' | 'IOC' | 'FOK';
+}
+
+export interface ScriptedOrder extends BacktestOrderRequest {
+  at: string; // submitted on the symbol's first bar at or after this timestamp
+}
+
+export interface BacktestOrder {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: BacktestOrderType;
+  quantity: number;
+  timeInForce: 'DAY' | 'GTC' | 'IOC' | 'FOK';
+  price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  highWaterMark?: number;
+  status: BacktestOrderStatus;
+  remainingQuantity: number;
+  avgFillPrice?: number;
+  triggeredAt?: string;
+  rejectReason?: string;
+  submittedAt: string;
+  closedAt?: string;
+}
+
+export interface BacktestFill {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  fees: number;
+  executedAt: string;
+}
+
+export interface BacktestOrderUpdate {
+  orderId: string;
+  type: 'FILL' | 'TRIGGERED' | 'EXPIRED' | 'CANCELLED' | 'REJECTED';
+  status: BacktestOrderStatus;
+  remainingQuantity: number;
+  reason?: string;
+  timestamp: string;
+}
+
+export interface BacktestPosition {
+  symbol: string;
+  quantity: number; // negative when short
+  avgPrice: number;
+  realizedPnl: number;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+}
+
+export interface BacktestConfig extends PriceModelConfig {
+  symbols?: string[]; // defaults to every symbol with data
+  startDate?: string;
+  endDate?: string;
+  initialCash: number;
+  seed: number;
+  bidAskSpreadBps: number;
+  feePerShare: number;
+  slippageBps: number;
+  maxPartialFillPct: number;
+  fillModel: FillModel;
+  participationRate: number;
+  impactBps: number;
+  queueAheadPct: number;
+  latencyMs: number;
+  marketHours: boolean;
+  luldBandPct: number;
+  haltDurationMs: number;
+  instruments?: Record<string, Partial<Omit<InstrumentRules, 'symbol'>>>; // tick and lot rules by symbol; others get the schema defaults
+}
+
+/**
+ * What a strategy sees while a backtest is running. Orders submitted here go
+ * to the execution simulator at the current bar's time, as they would live.
+ */
+export interface BacktestContext {
+  readonly timestamp: string;
+  readonly cash: number;
+  getPosition(symbol: string): BacktestPosition | undefined;
+  getOpenOrders(symbol?: string): Promise<BacktestOrder[]>;
+  submitOrder(request: BacktestOrderRequest): Promise<BacktestOrder>;
+  cancelOrder(orderId: string): Promise<boolean>;
+}
+
+export interface BacktestOrderSource {
+  onStart?(context: BacktestContext): void | Promise<void>;
+  onStop?(context: BacktestContext): void | Promise<void>;
+  onBar?(symbol: string, bar: MarketBar, context: BacktestContext): void | Promise<void>;
+  onFill?(fill: BacktestFill, context: BacktestContext): void | Promise<void>;
+  onOrderUpdate?(update: BacktestOrderUpdate, context: BacktestContext): void | Promise<void>;
+}
+
+type BacktestEvent = { kind: 'fill'; fill: BacktestFill } | { kind: 'order'; update: BacktestOrderUpdate };
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  barsProcessed: number;
+  dataStart?: string;
+  dataEnd?: string;
+  initialCash: number;
+  finalCash: number;
+  finalEquity: number;
+  totalReturn: number; // fraction of initial cash
+  totalFees: number;
+  orders: BacktestOrder[];
+  fills: BacktestFill[];
+  positions: BacktestPosition[];
+  equityCurve: EquityPoint[];
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCash: 100000,
+  seed: 1,
+  bidAskSpreadBps: 30,
+  feePerShare: 0.005,
+  slippageBps: 8,
+  maxPartialFillPct: 0.4,
+  priceModel: 'RAW', // backtests evaluate against the real bars unless told otherwise
+  noiseSigma: 0.04,
+  meanReversion: 0.2,
+  fillModel: 'CONSERVATIVE',
+  participationRate: 0.1,
+  impactBps: 50,
+  queueAheadPct: 0.25,
+  latencyMs: 0,
+  marketHours: false, // bar files needn't be stamped with real exchange hours; set it to apply sessions, auctions and DAY expiry
+  luldBandPct: 0.05,
+  haltDurationMs: 300000
+};
+
+export const BACKTEST_ACCOUNT_ID = 'backtest';
+
+const OPEN_STATUSES: Array<'PENDING' | 'PARTIALLY_FILLED'> = ['PENDING', 'PARTIALLY_FILLED'];
+
+// Order updates a backtest's source hears about; the rest only matter to live clients
+const REPORTED_UPDATES: SimulatorOrderUpdate['type'][] = ['FILL', 'TRIGGERED', 'EXPIRED', 'CANCELLED'];
+
+/**
+ * Replays historical bars through the execution simulator on a virtual clock
+ * set to each bar's time, so latency, sessions, auctions, halts and tick
+ * rounding apply exactly as they do live. Orders and fills are kept in an
+ * in-memory store and the simulator's updates come back here instead of going
+ * to clients, so nothing touches the live database or feeds; callers decide
+ * where the result is stored. The cash/position ledger is worked out from the fills.
+ */
+export class BacktestRunner {
+  private config: BacktestConfig;
+  private timeline: Array<{ symbol: string; bar: MarketBar }>;
+  private clock: VirtualClock;
+  private store: BacktestStore;
+  private simulator: ExecutionSimulator;
+  private fills: BacktestFill[] = [];
+  private positions: Map<string, BacktestPosition> = new Map();
+  private currentBars: Map<string, MarketBar> = new Map(); // each symbol's last bar as played, price model included
+  private orderStates: Map<string, { status: BacktestOrderStatus; remainingQuantity: number }> = new Map(); // as of the latest update
+  private equityCurve: EquityPoint[] = [];
+  private pendingEvents: BacktestEvent[] = []; // fills and order updates waiting to be handed to the source
+  private cash: number;
+  private totalFees = 0;
+  private nextOrderNumber = 1;
+
+  constructor(
+    private marketData: Map<string, MarketBar[]>,
+    config: Partial<BacktestConfig> = {},
+    private source: BacktestOrderSource = {},
+    private scriptedOrders: ScriptedOrder[] = []
+  ) {
+    this.config = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+    this.cash = this.config.initialCash;
+    this.timeline = this.buildTimeline();
+    this.clock = new VirtualClock(this.timeline.length > 0 ? new Date(this.timeline[0].bar.timestamp) : 0);
+    this.store = new BacktestStore(() => this.clock.now());
+
+    const { symbols, startDate, endDate, initialCash, instruments, ...execution } = this.config;
+    this.simulator = new ExecutionSimulator(this.store, {
+      ...execution,
+      clock: this.clock,
+      broadcaster: this.createBroadcaster()
+    });
+  }
+
+  async run(): Promise<BacktestResult> {
+    const timeline = this.timeline;
+    const scripted = [...this.scriptedOrders].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+    const submitted = new Set<ScriptedOrder>();
+    const context = this.createContext();
+
+    this.createAccountAndInstruments();
+    await this.simulator.startSimulation();
+
+    if (this.source.onStart) {
+      await this.source.onStart(context);
+    }
+
+    for (let i = 0; i < timeline.length; i++) {
+      const { symbol, bar } = timeline[i];
+
+      // Orders in transit, halts and session changes due before the bar happen first
+      await this.clock.advance(Date.parse(bar.timestamp) - this.clock.now().getTime());
+      const played = await this.simulator.playBar(symbol, bar);
+      if (played) {
+        this.currentBars.set(symbol, played);
+      }
+
+      for (const order of scripted) {
+        if (Date.parse(order.at) > Date.parse(bar.timestamp)) break;
+        if (order.symbol.toUpperCase() === symbol && !submitted.has(order)) {
+          submitted.add(order);
+          await this.submitOrder(order);
+        }
+      }
+
+      // The source only sees bars that traded, as a live strategy only sees prices that were broadcast
+      await this.deliverEvents(context);
+      if (played && this.source.onBar) {
+        await this.source.onBar(symbol, played, context);
+      }
+      await this.deliverEvents(context);
+
+      // One equity point per timestamp, once every symbol trading at it has been processed
+      const next = timeline[i + 1];
+      if (!next || next.bar.timestamp !== bar.timestamp) {
+        this.equityCurve.push({ timestamp: bar.timestamp, equity: this.getEquity() });
+      }
+    }
+
+    if (this.source.onStop) {
+      await this.source.onStop(context);
+    }
+    await this.simulator.stopSimulation();
+
+    const orders = this.store.listOrders();
+
+    const finalEquity = this.getEquity();
+    return {
+      config: this.config,
+      barsProcessed: timeline.length,
+      dataStart: timeline[0]?.bar.timestamp,
+      dataEnd: timeline[timeline.length - 1]?.bar.timestamp,
+      initialCash: this.config.initialCash,
+      finalCash: this.cash,
+      finalEquity,
+      totalReturn: (finalEquity - this.config.initialCash) / this.config.initialCash,
+      totalFees: this.totalFees,
+      orders: orders.map(toBacktestOrder),
+      fills: this.fills,
+      positions: Array.from(this.positions.values()),
+      equityCurve: this.equityCurve
+    };
+  }
+
+  /**
+   * Every selected symbol's bars in the date window, merged into one stream
+   * ordered by timestamp and then symbol
+   */
+  private buildTimeline(): Array<{ symbol: string; bar: MarketBar }> {
+    const start = this.config.startDate ? Date.parse(this.config.startDate) : -Infinity;
+    const end = this.config.endDate ? Date.parse(this.config.endDate) : Infinity;
+    const symbols = this.config.symbols
+      ? this.config.symbols.map(s => s.toUpperCase())
+      : Array.from(this.marketData.keys());
+
+    const timeline: Array<{ symbol: string; bar: MarketBar; time: number }> = [];
+    for (const symbol of symbols) {
+      for (const bar of this.marketData.get(symbol) || []) {
+        const time = Date.parse(bar.timestamp);
+        if (time >= start && time <= end) {
+          timeline.push({ symbol, bar, time });
+        }
+      }
+    }
+
+    timeline.sort((a, b) => a.time - b.time || (a.symbol < b.symbol ? -1 : a.symbol > b.symbol ? 1 : 0));
+    return timeline.map(({ symbol, bar }) => ({ symbol, bar }));
+  }
+
+  /**
+   * The backtest's account, funded with its initial cash, and an instrument
+   * for each symbol in the timeline. Instruments are keyed by symbol, and
+   * their price bands start around their first bar's close.
+   */
+  private createAccountAndInstruments(): void {
+    this.store.createAccount({
+      id: BACKTEST_ACCOUNT_ID,
+      name: 'Backtest',
+      email: 'backtest@localhost',
+      balance: this.config.initialCash
+    });
+
+    const firstBars = new Map<string, MarketBar>();
+    for (const { symbol, bar } of this.timeline) {
+      if (!firstBars.has(symbol)) firstBars.set(symbol, bar);
+    }
+
+    for (const [symbol, bar] of firstBars) {
+      this.store.createInstrument({
+        id: symbol,
+        symbol,
+        name: symbol,
+        exchange: 'BACKTEST',
+        price: bar.close,
+        previousClose: bar.open,
+        referencePrice: bar.close,
+        ...this.config.instruments?.[symbol]
+      });
+    }
+  }
+
+  /**
+   * Record an order and hand it to the simulator, or record it as rejected.
+   * It is checked the way the live order path checks it, apart from the
+   * account's risk limits.
+   */
+  private async submitOrder(request: BacktestOrderRequest): Promise<BacktestOrder> {
+    const symbol = request.symbol.toUpperCase();
+    const timeInForce = request.timeInForce || 'DAY';
+    const currentBar = this.currentBars.get(symbol);
+
+    // Trailing stops start trailing from the current price, on the tick grid away from the market
+    let stopPrice = request.stopPrice;
+    let highWaterMark: number | undefined;
+    const instrument = await this.store.findInstrument({ symbol });
+    if (request.type === 'TRAILING_STOP' && currentBar && instrument) {
+      highWaterMark = currentBar.close;
+      stopPrice = roundToTick(
+        calculateTrailingStopPrice(request.side, highWaterMark, request),
+        parseFloat(instrument.tickSize.toString()),
+        request.side === 'SELL' ? 'DOWN' : 'UP'
+      );
+    }
+
+    const reasons = await this.validateOrder({ ...request, symbol, timeInForce });
+    const order = this.store.createOrder({
+      id: `bt-${this.nextOrderNumber++}`,
+      accountId: BACKTEST_ACCOUNT_ID,
+      instrumentId: symbol,
+      type: request.type,
+      side: request.side,
+      quantity: request.quantity,
+      price: request.price,
+      stopPrice,
+      trailAmount: request.trailAmount,
+      trailPercent: request.trailPercent,
+      highWaterMark,
+      timeInForce,
+      status: reasons.length > 0 ? 'REJECTED' : 'PENDING'
+    });
+
+    const event = this.store.createOrderEvent(order.id, {
+      type: reasons.length > 0 ? 'REJECTED' : 'ACCEPTED',
+      payload: reasons.length > 0 ? { rejectedReasons: reasons } : { acceptedReason: 'Order passed all pre-trade checks' },
+      timestamp: this.clock.now()
+    });
+
+    // A rejected order is already final, so it needn't be read back
+    if (reasons.length > 0) {
+      this.recordUpdate({ orderId: order.id, type: 'REJECTED', status: 'REJECTED', remainingQuantity: order.quantity, reason: reasons.join('; ') });
+      return toBacktestOrder({ ...order, fills: [], orderEvents: [event] });
+    }
+
+    this.orderStates.set(order.id, { status: 'PENDING', remainingQuantity: order.quantity });
+    await this.simulator.addPendingOrder(toPendingOrder(order));
+    return this.getOrder(order.id);
+  }
+
+  private async validateOrder(order: BacktestOrderRequest & { timeInForce: string }): Promise<string[]> {
+    if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+      return ['Quantity must be a positive integer'];
+    }
+    if (!this.currentBars.has(order.symbol)) {
+      return [`No market data for ${order.symbol}`];
+    }
+    if ((order.type === 'LIMIT' || order.type === 'STOP_LIMIT') && !order.price) {
+      return ['Price is required for LIMIT and STOP_LIMIT orders'];
+    }
+    if ((order.type === 'STOP' || order.type === 'STOP_LIMIT') && !order.stopPrice) {
+      return ['Stop price is required for STOP and STOP_LIMIT orders'];
+    }
+    if (order.type === 'TRAILING_STOP' && !order.trailAmount === !order.trailPercent) {
+      return ['Trailing stops require exactly one of trailAmount or trailPercent'];
+    }
+
+    const instrument = (await this.store.findInstrument({ symbol: order.symbol }))!;
+    return [
+      this.simulator.getSessionRejection(order),
+      this.simulator.getHaltRejection(order.symbol, order),
+      ...getInstrumentRejections({
+        symbol: order.symbol,
+        tickSize: parseFloat(instrument.tickSize.toString()),
+        lotSize: instrument.lotSize,
+        oddLotPolicy: instrument.oddLotPolicy
+      }, order)
+    ].filter((reason): reason is string => !!reason);
+  }
+
+  private getOrder(orderId: string): BacktestOrder {
+    const [order] = this.store.listOrders({ ids: [orderId] });
+    return toBacktestOrder(order);
+  }
+
+  /**
+   * Take the simulator's updates in place of the WebSocket server: fills go
+   * to the ledger, and fills and order updates are queued for the source
+   */
+  private createBroadcaster(): SimulatorBroadcaster {
+    const ignore = () => {};
+    return {
+      priceUpdate: ignore,
+      orderUpdate: (accountId, update) => this.recordSimulatorUpdate(update),
+      fillUpdate: (accountId, fill) => this.recordFill(fill),
+      positionUpdate: ignore,
+      accountUpdate: ignore,
+      depthUpdate: ignore,
+      marketSession: ignore,
+      auctionUpdate: ignore,
+      tradingStatus: ignore
+    };
+  }
+
+  private recordSimulatorUpdate(update: SimulatorOrderUpdate): void {
+    if (!REPORTED_UPDATES.includes(update.type)) return;
+
+    // Triggers don't say where the order stands, so it is carried over from its last update
+    const state = this.orderStates.get(update.orderId);
+    this.recordUpdate({
+      orderId: update.orderId,
+      type: update.type as BacktestOrderUpdate['type'],
+      status: (update.status as BacktestOrderStatus | undefined) || state!.status,
+      remainingQuantity: update.remainingQuantity ?? state!.remainingQuantity,
+      ...(update.reason && { reason: update.reason })
+    });
+  }
+
+  private recordUpdate(update: Omit<BacktestOrderUpdate, 'timestamp'>): void {
+    this.orderStates.set(update.orderId, { status: update.status, remainingQuantity: update.remainingQuantity });
+    this.pendingEvents.push({ kind: 'order', update: { ...update, timestamp: this.clock.now().toISOString() } });
+  }
+
+  private recordFill(executed: SimulatorFillUpdate): void {
+    const fill: BacktestFill = {
+      orderId: executed.orderId,
+      symbol: executed.instrumentId,
+      side: executed.side,
+      quantity: executed.quantity,
+      price: executed.price,
+      fees: executed.fees,
+      executedAt: executed.executedAt
+    };
+
+    this.cash += fill.side === 'BUY' ? -(fill.quantity * fill.price + fill.fees) : fill.quantity * fill.price - fill.fees;
+    this.totalFees += fill.fees;
+    this.updatePosition(fill.symbol, fill.side, fill.quantity, fill.price);
+    this.fills.push(fill);
+    this.pendingEvents.push({ kind: 'fill', fill });
+  }
+
+  private updatePosition(symbol: string, side: 'BUY' | 'SELL', quantity: number, price: number): void {
+    const position = this.positions.get(symbol) || { symbol, quantity: 0, avgPrice: 0, realizedPnl: 0 };
+    const signedQty = side === 'BUY' ? quantity : -quantity;
+    const newQty = position.quantity + signedQty;
+
+    if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signedQty)) {
+      // Opening or adding: average in the new shares
+      position.avgPrice = (Math.abs(position.quantity) * position.avgPrice + quantity * price) / Math.abs(newQty);
+    } else {
+      // Reducing: realize P&L on the closed shares, and reset the basis if the position flipped
+      const closedQty = Math.min(quantity, Math.abs(position.quantity));
+      position.realizedPnl += closedQty * (price - position.avgPrice) * Math.sign(position.quantity);
+      if (Math.sign(newQty) === Math.sign(signedQty)) {
+        position.avgPrice = price;
+      }
+    }
+
+    position.quantity = newQty;
+    if (newQty === 0) position.avgPrice = 0;
+    this.positions.set(symbol, position);
+  }
+
+  private getEquity(): number {
+    let equity = this.cash;
+    for (const position of this.positions.values()) {
+      const bar = this.currentBars.get(position.symbol);
+      equity += position.quantity * (bar ? bar.close : position.avgPrice);
+    }
+    return equity;
+  }
+
+  /**
+   * Hand fills and order updates to the order source in the order they
+   * happened, including any its own handlers trigger
+   */
+  private async deliverEvents(context: BacktestContext): Promise<void> {
+    while (this.pendingEvents.length > 0) {
+      const event = this.pendingEvents.shift()!;
+      if (event.kind === 'fill' && this.source.onFill) {
+        await this.source.onFill(event.fill, context);
+      } else if (event.kind === 'order' && this.source.onOrderUpdate) {
+        await this.source.onOrderUpdate(event.update, context);
+      }
+    }
+  }
+
+  private createContext(): BacktestContext {
+    const runner = this;
+    return {
+      get timestamp() { return runner.clock.now().toISOString(); },
+      get cash() { return runner.cash; },
+      getPosition: (symbol) => {
+        const position = runner.positions.get(symbol.toUpperCase());
+        return position ? { ...position } : undefined;
+      },
+      getOpenOrders: async (symbol) => {
+        const orders = runner.store.listOrders({ statuses: OPEN_STATUSES, instrumentId: symbol?.toUpperCase() });
+        return orders.map(toBacktestOrder);
+      },
+      submitOrder: (request) => runner.submitOrder(request),
+      cancelOrder: async (orderId) => {
+        const result = await runner.simulator.cancelOrder(orderId, 'Cancelled by strategy', 'strategy');
+        return result.cancelled;
+      }
+    };
+  }
+}
+
+const toNumber = (value: { toString(): string } | null): number | undefined =>
+  value === null ? undefined : parseFloat(value.toString());
+
+/**
+ * An order as the backtest reports it, from its row and fills in the store
+ */
+function toBacktestOrder(order: BacktestStoredOrder): BacktestOrder {
+  const filledQuantity = order.fills.reduce((sum, fill) => sum + fill.quantity, 0);
+  const filledValue = order.fills.reduce((sum, fill) => sum + fill.quantity * parseFloat(fill.price.toString()), 0);
+  const closedAt = order.filledAt || order.cancelledAt || order.expiredAt || (order.status === 'REJECTED' ? order.createdAt : null);
+  const rejection = order.orderEvents.find(event => event.type === 'REJECTED');
+  const rejectedReasons = (rejection?.payload as { rejectedReasons?: string[] } | undefined)?.rejectedReasons;
+
+  return {
+    orderId: order.id,
+    symbol: order.instrumentId,
+    side: order.side,
+    type: order.type as BacktestOrderType,
+    quantity: order.quantity,
+    timeInForce: order.timeInForce,
+    price: toNumber(order.price),
+    stopPrice: toNumber(order.stopPrice),
+    trailAmount: toNumber(order.trailAmount),
+    trailPercent: toNumber(order.trailPercent),
+    highWaterMark: toNumber(order.highWaterMark),
+    status: order.status as BacktestOrderStatus,
+    remainingQuantity: order.quantity - filledQuantity,
+    avgFillPrice: filledQuantity > 0 ? filledValue / filledQuantity : undefined,
+    triggeredAt: order.triggeredAt?.toISOString(),
+    rejectReason: rejectedReasons?.join('; '),
+    submittedAt: order.createdAt.toISOString(),
+    closedAt: closedAt?.toISOString()
+  };
+}
@@ -0,0 +1,282 @@
+import { PrismaClient } from '@prisma/client';
+import { BacktestRunner, BacktestConfig, BacktestOrderSource, BacktestResult, ScriptedOrder, DEFAULT_BACKTEST_CONFIG } from './backtestRunner';
+import { BacktestMetric, BacktestMetrics, calculateMetrics } from './backtestMetrics';
+import { BacktestWindow, ParamGrid, buildWalkForwardFolds, countParamCombinations, expandParamGrid, rankByMetric } from './backtestJobs';
+import { MarketBar, loadMarketBars } from './marketData';
+import { StrategyParams, StrategyRuntime } from './strategyRuntime';
+import { createStrategyOrderSource } from './strategyBacktest';
+
+const prisma = new PrismaClient();
+
+export interface BacktestRequest {
+  name?: string;
+  config?: Partial<BacktestConfig>;
+  orders?: ScriptedOrder[];
+  source?: BacktestOrderSource;
+  strategy?: string; // registered strategy to drive the run, instead of a custom source
+  params?: StrategyParams;
+  jobId?: string;
+  fold?: number;
+  windowRole?: 'IN_SAMPLE' | 'OUT_OF_SAMPLE';
+}
+
+export interface BacktestRunSummary {
+  runId: string;
+  result: BacktestResult;
+  metrics: BacktestMetrics;
+}
+
+interface BacktestJobBase {
+  name?: string;
+  strategy: string;
+  config?: Partial<BacktestConfig>;
+  paramGrid: ParamGrid;
+  objective?: BacktestMetric; // what "best" means when comparing runs
+}
+
+export interface SweepJobRequest extends BacktestJobBase {
+  type: 'SWEEP';
+  windows?: BacktestWindow[]; // defaults to the config's own date range
+}
+
+export interface WalkForwardJobRequest extends BacktestJobBase {
+  type: 'WALK_FORWARD';
+  folds: number;
+  inSampleRatio: number;
+}
+
+export type BacktestJobRequest = SweepJobRequest | WalkForwardJobRequest;
+
+export class BacktestService {
+  /**
+   * Run a backtest over the CSV bar data and store it under its own run id.
+   * Orders and fills go to the backtest tables, never the live account tables.
+   */
+  static async runBacktest(
+    request: BacktestRequest,
+    marketData: Map<string, MarketBar[]> = loadMarketBars()
+  ): Promise<BacktestRunSummary> {
+    const source = request.strategy
+      ? createStrategyOrderSource(this.getStrategy(request.strategy), request.params)
+      : request.source;
+    const symbols = request.config?.symbols?.map(s => s.toUpperCase()) || Array.from(marketData.keys());
+    const instruments = await this.getInstrumentRules(symbols);
+    const runner = new BacktestRunner(marketData, { instruments, ...request.config }, source, request.orders);
+    const orders = request.orders || [];
+
+    const run = await prisma.backtestRun.create({
+      data: {
+        name: request.name,
+        config: { ...request.config, orders } as any, // Prisma Json type
+        symbols,
+        initialCash: request.config?.initialCash ?? DEFAULT_BACKTEST_CONFIG.initialCash,
+        jobId: request.jobId,
+        strategy: request.strategy,
+        params: request.params as any,
+        fold: request.fold,
+        windowRole: request.windowRole
+      }
+    });
+
+    try {
+      const result = await runner.run();
+      const metrics = calculateMetrics(result);
+      await this.saveResult(run.id, result, metrics, orders);
+
+      console.log(`Backtest ${run.id} completed: ${result.barsProcessed} bars, ${result.fills.length} fills, equity ${result.finalEquity.toFixed(2)}`);
+      return { runId: run.id, result, metrics };
+    } catch (error: any) {
+      await prisma.backtestRun.update({
+        where: { id: run.id },
+        data: { status: 'FAILED', error: error.message, completedAt: new Date() }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a parameter sweep or walk-forward job and start running it in the
+   * background. Progress and results are read back from the job and its runs.
+   */
+  static async startJob(request: BacktestJobRequest): Promise<string> {
+    const definition = this.getStrategy(request.strategy);
+    const combinations = countParamCombinations(request.paramGrid);
+    const totalRuns = request.type === 'SWEEP'
+      ? combinations * (request.windows?.length || 1)
+      : request.folds * (combinations + 1); // every combination in-sample, then the winner out-of-sample
+
+    const job = await prisma.backtestJob.create({
+      data: {
+        name: request.name,
+        strategy: definition.name,
+        type: request.type,
+        config: request as any, // Prisma Json type
+        objective: request.objective || 'sharpeRatio',
+        totalRuns
+      }
+    });
+
+    this.runJob(job.id, request).catch(error => {
+      console.error(`Backtest job ${job.id} failed:`, error);
+    });
+
+    return job.id;
+  }
+
+  private static async runJob(jobId: string, request: BacktestJobRequest): Promise<void> {
+    let failedRuns = 0;
+
+    try {
+      const marketData = loadMarketBars();
+      const objective = request.objective || 'sharpeRatio';
+      const combinations = expandParamGrid(request.paramGrid);
+
+      // Failed runs are kept (with their error) and counted, but don't stop the job
+      const runOne = async (params: StrategyParams, window: Partial<BacktestWindow>, fold?: number, windowRole?: BacktestRequest['windowRole']) => {
+        try {
+          return await this.runBacktest({
+            name: request.name,
+            strategy: request.strategy,
+            params,
+            config: { ...request.config, ...window },
+            jobId,
+            fold,
+            windowRole
+          }, marketData);
+        } catch (error: any) {
+          failedRuns++;
+          console.error(`Backtest job ${jobId} run failed: ${error.message}`);
+          return undefined;
+        } finally {
+          await prisma.backtestJob.update({ where: { id: jobId }, data: { completedRuns: { increment: 1 } } });
+        }
+      };
+
+      if (request.type === 'SWEEP') {
+        for (const window of request.windows?.length ? request.windows : [{}]) {
+          for (const params of combinations) {
+            await runOne(params, window);
+          }
+        }
+      } else {
+        const folds = buildWalkForwardFolds(this.timestampsInRange(marketData, request.config), request.folds, request.inSampleRatio);
+
+        for (const { fold, inSample, outOfSample } of folds) {
+          const inSampleRuns = [];
+          for (const params of combinations) {
+            const summary = await runOne(params, inSample, fold, 'IN_SAMPLE');
+            if (summary) inSampleRuns.push({ params, metrics: summary.metrics });
+          }
+
+          const best = rankByMetric(inSampleRuns, objective)[0];
+          if (best) {
+            await runOne(best.params, outOfSample, fold, 'OUT_OF_SAMPLE');
+          } else {
+            failedRuns++;
+            await prisma.backtestJob.update({ where: { id: jobId }, data: { completedRuns: { increment: 1 } } });
+          }
+        }
+      }
+
+      await prisma.backtestJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'COMPLETED',
+          error: failedRuns > 0 ? `${failedRuns} run(s) failed` : undefined,
+          completedAt: new Date()
+        }
+      });
+      console.log(`Backtest job ${jobId} completed with ${failedRuns} failed run(s)`);
+    } catch (error: any) {
+      await prisma.backtestJob.update({
+        where: { id: jobId },
+        data: { status: 'FAILED', error: error.message, completedAt: new Date() }
+      });
+      throw error;
+    }
+  }
+
+  private static getStrategy(name: string) {
+    const definition = StrategyRuntime.getDefinition(name);
+    if (!definition) {
+      throw new Error(`Unknown strategy: ${name}`);
+    }
+    return definition;
+  }
+
+  /**
+   * The tick and lot rules the live instruments trade under, so a backtest
+   * rounds and rejects orders the way the simulator would for real
+   */
+  private static async getInstrumentRules(symbols: string[]): Promise<BacktestConfig['instruments']> {
+    const instruments = await prisma.instrument.findMany({ where: { symbol: { in: symbols } } });
+    return Object.fromEntries(instruments.map(instrument => [instrument.symbol, {
+      tickSize: parseFloat(instrument.tickSize.toString()),
+      lotSize: instrument.lotSize,
+      oddLotPolicy: instrument.oddLotPolicy
+    }]));
+  }
+
+  private static timestampsInRange(marketData: Map<string, MarketBar[]>, config: Partial<BacktestConfig> = {}): string[] {
+    const start = config.startDate ? Date.parse(config.startDate) : -Infinity;
+    const end = config.endDate ? Date.parse(config.endDate) : Infinity;
+    const symbols = config.symbols ? config.symbols.map(s => s.toUpperCase()) : Array.from(marketData.keys());
+
+    return symbols
+      .flatMap(symbol => (marketData.get(symbol) || []).map(bar => bar.timestamp))
+      .filter(timestamp => Date.parse(timestamp) >= start && Date.parse(timestamp) <= end);
+  }
+
+  private static async saveResult(runId: string, result: BacktestResult, metrics: BacktestMetrics, orders: ScriptedOrder[]): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.backtestOrder.createMany({
+        data: result.orders.map(order => ({
+          runId,
+          orderRef: order.orderId,
+          symbol: order.symbol,
+          type: order.type,
+          side: order.side,
+          quantity: order.quantity,
+          filledQuantity: order.quantity - order.remainingQuantity,
+          price: order.price,
+          stopPrice: order.stopPrice,
+          avgFillPrice: order.avgFillPrice,
+          status: order.status,
+          timeInForce: order.timeInForce,
+          rejectReason: order.rejectReason,
+          submittedAt: new Date(order.submittedAt),
+          closedAt: order.closedAt ? new Date(order.closedAt) : undefined
+        }))
+      });
+
+      await tx.backtestFill.createMany({
+        data: result.fills.map(fill => ({
+          runId,
+          orderRef: fill.orderId,
+          symbol: fill.symbol,
+          side: fill.side,
+          quantity: fill.quantity,
+          price: fill.price,
+          fees: fill.fees,
+          executedAt: new Date(fill.executedAt)
+        }))
+      });
+
+      await tx.backtestRun.update({
+        where: { id: runId },
+        data: {
+          status: 'COMPLETED',
+          config: { ...result.config, orders } as any,
+          finalEquity: result.finalEquity,
+          totalFees: result.totalFees,
+          barsProcessed: result.barsProcessed,
+          dataStart: result.dataStart ? new Date(result.dataStart) : undefined,
+          dataEnd: result.dataEnd ? new Date(result.dataEnd) : undefined,
+          equityCurve: result.equityCurve as any,
+          ...metrics,
+          completedAt: new Date()
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,294 @@
+import { Prisma, Account, Fill, Instrument, Order, OrderEvent, OrderGroupStatus, OrderStatus, Position } from '@prisma/client';
+import { InstrumentRules } from './instrumentRules';
+import { FillRecord, OrderEventRecord, OrderFilter, OrderUpdate, SimulatorStateRecord, SimulatorStore, StoredBar, StoredOrder, UpdatedOrder, applyFillToPosition, getFillCashFlow } from './simulatorStore';
+
+export type BacktestStoredOrder = Order & { fills: Fill[]; orderEvents: OrderEvent[] };
+
+export interface NewBacktestOrder {
+  id: string;
+  accountId: string;
+  instrumentId: string;
+  type: Order['type'];
+  side: Order['side'];
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  highWaterMark?: number;
+  timeInForce: Order['timeInForce'];
+  status: OrderStatus;
+}
+
+const toNumber = (value: Prisma.Decimal): number => parseFloat(value.toString());
+const toDecimal = (value: number): Prisma.Decimal => new Prisma.Decimal(value);
+const toOptionalDecimal = (value?: number): Prisma.Decimal | null => value === undefined ? null : toDecimal(value);
+
+/**
+ * A backtest's orders, fills, positions and account, held in memory for the
+ * length of the run. Every operation completes without yielding, so each one
+ * is atomic without transactions, and rows are stamped from the backtest's
+ * clock rather than the wall clock.
+ */
+export class BacktestStore implements SimulatorStore {
+  private accounts: Map<string, Account> = new Map();
+  private instruments: Map<string, Instrument> = new Map();
+  private orders: Map<string, Order> = new Map(); // in the order they were created
+  private fills: Map<string, Fill[]> = new Map(); // by order id
+  private orderEvents: Map<string, OrderEvent[]> = new Map(); // by order id
+  private positions: Map<string, Position> = new Map(); // by account and instrument id
+  private state: SimulatorStateRecord | null = null;
+  private nextId = 1;
+
+  constructor(private now: () => Date) {}
+
+  createAccount(account: { id: string; name: string; email: string; balance: number }): Account {
+    const createdAt = this.now();
+    const row: Account = {
+      ...account,
+      balance: toDecimal(account.balance),
+      buyingPower: toDecimal(account.balance),
+      createdAt,
+      updatedAt: createdAt
+    };
+    this.accounts.set(row.id, row);
+    return { ...row };
+  }
+
+  createInstrument(instrument: { id: string; symbol: string; name: string; exchange: string; price: number; previousClose: number; referencePrice?: number } & Partial<Omit<InstrumentRules, 'symbol'>>): Instrument {
+    const createdAt = this.now();
+    const row: Instrument = {
+      id: instrument.id,
+      symbol: instrument.symbol,
+      name: instrument.name,
+      sector: null,
+      exchange: instrument.exchange,
+      tickSize: toDecimal(instrument.tickSize ?? 0.01),
+      lotSize: instrument.lotSize ?? 1,
+      oddLotPolicy: instrument.oddLotPolicy ?? 'ROUND_LOTS',
+      referencePrice: toOptionalDecimal(instrument.referencePrice),
+      price: toDecimal(instrument.price),
+      previousClose: toDecimal(instrument.previousClose),
+      isActive: true,
+      createdAt,
+      updatedAt: createdAt
+    };
+    this.instruments.set(row.id, row);
+    return { ...row };
+  }
+
+  createOrder(order: NewBacktestOrder): Order {
+    const createdAt = this.now();
+    const row: Order = {
+      ...order,
+      price: toOptionalDecimal(order.price),
+      stopPrice: toOptionalDecimal(order.stopPrice),
+      trailAmount: toOptionalDecimal(order.trailAmount),
+      trailPercent: toOptionalDecimal(order.trailPercent),
+      highWaterMark: toOptionalDecimal(order.highWaterMark),
+      createdAt,
+      updatedAt: createdAt,
+      filledAt: null,
+      cancelledAt: null,
+      triggeredAt: null,
+      expiredAt: null,
+      groupId: null,
+      groupRole: null
+    };
+    this.orders.set(row.id, row);
+    return { ...row };
+  }
+
+  createOrderEvent(orderId: string, event: OrderEventRecord): OrderEvent {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const row: OrderEvent = {
+      id: `event-${this.nextId++}`,
+      orderId,
+      instrumentId: order.instrumentId,
+      type: event.type,
+      payload: event.payload as Prisma.JsonObject,
+      timestamp: event.timestamp
+    };
+    this.orderEvents.set(orderId, [...(this.orderEvents.get(orderId) || []), row]);
+    return row;
+  }
+
+  /**
+   * Orders with their fills and events, oldest first
+   */
+  listOrders(filter: { ids?: string[]; statuses?: OrderStatus[]; instrumentId?: string } = {}): BacktestStoredOrder[] {
+    return Array.from(this.orders.values())
+      .filter(order =>
+        (!filter.ids || filter.ids.includes(order.id)) &&
+        (!filter.statuses || filter.statuses.includes(order.status)) &&
+        (!filter.instrumentId || order.instrumentId === filter.instrumentId)
+      )
+      .map(order => ({
+        ...order,
+        fills: [...(this.fills.get(order.id) || [])],
+        orderEvents: [...(this.orderEvents.get(order.id) || [])]
+      }));
+  }
+
+  async loadState(): Promise<SimulatorStateRecord | null> {
+    return this.state && { ...this.state, currentIndices: { ...this.state.currentIndices } };
+  }
+
+  async saveState(state: Partial<SimulatorStateRecord>): Promise<void> {
+    this.state = { ...(this.state || { isRunning: false, currentIndices: {} }), ...state } as SimulatorStateRecord;
+  }
+
+  // A backtest replays the bars it was given; none are stored
+  async findStoredBars(): Promise<StoredBar[]> {
+    return [];
+  }
+
+  async findLatestBarTime(): Promise<Date | null> {
+    return null;
+  }
+
+  async findInstrument(where: { id: string } | { symbol: string }): Promise<Instrument | null> {
+    const instrument = 'id' in where
+      ? this.instruments.get(where.id)
+      : Array.from(this.instruments.values()).find(candidate => candidate.symbol === where.symbol);
+    return instrument ? { ...instrument } : null;
+  }
+
+  async updateInstrumentPrices(symbol: string, prices: { price?: number; previousClose?: number; referencePrice?: number }): Promise<void> {
+    for (const instrument of this.instruments.values()) {
+      if (instrument.symbol !== symbol) continue;
+
+      if (prices.price !== undefined) instrument.price = toDecimal(prices.price);
+      if (prices.previousClose !== undefined) instrument.previousClose = toDecimal(prices.previousClose);
+      if (prices.referencePrice !== undefined) instrument.referencePrice = toDecimal(prices.referencePrice);
+      instrument.updatedAt = this.now();
+    }
+  }
+
+  async findOrder(orderId: string): Promise<Order | null> {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : null;
+  }
+
+  async findOrders(filter: OrderFilter): Promise<StoredOrder[]> {
+    return Array.from(this.orders.values())
+      .filter(order =>
+        (!filter.ids || filter.ids.includes(order.id)) &&
+        (!filter.statuses || filter.statuses.includes(order.status)) &&
+        (!filter.groupId || order.groupId === filter.groupId) &&
+        (!filter.groupRole || order.groupRole === filter.groupRole) &&
+        order.id !== filter.excludeId
+      )
+      .map(order => ({
+        ...order,
+        fills: [...(this.fills.get(order.id) || [])],
+        instrument: { ...this.instruments.get(order.instrumentId)! }
+      }));
+  }
+
+  async updateOrder(orderId: string, update: OrderUpdate): Promise<UpdatedOrder | null> {
+    const order = this.orders.get(orderId);
+    if (!order || (update.onlyIfStatus && !update.onlyIfStatus.includes(order.status))) return null;
+
+    const previous = { ...order };
+    const { price, stopPrice, highWaterMark, ...changes } = update.changes;
+    Object.assign(order, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    if (price !== undefined) order.price = toDecimal(price);
+    if (stopPrice !== undefined) order.stopPrice = toDecimal(stopPrice);
+    if (highWaterMark !== undefined) order.highWaterMark = toDecimal(highWaterMark);
+    order.updatedAt = this.now();
+
+    this.createOrderEvent(orderId, update.event(previous));
+    return { previous, order: { ...order, instrument: { ...this.instruments.get(order.instrumentId)! } } };
+  }
+
+  // Backtests place no bracket or OCO orders, so there are no groups to update
+  async updateOrderGroup(_groupId: string, _status: OrderGroupStatus): Promise<void> {}
+
+  async recordFills(fills: FillRecord[]): Promise<void> {
+    // Check every order is there before writing anything, so the fills land together or not at all
+    for (const fill of fills) {
+      if (!this.orders.has(fill.orderId)) {
+        throw new Error(`Order ${fill.orderId} not found`);
+      }
+    }
+
+    for (const fill of fills) {
+      this.fills.set(fill.orderId, [...(this.fills.get(fill.orderId) || []), {
+        id: `fill-${this.nextId++}`,
+        orderId: fill.orderId,
+        accountId: fill.accountId,
+        instrumentId: fill.instrumentId,
+        quantity: fill.quantity,
+        price: toDecimal(fill.price),
+        side: fill.side,
+        executedAt: fill.executedAt
+      }]);
+
+      const order = this.orders.get(fill.orderId)!;
+      order.status = fill.status;
+      if (fill.status === 'FILLED') order.filledAt = fill.executedAt;
+      order.updatedAt = this.now();
+      this.createOrderEvent(fill.orderId, { type: fill.status, payload: fill.payload, timestamp: fill.executedAt });
+
+      this.updatePosition(fill);
+      this.updateAccountBalance(fill);
+    }
+  }
+
+  private updatePosition(fill: FillRecord): void {
+    const instrument = this.instruments.get(fill.instrumentId);
+    if (!instrument) return;
+
+    const key = `${fill.accountId}:${fill.instrumentId}`;
+    const position = this.positions.get(key);
+    const values = applyFillToPosition(
+      position ? { quantity: position.quantity, avgPrice: toNumber(position.avgPrice) } : null,
+      fill,
+      toNumber(instrument.price)
+    );
+
+    if (!values) {
+      this.positions.delete(key);
+      return;
+    }
+
+    const updatedAt = this.now();
+    this.positions.set(key, {
+      id: position?.id || `position-${this.nextId++}`,
+      accountId: fill.accountId,
+      instrumentId: fill.instrumentId,
+      quantity: values.quantity,
+      avgPrice: toDecimal(values.avgPrice),
+      marketValue: toDecimal(values.marketValue),
+      unrealizedPL: toDecimal(values.unrealizedPL),
+      createdAt: position?.createdAt || updatedAt,
+      updatedAt
+    });
+  }
+
+  private updateAccountBalance(fill: FillRecord): void {
+    const account = this.accounts.get(fill.accountId);
+    if (!account) return;
+
+    const cashFlow = getFillCashFlow(fill);
+    account.balance = toDecimal(toNumber(account.balance) + cashFlow);
+    account.buyingPower = toDecimal(toNumber(account.buyingPower) + cashFlow);
+    account.updatedAt = this.now();
+  }
+
+  async findPosition(accountId: string, instrumentId: string): Promise<(Position & { instrument: Instrument }) | null> {
+    const position = this.positions.get(`${accountId}:${instrumentId}`);
+    const instrument = this.instruments.get(instrumentId);
+    return position && instrument ? { ...position, instrument: { ...instrument } } : null;
+  }
+
+  async findAccount(accountId: string): Promise<Account | null> {
+    const account = this.accounts.get(accountId);
+    return account ? { ...account } : null;
+  }
+}
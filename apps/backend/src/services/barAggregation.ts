@@ -0,0 +1,74 @@
+import { MarketBar } from './marketData';
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+
+const MINUTE_MS = 60000;
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '1d': 24 * 60 * MINUTE_MS
+};
+
+export interface Candle extends MarketBar {
+  partial: boolean; // the interval is still forming: bars after the latest one would land in it
+}
+
+export function getIntervalMs(interval: CandleInterval): number {
+  return INTERVAL_MS[interval];
+}
+
+/**
+ * When the interval a timestamp falls in starts. Intervals are aligned to
+ * UTC, so hourly candles start on the hour and daily candles at midnight UTC,
+ * which keeps a US trading day's regular session in a single daily candle.
+ */
+export function getIntervalStart(timestamp: string, interval: CandleInterval): number {
+  const time = Date.parse(timestamp);
+  return time - (time % INTERVAL_MS[interval]);
+}
+
+/**
+ * Roll minute bars, in time order, up into candles: the first bar's open,
+ * the last bar's close, the extremes of the highs and lows and the summed
+ * volume. Each candle is stamped with the start of its interval. Passing the
+ * latest bar's timestamp as `asOf` marks the candle it falls in as partial
+ * if that minute isn't the interval's last.
+ */
+export function aggregateBars(bars: MarketBar[], interval: CandleInterval, asOf?: string): Candle[] {
+  const candles: Candle[] = [];
+  let candleStart: number | undefined;
+
+  for (const bar of bars) {
+    const start = getIntervalStart(bar.timestamp, interval);
+    const candle = candles[candles.length - 1];
+
+    if (candle && start === candleStart) {
+      candle.high = Math.max(candle.high, bar.high);
+      candle.low = Math.min(candle.low, bar.low);
+      candle.close = bar.close;
+      candle.volume += bar.volume;
+    } else {
+      candleStart = start;
+      candles.push({
+        timestamp: new Date(start).toISOString(),
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume,
+        partial: false
+      });
+    }
+  }
+
+  const last = candles[candles.length - 1];
+  if (last && asOf && candleStart !== undefined) {
+    const asOfTime = Date.parse(asOf);
+    last.partial = asOfTime >= candleStart && asOfTime + MINUTE_MS < candleStart + INTERVAL_MS[interval];
+  }
+
+  return candles;
+}
@@ -1,83 +1,413 @@
-import { PrismaClient } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from 'csv-parse/sync';
-import { broadcastPriceUpdate, broadcastOrderUpdate, broadcastFillUpdate, broadcastPositionUpdate, broadcastAccountUpdate } from '../websocket/websocket';
-
-interface MarketBar {
+import { Order, Fill, Instrument } from '@prisma/client';
+import { broadcastPriceUpdate, broadcastOrderUpdate, broadcastFillUpdate, broadcastPositionUpdate, broadcastAccountUpdate, broadcastDepthUpdate, broadcastMarketSession, broadcastAuctionUpdate, broadcastTradingStatus } from '../websocket/websocket';
+import { AuctionType, Fill as MatchedFill, MatchingEngine, OrderBookDepth, diffDepthLevels } from './matchingEngine';
+import { RandomSource, SimulationClock, SystemClock, TimerHandle, createSeededRandom } from './simulationClock';
+import { PriceModelConfig, applyDeviation, nextDeviation } from './priceModel';
+import { Candle, CandleInterval, aggregateBars, getIntervalMs, getIntervalStart } from './barAggregation';
+import { DEFAULT_DATA_DIR, MarketBar, getBarFileSymbol, isNewSession, loadMarketBars, mergeMarketBars, parseMarketBars, validateMarketBars } from './marketData';
+import { AUCTION_ORDER_TYPES, MarketCalendar, MarketSession, MarketSessionStatus, getSessionRejection } from './marketCalendar';
+import { HaltReason, TradingHalt, calculatePriceBands, getBandBreach, getHaltRejection } from './tradingHalts';
+import { SimulatorStateRecord, SimulatorStore } from './simulatorStore';
+import { logger } from '../utils/logger';
+import { FillModel, QuoteConfig, QueuePosition, advanceQueue, applyMarketImpact, calculateBidAsk, calculateQuote, roundToTick, getMarketFillPrice, getLimitFillPrice, getIntrabarLimitFillPrice, getParticipationCapacity, getStopTriggerPrice, isLimitAtTouch, joinQueue, walkTrailingStop } from './fillModel';
+
+/**
+ * A change to an order, as the simulator reports it to the order's account
+ */
+export interface SimulatorOrderUpdate {
+  orderId: string;
+  type: 'FILL' | 'TRIGGERED' | 'RATCHETED' | 'EXPIRED' | 'CANCELLED' | 'REPLACED' | 'ACTIVATED';
+  status?: Order['status'];
+  side?: 'BUY' | 'SELL';
+  quantity?: number;
+  price?: number;
+  stopPrice?: number;
+  remainingQuantity?: number;
+  reason?: string;
+  canceledBy?: string;
+  timeInForce?: OrderBookEntry['timeInForce'];
+  fillQuantity?: number;
+  fillPrice?: number;
+  counterpartyOrderId?: string;
+  fillModel?: FillExecution['fillModel'];
+  fees?: number;
+  highWaterMark?: number;
+  previousStopPrice?: number;
+  triggerPrice?: number;
+  convertedTo?: 'MARKET' | 'LIMIT';
+  groupId?: string;
+  groupRole?: OrderBookEntry['groupRole'];
+  parentOrderId?: string;
   timestamp: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
 }
 
-interface SimulationConfig {
+/**
+ * One side of a trade, as the simulator reports it to the order's account
+ */
+export interface SimulatorFillUpdate {
+  orderId: string;
+  instrumentId: string;
+  symbol?: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  fees: number;
+  grossAmount: number;
+  netAmount: number;
+  executedAt: string;
+}
+
+/**
+ * Where the simulator sends price, order and market updates. Live they go to
+ * WebSocket clients and the strategies listening alongside them; a backtest
+ * takes them itself, so nothing it does reaches either.
+ */
+export interface SimulatorBroadcaster {
+  priceUpdate: typeof broadcastPriceUpdate;
+  orderUpdate: (accountId: string, update: SimulatorOrderUpdate) => void;
+  fillUpdate: (accountId: string, fill: SimulatorFillUpdate) => void;
+  positionUpdate: typeof broadcastPositionUpdate;
+  accountUpdate: typeof broadcastAccountUpdate;
+  depthUpdate: typeof broadcastDepthUpdate;
+  marketSession: typeof broadcastMarketSession;
+  auctionUpdate: typeof broadcastAuctionUpdate;
+  tradingStatus: typeof broadcastTradingStatus;
+}
+
+const WEBSOCKET_BROADCASTER: SimulatorBroadcaster = {
+  priceUpdate: broadcastPriceUpdate,
+  orderUpdate: broadcastOrderUpdate,
+  fillUpdate: broadcastFillUpdate,
+  positionUpdate: broadcastPositionUpdate,
+  accountUpdate: broadcastAccountUpdate,
+  depthUpdate: broadcastDepthUpdate,
+  marketSession: broadcastMarketSession,
+  auctionUpdate: broadcastAuctionUpdate,
+  tradingStatus: broadcastTradingStatus
+};
+
+export interface SimulationConfig extends PriceModelConfig {
   bidAskSpreadBps: number; // basis points (100 bps = 1%)
   feePerShare: number;
   slippageBps: number;
   playbackSpeedMs: number;
   maxPartialFillPct: number; // 0-1, max percentage of order that can be filled in single tick
+  fillModel: FillModel; // how resting stops and limits are evaluated against each new bar
+  participationRate: number; // 0-1, most of a bar's volume fills against the quote may take
+  impactBps: number; // square-root market impact of trading a whole bar's volume
+  latencyMs: number; // virtual time between an order being accepted and it reaching the book
+  queueAheadPct: number; // 0-1, share of a bar's volume assumed to be queued ahead of a limit joining its level
+  marketHours: boolean; // follow the trading calendar; off runs a single session around the clock
+  luldBandPct: number; // 0-1, limit-up/limit-down band either side of an instrument's reference price
+  haltDurationMs: number; // how long a band breach halts the symbol for
+  seed?: number; // seeds the PRNG behind jitter, volatility and partial fills; unset uses Math.random
+  clock?: SimulationClock; // time source and timers; defaults to the wall clock
+  broadcaster?: SimulatorBroadcaster; // where updates go; defaults to WebSocket clients
+  dataDir?: string; // directory of *_minute_bars.csv files to replay and watch; defaults to DEFAULT_DATA_DIR
 }
 
 interface OrderBookEntry {
   orderId: string;
   accountId: string;
   instrumentId: string;
-  type: 'MARKET' | 'LIMIT';
+  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MOO' | 'MOC' | 'LOO' | 'LOC';
   side: 'BUY' | 'SELL';
   quantity: number;
   remainingQuantity: number;
   price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  highWaterMark?: number; // best price seen by a trailing stop (high for sells, low for buys)
+  timeInForce: 'DAY' | 'GTC' | 'IOC' | 'FOK';
+  groupId?: string;
+  groupRole?: 'ENTRY' | 'TAKE_PROFIT' | 'STOP_LOSS' | 'OCO_LEG';
   createdAt: Date;
-  lastFillTime?: Date;
+  queue?: QueuePosition; // place in the queue at the limit's price level, once it rests as a limit
+  triggeredAt?: Date; // set once a STOP/STOP_LIMIT order's stop price has been reached
+}
+
+export interface CancelOrderResult {
+  cancelled: boolean;
+  reason?: string;
+}
+
+export interface ReplaceOrderResult {
+  replaced: boolean;
+  reason?: string;
+  order?: Order & { instrument: Instrument };
+}
+
+// One counterparty of a fill
+interface FillSide {
+  order: OrderBookEntry;
+  counterpartyOrderId: string; // the other side's order, or MARKET for the bar-derived quote
+}
+
+interface FillExecution extends FillSide {
+  grossAmount: number;
+  fees: number;
+  netAmount: number;
+  fillModel: FillModel | 'AUCTION' | 'INTERNAL';
+  remainingQuantity: number;
+  status: 'FILLED' | 'PARTIALLY_FILLED';
+}
+
+// Where an order was taken off the book from, so it can be put back if the change that took it off doesn't commit
+interface TakenOrder {
+  entry: OrderBookEntry;
+  bookIndex: number; // -1 while still in transit
+  inEngine: boolean;
+}
+
+export interface DepthSnapshot extends OrderBookDepth {
+  symbol: string;
+  sequence: number; // incremented on every published change, so clients can detect gaps
+}
+
+export interface OrderBookConsistencyReport {
+  consistent: boolean;
+  checkedAt: string;
+  bookSize: number;
+  openOrderCount: number;
+  missingFromBook: string[]; // open in the database but not on the book
+  staleOnBook: Array<{ orderId: string; status: string | null }>; // on the book but no longer open in the database
+  quantityMismatches: Array<{ orderId: string; bookRemainingQuantity: number; dbRemainingQuantity: number }>;
+}
+
+// How long a bar file has to go unchanged before it's read, so files still being written aren't half-loaded
+const DATA_FILE_SETTLE_MS = 1000;
+
+const OPEN_ORDER_STATUSES: Array<'PENDING' | 'PARTIALLY_FILLED' | 'HELD'> = ['PENDING', 'PARTIALLY_FILLED', 'HELD'];
+
+/**
+ * Map a persisted order onto the shape ExecutionSimulator.addPendingOrder expects
+ */
+export function toPendingOrder(order: Order): Parameters<ExecutionSimulator['addPendingOrder']>[0] {
+  return {
+    id: order.id,
+    accountId: order.accountId,
+    instrumentId: order.instrumentId,
+    type: order.type,
+    side: order.side,
+    quantity: order.quantity,
+    price: order.price ? parseFloat(order.price.toString()) : undefined,
+    stopPrice: order.stopPrice ? parseFloat(order.stopPrice.toString()) : undefined,
+    trailAmount: order.trailAmount ? parseFloat(order.trailAmount.toString()) : undefined,
+    trailPercent: order.trailPercent ? parseFloat(order.trailPercent.toString()) : undefined,
+    highWaterMark: order.highWaterMark ? parseFloat(order.highWaterMark.toString()) : undefined,
+    timeInForce: order.timeInForce,
+    groupId: order.groupId || undefined,
+    groupRole: order.groupRole || undefined
+  };
 }
 
 export class ExecutionSimulator {
-  private prisma: PrismaClient;
+  private store: SimulatorStore;
   private marketData: Map<string, MarketBar[]> = new Map();
   private currentPrices: Map<string, MarketBar> = new Map();
   private orderBook: OrderBookEntry[] = [];
+  private fillsInFlight: Set<string> = new Set(); // order ids with a fill transaction underway
+  private replacesInFlight: Set<string> = new Set(); // order ids with an amendment being written, off the book meanwhile
+  private matchingEngines: Map<string, MatchingEngine> = new Map(); // live MARKET/LIMIT orders per instrument
+  private instrumentSymbols: Map<string, string> = new Map();
+  private tickSizes: Map<string, number> = new Map(); // each symbol's price grid, as last read from its instrument
+  private depthSnapshots: Map<string, DepthSnapshot> = new Map(); // last published depth per symbol
   private isRunning = false;
   private config: SimulationConfig;
-  private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private random: RandomSource;
+  private clock: SimulationClock;
+  private broadcaster: SimulatorBroadcaster;
+  private intervals: Map<string, TimerHandle> = new Map();
   private currentIndices: Map<string, number> = new Map();
+  private priceDeviations: Map<string, number> = new Map(); // current price model deviation from the real close, per symbol
+  private playedBars: Map<string, MarketBar[]> = new Map(); // bars as broadcast, price model included, since the replay last looped
+  private volumeTraded: Map<string, { timestamp: string; quantity: number }> = new Map(); // quote fills on each instrument's current bar
+  private ordersInTransit: Map<string, { entry: OrderBookEntry; timer: TimerHandle }> = new Map(); // accepted, waiting out the entry latency
+  private calendar = new MarketCalendar();
+  private marketSession?: MarketSession; // last session the ticks saw, to spot transitions
+  private sessionTimer?: TimerHandle; // fires at the next session change
+  private halts: Map<string, { halt: TradingHalt; timer?: TimerHandle }> = new Map(); // halted symbols, with the timer that resumes them
+  private dataWatcher?: fs.FSWatcher;
+  private dataFileTimers: Map<string, TimerHandle> = new Map(); // bar files waiting to settle before they're loaded
 
   // VOLATILITY CONFIGURATION FOR TESTING
   // Adjust these values in the constructor to control market dynamics:
 
-  constructor(prisma: PrismaClient, config: Partial<SimulationConfig> = {}) {
-    this.prisma = prisma;
+  constructor(store: SimulatorStore, config: Partial<SimulationConfig> = {}) {
+    this.store = store;
     this.config = {
       bidAskSpreadBps: 30, // 0.3% spread (increased for more dynamic testing)
       feePerShare: 0.005,
       slippageBps: 8, // 0.08% slippage for market orders (increased)
       playbackSpeedMs: 1500, // 1.5 second intervals (reduced from 3 seconds for faster testing)
       maxPartialFillPct: 0.4, // max 40% of order filled per tick (increased for more activity)
+      priceModel: 'BOUNDED_NOISE',
+      noiseSigma: 0.04, // clamped at 2 sigma, so closes stay within +/-8% of the CSV bar
+      meanReversion: 0.2,
+      fillModel: 'CONSERVATIVE',
+      participationRate: 0.1, // at most 10% of each bar's volume
+      impactBps: 50,
+      latencyMs: 0, // orders reach the book as soon as they're accepted
+      queueAheadPct: 0.25,
+      marketHours: true,
+      luldBandPct: 0.05,
+      haltDurationMs: 300000, // 5 minute pause, as for an LULD halt
       ...config
     };
+    this.random = this.config.seed !== undefined ? createSeededRandom(this.config.seed) : Math.random;
+    this.clock = this.config.clock || new SystemClock();
+    this.broadcaster = this.config.broadcaster || WEBSOCKET_BROADCASTER;
   }
 
   async initialize(): Promise<void> {
     await this.loadMarketData();
     await this.loadSimulatorState();
     await this.initializeCurrentPrices();
+    await this.loadPendingOrders();
+  }
+
+  /**
+   * Rebuild the order book from open orders in the database so resting orders
+   * survive a restart. Orders already on the book are left untouched, so this
+   * is safe to run again when the simulation is restarted. HELD bracket exits
+   * stay off the book until their entry fills.
+   */
+  private async loadPendingOrders(): Promise<void> {
+    const openOrders = await this.store.findOrders({ statuses: ['PENDING', 'PARTIALLY_FILLED'] });
+
+    const restored: OrderBookEntry[] = [];
+    for (const order of openOrders) {
+      this.instrumentSymbols.set(order.instrumentId, order.instrument.symbol);
+      if (this.orderBook.some(o => o.orderId === order.id)) continue;
+
+      const entry = this.toOrderBookEntry(order, order.fills);
+      this.orderBook.push(entry);
+      restored.push(entry);
+    }
+
+    console.log(`Restored ${restored.length} open orders to the order book`);
+
+    // Finish anything the restart interrupted: IOC/FOK orders never rest, and live market orders resume filling
+    for (const entry of restored) {
+      if (entry.timeInForce === 'IOC' || entry.timeInForce === 'FOK') {
+        await this.expireOrder(entry, `${entry.timeInForce} order was still open at restart`);
+      } else if (this.getExecutionType(entry) === 'MARKET') {
+        await this.processMarketOrder(entry);
+      } else {
+        this.addToMatchingEngine(entry);
+      }
+    }
+
+    await this.settleHeldOrders();
+  }
+
+  /**
+   * Release or cancel bracket exits whose entry finished without doing it,
+   * as when the server went down between the entry's fill and its exits being
+   * activated. Exits of an entry that is still working keep waiting for it.
+   */
+  private async settleHeldOrders(): Promise<void> {
+    const heldOrders = await this.store.findOrders({ statuses: ['HELD'] });
+    const groupIds = new Set(heldOrders.map(order => order.groupId).filter((groupId): groupId is string => !!groupId));
+
+    for (const groupId of groupIds) {
+      const [entry] = await this.store.findOrders({ groupId, groupRole: 'ENTRY' });
+      if (!entry || (OPEN_ORDER_STATUSES as string[]).includes(entry.status)) continue;
+
+      console.log(`Settling held exits of ${entry.status} bracket entry ${entry.id}`);
+      await this.handleGroupExpiry(this.toOrderBookEntry(entry, entry.fills));
+    }
+  }
+
+  /**
+   * Build a book entry for a persisted order, taking remaining quantity from
+   * the fills it already has
+   */
+  private toOrderBookEntry(order: Order, fills: Fill[]): OrderBookEntry {
+    const pending = toPendingOrder(order);
+    const filledQuantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+    return {
+      orderId: pending.id,
+      accountId: pending.accountId,
+      instrumentId: pending.instrumentId,
+      type: pending.type,
+      side: pending.side,
+      quantity: pending.quantity,
+      remainingQuantity: pending.quantity - filledQuantity,
+      price: pending.price,
+      stopPrice: pending.stopPrice,
+      trailAmount: pending.trailAmount,
+      trailPercent: pending.trailPercent,
+      highWaterMark: pending.highWaterMark,
+      timeInForce: pending.timeInForce || 'DAY',
+      groupId: pending.groupId,
+      groupRole: pending.groupRole,
+      createdAt: order.createdAt,
+      triggeredAt: order.triggeredAt || undefined
+    };
+  }
+
+  /**
+   * Compare the in-memory book against open orders in the database and report any drift
+   */
+  async checkConsistency(): Promise<OrderBookConsistencyReport> {
+    const openOrders = await this.store.findOrders({ statuses: ['PENDING', 'PARTIALLY_FILLED'] });
+    const openById = new Map(openOrders.map(order => [order.id, order]));
+
+    // Orders with a fill or amendment being written, or still waiting out the entry latency, are briefly out of step by design
+    const book = this.orderBook.filter(o => !this.fillsInFlight.has(o.orderId));
+    const bookIds = new Set(book.map(o => o.orderId));
+
+    const missingFromBook = openOrders
+      .filter(order => !bookIds.has(order.id) && !this.fillsInFlight.has(order.id) && !this.replacesInFlight.has(order.id) && !this.ordersInTransit.has(order.id))
+      .map(order => order.id);
+
+    const staleOrders = book.filter(o => !openById.has(o.orderId));
+    const staleStatuses = await this.store.findOrders({ ids: staleOrders.map(o => o.orderId) });
+    const staleOnBook = staleOrders.map(o => ({
+      orderId: o.orderId,
+      status: staleStatuses.find(order => order.id === o.orderId)?.status || null
+    }));
+
+    const quantityMismatches: OrderBookConsistencyReport['quantityMismatches'] = [];
+    for (const entry of book) {
+      const order = openById.get(entry.orderId);
+      if (!order) continue;
+
+      const dbRemainingQuantity = order.quantity - order.fills.reduce((sum, fill) => sum + fill.quantity, 0);
+      if (dbRemainingQuantity !== entry.remainingQuantity) {
+        quantityMismatches.push({
+          orderId: entry.orderId,
+          bookRemainingQuantity: entry.remainingQuantity,
+          dbRemainingQuantity
+        });
+      }
+    }
+
+    return {
+      consistent: missingFromBook.length === 0 && staleOnBook.length === 0 && quantityMismatches.length === 0,
+      checkedAt: this.clock.now().toISOString(),
+      bookSize: this.orderBook.length,
+      openOrderCount: openOrders.length,
+      missingFromBook,
+      staleOnBook,
+      quantityMismatches
+    };
   }
 
   private async loadSimulatorState(): Promise<void> {
     try {
-      const state = await this.prisma.simulatorState.findFirst();
+      const state = await this.store.loadState();
       if (state) {
-        this.isRunning = state.isRunning;
-        this.config.playbackSpeedMs = state.playbackSpeedMs;
-        this.config.bidAskSpreadBps = state.bidAskSpreadBps;
-        this.config.feePerShare = parseFloat(state.feePerShare.toString());
-        this.config.slippageBps = state.slippageBps;
-        this.config.maxPartialFillPct = parseFloat(state.maxPartialFillPct.toString());
+        const { isRunning, currentIndices: indices, ...config } = state;
+        this.isRunning = isRunning;
+        this.config = { ...this.config, ...config };
         
         // Load current indices
-        const indices = state.currentIndices as Record<string, number>;
         for (const [symbol, index] of Object.entries(indices)) {
           this.currentIndices.set(symbol, index);
         }
@@ -105,59 +435,146 @@ export class ExecutionSimulator {
         indices[symbol] = index;
       }
 
-      await this.prisma.simulatorState.upsert({
-        where: { id: 'singleton' },
-        update: {
-          isRunning: this.isRunning,
-          currentIndices: indices,
-          playbackSpeedMs: this.config.playbackSpeedMs,
-          bidAskSpreadBps: this.config.bidAskSpreadBps,
-          feePerShare: this.config.feePerShare,
-          slippageBps: this.config.slippageBps,
-          maxPartialFillPct: this.config.maxPartialFillPct,
-        },
-        create: {
-          id: 'singleton',
-          isRunning: this.isRunning,
-          currentIndices: indices,
-          playbackSpeedMs: this.config.playbackSpeedMs,
-          bidAskSpreadBps: this.config.bidAskSpreadBps,
-          feePerShare: this.config.feePerShare,
-          slippageBps: this.config.slippageBps,
-          maxPartialFillPct: this.config.maxPartialFillPct,
-        }
+      await this.store.saveState({
+        isRunning: this.isRunning,
+        currentIndices: indices,
+        ...this.getPersistedConfig()
       });
     } catch (error) {
       console.warn('Failed to save simulator state:', error);
     }
   }
 
+  /**
+   * Persist only the configuration columns, so a config change made before the
+   * simulator is initialized can't clobber the saved playback position
+   */
+  private async saveSimulatorConfig(): Promise<void> {
+    await this.store.saveState(this.getPersistedConfig());
+  }
+
+  private getPersistedConfig(): Omit<SimulatorStateRecord, 'isRunning' | 'currentIndices'> {
+    return {
+      playbackSpeedMs: this.config.playbackSpeedMs,
+      bidAskSpreadBps: this.config.bidAskSpreadBps,
+      feePerShare: this.config.feePerShare,
+      slippageBps: this.config.slippageBps,
+      maxPartialFillPct: this.config.maxPartialFillPct,
+      priceModel: this.config.priceModel,
+      noiseSigma: this.config.noiseSigma,
+      meanReversion: this.config.meanReversion,
+      fillModel: this.config.fillModel,
+      participationRate: this.config.participationRate,
+      impactBps: this.config.impactBps,
+      latencyMs: this.config.latencyMs,
+      queueAheadPct: this.config.queueAheadPct,
+      marketHours: this.config.marketHours,
+      luldBandPct: this.config.luldBandPct,
+      haltDurationMs: this.config.haltDurationMs
+    };
+  }
+
   private async loadMarketData(): Promise<void> {
-    const dataDir = path.join(process.cwd(), '../../infra/data');
-    const files = fs.readdirSync(dataDir).filter(f => f.endsWith('_minute_bars.csv'));
+    this.marketData = loadMarketBars(this.config.dataDir);
+    await this.loadStoredBars();
+    for (const [symbol, bars] of this.marketData) {
+      console.log(`Loaded ${bars.length} bars for ${symbol}`);
+    }
+    this.watchDataDir();
+  }
 
-    for (const file of files) {
-      const symbol = file.replace('_minute_bars.csv', '');
-      const filePath = path.join(dataDir, file);
-      const csvData = fs.readFileSync(filePath, 'utf8');
-      
-      const records = parse(csvData, {
-        columns: true,
-        skip_empty_lines: true
+  /**
+   * Merge in bars uploaded through the API, which are kept in the MarketData
+   * table rather than the data directory
+   */
+  private async loadStoredBars(): Promise<void> {
+    const rows = await this.store.findStoredBars();
+
+    const stored = new Map<string, MarketBar[]>();
+    for (const { symbol, bar } of rows) {
+      const bars = stored.get(symbol) || [];
+      bars.push(bar);
+      stored.set(symbol, bars);
+    }
+
+    for (const [symbol, bars] of stored) {
+      this.marketData.set(symbol, mergeMarketBars(this.marketData.get(symbol) || [], bars));
+    }
+  }
+
+  /**
+   * Add bars for a symbol while the simulator is up. A known symbol keeps its
+   * place in the replay; a new one starts at its first bar, and starts
+   * replaying straight away if the simulation is running.
+   */
+  async addMarketBars(symbol: string, bars: MarketBar[]): Promise<{ symbol: string; bars: number; isNew: boolean }> {
+    symbol = symbol.toUpperCase();
+    const existing = this.marketData.get(symbol);
+    const merged = mergeMarketBars(existing || [], bars);
+    this.marketData.set(symbol, merged);
+
+    if (existing) {
+      // Bars inserted ahead of the current one would otherwise shift the replay back in time
+      const current = existing[this.currentIndices.get(symbol) || 0];
+      const index = current ? merged.findIndex(bar => Date.parse(bar.timestamp) === Date.parse(current.timestamp)) : -1;
+      this.currentIndices.set(symbol, Math.max(index, 0));
+    } else {
+      this.currentIndices.set(symbol, 0);
+      this.currentPrices.set(symbol, merged[0]);
+      await this.store.updateInstrumentPrices(symbol, { price: merged[0].close, previousClose: merged[0].open });
+      if (this.isRunning) {
+        this.startReplay(symbol);
+      }
+    }
+
+    console.log(`Loaded ${bars.length} bars for ${symbol} (${merged.length} total${existing ? '' : ', new symbol'})`);
+    return { symbol, bars: merged.length, isNew: !existing };
+  }
+
+  /**
+   * Hot-load bar files as they're added to or rewritten in the data
+   * directory. Files that fail validation are logged and left out.
+   */
+  private watchDataDir(): void {
+    if (this.dataWatcher) return;
+
+    const dataDir = this.config.dataDir || DEFAULT_DATA_DIR;
+    try {
+      this.dataWatcher = fs.watch(dataDir, (event, file) => {
+        const symbol = file ? getBarFileSymbol(file.toString()) : undefined;
+        if (!symbol) return;
+
+        const pending = this.dataFileTimers.get(symbol);
+        if (pending !== undefined) {
+          this.clock.clearTimeout(pending);
+        }
+        this.dataFileTimers.set(symbol, this.clock.setTimeout(async () => {
+          this.dataFileTimers.delete(symbol);
+          await this.loadDataFile(symbol, path.join(dataDir, file!.toString())).catch(error => {
+            console.error(`Error loading market data file for ${symbol}:`, error);
+          });
+        }, DATA_FILE_SETTLE_MS));
       });
+      // The watcher shouldn't be what keeps the process alive
+      this.dataWatcher.unref();
+      console.log(`Watching ${dataDir} for new market data`);
+    } catch (error) {
+      console.warn(`Could not watch ${dataDir} for new market data:`, error);
+    }
+  }
 
-      const bars: MarketBar[] = records.map((record: any) => ({
-        timestamp: record.timestamp,
-        open: parseFloat(record.open),
-        high: parseFloat(record.high),
-        low: parseFloat(record.low),
-        close: parseFloat(record.close),
-        volume: parseInt(record.volume)
-      }));
+  private async loadDataFile(symbol: string, file: string): Promise<void> {
+    // Deleting or renaming a file away fires the watcher too
+    if (!fs.existsSync(file)) return;
 
-      this.marketData.set(symbol, bars);
-      console.log(`Loaded ${bars.length} bars for ${symbol}`);
+    const bars = parseMarketBars(fs.readFileSync(file, 'utf8'));
+    const errors = bars.length === 0 ? ['file has no bars'] : validateMarketBars(bars);
+    if (errors.length > 0) {
+      console.warn(`Skipping ${path.basename(file)}: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}`);
+      return;
     }
+
+    await this.addMarketBars(symbol, bars);
   }
 
   private async initializeCurrentPrices(): Promise<void> {
@@ -176,12 +593,9 @@ export class ExecutionSimulator {
         this.currentPrices.set(symbol, currentBar);
         
         // Update instrument price in database
-        await this.prisma.instrument.updateMany({
-          where: { symbol: symbol.toUpperCase() },
-          data: { 
-            price: currentBar.close,
-            previousClose: currentBar.open
-          }
+        await this.store.updateInstrumentPrices(symbol.toUpperCase(), {
+          price: currentBar.close,
+          previousClose: currentBar.open
         });
         
         console.log(`Initialized ${symbol} at index ${currentIndex}/${bars.length} (price: $${currentBar.close})`);
@@ -189,22 +603,85 @@ export class ExecutionSimulator {
     }
   }
 
-  private calculateBidAsk(bar: MarketBar): { bid: number; ask: number } {
-    const spread = (bar.close * this.config.bidAskSpreadBps) / 10000;
-    return {
-      bid: bar.close - spread / 2,
-      ask: bar.close + spread / 2
-    };
+  private calculateBidAsk(symbol: string, bar: MarketBar): { bid: number; ask: number } {
+    return calculateBidAsk(bar, { ...this.config, tickSize: this.tickSizes.get(symbol.toUpperCase()) });
+  }
+
+  /**
+   * Quote settings for an instrument: the simulator's spread and slippage on the instrument's tick grid
+   */
+  private getQuoteConfig(instrumentId: string): SimulationConfig & QuoteConfig {
+    return { ...this.config, tickSize: this.tickSizes.get(this.instrumentSymbols.get(instrumentId) || '') };
+  }
+
+  /**
+   * Only a symbol's newly opened bar is evaluated over its high/low range. Other
+   * instruments' bars already traded before their resting orders were checked,
+   * so they are looked at by their close alone.
+   */
+  private getFillModel(instrumentId: string, openedSymbol?: string): FillModel {
+    return openedSymbol && this.instrumentSymbols.get(instrumentId) === openedSymbol
+      ? this.config.fillModel
+      : 'CLOSE';
+  }
+
+  /**
+   * Shares still available to fills against the quote on an instrument's
+   * current bar, under the participation cap
+   */
+  private getCapacity(instrumentId: string, bar: MarketBar): number {
+    const traded = this.volumeTraded.get(instrumentId);
+    const used = traded && traded.timestamp === bar.timestamp ? traded.quantity : 0;
+    return Math.max(0, getParticipationCapacity(bar, this.config) - used);
+  }
+
+  private recordVolumeTraded(instrumentId: string, quantity: number): void {
+    const bar = this.currentPrices.get(this.instrumentSymbols.get(instrumentId) || '');
+    if (!bar) return;
+
+    const traded = this.volumeTraded.get(instrumentId);
+    const used = traded && traded.timestamp === bar.timestamp ? traded.quantity : 0;
+    this.volumeTraded.set(instrumentId, { timestamp: bar.timestamp, quantity: used + quantity });
+  }
+
+  /**
+   * Resolve how an order in the book currently executes. Stop orders behave like
+   * market (STOP, TRAILING_STOP) or limit (STOP_LIMIT) orders once triggered, and are inert before.
+   * Auction orders never trade continuously.
+   */
+  private getExecutionType(order: OrderBookEntry): 'MARKET' | 'LIMIT' | null {
+    switch (order.type) {
+      case 'MARKET':
+      case 'LIMIT':
+        return order.type;
+      case 'STOP':
+      case 'TRAILING_STOP':
+        return order.triggeredAt ? 'MARKET' : null;
+      case 'STOP_LIMIT':
+        return order.triggeredAt ? 'LIMIT' : null;
+      case 'MOO':
+      case 'MOC':
+      case 'LOO':
+      case 'LOC':
+        return null;
+    }
   }
 
   async addPendingOrder(order: {
     id: string;
     accountId: string;
     instrumentId: string;
-    type: 'MARKET' | 'LIMIT';
+    type: OrderBookEntry['type'];
     side: 'BUY' | 'SELL';
     quantity: number;
     price?: number;
+    stopPrice?: number;
+    trailAmount?: number;
+    trailPercent?: number;
+    highWaterMark?: number;
+    timeInForce?: OrderBookEntry['timeInForce'];
+    groupId?: string;
+    groupRole?: OrderBookEntry['groupRole'];
   }): Promise<void> {
     const orderBookEntry: OrderBookEntry = {
       orderId: order.id,
@@ -215,194 +692,1158 @@ export class ExecutionSimulator {
       quantity: order.quantity,
       remainingQuantity: order.quantity,
       price: order.price,
-      createdAt: new Date()
+      stopPrice: order.stopPrice,
+      trailAmount: order.trailAmount,
+      trailPercent: order.trailPercent,
+      highWaterMark: order.highWaterMark,
+      timeInForce: order.timeInForce || 'DAY',
+      groupId: order.groupId,
+      groupRole: order.groupRole,
+      createdAt: this.clock.now()
     };
 
-    this.orderBook.push(orderBookEntry);
-    
-    // For market orders, try immediate execution
-    if (order.type === 'MARKET') {
-      await this.processMarketOrder(orderBookEntry);
+    if (this.config.latencyMs > 0) {
+      this.scheduleArrival(orderBookEntry, this.config.latencyMs);
+      return;
     }
+
+    await this.arriveAtBook(orderBookEntry);
   }
 
-  private async processMarketOrder(order: OrderBookEntry): Promise<void> {
-    const instrument = await this.prisma.instrument.findUnique({
-      where: { id: order.instrumentId }
-    });
+  private scheduleArrival(order: OrderBookEntry, delayMs: number): void {
+    const timer = this.clock.setTimeout(() => this.arriveAtBook(order).catch(error => {
+      console.error(`Error executing order ${order.orderId} on arrival:`, error);
+    }), delayMs);
+    this.ordersInTransit.set(order.orderId, { entry: order, timer });
+  }
 
-    if (!instrument) return;
+  /**
+   * Put an accepted order on the book once its entry latency has passed. Time
+   * priority starts from arrival, not from when the order was accepted.
+   */
+  private async arriveAtBook(order: OrderBookEntry): Promise<void> {
+    this.ordersInTransit.delete(order.orderId);
+    order.createdAt = this.clock.now();
+    this.orderBook.push(order);
+
+    // Look the symbol up so a halt on it is seen and the order's depth can be published, bar or no bar
+    if (!this.instrumentSymbols.has(order.instrumentId)) {
+      await this.getInstrumentBar(order.instrumentId);
+    }
 
-    const currentBar = this.currentPrices.get(instrument.symbol);
-    if (!currentBar) return;
+    // Nothing executes while the market is closed or the symbol is halted: the order waits on the book until trading reopens
+    if (this.isInSession('CLOSED') || this.isHalted(order.instrumentId)) {
+      this.addToMatchingEngine(order);
+      return;
+    }
 
-    const { bid, ask } = this.calculateBidAsk(currentBar);
-    const fillPrice = order.side === 'BUY' ? ask : bid;
-    
-    // Apply slippage for market orders
-    const slippage = (fillPrice * this.config.slippageBps) / 10000;
-    const finalPrice = order.side === 'BUY' 
-      ? fillPrice + slippage 
-      : fillPrice - slippage;
+    await this.executeOnArrival(order);
+  }
 
-    await this.executeFill(order, order.remainingQuantity, finalPrice);
+  /**
+   * Trading session at the simulator's current time. The calendar's session is
+   * reported either way; marketHours says whether the simulator follows it.
+   */
+  getMarketSession(): MarketSessionStatus & { marketHours: boolean } {
+    return { ...this.calendar.getStatus(this.clock.now()), marketHours: this.config.marketHours };
   }
 
-  private async processLimitOrders(): Promise<void> {
-    const limitOrders = this.orderBook.filter(o => 
-      o.type === 'LIMIT' && o.remainingQuantity > 0
-    );
+  /**
+   * Why the current session won't accept an order, if it won't. Auctions run
+   * at session changes, so auction orders need the calendar to be followed.
+   */
+  getSessionRejection(order: { type: string; timeInForce?: string }): string | undefined {
+    if (!this.config.marketHours) {
+      return AUCTION_ORDER_TYPES[order.type] ? `${order.type} orders need market hours: there are no auctions without sessions` : undefined;
+    }
+    return getSessionRejection(this.getMarketSession(), order);
+  }
 
-    for (const order of limitOrders) {
-      const instrument = await this.prisma.instrument.findUnique({
-        where: { id: order.instrumentId }
+  // Whether the simulator follows the calendar and it is in the given session
+  private isInSession(session: MarketSession, status: MarketSessionStatus = this.getMarketSession()): boolean {
+    return this.config.marketHours && status.session === session;
+  }
+
+  /**
+   * Broadcast a session change, uncross the opening auction as the regular
+   * session starts and the closing auction as it ends, and close out DAY orders
+   * when the regular session ends, and again when extended hours end for any
+   * placed after it
+   */
+  private async updateMarketSession(): Promise<MarketSessionStatus> {
+    const status = this.getMarketSession();
+    const previous = this.marketSession;
+    if (previous === status.session) return status;
+
+    this.marketSession = status.session;
+    this.broadcaster.marketSession(status);
+    console.log(`Market session: ${status.session}${status.reason ? ` (${status.reason})` : ''}`);
+
+    if (this.config.marketHours && previous && previous !== 'REGULAR' && status.session === 'REGULAR') {
+      await this.runAuctions('OPENING');
+    }
+    if (this.config.marketHours && previous === 'REGULAR') {
+      await this.runAuctions('CLOSING');
+    }
+    if (this.config.marketHours && (previous === 'REGULAR' || (previous && status.session === 'CLOSED'))) {
+      await this.expireDayOrders();
+    }
+    return status;
+  }
+
+  /**
+   * Uncross an auction on every instrument around its current price, with the
+   * outside market taking the imbalance up to the bar's participation cap.
+   * Auction orders the auction didn't fill expire.
+   */
+  private async runAuctions(auction: AuctionType): Promise<void> {
+    for (const [instrumentId, engine] of this.matchingEngines) {
+      const bar = await this.getInstrumentBar(instrumentId);
+      if (!bar || this.isHalted(instrumentId)) continue;
+
+      const result = engine.runAuction(auction, {
+        referencePrice: roundToTick(bar.close, this.getQuoteConfig(instrumentId).tickSize),
+        liquidity: this.getCapacity(instrumentId, bar)
       });
+      if (!result) continue;
+
+      await this.executeEngineFills(result.fills, 'AUCTION');
+
+      const symbol = this.instrumentSymbols.get(instrumentId);
+      const executedQuantity = result.fills.reduce((sum, fill) => sum + fill.quantity, 0);
+      if (symbol) {
+        this.broadcaster.auctionUpdate(symbol, {
+          auction,
+          status: 'UNCROSSED',
+          price: result.price,
+          matchedQuantity: result.matchedQuantity,
+          imbalance: result.imbalance,
+          imbalanceSide: result.imbalanceSide,
+          executedQuantity
+        });
+      }
+      console.log(`${symbol || instrumentId} ${auction.toLowerCase()} auction uncrossed at $${result.price.toFixed(2)}: ${result.fills.length} fills`);
+    }
 
-      if (!instrument) continue;
+    const unfilled = this.orderBook.filter(o => AUCTION_ORDER_TYPES[o.type] === auction && o.remainingQuantity > 0);
+    for (const order of unfilled) {
+      await this.expireOrder(order, `${order.type} order not executed in the ${auction.toLowerCase()} auction`);
+    }
+  }
 
-      const currentBar = this.currentPrices.get(instrument.symbol);
-      if (!currentBar || !order.price) continue;
+  /**
+   * Broadcast where a symbol's collecting auction would uncross at its latest price
+   */
+  private publishAuctionIndication(symbol: string, bar: MarketBar, status: MarketSessionStatus): void {
+    if (!this.config.marketHours || !status.auction) return;
 
-      const { bid, ask } = this.calculateBidAsk(currentBar);
-      
-      let canFill = false;
-      let fillPrice = order.price;
-
-      if (order.side === 'BUY' && order.price >= ask) {
-        canFill = true;
-        fillPrice = Math.min(order.price, ask);
-      } else if (order.side === 'SELL' && order.price <= bid) {
-        canFill = true;
-        fillPrice = Math.max(order.price, bid);
-      }
-
-      if (canFill) {
-        // Add cooldown to prevent rapid multiple fills (min 5 seconds between fills)
-        const now = new Date();
-        const timeSinceLastFill = order.lastFillTime ? now.getTime() - order.lastFillTime.getTime() : Infinity;
-        if (timeSinceLastFill < 5000) {
-          continue; // Skip this order, too soon since last fill
-        }
-        
-        // Calculate partial fill quantity (simulate realistic partial execution)
-        // Use a random factor to make fills more realistic and prevent over-filling
-        const randomFillPct = Math.random() * this.config.maxPartialFillPct;
-        const maxFillQty = Math.max(1, Math.floor(order.remainingQuantity * randomFillPct));
-        const fillQty = Math.min(maxFillQty, order.remainingQuantity);
-        
-        // Only fill if there's actually quantity to fill
-        if (fillQty > 0) {
-          order.lastFillTime = now;
-          await this.executeFill(order, fillQty, fillPrice);
-        }
+    for (const [instrumentId, instrumentSymbol] of this.instrumentSymbols) {
+      if (instrumentSymbol !== symbol) continue;
+
+      const indication = this.matchingEngines.get(instrumentId)?.getAuctionIndication(status.auction, bar.close);
+      if (indication) {
+        this.broadcaster.auctionUpdate(symbol, { auction: status.auction, status: 'INDICATIVE', ...indication });
       }
     }
   }
 
-  private async executeFill(order: OrderBookEntry, quantity: number, price: number): Promise<void> {
-    const grossAmount = quantity * price;
-    const fees = quantity * this.config.feePerShare;
-    const netAmount = order.side === 'BUY' ? grossAmount + fees : grossAmount - fees;
+  /**
+   * Symbols currently halted
+   */
+  getHalts(): TradingHalt[] {
+    return Array.from(this.halts.values()).map(({ halt }) => halt);
+  }
 
-    // Calculate new quantities before transaction
-    const newRemainingQty = order.remainingQuantity - quantity;
-    const newStatus = newRemainingQty === 0 ? 'FILLED' : 'PARTIALLY_FILLED';
+  /**
+   * Why a halt on the symbol won't accept an order, if it won't
+   */
+  getHaltRejection(symbol: string, order: { timeInForce?: string }): string | undefined {
+    const halted = this.halts.get(symbol.toUpperCase());
+    return halted ? getHaltRejection(halted.halt, order) : undefined;
+  }
 
-    await this.prisma.$transaction(async (tx) => {
-      // Create fill record
-      await tx.fill.create({
-        data: {
-          orderId: order.orderId,
-          accountId: order.accountId,
-          instrumentId: order.instrumentId,
-          quantity,
-          price,
-          side: order.side,
-        }
-      });
+  private isHalted(instrumentId: string): boolean {
+    return this.halts.has(this.instrumentSymbols.get(instrumentId) || '');
+  }
 
-      // Update order
-      await tx.order.update({
-        where: { id: order.orderId },
-        data: {
-          status: newStatus,
-          filledAt: newRemainingQty === 0 ? new Date() : undefined
-        }
+  /**
+   * Halt trading in a symbol: its replay pauses and its orders stop executing.
+   * Halts with a duration resume themselves; without one they wait to be resumed.
+   * Halting an already halted symbol replaces the halt.
+   */
+  haltTrading(symbol: string, reason: HaltReason, options: { durationMs?: number; message?: string; bands?: TradingHalt['bands']; price?: number } = {}): TradingHalt {
+    symbol = symbol.toUpperCase();
+    const existing = this.halts.get(symbol);
+    if (existing?.timer) {
+      this.clock.clearTimeout(existing.timer);
+    }
+
+    const haltedAt = this.clock.now();
+    const halt: TradingHalt = {
+      symbol,
+      reason,
+      message: options.message,
+      haltedAt: haltedAt.toISOString(),
+      resumesAt: options.durationMs ? new Date(haltedAt.getTime() + options.durationMs).toISOString() : undefined,
+      bands: options.bands,
+      price: options.price
+    };
+    const timer = options.durationMs
+      ? this.clock.setTimeout(async () => {
+        await this.resumeTrading(symbol).catch(error => {
+          console.error(`Error resuming trading in ${symbol}:`, error);
+        });
+      }, options.durationMs)
+      : undefined;
+    this.halts.set(symbol, { halt, timer });
+
+    this.broadcaster.tradingStatus(symbol, { status: 'HALTED', ...halt });
+    console.log(`Trading halted in ${symbol} (${reason})${halt.resumesAt ? ` until ${halt.resumesAt}` : ''}`);
+    return halt;
+  }
+
+  /**
+   * Resume trading in a halted symbol. Its bands re-centre on the price it
+   * resumes at, and market orders queued during the halt execute straight away.
+   * Returns false if the symbol wasn't halted.
+   */
+  async resumeTrading(symbol: string): Promise<boolean> {
+    symbol = symbol.toUpperCase();
+    const halted = this.halts.get(symbol);
+    if (!halted) return false;
+
+    if (halted.timer) {
+      this.clock.clearTimeout(halted.timer);
+    }
+    this.halts.delete(symbol);
+
+    const bar = this.currentPrices.get(symbol);
+    if (bar) {
+      await this.store.updateInstrumentPrices(symbol, { referencePrice: bar.close });
+    }
+
+    this.broadcaster.tradingStatus(symbol, {
+      status: 'RESUMED',
+      symbol,
+      reason: halted.halt.reason,
+      haltedAt: halted.halt.haltedAt,
+      resumedAt: this.clock.now().toISOString(),
+      referencePrice: bar?.close
+    });
+    console.log(`Trading resumed in ${symbol}`);
+
+    for (const [instrumentId, instrumentSymbol] of this.instrumentSymbols) {
+      if (instrumentSymbol === symbol) {
+        await this.matchInternalOrders(instrumentId);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Halt a symbol for a volatility pause if its new price is outside the
+   * limit-up/limit-down bands around its reference price. Instruments without a
+   * reference price have no bands. Returns whether it halted.
+   */
+  private checkPriceBands(symbol: string, bar: MarketBar, referencePrice?: number): boolean {
+    if (!referencePrice) return false;
+
+    const bands = calculatePriceBands(referencePrice, this.config.luldBandPct);
+    const breach = getBandBreach(bar.close, bands);
+    if (!breach) return false;
+
+    this.haltTrading(symbol, breach, { durationMs: this.config.haltDurationMs, bands, price: bar.close });
+    return true;
+  }
+
+  /**
+   * Amend a working order's quantity, price or stop price. The order comes off
+   * the book while the change is written, so no fill can land on the old terms.
+   * A price change sends it to the back of the book, losing its time priority
+   * and its place in the queue at its level; a quantity change keeps both.
+   * Orders still in transit are amended before they arrive. Fails with a reason
+   * when the order has already left the book or a fill got there first.
+   */
+  async replaceOrder(orderId: string, changes: { quantity?: number; price?: number; stopPrice?: number }): Promise<ReplaceOrderResult> {
+    if (this.fillsInFlight.has(orderId)) {
+      return { replaced: false, reason: 'Too late to amend: a fill for this order is in progress' };
+    }
+
+    const taken = this.takeOffBook(orderId);
+    if (!taken) {
+      return { replaced: false, reason: 'Too late to amend: order is no longer on the book' };
+    }
+
+    const { entry } = taken;
+    const filledQuantity = entry.quantity - entry.remainingQuantity;
+    if (changes.quantity !== undefined && changes.quantity <= filledQuantity) {
+      this.restoreToBook(taken);
+      return { replaced: false, reason: `Too late to amend: ${filledQuantity} shares have already filled` };
+    }
+
+    const quantity = changes.quantity ?? entry.quantity;
+    const price = changes.price ?? entry.price;
+    const stopPrice = changes.stopPrice ?? entry.stopPrice;
+    const lostTimePriority = price !== entry.price || stopPrice !== entry.stopPrice;
+    const replacedAt = this.clock.now();
+
+    this.replacesInFlight.add(orderId);
+    let replacedOrder: (Order & { instrument: Instrument }) | undefined;
+    try {
+      // Only amend the order if it is still working, so a fill, cancel or expiry that already landed wins
+      const updated = await this.store.updateOrder(orderId, {
+        changes: { quantity, price, stopPrice },
+        onlyIfStatus: ['PENDING', 'PARTIALLY_FILLED'],
+        // Link the amendment to the original terms
+        event: () => ({
+          type: 'REPLACED',
+          payload: {
+            previousQuantity: entry.quantity,
+            previousPrice: entry.price,
+            previousStopPrice: entry.stopPrice,
+            quantity,
+            price,
+            stopPrice,
+            lostTimePriority
+          },
+          timestamp: replacedAt
+        })
       });
+      replacedOrder = updated?.order;
+    } catch (error) {
+      this.restoreToBook(taken);
+      throw error;
+    } finally {
+      this.replacesInFlight.delete(orderId);
+    }
+
+    if (!replacedOrder) {
+      if (taken.inEngine) {
+        this.publishDepth(entry.instrumentId);
+      }
+      const current = await this.store.findOrder(orderId);
+      return {
+        replaced: false,
+        reason: current ? `Too late to amend: order is already ${current.status}` : 'Order not found'
+      };
+    }
+
+    entry.quantity = quantity;
+    entry.remainingQuantity = quantity - filledQuantity;
+    entry.price = price;
+    entry.stopPrice = stopPrice;
+    if (lostTimePriority && taken.bookIndex > -1) {
+      entry.createdAt = replacedAt;
+      entry.queue = undefined;
+      taken.bookIndex = this.orderBook.length;
+    }
+    // The matching engine picks up the new price, quantity and time priority as the order goes back in
+    this.restoreToBook(taken);
+
+    this.broadcaster.orderUpdate(entry.accountId, {
+      orderId,
+      type: 'REPLACED',
+      quantity,
+      price,
+      stopPrice,
+      status: replacedOrder.status,
+      side: entry.side,
+      timestamp: replacedAt.toISOString()
+    });
+
+    console.log(`Replaced order ${orderId}`, changes);
+    return { replaced: true, order: replacedOrder };
+  }
+
+  /**
+   * Take an order off the book and out of its matching engine, or stop it
+   * arriving there, without awaiting anything, so no new fill can start on it
+   */
+  private takeOffBook(orderId: string): TakenOrder | undefined {
+    const inTransit = this.ordersInTransit.get(orderId);
+    if (inTransit) {
+      this.clock.clearTimeout(inTransit.timer);
+      this.ordersInTransit.delete(orderId);
+      return { entry: inTransit.entry, bookIndex: -1, inEngine: false };
+    }
+
+    const bookIndex = this.orderBook.findIndex(o => o.orderId === orderId);
+    if (bookIndex === -1) return undefined;
 
-      // Create order event
-      await tx.orderEvent.create({
-        data: {
-          orderId: order.orderId,
-          instrumentId: order.instrumentId,
-          type: newRemainingQty === 0 ? 'FILLED' : 'PARTIALLY_FILLED',
+    const entry = this.orderBook[bookIndex];
+    this.orderBook.splice(bookIndex, 1);
+    const inEngine = this.matchingEngines.get(entry.instrumentId)?.cancelOrder(orderId) || false;
+    return { entry, bookIndex, inEngine };
+  }
+
+  /**
+   * Put an order taken off the book back where it was, or send it on its way
+   * again if it was still in transit, due when it would have arrived anyway
+   */
+  private restoreToBook({ entry, bookIndex, inEngine }: TakenOrder): void {
+    if (bookIndex === -1) {
+      const arrivesAt = entry.createdAt.getTime() + this.config.latencyMs;
+      this.scheduleArrival(entry, Math.max(0, arrivesAt - this.clock.now().getTime()));
+      return;
+    }
+
+    this.orderBook.splice(Math.min(bookIndex, this.orderBook.length), 0, entry);
+    if (inEngine) {
+      this.addToMatchingEngine(entry);
+    }
+  }
+
+  /**
+   * Cancel an open order, taking it off the book and marking it CANCELLED in one
+   * step. Cancelling any order in a bracket or OCO group cancels the whole group.
+   * Fails with a reason when a fill got there first.
+   */
+  async cancelOrder(orderId: string, reason: string = 'User requested cancellation', canceledBy: string = 'user'): Promise<CancelOrderResult> {
+    const order = await this.store.findOrder(orderId);
+    const result = await this.cancelSingleOrder(orderId, reason, canceledBy);
+
+    if (result.cancelled && order?.groupId) {
+      await this.cancelGroupSiblings({ orderId, groupId: order.groupId }, `Order group cancelled with order ${orderId}`, canceledBy);
+      await this.store.updateOrderGroup(order.groupId, 'CANCELLED');
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop every book entry for an account, for when its orders are being deleted
+   */
+  removeAccountOrders(accountId: string): number {
+    const accountOrders = this.orderBook.filter(o => o.accountId === accountId);
+    for (const order of accountOrders) {
+      this.removeFromBook(order);
+    }
+
+    let inTransit = 0;
+    for (const [orderId, { entry, timer }] of this.ordersInTransit) {
+      if (entry.accountId !== accountId) continue;
+      this.clock.clearTimeout(timer);
+      this.ordersInTransit.delete(orderId);
+      inTransit++;
+    }
+    return accountOrders.length + inTransit;
+  }
+
+  private async cancelSingleOrder(orderId: string, reason: string, canceledBy: string): Promise<CancelOrderResult> {
+    // A fill that has already started will commit, so the cancel loses the race
+    if (this.fillsInFlight.has(orderId)) {
+      return { cancelled: false, reason: 'Too late to cancel: a fill for this order is in progress' };
+    }
+    if (this.replacesInFlight.has(orderId)) {
+      return { cancelled: false, reason: 'Order is being amended: try the cancel again' };
+    }
+
+    // Take the order off the book, or stop it arriving there, before any await so no new fill can start on it
+    const taken = this.takeOffBook(orderId);
+    const entry = taken?.entry;
+    const cancelledAt = this.clock.now();
+
+    let cancelledOrder: Order | undefined;
+    try {
+      // Only move the order if it is still open, so a fill or expiry that already landed wins
+      const updated = await this.store.updateOrder(orderId, {
+        changes: { status: 'CANCELLED', cancelledAt },
+        onlyIfStatus: OPEN_ORDER_STATUSES,
+        event: (order) => ({
+          type: 'CANCELED',
           payload: {
-            fillPrice: price,
-            fillQuantity: quantity,
-            remainingQuantity: newRemainingQty,
-            executionTime: new Date().toISOString(),
-            fees,
-            grossAmount,
-            netAmount
-          }
-        }
+            canceledReason: reason,
+            canceledBy,
+            canceledAt: cancelledAt.toISOString(),
+            previousStatus: order.status,
+            remainingQuantity: entry?.remainingQuantity,
+            groupId: order.groupId || undefined
+          },
+          timestamp: cancelledAt
+        })
       });
+      cancelledOrder = updated?.previous;
+    } catch (error) {
+      if (taken) this.restoreToBook(taken);
+      throw error;
+    }
+
+    if (!cancelledOrder) {
+      const current = await this.store.findOrder(orderId);
+      // Nothing was written, so an order that is still open goes back where it was instead of being stranded off the book
+      if (taken && current && (OPEN_ORDER_STATUSES as string[]).includes(current.status)) {
+        this.restoreToBook(taken);
+      } else if (taken?.inEngine) {
+        this.publishDepth(taken.entry.instrumentId);
+      }
+      return {
+        cancelled: false,
+        reason: current ? `Too late to cancel: order is already ${current.status}` : 'Order not found'
+      };
+    }
+
+    if (taken?.inEngine) {
+      this.publishDepth(taken.entry.instrumentId);
+    }
+
+    this.broadcaster.orderUpdate(cancelledOrder.accountId, {
+      orderId,
+      type: 'CANCELLED',
+      status: 'CANCELLED',
+      reason,
+      canceledBy,
+      remainingQuantity: entry?.remainingQuantity,
+      side: cancelledOrder.side,
+      groupId: cancelledOrder.groupId || undefined,
+      timestamp: cancelledAt.toISOString()
+    });
+
+    console.log(`Cancelled ${cancelledOrder.side} order ${orderId}: ${reason}`);
+    return { cancelled: true };
+  }
+
+  /**
+   * Run the immediate execution an order gets when it becomes live (on submission,
+   * or when a stop triggers), enforcing IOC and FOK time in force.
+   */
+  private async executeOnArrival(order: OrderBookEntry, referencePrice?: number): Promise<void> {
+    // Auction orders wait for their auction
+    if (AUCTION_ORDER_TYPES[order.type]) {
+      this.addToMatchingEngine(order);
+      return;
+    }
+
+    const executionType = this.getExecutionType(order);
+    if (!executionType) return; // Untriggered stops wait for their stop price
+
+    if (order.timeInForce === 'FOK') {
+      await this.processFillOrKill(order, referencePrice);
+      return;
+    }
+
+    if (executionType === 'MARKET') {
+      await this.processMarketOrder(order, referencePrice);
+    } else {
+      // Live limit orders rest in the instrument's matching engine, crossing other accounts' orders straight away
+      const bar = await this.getCurrentBar(order);
+      if (bar) {
+        order.queue = joinQueue(bar, this.config);
+      }
+      this.addToMatchingEngine(order);
+      await this.matchInternalOrders(order.instrumentId);
+
+      if (order.timeInForce === 'IOC' && order.remainingQuantity > 0) {
+        await this.processLimitOrder(order);
+      }
+    }
+
+    // IOC orders never rest on the book
+    if (order.timeInForce === 'IOC' && order.remainingQuantity > 0) {
+      await this.expireOrder(order, 'IOC order remainder cancelled');
+    }
+  }
+
+  private async getCurrentBar(order: OrderBookEntry): Promise<MarketBar | undefined> {
+    return this.getInstrumentBar(order.instrumentId);
+  }
+
+  private async getInstrumentBar(instrumentId: string): Promise<MarketBar | undefined> {
+    const instrument = await this.store.findInstrument({ id: instrumentId });
+
+    if (!instrument) return undefined;
+
+    this.instrumentSymbols.set(instrumentId, instrument.symbol);
+    this.tickSizes.set(instrument.symbol, parseFloat(instrument.tickSize.toString()));
+    return this.currentPrices.get(instrument.symbol);
+  }
+
+  private getMatchingEngine(instrumentId: string): MatchingEngine {
+    let engine = this.matchingEngines.get(instrumentId);
+    if (!engine) {
+      engine = new MatchingEngine(() => this.clock.now());
+      this.matchingEngines.set(instrumentId, engine);
+    }
+    return engine;
+  }
+
+  /**
+   * Put a live MARKET or LIMIT order into its instrument's matching engine so it
+   * can cross with other accounts' orders, or collect an auction order for its
+   * auction. Untriggered stops stay out.
+   */
+  private addToMatchingEngine(order: OrderBookEntry): void {
+    const engine = this.getMatchingEngine(order.instrumentId);
+    if (engine.hasOrder(order.orderId)) return;
+
+    const auction = AUCTION_ORDER_TYPES[order.type];
+    if (auction) {
+      engine.addAuctionOrder(auction, {
+        orderId: order.orderId,
+        accountId: order.accountId,
+        instrumentId: order.instrumentId,
+        type: order.type === 'LOO' || order.type === 'LOC' ? 'LIMIT' : 'MARKET',
+        side: order.side,
+        quantity: order.quantity,
+        remainingQuantity: order.remainingQuantity,
+        price: order.type === 'LOO' || order.type === 'LOC' ? order.price : undefined,
+        createdAt: order.createdAt
+      });
+      return;
+    }
+
+    const executionType = this.getExecutionType(order);
+    if (!executionType) return;
+
+    engine.addOrder({
+      orderId: order.orderId,
+      accountId: order.accountId,
+      instrumentId: order.instrumentId,
+      type: executionType,
+      side: order.side,
+      quantity: order.quantity,
+      remainingQuantity: order.remainingQuantity,
+      price: executionType === 'LIMIT' ? order.price : undefined,
+      createdAt: order.createdAt
+    });
+    this.publishDepth(order.instrumentId);
+  }
+
+  /**
+   * Broadcast the price levels that changed since the last published depth for an
+   * instrument. Depth comes from the matching engine alone, so it is published
+   * whether or not the symbol has a current bar.
+   */
+  private publishDepth(instrumentId: string): void {
+    const symbol = this.instrumentSymbols.get(instrumentId);
+    const engine = this.matchingEngines.get(instrumentId);
+    if (!symbol || !engine) return;
+
+    const depth = engine.getDepth();
+    const previous = this.getDepthSnapshot(symbol);
+    const bids = diffDepthLevels(previous.bids, depth.bids);
+    const asks = diffDepthLevels(previous.asks, depth.asks);
+    if (bids.length === 0 && asks.length === 0) return;
+
+    const sequence = previous.sequence + 1;
+    this.depthSnapshots.set(symbol, { symbol, sequence, ...depth });
+    this.broadcaster.depthUpdate(symbol, { sequence, bids, asks });
+  }
+
+  /**
+   * Latest published depth for a symbol, optionally limited to the top levels
+   */
+  getDepthSnapshot(symbol: string, levels?: number): DepthSnapshot {
+    const snapshot = this.depthSnapshots.get(symbol.toUpperCase())
+      || { symbol: symbol.toUpperCase(), sequence: 0, bids: [], asks: [] };
+
+    return levels === undefined
+      ? snapshot
+      : { ...snapshot, bids: snapshot.bids.slice(0, levels), asks: snapshot.asks.slice(0, levels) };
+  }
+
+  /**
+   * Take an order off the book and out of its instrument's matching engine
+   */
+  private removeFromBook(order: OrderBookEntry): void {
+    const index = this.orderBook.indexOf(order);
+    if (index > -1) {
+      this.orderBook.splice(index, 1);
+    }
+    if (this.matchingEngines.get(order.instrumentId)?.cancelOrder(order.orderId)) {
+      this.publishDepth(order.instrumentId);
+    }
+  }
+
+  /**
+   * Cross an instrument's internal orders against each other. Market orders take
+   * any internal liquidity priced better than the bar-derived quote and the rest
+   * from the quote itself, up to the bar's participation cap, paying impact on
+   * the size they take. Whatever the cap leaves stays queued for later bars.
+   * Both counterparties of an internal cross get a fill. The quote is around
+   * the bar's close unless a price within the bar is given.
+   */
+  private async matchInternalOrders(instrumentId: string, referencePrice?: number): Promise<void> {
+    const engine = this.matchingEngines.get(instrumentId);
+    if (!engine) return;
+
+    const currentBar = await this.getInstrumentBar(instrumentId);
+    if (!currentBar) {
+      // Nothing to match against, but whatever was just added to the engine still shows in the depth
+      this.publishDepth(instrumentId);
+      return;
+    }
+
+    // Market orders against the quote pay the spread plus slippage, then impact, priced on the tick grid
+    const quoteConfig = this.getQuoteConfig(instrumentId);
+    const last = referencePrice ?? currentBar.close;
+    const { bid, ask } = calculateQuote(last, quoteConfig);
+    const slippage = this.config.slippageBps / 10000;
+    const fills = engine.matchOrders({
+      bid: bid * (1 - slippage),
+      ask: ask * (1 + slippage),
+      last,
+      liquidity: this.getCapacity(instrumentId, currentBar)
+    });
+
+    for (const fill of fills) {
+      if (fill.buyOrderId === 'MARKET' || fill.sellOrderId === 'MARKET') {
+        const side = fill.buyOrderId === 'MARKET' ? 'SELL' : 'BUY';
+        const impacted = applyMarketImpact(side, fill.price, fill.quantity, currentBar.volume, this.config);
+        fill.price = roundToTick(impacted, quoteConfig.tickSize, side === 'BUY' ? 'UP' : 'DOWN');
+      }
+    }
+
+    await this.executeEngineFills(fills);
+    this.publishDepth(instrumentId);
+  }
+
+  /**
+   * Write the fills a matching engine returned, both counterparties of an
+   * internal cross in one transaction. The engine has already taken each fill
+   * off its orders, so a fill that can't be written, because one side has left
+   * the book or the write failed, puts the book's quantities back in the engine.
+   */
+  private async executeEngineFills(fills: MatchedFill[], model?: 'AUCTION'): Promise<void> {
+    for (let i = 0; i < fills.length; i++) {
+      const fill = fills[i];
+      const buyOrder = this.orderBook.find(o => o.orderId === fill.buyOrderId);
+      const sellOrder = this.orderBook.find(o => o.orderId === fill.sellOrderId);
+
+      if ((fill.buyOrderId !== 'MARKET' && !buyOrder) || (fill.sellOrderId !== 'MARKET' && !sellOrder)) {
+        this.resyncEngineOrders([fill]);
+        continue;
+      }
+
+      const sides: FillSide[] = [];
+      if (buyOrder) sides.push({ order: buyOrder, counterpartyOrderId: fill.sellOrderId });
+      if (sellOrder) sides.push({ order: sellOrder, counterpartyOrderId: fill.buyOrderId });
+
+      try {
+        await this.executeFills(sides, fill.quantity, fill.price, model);
+      } catch (error) {
+        this.resyncEngineOrders(fills.slice(i));
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Set the engine's copy of each order in the fills back to what the book says
+   * is left, re-adding orders the engine already dropped as filled
+   */
+  private resyncEngineOrders(fills: MatchedFill[]): void {
+    const orderIds = new Set(fills.flatMap(fill => [fill.buyOrderId, fill.sellOrderId]));
+    const instrumentIds = new Set<string>();
+
+    for (const order of this.orderBook.filter(o => orderIds.has(o.orderId))) {
+      if (!this.matchingEngines.get(order.instrumentId)?.setRemainingQuantity(order.orderId, order.remainingQuantity)) {
+        this.addToMatchingEngine(order);
+      }
+      instrumentIds.add(order.instrumentId);
+    }
+
+    for (const instrumentId of instrumentIds) {
+      this.publishDepth(instrumentId);
+    }
+  }
+
+  private getMarketFillPrice(order: OrderBookEntry, bar: MarketBar, referencePrice?: number): number {
+    return getMarketFillPrice(order.side, bar, this.getQuoteConfig(order.instrumentId), referencePrice);
+  }
+
+  /**
+   * Price a limit order would fill at against the current quote, or null if it doesn't cross
+   */
+  private getLimitFillPrice(order: OrderBookEntry, bar: MarketBar): number | null {
+    return getLimitFillPrice(order.side, order.price, bar, this.getQuoteConfig(order.instrumentId));
+  }
+
+  private async processMarketOrder(order: OrderBookEntry, referencePrice?: number): Promise<void> {
+    this.addToMatchingEngine(order);
+    await this.matchInternalOrders(order.instrumentId, referencePrice);
+  }
+
+  private async processFillOrKill(order: OrderBookEntry, referencePrice?: number): Promise<void> {
+    const currentBar = await this.getCurrentBar(order);
+    const fillPrice = !currentBar
+      ? null
+      : this.getExecutionType(order) === 'MARKET'
+        ? roundToTick(
+          applyMarketImpact(order.side, this.getMarketFillPrice(order, currentBar, referencePrice), order.remainingQuantity, currentBar.volume, this.config),
+          this.getQuoteConfig(order.instrumentId).tickSize,
+          order.side === 'BUY' ? 'UP' : 'DOWN'
+        )
+        : this.getLimitFillPrice(order, currentBar);
+
+    if (fillPrice === null) {
+      await this.expireOrder(order, 'FOK order could not be filled immediately');
+      return;
+    }
+
+    // The liquidity available at the touch is what the participation cap leaves of the bar's volume
+    const availableLiquidity = this.getCapacity(order.instrumentId, currentBar);
+    if (order.remainingQuantity > availableLiquidity) {
+      await this.expireOrder(order, `FOK order quantity ${order.remainingQuantity} exceeds available liquidity of ${availableLiquidity}`);
+      return;
+    }
+
+    await this.executeFill(order, order.remainingQuantity, fillPrice);
+  }
+
+  /**
+   * Remove an order from the book and mark it EXPIRED, keeping any fills it already has
+   */
+  private async expireOrder(order: OrderBookEntry, reason: string): Promise<void> {
+    const expiredAt = this.clock.now();
+
+    // Only move the order if it is still open, so a fill or cancel that already landed wins
+    const updated = await this.store.updateOrder(order.orderId, {
+      changes: { status: 'EXPIRED', expiredAt },
+      onlyIfStatus: OPEN_ORDER_STATUSES,
+      event: () => ({
+        type: 'EXPIRED',
+        payload: {
+          expiredReason: reason,
+          timeInForce: order.timeInForce,
+          filledQuantity: order.quantity - order.remainingQuantity,
+          remainingQuantity: order.remainingQuantity,
+          expiredAt: expiredAt.toISOString()
+        },
+        timestamp: expiredAt
+      })
+    });
+    if (!updated) return;
+
+    this.removeFromBook(order);
+
+    if (order.groupId) {
+      await this.handleGroupExpiry(order);
+    }
+
+    this.broadcaster.orderUpdate(order.accountId, {
+      orderId: order.orderId,
+      type: 'EXPIRED',
+      status: 'EXPIRED',
+      reason,
+      timeInForce: order.timeInForce,
+      remainingQuantity: order.remainingQuantity,
+      side: order.side,
+      timestamp: expiredAt.toISOString()
+    });
+
+    console.log(`Expired ${order.timeInForce} ${order.side} order ${order.orderId}: ${reason}`);
+  }
+
+  /**
+   * Expire open DAY orders, for one symbol when its replayed data rolls over to
+   * a new date, or for every symbol when the market closes. Auction orders are
+   * left to their auction.
+   */
+  private async expireDayOrders(symbol?: string): Promise<void> {
+    const dayOrders = this.orderBook.filter(o =>
+      o.timeInForce === 'DAY' && o.remainingQuantity > 0 && !AUCTION_ORDER_TYPES[o.type]
+    );
+
+    for (const order of dayOrders) {
+      if (symbol) {
+        const instrument = await this.store.findInstrument({ id: order.instrumentId });
+
+        if (!instrument || instrument.symbol !== symbol.toUpperCase()) continue;
+      }
+
+      await this.expireOrder(order, 'DAY order expired at session close');
+    }
+  }
+
+  private async processStopOrders(openedSymbol?: string): Promise<void> {
+    const stopOrders = this.orderBook.filter(o =>
+      (o.type === 'STOP' || o.type === 'STOP_LIMIT') && !o.triggeredAt && o.remainingQuantity > 0 && !this.isHalted(o.instrumentId)
+    );
+
+    for (const order of stopOrders) {
+      const currentBar = await this.getInstrumentBar(order.instrumentId);
+      if (!currentBar || !order.stopPrice) continue;
+
+      const triggerPrice = getStopTriggerPrice(order.side, order.stopPrice, currentBar, this.getFillModel(order.instrumentId, openedSymbol));
+      if (triggerPrice !== null) {
+        await this.triggerStopOrder(order, triggerPrice);
+      }
+    }
+  }
+
+  private async processTrailingStops(symbol: string, bar: MarketBar): Promise<void> {
+    const trailingStops = this.orderBook.filter(o =>
+      o.type === 'TRAILING_STOP' && !o.triggeredAt && o.remainingQuantity > 0
+    );
+
+    for (const order of trailingStops) {
+      const instrument = await this.store.findInstrument({ id: order.instrumentId });
+
+      if (!instrument || instrument.symbol !== symbol.toUpperCase()) continue;
+
+      const current = order.highWaterMark !== undefined && order.stopPrice !== undefined
+        ? { highWaterMark: order.highWaterMark, stopPrice: order.stopPrice }
+        : undefined;
+      const walk = walkTrailingStop(order.side, current, bar, {
+        trailAmount: order.trailAmount,
+        trailPercent: order.trailPercent
+      }, this.config.fillModel, this.getQuoteConfig(order.instrumentId).tickSize);
+
+      if (walk.ratcheted && walk.state) {
+        await this.recordTrailingStopRatchet(order, walk.state.highWaterMark, walk.state.stopPrice);
+      }
+
+      if (walk.triggerPrice !== null) {
+        await this.triggerStopOrder(order, walk.triggerPrice);
+      }
+    }
+  }
+
+  private async recordTrailingStopRatchet(order: OrderBookEntry, highWaterMark: number, stopPrice: number): Promise<void> {
+    const previousStopPrice = order.stopPrice;
+    const ratchetedAt = this.clock.now();
+
+    // Persist the high-water mark so the trail survives a restart
+    await this.store.updateOrder(order.orderId, {
+      changes: { highWaterMark, stopPrice },
+      event: () => ({
+        type: 'RATCHETED',
+        payload: {
+          highWaterMark,
+          stopPrice,
+          previousStopPrice,
+          trailAmount: order.trailAmount,
+          trailPercent: order.trailPercent
+        },
+        timestamp: ratchetedAt
+      })
+    });
+
+    order.highWaterMark = highWaterMark;
+    order.stopPrice = stopPrice;
+
+    this.broadcaster.orderUpdate(order.accountId, {
+      orderId: order.orderId,
+      type: 'RATCHETED',
+      highWaterMark,
+      stopPrice,
+      previousStopPrice,
+      side: order.side,
+      timestamp: ratchetedAt.toISOString()
+    });
+  }
+
+  private async triggerStopOrder(order: OrderBookEntry, triggerPrice: number): Promise<void> {
+    const triggeredAt = this.clock.now();
+    const convertedTo = order.type === 'STOP_LIMIT' ? 'LIMIT' : 'MARKET';
+
+    await this.store.updateOrder(order.orderId, {
+      changes: { triggeredAt },
+      event: () => ({
+        type: 'TRIGGERED',
+        payload: {
+          stopPrice: order.stopPrice,
+          triggerPrice,
+          convertedTo,
+          limitPrice: order.price,
+          triggeredAt: triggeredAt.toISOString()
+        },
+        timestamp: triggeredAt
+      })
+    });
+
+    order.triggeredAt = triggeredAt;
+
+    this.broadcaster.orderUpdate(order.accountId, {
+      orderId: order.orderId,
+      type: 'TRIGGERED',
+      stopPrice: order.stopPrice,
+      triggerPrice,
+      convertedTo,
+      side: order.side,
+      timestamp: triggeredAt.toISOString()
+    });
+
+    console.log(`Triggered ${order.type} ${order.side} order ${order.orderId} at $${triggerPrice.toFixed(2)} (stop: $${order.stopPrice?.toFixed(2)})`);
+
+    // Triggered stops are now live orders: STOP and TRAILING_STOP execute as market orders straight away, quoted at the trigger
+    await this.executeOnArrival(order, triggerPrice);
+  }
+
+  private async processLimitOrders(openedSymbol?: string): Promise<void> {
+    // Cross internal orders first; whatever is left trades against the bar-derived quote. Halted symbols sit out.
+    for (const instrumentId of this.matchingEngines.keys()) {
+      if (!this.isHalted(instrumentId)) {
+        await this.matchInternalOrders(instrumentId);
+      }
+    }
+
+    const limitOrders = this.orderBook.filter(o => 
+      this.getExecutionType(o) === 'LIMIT' && o.remainingQuantity > 0 && !this.isHalted(o.instrumentId)
+    );
+
+    for (const order of limitOrders) {
+      await this.processLimitOrder(order, openedSymbol);
+    }
+  }
+
+  private async processLimitOrder(order: OrderBookEntry, openedSymbol?: string): Promise<void> {
+    const currentBar = await this.getCurrentBar(order);
+    if (!currentBar) return;
 
-      // Update position
-      await this.updatePosition(tx, order.accountId, order.instrumentId, order.side, quantity, price);
+    const fillModel = this.getFillModel(order.instrumentId, openedSymbol);
+    const config = { ...this.getQuoteConfig(order.instrumentId), fillModel };
+    let fillPrice = getIntrabarLimitFillPrice(order.side, order.price, currentBar, config);
+    let queueAvailable = Infinity;
 
-      // Update account balance and buying power
-      await this.updateAccountBalance(tx, order.accountId, order.side, grossAmount, fees);
+    // A limit that doesn't cross the quote but sits at the touch fills passively, once the volume queued ahead of it has traded
+    if (fillPrice === null) {
+      if (!order.price || !isLimitAtTouch(order.side, order.price, currentBar, config)) return;
+
+      order.queue = advanceQueue(order.queue || joinQueue(currentBar, this.config), currentBar);
+      fillPrice = order.price;
+      queueAvailable = order.queue.available;
+    }
+
+    // Calculate partial fill quantity (simulate realistic partial execution)
+    // Use a random factor to make fills more realistic and prevent over-filling
+    const randomFillPct = this.random() * this.config.maxPartialFillPct;
+    const maxFillQty = Math.max(1, Math.floor(order.remainingQuantity * randomFillPct));
+    const fillQty = Math.min(maxFillQty, order.remainingQuantity, queueAvailable, this.getCapacity(order.instrumentId, currentBar));
+    
+    // Only fill if there's actually quantity to fill
+    if (fillQty > 0) {
+      if (order.queue && queueAvailable !== Infinity) {
+        order.queue = { ...order.queue, available: order.queue.available - fillQty };
+      }
+      await this.executeFill(order, fillQty, fillPrice, 'MARKET', fillModel);
+    }
+  }
+
+  private async executeFill(order: OrderBookEntry, quantity: number, price: number, counterpartyOrderId: string = 'MARKET', model?: FillModel | 'AUCTION'): Promise<void> {
+    await this.executeFills([{ order, counterpartyOrderId }], quantity, price, model);
+  }
+
+  /**
+   * Fill one or both sides of a trade at the same quantity and price. Every side
+   * is written in a single transaction, so an internal cross either lands for
+   * both counterparties or for neither.
+   */
+  private async executeFills(sides: FillSide[], quantity: number, price: number, model?: FillModel | 'AUCTION'): Promise<void> {
+    // An order may have been cancelled while this tick was working through the book
+    if (sides.some(({ order }) => !this.orderBook.includes(order))) return;
+
+    const executions = sides.map(({ order, counterpartyOrderId }): FillExecution => {
+      const grossAmount = quantity * price;
+      const fees = quantity * this.config.feePerShare;
+      const remainingQuantity = order.remainingQuantity - quantity;
+      return {
+        order,
+        counterpartyOrderId,
+        grossAmount,
+        fees,
+        netAmount: order.side === 'BUY' ? grossAmount + fees : grossAmount - fees,
+        // Fills against another account's order come from the matching engine, not the bar
+        fillModel: model || (counterpartyOrderId === 'MARKET' ? this.config.fillModel : 'INTERNAL'),
+        remainingQuantity,
+        status: remainingQuantity === 0 ? 'FILLED' : 'PARTIALLY_FILLED'
+      };
     });
 
-    // Update order book
-    order.remainingQuantity -= quantity;
-    if (order.remainingQuantity === 0) {
-      const index = this.orderBook.indexOf(order);
-      if (index > -1) {
-        this.orderBook.splice(index, 1);
+    for (const { order } of executions) {
+      this.fillsInFlight.add(order.orderId);
+    }
+
+    try {
+      // Each side's fill, order status, event, position and account balance are written together
+      const executedAt = this.clock.now();
+      await this.store.recordFills(executions.map(execution => ({
+        orderId: execution.order.orderId,
+        accountId: execution.order.accountId,
+        instrumentId: execution.order.instrumentId,
+        side: execution.order.side,
+        quantity,
+        price,
+        fees: execution.fees,
+        status: execution.status,
+        executedAt,
+        payload: {
+          fillPrice: price,
+          fillQuantity: quantity,
+          remainingQuantity: execution.remainingQuantity,
+          counterpartyOrderId: execution.counterpartyOrderId,
+          fillModel: execution.fillModel,
+          executionTime: executedAt.toISOString(),
+          fees: execution.fees,
+          grossAmount: execution.grossAmount,
+          netAmount: execution.netAmount
+        }
+      })));
+
+      // Update order book, keeping the matching engine in step with fills taken from the quote
+      for (const { order, counterpartyOrderId } of executions) {
+        order.remainingQuantity -= quantity;
+        if (counterpartyOrderId === 'MARKET') {
+          this.recordVolumeTraded(order.instrumentId, quantity);
+        }
+        if (order.remainingQuantity === 0) {
+          this.removeFromBook(order);
+        } else if (this.matchingEngines.get(order.instrumentId)?.setRemainingQuantity(order.orderId, order.remainingQuantity)) {
+          this.publishDepth(order.instrumentId);
+        }
+      }
+    } finally {
+      for (const { order } of executions) {
+        this.fillsInFlight.delete(order.orderId);
       }
     }
 
+    for (const execution of executions) {
+      await this.announceFill(execution, quantity, price);
+    }
+  }
+
+  /**
+   * Tell an order's account about a fill that has been written, then release or
+   * cancel the rest of its group
+   */
+  private async announceFill(execution: FillExecution, quantity: number, price: number): Promise<void> {
+    const { order, counterpartyOrderId, fillModel, fees, grossAmount, netAmount } = execution;
+
     // Broadcast order update to WebSocket subscribers
-    broadcastOrderUpdate(order.accountId, {
+    this.broadcaster.orderUpdate(order.accountId, {
       orderId: order.orderId,
       type: 'FILL',
       fillQuantity: quantity,
       fillPrice: price,
-      remainingQuantity: newRemainingQty,
-      status: newStatus,
+      remainingQuantity: execution.remainingQuantity,
+      status: execution.status,
       side: order.side,
+      counterpartyOrderId,
+      fillModel,
       fees,
-      timestamp: new Date().toISOString()
+      timestamp: this.clock.now().toISOString()
     });
 
     // Broadcast fill update
-    broadcastFillUpdate(order.accountId, {
+    this.broadcaster.fillUpdate(order.accountId, {
       orderId: order.orderId,
       instrumentId: order.instrumentId,
+      symbol: this.instrumentSymbols.get(order.instrumentId),
       quantity,
       price,
       side: order.side,
-      executedAt: new Date().toISOString(),
+      executedAt: this.clock.now().toISOString(),
       fees,
       grossAmount,
       netAmount
     });
 
     // Broadcast position update (get updated position)
-    const updatedPosition = await this.prisma.position.findUnique({
-      where: {
-        accountId_instrumentId: {
-          accountId: order.accountId,
-          instrumentId: order.instrumentId
-        }
-      },
-      include: { instrument: true }
-    });
+    const updatedPosition = await this.store.findPosition(order.accountId, order.instrumentId);
 
     if (updatedPosition) {
-      broadcastPositionUpdate(order.accountId, {
+      this.broadcaster.positionUpdate(order.accountId, {
         instrumentId: order.instrumentId,
         symbol: updatedPosition.instrument.symbol,
         quantity: updatedPosition.quantity,
@@ -413,120 +1854,130 @@ export class ExecutionSimulator {
     }
 
     // Broadcast account balance update
-    const updatedAccount = await this.prisma.account.findUnique({
-      where: { id: order.accountId }
-    });
+    const updatedAccount = await this.store.findAccount(order.accountId);
 
     if (updatedAccount) {
-      broadcastAccountUpdate(order.accountId, {
+      this.broadcaster.accountUpdate(order.accountId, {
         balance: parseFloat(updatedAccount.balance.toString()),
         buyingPower: parseFloat(updatedAccount.buyingPower.toString())
       });
     }
 
-    console.log(`Filled ${quantity} shares of ${order.side} order at $${price.toFixed(2)}`);
+    logger.debug(`Filled ${quantity} shares of ${order.side} order at $${price.toFixed(2)}`);
+
+    if (order.groupId) {
+      await this.handleGroupFill(order);
+    }
   }
 
-  private async updatePosition(tx: any, accountId: string, instrumentId: string, side: string, quantity: number, price: number): Promise<void> {
-    const existingPosition = await tx.position.findUnique({
-      where: {
-        accountId_instrumentId: {
-          accountId,
-          instrumentId
-        }
+  /**
+   * Bracket entries release their exit orders once filled. A complete fill on an
+   * exit or OCO leg cancels the remaining legs of the group; a partial fill
+   * shrinks them to what the leg has left, so the group never exits more than once.
+   */
+  private async handleGroupFill(order: OrderBookEntry): Promise<void> {
+    if (order.groupRole === 'ENTRY') {
+      if (order.remainingQuantity === 0) {
+        await this.activateBracketChildren(order, order.quantity);
       }
-    });
+      return;
+    }
 
-    const instrument = await tx.instrument.findUnique({
-      where: { id: instrumentId }
-    });
+    if (order.remainingQuantity > 0) {
+      await this.reduceGroupSiblings(order);
+      return;
+    }
 
-    if (!instrument) return;
+    await this.cancelGroupSiblings(order, `${order.groupRole} leg ${order.orderId} filled`);
+    await this.store.updateOrderGroup(order.groupId!, 'COMPLETED');
+  }
 
-    if (existingPosition) {
-      const currentQty = existingPosition.quantity;
-      const currentAvgPrice = parseFloat(existingPosition.avgPrice.toString());
-      
-      let newQty: number;
-      let newAvgPrice: number;
-      
-      if (side === 'BUY') {
-        newQty = currentQty + quantity;
-        newAvgPrice = ((currentQty * currentAvgPrice) + (quantity * price)) / newQty;
-      } else {
-        newQty = currentQty - quantity;
-        newAvgPrice = currentAvgPrice;
-      }
-      
-      const marketValue = newQty * parseFloat(instrument.price.toString());
-      const unrealizedPL = (parseFloat(instrument.price.toString()) - newAvgPrice) * newQty;
+  /**
+   * Shrink every other working leg of a group to the quantity a partially filled
+   * leg has left, keeping whatever each of them has already filled
+   */
+  private async reduceGroupSiblings(order: OrderBookEntry): Promise<void> {
+    const siblings = await this.store.findOrders({
+      groupId: order.groupId,
+      excludeId: order.orderId,
+      statuses: ['PENDING', 'PARTIALLY_FILLED']
+    });
 
-      if (newQty === 0) {
-        await tx.position.delete({
-          where: { id: existingPosition.id }
-        });
-      } else {
-        await tx.position.update({
-          where: { id: existingPosition.id },
-          data: {
-            quantity: newQty,
-            avgPrice: newAvgPrice,
-            marketValue,
-            unrealizedPL
-          }
-        });
+    for (const sibling of siblings) {
+      const filledQuantity = sibling.fills.reduce((sum, fill) => sum + fill.quantity, 0);
+      const quantity = filledQuantity + order.remainingQuantity;
+      if (quantity >= sibling.quantity) continue;
+
+      const result = await this.replaceOrder(sibling.id, { quantity });
+      if (!result.replaced) {
+        console.log(`Could not reduce ${sibling.groupRole} leg ${sibling.id} after a partial fill on ${order.orderId}: ${result.reason}`);
       }
-    } else if (side === 'BUY') {
-      const marketValue = quantity * parseFloat(instrument.price.toString());
-      const unrealizedPL = (parseFloat(instrument.price.toString()) - price) * quantity;
-
-      await tx.position.create({
-        data: {
-          accountId,
-          instrumentId,
-          quantity,
-          avgPrice: price,
-          marketValue,
-          unrealizedPL
-        }
-      });
     }
   }
 
-  private async updateAccountBalance(tx: any, accountId: string, side: string, grossAmount: number, fees: number): Promise<void> {
-    const account = await tx.account.findUnique({
-      where: { id: accountId }
-    });
+  private async handleGroupExpiry(order: OrderBookEntry): Promise<void> {
+    const filledQuantity = order.quantity - order.remainingQuantity;
 
-    if (!account) return;
+    // A partially filled entry still needs its exits, sized to what was actually bought or sold
+    if (order.groupRole === 'ENTRY' && filledQuantity > 0) {
+      await this.activateBracketChildren(order, filledQuantity);
+      return;
+    }
 
-    const currentBalance = parseFloat(account.balance.toString());
-    const currentBuyingPower = parseFloat(account.buyingPower.toString());
+    await this.cancelGroupSiblings(order, `${order.groupRole} order ${order.orderId} expired`);
+    await this.store.updateOrderGroup(order.groupId!, 'CANCELLED');
+  }
 
-    let newBalance: number;
-    let newBuyingPower: number;
+  private async activateBracketChildren(entry: OrderBookEntry, quantity: number): Promise<void> {
+    const children = await this.store.findOrders({ groupId: entry.groupId, statuses: ['HELD'] });
 
-    if (side === 'BUY') {
-      // For buys: reduce balance and buying power by gross amount + fees
-      const totalCost = grossAmount + fees;
-      newBalance = currentBalance - totalCost;
-      newBuyingPower = currentBuyingPower - totalCost;
-    } else {
-      // For sells: increase balance and buying power by gross amount - fees
-      const netProceeds = grossAmount - fees;
-      newBalance = currentBalance + netProceeds;
-      newBuyingPower = currentBuyingPower + netProceeds;
+    for (const child of children) {
+      const activatedAt = this.clock.now();
+      const activated = await this.store.updateOrder(child.id, {
+        changes: { status: 'PENDING', quantity },
+        onlyIfStatus: ['HELD'],
+        event: () => ({
+          type: 'ACTIVATED',
+          payload: {
+            activatedReason: 'Bracket entry order filled',
+            parentOrderId: entry.orderId,
+            groupId: entry.groupId,
+            groupRole: child.groupRole,
+            quantity
+          },
+          timestamp: activatedAt
+        })
+      });
+      if (!activated) continue;
+
+      this.broadcaster.orderUpdate(child.accountId, {
+        orderId: child.id,
+        type: 'ACTIVATED',
+        status: 'PENDING',
+        groupId: entry.groupId,
+        groupRole: child.groupRole,
+        parentOrderId: entry.orderId,
+        quantity,
+        timestamp: activatedAt.toISOString()
+      });
+
+      await this.addPendingOrder(toPendingOrder(activated.order));
     }
+  }
 
-    await tx.account.update({
-      where: { id: accountId },
-      data: {
-        balance: newBalance,
-        buyingPower: newBuyingPower
-      }
+  /**
+   * Cancel every other open order in the same group (one-cancels-other)
+   */
+  private async cancelGroupSiblings(order: { orderId: string; groupId?: string }, reason: string, canceledBy: string = 'system'): Promise<void> {
+    const siblings = await this.store.findOrders({
+      groupId: order.groupId,
+      excludeId: order.orderId,
+      statuses: OPEN_ORDER_STATUSES
     });
 
-    console.log(`Account balance updated: ${side} ${grossAmount.toFixed(2)} (fees: ${fees.toFixed(2)}) -> Balance: $${newBalance.toFixed(2)}, Buying Power: $${newBuyingPower.toFixed(2)}`);
+    for (const sibling of siblings) {
+      await this.cancelSingleOrder(sibling.id, reason, canceledBy);
+    }
   }
 
   async startSimulation(): Promise<void> {
@@ -539,99 +1990,186 @@ export class ExecutionSimulator {
     await this.saveSimulatorState();
     console.log('Starting market simulation...');
 
-    for (const [symbol, bars] of this.marketData) {
+    for (const symbol of this.marketData.keys()) {
+      this.startReplay(symbol);
+    }
+    this.scheduleSessionChange();
+  }
+
+  /**
+   * Handle the next session change when it happens rather than on the next
+   * tick, so a gap between bars can't skip a close and its DAY order expiry
+   */
+  private scheduleSessionChange(): void {
+    if (!this.config.marketHours || this.sessionTimer !== undefined) return;
+
+    const delayMs = Date.parse(this.getMarketSession().nextChangeAt) - this.clock.now().getTime();
+    this.sessionTimer = this.clock.setTimeout(async () => {
+      this.sessionTimer = undefined;
+      await this.updateMarketSession().catch(error => {
+        console.error('Error changing market session:', error);
+      });
+      if (this.isRunning) {
+        this.scheduleSessionChange();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Replay a symbol's bars on its own interval, jittered so symbols don't tick in lockstep
+   */
+  private startReplay(symbol: string): void {
+    // Add random offset to each stock's interval to prevent synchronization
+    // Increased variation for more dynamic testing: Base interval +/- 40% random variation
+    const randomOffset = 0.6 + (this.random() * 0.8); // 0.6 to 1.4 multiplier (increased from 0.8-1.2)
+    const stockInterval = Math.floor(this.config.playbackSpeedMs * randomOffset);
+    
+    const interval = this.clock.setInterval(async () => {
+      if (!this.isRunning) {
+        this.clock.clearInterval(interval);
+        this.intervals.delete(symbol);
+        return;
+      }
+
+      // Replay pauses while the market is closed, so prices and resting orders wait for the next session
+      const session = await this.updateMarketSession();
+      if (this.isInSession('CLOSED', session)) {
+        return;
+      }
+
+      // So does a halted symbol's, until it resumes
+      if (this.halts.has(symbol.toUpperCase())) {
+        return;
+      }
+
+      // Bars are read on every tick so data loaded while running is picked up
+      const bars = this.marketData.get(symbol) || [];
       let currentIndex = this.currentIndices.get(symbol) || 0;
+
+      // Move to next bar
+      currentIndex++;
+
+      // If we've reached the end, loop back to beginning
+      if (currentIndex >= bars.length) {
+        currentIndex = 0;
+      }
+
+      this.currentIndices.set(symbol, currentIndex);
+      const previousBar = this.currentPrices.get(symbol);
+      const newBar = await this.tradeBar(symbol, bars[currentIndex], session);
+      const played = currentIndex === 0 ? [] : this.playedBars.get(symbol) || [];
+      played.push(newBar);
+      this.playedBars.set(symbol, played);
+
+      const previousClose = previousBar?.close || newBar.open;
+      const change = newBar.close - previousClose;
+      const changePercent = (change / previousClose) * 100;
+      console.log(`${symbol}: $${newBar.close.toFixed(2)} (${change >= 0 ? '+' : ''}${change.toFixed(2)}, ${changePercent.toFixed(2)}%) [${currentIndex}/${bars.length}]`);
       
-      // Add random offset to each stock's interval to prevent synchronization
-      // Increased variation for more dynamic testing: Base interval +/- 40% random variation
-      const randomOffset = 0.6 + (Math.random() * 0.8); // 0.6 to 1.4 multiplier (increased from 0.8-1.2)
-      const stockInterval = Math.floor(this.config.playbackSpeedMs * randomOffset);
-      
-      const interval = setInterval(async () => {
-        if (!this.isRunning) {
-          clearInterval(interval);
-          this.intervals.delete(symbol);
-          return;
-        }
+      // Save state periodically (every 10 ticks to avoid excessive DB writes)
+      if (currentIndex % 10 === 0) {
+        await this.saveSimulatorState();
+      }
+    }, stockInterval);
 
-        // Move to next bar
-        currentIndex++;
-        
-        // If we've reached the end, loop back to beginning
-        if (currentIndex >= bars.length) {
-          currentIndex = 0;
-        }
+    this.intervals.set(symbol, interval);
+    console.log(`${symbol} interval: ${stockInterval}ms (${randomOffset.toFixed(2)}x base)`);
+  }
 
-        this.currentIndices.set(symbol, currentIndex);
-        const originalBar = bars[currentIndex];
-        const previousBar = this.currentPrices.get(symbol);
-        
-        // Add random volatility for more dramatic testing/demo purposes
-        const volatilityMultiplier = 0.08; // 8% max random movement (very high for testing)
-        const randomChange = (Math.random() - 0.5) * 2 * volatilityMultiplier; // -8% to +8%
-        const volatilePrice = originalBar.close * (1 + randomChange);
-        
-        // Create modified bar with volatile price
-        const newBar = {
-          ...originalBar,
-          close: Math.max(volatilePrice, 0.01), // Ensure price never goes negative
-          open: originalBar.open, // Keep original open for reference
-          high: Math.max(originalBar.high, volatilePrice),
-          low: Math.min(originalBar.low, volatilePrice)
-        };
-        this.currentPrices.set(symbol, newBar);
-
-        // Update instrument price
-        await this.prisma.instrument.updateMany({
-          where: { symbol: symbol.toUpperCase() },
-          data: { 
-            price: newBar.close,
-            previousClose: previousBar?.close || newBar.open
-          }
-        });
+  /**
+   * Trade a bar for a symbol at the clock's current time, as the replay does
+   * with each bar it reaches, and return it as played. Bars the market isn't
+   * open for, or that arrive while the symbol is halted, aren't played.
+   */
+  async playBar(symbol: string, bar: MarketBar): Promise<MarketBar | undefined> {
+    const session = await this.updateMarketSession();
+    if (this.isInSession('CLOSED', session) || this.halts.has(symbol.toUpperCase())) {
+      return undefined;
+    }
+    return this.tradeBar(symbol.toUpperCase(), bar, session);
+  }
 
-        // Calculate price change metrics
-        const previousClose = previousBar?.close || newBar.open;
-        const change = newBar.close - previousClose;
-        const changePercent = (change / previousClose) * 100;
-
-        // Calculate bid/ask spread
-        const { bid, ask } = this.calculateBidAsk(newBar);
-
-        // Broadcast price update via WebSocket
-        broadcastPriceUpdate(symbol, {
-          price: newBar.close,
-          timestamp: newBar.timestamp,
-          volume: newBar.volume,
-          bid,
-          ask,
-          change,
-          changePercent
-        });
+  /**
+   * Move a symbol onto a new bar: close out the previous session, overlay the
+   * price model, publish the price, then halt on a band breach or trigger
+   * stops and work the book against it
+   */
+  private async tradeBar(symbol: string, originalBar: MarketBar, session: MarketSessionStatus): Promise<MarketBar> {
+    const previousBar = this.currentPrices.get(symbol);
+
+    // Close out the previous session's DAY orders before trading the new bar
+    if (previousBar && isNewSession(previousBar, originalBar)) {
+      await this.expireDayOrders(symbol);
+    }
+    
+    // Overlay the configured price model on the historical bar
+    const deviation = nextDeviation(this.priceDeviations.get(symbol) || 0, this.config, this.random);
+    this.priceDeviations.set(symbol, deviation);
+    const newBar = applyDeviation(originalBar, deviation);
+    this.currentPrices.set(symbol, newBar);
+
+    // Update instrument price
+    await this.store.updateInstrumentPrices(symbol.toUpperCase(), {
+      price: newBar.close,
+      previousClose: previousBar?.close || newBar.open
+    });
+    const instrument = await this.store.findInstrument({ symbol: symbol.toUpperCase() });
+    if (instrument) {
+      this.tickSizes.set(instrument.symbol, parseFloat(instrument.tickSize.toString()));
+    }
 
-        // Process limit orders
-        await this.processLimitOrders();
+    // Calculate price change metrics
+    const previousClose = previousBar?.close || newBar.open;
+    const change = newBar.close - previousClose;
+    const changePercent = (change / previousClose) * 100;
+
+    // Calculate bid/ask spread
+    const { bid, ask } = this.calculateBidAsk(symbol, newBar);
+
+    // Broadcast price update
+    this.broadcaster.priceUpdate(symbol, {
+      price: newBar.close,
+      timestamp: newBar.timestamp,
+      volume: newBar.volume,
+      bid,
+      ask,
+      change,
+      changePercent
+    });
 
-        console.log(`${symbol}: $${newBar.close.toFixed(2)} (${change >= 0 ? '+' : ''}${change.toFixed(2)}, ${changePercent.toFixed(2)}%) [${currentIndex}/${bars.length}]`);
-        
-        // Save state periodically (every 10 ticks to avoid excessive DB writes)
-        if (currentIndex % 10 === 0) {
-          await this.saveSimulatorState();
-        }
-      }, stockInterval);
+    // Price bands apply in the regular session; a breach halts the symbol before anything trades on the bar
+    const referencePrice = instrument?.referencePrice ? parseFloat(instrument.referencePrice.toString()) : undefined;
+    if ((!this.config.marketHours || session.session === 'REGULAR') && this.checkPriceBands(symbol, newBar, referencePrice)) {
+      return newBar;
+    }
 
-      this.intervals.set(symbol, interval);
-      console.log(`${symbol} interval: ${stockInterval}ms (${randomOffset.toFixed(2)}x base)`);
+    // Stops only trigger in the regular session
+    if (!this.config.marketHours || session.session === 'REGULAR') {
+      // Ratchet trailing stops against this symbol's new bar
+      await this.processTrailingStops(symbol, newBar);
+
+      // Trigger stop orders before matching so STOP_LIMIT orders can fill on this bar
+      await this.processStopOrders(symbol);
     }
+
+    // Process limit orders
+    await this.processLimitOrders(symbol);
+
+    this.publishAuctionIndication(symbol, newBar, session);
+    return newBar;
   }
 
   async stopSimulation(): Promise<void> {
     this.isRunning = false;
     
     for (const [symbol, interval] of this.intervals) {
-      clearInterval(interval);
+      this.clock.clearInterval(interval);
     }
     this.intervals.clear();
+    if (this.sessionTimer !== undefined) {
+      this.clock.clearTimeout(this.sessionTimer);
+      this.sessionTimer = undefined;
+    }
     
     await this.saveSimulatorState();
     console.log('Market simulation stopped and state saved');
@@ -641,11 +2179,101 @@ export class ExecutionSimulator {
     return new Map(this.currentPrices);
   }
 
+  /**
+   * Candles for a symbol up to the replay's current bar. Replayed bars are
+   * taken as they were broadcast, price model included, so history and the
+   * forming candle match the prices clients saw; stored bars fill in before
+   * the replay reached them. The candle the current bar falls in is still
+   * forming, so it comes back marked partial. With a limit, only the last
+   * `limit` intervals are read and aggregated.
+   */
+  async getCandles(symbol: string, interval: CandleInterval, range: { from?: Date; to?: Date; limit?: number } = {}): Promise<Candle[]> {
+    symbol = symbol.toUpperCase();
+    const current = this.currentPrices.get(symbol);
+
+    // Nothing after the current bar has happened yet, even if the data goes further
+    const currentTime = current ? Date.parse(current.timestamp) : undefined;
+    let to = currentTime !== undefined && (!range.to || currentTime < range.to.getTime())
+      ? currentTime
+      : range.to?.getTime();
+
+    // A symbol that isn't replaying counts back from its latest stored bar
+    if (to === undefined && range.limit) {
+      const latest = await this.store.findLatestBarTime(symbol);
+      to = latest?.getTime();
+    }
+
+    // Start on an interval boundary so the first candle isn't cut short
+    let from = range.from ? getIntervalStart(range.from.toISOString(), interval) : undefined;
+    if (range.limit && to !== undefined) {
+      const firstOfLimit = getIntervalStart(new Date(to).toISOString(), interval) - (range.limit - 1) * getIntervalMs(interval);
+      from = from === undefined ? firstOfLimit : Math.max(from, firstOfLimit);
+    }
+    const inRange = (bar: MarketBar) => {
+      const time = Date.parse(bar.timestamp);
+      return (from === undefined || time >= from) && (to === undefined || time <= to);
+    };
+
+    const stored = await this.store.findStoredBars({
+      symbol,
+      from: from !== undefined ? new Date(from) : undefined,
+      to: to !== undefined ? new Date(to) : undefined
+    });
+
+    // Later sources win on the same timestamp: a replayed bar over the stored one it was made from
+    const bars = this.marketData.get(symbol) || [];
+    const replayed = current
+      ? [...bars.slice(0, (this.currentIndices.get(symbol) || 0) + 1), ...(this.playedBars.get(symbol) || [])].filter(inRange)
+      : [];
+
+    const candles = aggregateBars(mergeMarketBars(stored.map(({ bar }) => bar), replayed), interval, current?.timestamp);
+    return range.limit ? candles.slice(-range.limit) : candles;
+  }
+
   getPendingOrders(): OrderBookEntry[] {
     return [...this.orderBook];
   }
 
-  updateConfig(newConfig: Partial<SimulationConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  /**
+   * Change settings on the fly. They are saved so a restart picks them up,
+   * unless persist is false, as for a test that shouldn't change the settings
+   * stored for everyone else.
+   */
+  async updateConfig(newConfig: Partial<SimulationConfig>, { persist = true }: { persist?: boolean } = {}): Promise<void> {
+    const changes = Object.fromEntries(
+      Object.entries(newConfig).filter(([, value]) => value !== undefined)
+    ) as Partial<SimulationConfig>;
+    // The session timer runs on the old clock and may no longer be wanted, so it is set again below
+    if (this.sessionTimer !== undefined && (newConfig.clock || changes.marketHours !== undefined)) {
+      this.clock.clearTimeout(this.sessionTimer);
+      this.sessionTimer = undefined;
+    }
+
+    this.config = { ...this.config, ...changes };
+    if (newConfig.seed !== undefined) {
+      this.random = createSeededRandom(newConfig.seed);
+    }
+    if (newConfig.clock) {
+      this.clock = newConfig.clock;
+    }
+    if (newConfig.broadcaster) {
+      this.broadcaster = newConfig.broadcaster;
+    }
+    if (this.isRunning) {
+      this.scheduleSessionChange();
+    }
+    if (changes.priceModel) {
+      // Start the new model from the real close rather than the old model's drift
+      this.priceDeviations.clear();
+    }
+
+    if (persist) {
+      await this.saveSimulatorConfig();
+    }
+  }
+
+  getConfig(): Omit<SimulationConfig, 'clock' | 'broadcaster'> {
+    const { clock, broadcaster, ...config } = this.config;
+    return config;
   }
 }
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { MarketBar } from './marketData';
+import { TrailingStopOffset, TrailingStopState, ratchetTrailingStop, isTrailingStopTriggered } from './trailingStop';
+
+export interface QuoteConfig {
+  bidAskSpreadBps: number; // basis points (100 bps = 1%)
+  slippageBps: number;
+  tickSize?: number; // quotes and fills snap to this price grid; unset leaves them unrounded
+}
+
+/**
+ * How resting orders are evaluated against a new bar. CLOSE only looks at the
+ * close; CONSERVATIVE and OPTIMISTIC look at the bar's whole high/low range,
+ * differing in the order they assume the extremes traded in.
+ */
+export type FillModel = 'CLOSE' | 'CONSERVATIVE' | 'OPTIMISTIC';
+
+export interface FillModelConfig extends QuoteConfig {
+  fillModel: FillModel;
+}
+
+export interface LiquidityConfig {
+  participationRate: number; // 0-1, most of a bar's volume our orders may take
+  impactBps: number; // price impact of trading a whole bar's volume; scales with the square root of the fraction traded
+}
+
+export interface Quote {
+  bid: number;
+  ask: number;
+}
+
+/**
+ * Snap a price to a tick grid: to the nearest tick, or up or down to the next
+ * one. Prices already on the grid are kept as they are. No tick size leaves the
+ * price unrounded.
+ */
+export function roundToTick(price: number, tickSize: number | undefined, direction: 'NEAREST' | 'UP' | 'DOWN' = 'NEAREST'): number {
+  if (!tickSize || tickSize <= 0) return price;
+
+  const ticks = price / tickSize;
+  const rounded = direction === 'UP'
+    ? Math.ceil(ticks - 1e-9)
+    : direction === 'DOWN'
+      ? Math.floor(ticks + 1e-9)
+      : Math.round(ticks);
+
+  // Trim the float noise of rounded * tickSize back to the tick's own decimals
+  const decimals = (tickSize.toString().split('.')[1] || '').length;
+  return parseFloat((rounded * tickSize).toFixed(decimals));
+}
+
+/**
+ * Bid/ask straddling a price by the configured spread. On a tick grid the
+ * quote widens out to the nearest ticks, bid down and ask up.
+ */
+export function calculateQuote(price: number, config: QuoteConfig): Quote {
+  const spread = (price * config.bidAskSpreadBps) / 10000;
+  return {
+    bid: roundToTick(price - spread / 2, config.tickSize, 'DOWN'),
+    ask: roundToTick(price + spread / 2, config.tickSize, 'UP')
+  };
+}
+
+/**
+ * Bid/ask straddling the bar's close by the configured spread
+ */
+export function calculateBidAsk(bar: MarketBar, config: QuoteConfig): Quote {
+  return calculateQuote(bar.close, config);
+}
+
+/**
+ * Price a market order fills at: the far side of the quote plus slippage. The
+ * quote is around the close unless a price within the bar is given, e.g. the
+ * price a stop triggered at.
+ */
+export function getMarketFillPrice(side: 'BUY' | 'SELL', bar: MarketBar, config: QuoteConfig, price: number = bar.close): number {
+  const { bid, ask } = calculateQuote(price, config);
+  const fillPrice = side === 'BUY' ? ask : bid;
+
+  const slippage = (fillPrice * config.slippageBps) / 10000;
+  return side === 'BUY'
+    ? roundToTick(fillPrice + slippage, config.tickSize, 'UP')
+    : roundToTick(fillPrice - slippage, config.tickSize, 'DOWN');
+}
+
+/**
+ * Shares our orders may trade on a bar, before any have traded on it
+ */
+export function getParticipationCapacity(bar: MarketBar, config: LiquidityConfig): number {
+  return Math.floor(bar.volume * config.participationRate);
+}
+
+/**
+ * Move a market fill price against the order by the square-root impact of its
+ * size relative to the bar's volume: impactBps * sqrt(quantity / volume)
+ */
+export function applyMarketImpact(side: 'BUY' | 'SELL', price: number, quantity: number, barVolume: number, config: LiquidityConfig): number {
+  if (barVolume <= 0 || quantity <= 0) return price;
+
+  const impact = (config.impactBps / 10000) * Math.sqrt(quantity / barVolume);
+  return side === 'BUY' ? price * (1 + impact) : price * (1 - impact);
+}
+
+/**
+ * Price a limit order would fill at against the current quote, or null if it doesn't cross
+ */
+export function getLimitFillPrice(side: 'BUY' | 'SELL', limitPrice: number | undefined, bar: MarketBar, config: QuoteConfig): number | null {
+  if (!limitPrice) return null;
+
+  const { bid, ask } = calculateBidAsk(bar, config);
+
+  if (side === 'BUY' && limitPrice >= ask) {
+    return Math.min(limitPrice, ask);
+  } else if (side === 'SELL' && limitPrice <= bid) {
+    return Math.max(limitPrice, bid);
+  }
+
+  return null;
+}
+
+/**
+ * Buy stops trigger when the market trades at or above the stop, sell stops at or below
+ */
+export function isStopTriggered(side: 'BUY' | 'SELL', stopPrice: number, lastPrice: number): boolean {
+  return side === 'BUY'
+    ? lastPrice >= stopPrice
+    : lastPrice <= stopPrice;
+}
+
+/**
+ * The prices a bar is assumed to have traded through, in order. CONSERVATIVE
+ * visits the extreme that works against the order first (O→H→L→C for buys,
+ * O→L→H→C for sells); OPTIMISTIC takes the other path.
+ */
+export function getIntrabarPath(side: 'BUY' | 'SELL', bar: MarketBar, model: FillModel): number[] {
+  if (model === 'CLOSE') {
+    return [bar.close];
+  }
+
+  const adverseFirst = (side === 'BUY') === (model === 'CONSERVATIVE');
+  return adverseFirst
+    ? [bar.open, bar.high, bar.low, bar.close]
+    : [bar.open, bar.low, bar.high, bar.close];
+}
+
+/**
+ * Price a resting limit order fills at during a bar, or null if the bar never
+ * reached it. A bar that opens through the limit fills at the opening quote;
+ * otherwise the fill is at the limit. CONSERVATIVE needs the quote to trade
+ * through the limit, OPTIMISTIC fills on a touch.
+ */
+export function getIntrabarLimitFillPrice(side: 'BUY' | 'SELL', limitPrice: number | undefined, bar: MarketBar, config: FillModelConfig): number | null {
+  if (config.fillModel === 'CLOSE') {
+    return getLimitFillPrice(side, limitPrice, bar, config);
+  }
+  if (!limitPrice) return null;
+
+  const atOpen = getLimitFillPrice(side, limitPrice, { ...bar, close: bar.open }, config);
+  if (atOpen !== null) return atOpen;
+
+  const touch = config.fillModel === 'OPTIMISTIC';
+  if (side === 'BUY') {
+    const bestAsk = calculateQuote(bar.low, config).ask;
+    return bestAsk < limitPrice || (touch && bestAsk === limitPrice) ? limitPrice : null;
+  }
+  const bestBid = calculateQuote(bar.high, config).bid;
+  return bestBid > limitPrice || (touch && bestBid === limitPrice) ? limitPrice : null;
+}
+
+/**
+ * Price a stop was reached at during a bar, or null if it wasn't: the open
+ * when the bar gapped through the stop, otherwise the stop price itself.
+ * CLOSE only triggers on the close, at the close.
+ */
+export function getStopTriggerPrice(side: 'BUY' | 'SELL', stopPrice: number, bar: MarketBar, model: FillModel): number | null {
+  if (model === 'CLOSE') {
+    return isStopTriggered(side, stopPrice, bar.close) ? bar.close : null;
+  }
+
+  if (isStopTriggered(side, stopPrice, bar.open)) return bar.open;
+  return isStopTriggered(side, stopPrice, side === 'BUY' ? bar.high : bar.low) ? stopPrice : null;
+}
+
+export interface TrailingStopWalk {
+  state?: TrailingStopState;
+  ratcheted: boolean;
+  triggerPrice: number | null;
+}
+
+/**
+ * Ratchet a trailing stop along the bar's assumed path, stopping where it
+ * triggers. The path order matters here: a conservative sell stop sees the low
+ * before the high, so it can trigger before the high ratchets it up. Stops are
+ * kept on the tick grid, rounded away from the market so they never sit closer
+ * than the trail.
+ */
+export function walkTrailingStop(
+  side: 'BUY' | 'SELL',
+  current: TrailingStopState | undefined,
+  bar: MarketBar,
+  offset: TrailingStopOffset,
+  model: FillModel,
+  tickSize?: number
+): TrailingStopWalk {
+  let state = current;
+  let ratcheted = false;
+
+  const path = getIntrabarPath(side, bar, model);
+  for (let i = 0; i < path.length; i++) {
+    const price = path[i];
+    const next = ratchetTrailingStop(side, state, price, offset);
+    if (next) {
+      state = { ...next, stopPrice: roundToTick(next.stopPrice, tickSize, side === 'SELL' ? 'DOWN' : 'UP') };
+      ratcheted = true;
+    }
+
+    if (state && isTrailingStopTriggered(side, state.stopPrice, price)) {
+      // Past the first price the path moves continuously, so it crosses the stop at the stop
+      const triggerPrice = i === 0 ? price : state.stopPrice;
+      return { state, ratcheted, triggerPrice };
+    }
+  }
+
+  return { state, ratcheted, triggerPrice: null };
+}
+
+export interface QueueConfig {
+  queueAheadPct: number; // 0-1, share of a bar's volume assumed to be resting ahead of a limit when it joins its price level
+}
+
+/**
+ * Where a resting limit stands in the queue at its price level
+ */
+export interface QueuePosition {
+  ahead: number; // shares that must trade at the level before the order can fill
+  barTimestamp: string; // last bar whose volume has been counted against the queue
+  available: number; // shares of that bar's volume left for the order once the queue ahead was worked off
+}
+
+// Share of a bar's volume assumed to trade against each side of the book
+export const PASSIVE_VOLUME_SHARE = 0.5;
+
+/**
+ * Whether a limit that doesn't cross the quote sits at the touch during the
+ * bar: at or above the best bid for buys, at or below the best ask for sells.
+ * Intrabar models look at the quote around the extreme favouring the order.
+ */
+export function isLimitAtTouch(side: 'BUY' | 'SELL', limitPrice: number | undefined, bar: MarketBar, config: FillModelConfig): boolean {
+  if (!limitPrice) return false;
+
+  const price = config.fillModel === 'CLOSE' ? bar.close : side === 'BUY' ? bar.low : bar.high;
+  const { bid, ask } = calculateQuote(price, config);
+  return side === 'BUY' ? limitPrice >= bid : limitPrice <= ask;
+}
+
+/**
+ * Join the back of the queue at a price level. The bar the order joins on
+ * traded before it arrived, so its volume never counts towards the queue.
+ */
+export function joinQueue(bar: MarketBar, config: QueueConfig): QueuePosition {
+  return {
+    ahead: Math.floor(bar.volume * config.queueAheadPct),
+    barTimestamp: bar.timestamp,
+    available: 0
+  };
+}
+
+/**
+ * Count a bar's volume at the touch against a queue position: the passive
+ * share of it works off the shares ahead first, and whatever is left is
+ * available to the order. A bar that was already counted changes nothing.
+ */
+export function advanceQueue(position: QueuePosition, bar: MarketBar): QueuePosition {
+  if (position.barTimestamp === bar.timestamp) return position;
+
+  const traded = Math.floor(bar.volume * PASSIVE_VOLUME_SHARE);
+  return {
+    ahead: Math.max(0, position.ahead - traded),
+    barTimestamp: bar.timestamp,
+    available: Math.max(0, traded - position.ahead)
+  };
+}
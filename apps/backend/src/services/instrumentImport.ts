@@ -0,0 +1,73 @@
+import { parse } from 'csv-parse/sync';
+import { CreateInstrumentRequest, createInstrumentSchema } from '../validation/instrumentSchemas';
+
+export interface InstrumentImportError {
+  row: number; // 1-based data row, not counting the header
+  field: string;
+  message: string;
+}
+
+const NUMERIC_COLUMNS = ['tickSize', 'lotSize', 'referencePrice', 'price', 'previousClose'];
+
+/**
+ * Turn a CSV cell into what the instrument schema expects: blanks are left
+ * out so defaults apply, numbers and booleans are converted, anything that
+ * doesn't convert is passed through for the schema to reject.
+ */
+function toField(column: string, value: string): unknown {
+  if (value === '') return undefined;
+  if (NUMERIC_COLUMNS.includes(column)) {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  if (column === 'isActive') {
+    const flag = value.toLowerCase();
+    if (flag === 'true' || flag === '1') return true;
+    if (flag === 'false' || flag === '0') return false;
+    return value;
+  }
+  if (column === 'oddLotPolicy') return value.toUpperCase();
+  return value;
+}
+
+/**
+ * Parse instrument reference data from CSV with a header row. Columns match
+ * the create request (symbol, name, sector, exchange, tickSize, lotSize,
+ * oddLotPolicy, referencePrice, price, previousClose, isActive). Every row is
+ * validated and every problem reported, so a file either imports whole or
+ * comes back with the full list of fixes.
+ */
+export function parseInstrumentCsv(csv: string): { instruments: CreateInstrumentRequest[]; errors: InstrumentImportError[] } {
+  const instruments: CreateInstrumentRequest[] = [];
+  const errors: InstrumentImportError[] = [];
+
+  let records: Record<string, string>[];
+  try {
+    records = parse(csv, { columns: true, skip_empty_lines: true, trim: true });
+  } catch (error: any) {
+    return { instruments, errors: [{ row: 0, field: 'csv', message: error.message }] };
+  }
+
+  const rowsBySymbol = new Map<string, number>();
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const fields = Object.fromEntries(Object.entries(record).map(([column, value]) => [column, toField(column, value)]));
+    const result = createInstrumentSchema.safeParse(fields);
+
+    if (!result.success) {
+      result.error.errors.forEach(err => errors.push({ row, field: err.path.join('.'), message: err.message }));
+      return;
+    }
+
+    const firstRow = rowsBySymbol.get(result.data.symbol);
+    if (firstRow) {
+      errors.push({ row, field: 'symbol', message: `Duplicate symbol ${result.data.symbol}, first seen on row ${firstRow}` });
+      return;
+    }
+
+    rowsBySymbol.set(result.data.symbol, row);
+    instruments.push(result.data);
+  });
+
+  return { instruments, errors };
+}
@@ -0,0 +1,69 @@
+export type OddLotPolicy = 'ALLOW' | 'MIXED_LOTS' | 'ROUND_LOTS';
+
+export interface InstrumentRules {
+  symbol: string;
+  tickSize: number;
+  lotSize: number;
+  oddLotPolicy: OddLotPolicy;
+}
+
+// Order types whose price is a limit price on the book
+const LIMIT_PRICED_TYPES = ['LIMIT', 'STOP_LIMIT', 'LOO', 'LOC'];
+// Order types whose stopPrice is a fixed trigger, rather than a trailing offset
+const STOP_PRICED_TYPES = ['STOP', 'STOP_LIMIT'];
+
+/**
+ * Whether a price sits on the tick grid. Prices are compared in whole ticks so
+ * float noise like 185.10000000000002 still counts as on the grid.
+ */
+export function isOnTickGrid(price: number, tickSize: number): boolean {
+  if (!(tickSize > 0)) return true;
+  const ticks = price / tickSize;
+  return Math.abs(ticks - Math.round(ticks)) < 1e-6;
+}
+
+/**
+ * Why an order's prices or quantity don't fit the instrument, if they don't.
+ * Every problem is reported, so the trader can fix them all at once.
+ */
+export function getInstrumentRejections(
+  rules: InstrumentRules,
+  order: { type: string; quantity: number; price?: number; stopPrice?: number }
+): string[] {
+  const reasons: string[] = [];
+  const offTick = (label: string, price: number) =>
+    `${label} ${price} is not a multiple of the ${rules.tickSize} tick size for ${rules.symbol}`;
+
+  if (LIMIT_PRICED_TYPES.includes(order.type) && order.price !== undefined && !isOnTickGrid(order.price, rules.tickSize)) {
+    reasons.push(offTick('Price', order.price));
+  }
+  if (STOP_PRICED_TYPES.includes(order.type) && order.stopPrice !== undefined && !isOnTickGrid(order.stopPrice, rules.tickSize)) {
+    reasons.push(offTick('Stop price', order.stopPrice));
+  }
+
+  const lotRejection = getLotRejection(rules, order.quantity);
+  if (lotRejection) reasons.push(lotRejection);
+
+  return reasons;
+}
+
+/**
+ * Why a quantity breaks the instrument's odd-lot policy, if it does. Round-lot
+ * instruments take whole lots only; mixed lots take anything from one lot up.
+ */
+function getLotRejection(rules: InstrumentRules, quantity: number): string | undefined {
+  if (rules.lotSize <= 1) return undefined;
+
+  switch (rules.oddLotPolicy) {
+    case 'ALLOW':
+      return undefined;
+    case 'MIXED_LOTS':
+      return quantity < rules.lotSize
+        ? `Quantity ${quantity} is less than the ${rules.lotSize}-share lot size for ${rules.symbol}: odd lots must be part of a round lot`
+        : undefined;
+    case 'ROUND_LOTS':
+      return quantity % rules.lotSize !== 0
+        ? `Quantity ${quantity} is not a multiple of the ${rules.lotSize}-share lot size for ${rules.symbol}`
+        : undefined;
+  }
+}
@@ -0,0 +1,417 @@
+import { AuctionType } from './matchingEngine';
+
+export type MarketSession = 'PRE_MARKET' | 'REGULAR' | 'POST_MARKET' | 'CLOSED';
+
+export interface SessionHours {
+  preMarketOpen: string; // HH:MM, exchange local time
+  regularOpen: string;
+  regularClose: string;
+  postMarketClose: string;
+  closingAuctionStart: string; // closing auction orders are collected from here to the regular close
+}
+
+/**
+ * A date that recurs every year: a fixed day of the month, the nth weekday of
+ * the month (counting back from the end when nth is negative) or a number of
+ * days from Easter Sunday, moved by offsetDays
+ */
+export interface AnnualDateRule {
+  name: string;
+  month?: number; // 1-12
+  day?: number;
+  weekday?: number; // 0 = Sunday
+  nth?: number;
+  daysFromEaster?: number;
+  offsetDays?: number;
+  fromYear?: number; // first year the date applies
+}
+
+export interface HolidayRule extends AnnualDateRule {
+  // Where a fixed-date holiday landing on a weekend is observed: on the nearest
+  // weekday, or on the Monday after a Sunday only (a Saturday holiday is lost)
+  observed?: 'NEAREST_WEEKDAY' | 'SUNDAY_TO_MONDAY';
+}
+
+export interface MarketCalendarConfig {
+  timeZone: string; // IANA zone the hours are in
+  hours: SessionHours;
+  earlyCloseHours: SessionHours; // replaces hours on early-close days
+  years: { from: number; to: number }; // years the rules are known to match the exchange's schedule
+  holidays: HolidayRule[]; // closed all day
+  earlyCloses: AnnualDateRule[]; // only when the date is otherwise a trading day
+  specialClosures: Record<string, string>; // YYYY-MM-DD -> unscheduled closure outside the rules
+}
+
+export interface MarketSessionStatus {
+  session: MarketSession;
+  tradingDate: string; // exchange local date
+  reason?: string; // weekend or holiday name on a closed day, occasion on an early-close day
+  earlyClose: boolean;
+  nextSession: MarketSession;
+  nextChangeAt: string; // when the session next changes
+  auction?: AuctionType; // auction currently collecting orders, if any
+  timestamp: string;
+}
+
+interface SessionChange {
+  session: MarketSession; // session that starts
+  minutes: number; // exchange local minutes into the day
+  at: string;
+}
+
+interface TradingDay {
+  closedReason?: string;
+  earlyClose?: string;
+  hours: SessionHours;
+  changes: SessionChange[]; // in order through the day; none when closed
+  nextOpen?: SessionChange; // once looked up
+}
+
+// Order types that only take part in an auction, and the auction they're for
+export const AUCTION_ORDER_TYPES: Record<string, AuctionType> = {
+  MOO: 'OPENING',
+  LOO: 'OPENING',
+  MOC: 'CLOSING',
+  LOC: 'CLOSING'
+};
+
+// NYSE/NASDAQ hours and the rules behind their published holiday and early-close schedule
+export const DEFAULT_MARKET_CALENDAR: MarketCalendarConfig = {
+  timeZone: 'America/New_York',
+  hours: { preMarketOpen: '04:00', regularOpen: '09:30', regularClose: '16:00', postMarketClose: '20:00', closingAuctionStart: '15:50' },
+  earlyCloseHours: { preMarketOpen: '04:00', regularOpen: '09:30', regularClose: '13:00', postMarketClose: '17:00', closingAuctionStart: '12:50' },
+  years: { from: 2020, to: 2030 },
+  holidays: [
+    // The exchange stays open on the last day of the year when New Year's Day is a Saturday
+    { name: "New Year's Day", month: 1, day: 1, observed: 'SUNDAY_TO_MONDAY' },
+    { name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, nth: 3 },
+    { name: "Washington's Birthday", month: 2, weekday: 1, nth: 3 },
+    { name: 'Good Friday', daysFromEaster: -2 },
+    { name: 'Memorial Day', month: 5, weekday: 1, nth: -1 },
+    { name: 'Juneteenth', month: 6, day: 19, observed: 'NEAREST_WEEKDAY', fromYear: 2022 },
+    { name: 'Independence Day', month: 7, day: 4, observed: 'NEAREST_WEEKDAY' },
+    { name: 'Labor Day', month: 9, weekday: 1, nth: 1 },
+    { name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 },
+    { name: 'Christmas Day', month: 12, day: 25, observed: 'NEAREST_WEEKDAY' }
+  ],
+  earlyCloses: [
+    { name: 'Day before Independence Day', month: 7, day: 3 },
+    { name: 'Day after Thanksgiving', month: 11, weekday: 4, nth: 4, offsetDays: 1 },
+    { name: 'Christmas Eve', month: 12, day: 24 }
+  ],
+  specialClosures: {
+    '2025-01-09': 'National Day of Mourning'
+  }
+};
+
+// Zones only ever change their UTC offset on a quarter hour
+const OFFSET_PERIOD_MS = 15 * 60 * 1000;
+
+const SESSION_LABELS: Record<MarketSession, string> = {
+  PRE_MARKET: 'pre-market',
+  REGULAR: 'regular',
+  POST_MARKET: 'post-market',
+  CLOSED: 'closed'
+};
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 86400000;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function toDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Easter Sunday in the Gregorian calendar (the anonymous algorithm)
+ */
+function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day);
+}
+
+function resolveDate(rule: AnnualDateRule, year: number): string | undefined {
+  if (rule.fromYear !== undefined && year < rule.fromYear) return undefined;
+
+  let date: string;
+  if (rule.daysFromEaster !== undefined) {
+    date = addDays(getEasterSunday(year), rule.daysFromEaster);
+  } else if (rule.weekday !== undefined && rule.nth !== undefined) {
+    if (rule.nth > 0) {
+      const first = toDate(year, rule.month!, 1);
+      date = addDays(first, (rule.weekday - getWeekday(first) + 7) % 7 + (rule.nth - 1) * 7);
+    } else {
+      const last = toDate(year, rule.month! + 1, 0);
+      date = addDays(last, -((getWeekday(last) - rule.weekday + 7) % 7) + (rule.nth + 1) * 7);
+    }
+  } else {
+    date = toDate(year, rule.month!, rule.day!);
+  }
+  return addDays(date, rule.offsetDays ?? 0);
+}
+
+/**
+ * Regular, pre- and post-market sessions for an exchange, with its weekends,
+ * holidays and early closes. Times are read in the exchange's own zone, so
+ * sessions follow daylight saving the way the exchange does.
+ */
+export class MarketCalendar {
+  private formatter: Intl.DateTimeFormat;
+  private schedules = new Map<number, { holidays: Record<string, string>; earlyCloses: Record<string, string> }>();
+  private days = new Map<string, TradingDay>();
+  private offsets = new Map<number, number>(); // the zone's offset from UTC by quarter hour, as the formatter is slow
+
+  constructor(private config: MarketCalendarConfig = DEFAULT_MARKET_CALENDAR) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: config.timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+
+  getStatus(at: Date): MarketSessionStatus {
+    const { date, minutes } = this.toLocal(at);
+    const day = this.getTradingDay(date);
+
+    let session: MarketSession = 'CLOSED';
+    let next: SessionChange | undefined;
+    for (const change of day.changes) {
+      if (minutes < change.minutes) {
+        next = change;
+        break;
+      }
+      session = change.session;
+    }
+
+    if (!next) {
+      day.nextOpen = day.nextOpen || this.getNextOpen(date);
+      next = day.nextOpen;
+    }
+
+    return {
+      session,
+      tradingDate: date,
+      reason: day.closedReason || day.earlyClose,
+      earlyClose: !day.closedReason && day.earlyClose !== undefined,
+      nextSession: next.session,
+      nextChangeAt: next.at,
+      auction: this.getCollectingAuction(session, minutes, day.hours),
+      timestamp: at.toISOString()
+    };
+  }
+
+  isTradingDay(date: string): boolean {
+    return !this.getClosedReason(date);
+  }
+
+  /**
+   * The opening auction collects orders whenever the market is shut or in
+   * pre-market; the closing auction only in the last minutes of the regular session
+   */
+  private getCollectingAuction(session: MarketSession, minutes: number, hours: SessionHours): AuctionType | undefined {
+    if (session === 'CLOSED' || session === 'PRE_MARKET') return 'OPENING';
+    if (session === 'REGULAR' && minutes >= toMinutes(hours.closingAuctionStart)) return 'CLOSING';
+    return undefined;
+  }
+
+  private getClosedReason(date: string): string | undefined {
+    const holiday = this.getSchedule(date).holidays[date];
+    const weekday = getWeekday(date);
+    if (weekday === 0 || weekday === 6) return 'Weekend';
+    return holiday;
+  }
+
+  private getHours(date: string): SessionHours {
+    return date in this.getSchedule(date).earlyCloses ? this.config.earlyCloseHours : this.config.hours;
+  }
+
+  /**
+   * The holidays and early closes of a date's year, worked out from the rules
+   * the first time the year is needed. Dates outside the configured years are
+   * refused rather than guessed at: the exchange can add or move holidays, so
+   * trading a year nobody has checked the rules against would be silently wrong.
+   */
+  private getSchedule(date: string): { holidays: Record<string, string>; earlyCloses: Record<string, string> } {
+    const year = parseInt(date.slice(0, 4));
+    const cached = this.schedules.get(year);
+    if (cached) return cached;
+
+    const { from, to } = this.config.years;
+    if (year < from || year > to) {
+      throw new Error(`Market calendar only covers ${from}-${to}, not ${date}: extend its holiday rules to this year`);
+    }
+
+    const holidays: Record<string, string> = {};
+    for (const rule of this.config.holidays) {
+      const day = resolveDate(rule, year);
+      if (!day) continue;
+
+      const weekday = getWeekday(day);
+      if (weekday === 6 && rule.observed === 'NEAREST_WEEKDAY') {
+        holidays[addDays(day, -1)] = `${rule.name} (observed)`;
+      } else if (weekday === 0 && rule.observed) {
+        holidays[addDays(day, 1)] = `${rule.name} (observed)`;
+      } else {
+        holidays[day] = rule.name;
+      }
+    }
+    for (const [day, name] of Object.entries(this.config.specialClosures)) {
+      if (day.startsWith(`${year}-`)) holidays[day] = name;
+    }
+
+    const earlyCloses: Record<string, string> = {};
+    for (const rule of this.config.earlyCloses) {
+      const day = resolveDate(rule, year);
+      const weekday = day && getWeekday(day);
+      if (day && weekday !== 0 && weekday !== 6 && !holidays[day]) {
+        earlyCloses[day] = rule.name;
+      }
+    }
+
+    const schedule = { holidays, earlyCloses };
+    this.schedules.set(year, schedule);
+    return schedule;
+  }
+
+  /**
+   * A date's closure or early close and the session changes over it, worked
+   * out once per date since every status check on the date needs them
+   */
+  private getTradingDay(date: string): TradingDay {
+    const cached = this.days.get(date);
+    if (cached) return cached;
+
+    const closedReason = this.getClosedReason(date);
+    const hours = this.getHours(date);
+    const changes: Array<[string, MarketSession]> = closedReason ? [] : [
+      [hours.preMarketOpen, 'PRE_MARKET'],
+      [hours.regularOpen, 'REGULAR'],
+      [hours.regularClose, 'POST_MARKET'],
+      [hours.postMarketClose, 'CLOSED']
+    ];
+
+    const day: TradingDay = {
+      closedReason,
+      earlyClose: this.getSchedule(date).earlyCloses[date],
+      hours,
+      changes: changes.map(([time, session]) => ({ session, minutes: toMinutes(time), at: this.toInstant(date, time).toISOString() }))
+    };
+    this.days.set(date, day);
+    return day;
+  }
+
+  // Pre-market opening on the next trading date, looked up only once it's the next change
+  private getNextOpen(date: string): SessionChange {
+    const nextDate = this.getNextTradingDate(date);
+    const time = this.getHours(nextDate).preMarketOpen;
+    return { session: 'PRE_MARKET', minutes: toMinutes(time), at: this.toInstant(nextDate, time).toISOString() };
+  }
+
+  private getNextTradingDate(date: string): string {
+    let next = addDays(date, 1);
+    // Exchanges never close for more than a long weekend plus a holiday, but don't loop forever on a bad config
+    for (let i = 0; i < 14 && !this.isTradingDay(next); i++) {
+      next = addDays(next, 1);
+    }
+    return next;
+  }
+
+  private toLocal(at: Date): { date: string; minutes: number } {
+    const local = new Date(at.getTime() + this.getOffset(at.getTime()));
+    return {
+      date: local.toISOString().slice(0, 10),
+      minutes: local.getUTCHours() * 60 + local.getUTCMinutes()
+    };
+  }
+
+  /**
+   * The instant a local date and time in the exchange's zone falls on
+   */
+  private toInstant(date: string, time: string): Date {
+    const asUtc = Date.parse(`${date}T${time}:00Z`);
+
+    // Correct once more in case the first guess landed on the other side of a DST change
+    const guess = asUtc - this.getOffset(asUtc);
+    return new Date(asUtc - this.getOffset(guess));
+  }
+
+  // How far the exchange's local time is ahead of UTC at an instant
+  private getOffset(instant: number): number {
+    const period = Math.floor(instant / OFFSET_PERIOD_MS);
+    const cached = this.offsets.get(period);
+    if (cached !== undefined) return cached;
+
+    const start = period * OFFSET_PERIOD_MS;
+    const parts = Object.fromEntries(this.formatter.formatToParts(new Date(start)).map(part => [part.type, part.value]));
+    const offset = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) - start;
+    this.offsets.set(period, offset);
+    return offset;
+  }
+}
+
+/**
+ * Why an order can't be accepted in the current session, if it can't.
+ * Extended hours take limit orders only. While the market is closed, orders
+ * that can rest wait for the next session; anything that needs to execute
+ * immediately is turned away. Auction orders are only taken while their
+ * auction is collecting orders.
+ */
+export function getSessionRejection(
+  status: MarketSessionStatus,
+  order: { type: string; timeInForce?: string }
+): string | undefined {
+  const auction = AUCTION_ORDER_TYPES[order.type];
+  if (auction) {
+    return status.auction === auction
+      ? undefined
+      : `${order.type} orders are only accepted while the ${auction.toLowerCase()} auction is collecting orders`;
+  }
+
+  switch (status.session) {
+    case 'REGULAR':
+      return undefined;
+    case 'PRE_MARKET':
+    case 'POST_MARKET':
+      return order.type === 'LIMIT'
+        ? undefined
+        : `Only LIMIT orders are accepted during ${SESSION_LABELS[status.session]} trading`;
+    case 'CLOSED': {
+      const closed = `Market is closed${status.reason ? ` (${status.reason})` : ''}`;
+      if (order.type === 'MARKET') {
+        return `${closed}: MARKET orders are not accepted`;
+      }
+      if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+        return `${closed}: ${order.timeInForce} orders need an open session`;
+      }
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'csv-parse/sync';
+
+export interface MarketBar {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const BAR_FILE_SUFFIX = '_minute_bars.csv';
+
+// MARKET_DATA_DIR points the simulator and backtests at another set of bar files
+export const DEFAULT_DATA_DIR = process.env.MARKET_DATA_DIR
+  ? path.resolve(process.env.MARKET_DATA_DIR)
+  : path.join(process.cwd(), '../../infra/data');
+
+/**
+ * The symbol a `<SYMBOL>_minute_bars.csv` file holds bars for, or undefined for any other file
+ */
+export function getBarFileSymbol(file: string): string | undefined {
+  const name = path.basename(file);
+  return name.endsWith(BAR_FILE_SUFFIX) && name.length > BAR_FILE_SUFFIX.length
+    ? name.slice(0, -BAR_FILE_SUFFIX.length)
+    : undefined;
+}
+
+/**
+ * Parse bars from CSV with a timestamp,open,high,low,close,volume header
+ */
+export function parseMarketBars(csvData: string): MarketBar[] {
+  const records = parse(csvData, {
+    columns: true,
+    skip_empty_lines: true
+  });
+
+  return records.map((record: any) => ({
+    timestamp: record.timestamp,
+    open: parseFloat(record.open),
+    high: parseFloat(record.high),
+    low: parseFloat(record.low),
+    close: parseFloat(record.close),
+    volume: parseInt(record.volume)
+  }));
+}
+
+/**
+ * Load every `<SYMBOL>_minute_bars.csv` file in a directory, keyed by symbol.
+ * Files are read in sorted order so symbols always come back in the same order.
+ */
+export function loadMarketBars(dataDir: string = DEFAULT_DATA_DIR): Map<string, MarketBar[]> {
+  const marketData = new Map<string, MarketBar[]>();
+  const files = fs.readdirSync(dataDir).filter(f => getBarFileSymbol(f)).sort();
+
+  for (const file of files) {
+    const csvData = fs.readFileSync(path.join(dataDir, file), 'utf8');
+    marketData.set(getBarFileSymbol(file)!, parseMarketBars(csvData));
+  }
+
+  return marketData;
+}
+
+/**
+ * Problems that make a series of bars unusable, each naming the bar's
+ * position: timestamps must parse and strictly increase, prices must be
+ * positive with the open and close inside the high-low range, and volume
+ * can't be negative.
+ */
+export function validateMarketBars(bars: MarketBar[]): string[] {
+  const errors: string[] = [];
+  let previousTime: number | undefined;
+
+  bars.forEach((bar, index) => {
+    const time = Date.parse(bar.timestamp);
+    if (isNaN(time)) {
+      errors.push(`Bar ${index}: invalid timestamp ${bar.timestamp}`);
+    } else {
+      if (previousTime !== undefined && time <= previousTime) {
+        errors.push(`Bar ${index}: timestamp ${bar.timestamp} is not after the previous bar`);
+      }
+      previousTime = time;
+    }
+
+    const prices = [bar.open, bar.high, bar.low, bar.close];
+    if (prices.some(price => !Number.isFinite(price) || price <= 0)) {
+      errors.push(`Bar ${index}: prices must be positive numbers`);
+    } else if (bar.high < bar.low) {
+      errors.push(`Bar ${index}: high ${bar.high} is below low ${bar.low}`);
+    } else if ([bar.open, bar.close].some(price => price > bar.high || price < bar.low)) {
+      errors.push(`Bar ${index}: open and close must be within the high-low range`);
+    }
+
+    if (!Number.isInteger(bar.volume) || bar.volume < 0) {
+      errors.push(`Bar ${index}: volume must be a non-negative integer`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Merge new bars into a series in timestamp order. A new bar replaces an
+ * existing one with the same timestamp.
+ */
+export function mergeMarketBars(existing: MarketBar[], incoming: MarketBar[]): MarketBar[] {
+  const byTime = new Map<number, MarketBar>();
+  for (const bar of [...existing, ...incoming]) {
+    byTime.set(Date.parse(bar.timestamp), bar);
+  }
+  return [...byTime.entries()].sort(([a], [b]) => a - b).map(([, bar]) => bar);
+}
+
+/**
+ * A bar on a new trading date, or the replay looping back to the start of the
+ * data, means the previous simulated session has closed.
+ */
+export function isNewSession(previousBar: MarketBar, bar: MarketBar): boolean {
+  const previousTime = new Date(previousBar.timestamp);
+  const time = new Date(bar.timestamp);
+  return time < previousTime || time.toISOString().slice(0, 10) !== previousTime.toISOString().slice(0, 10);
+}
@@ -14,6 +14,7 @@ export interface MarketData {
   bid: number;
   ask: number;
   last: number;
+  liquidity?: number; // quantity market orders can take from the quote, across both sides; unlimited when unset
 }
 
 export interface Fill {
@@ -24,49 +25,325 @@ export interface Fill {
   timestamp: Date;
 }
 
+export type AuctionType = 'OPENING' | 'CLOSING';
+
+export interface AuctionMarketData {
+  referencePrice: number; // breaks ties between clearing prices, and is the price when nothing crosses
+  liquidity?: number; // quantity the outside market takes off the imbalance at the clearing price; none when unset
+}
+
+export interface AuctionIndication {
+  price: number; // single clearing price
+  matchedQuantity: number; // auction interest that crosses at that price
+  imbalance: number; // unmatched interest eligible at that price
+  imbalanceSide?: 'BUY' | 'SELL';
+}
+
+export interface AuctionResult extends AuctionIndication {
+  fills: Fill[];
+}
+
+export interface DepthLevel {
+  price: number;
+  size: number;
+  orderCount: number;
+}
+
+export interface OrderBookDepth {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+interface PriceLevel {
+  price: number;
+  orders: OrderBookEntry[]; // FIFO queue, oldest first
+  size: number; // total remaining quantity at this price
+  orderCount: number; // orders with quantity remaining
+}
+
+/**
+ * Price levels that differ between two depth snapshots of one side of the book.
+ * Levels that disappeared are reported with zero size and order count.
+ */
+export function diffDepthLevels(previous: DepthLevel[], next: DepthLevel[]): DepthLevel[] {
+  const previousByPrice = new Map(previous.map(level => [level.price, level]));
+  const nextPrices = new Set(next.map(level => level.price));
+
+  const changes = next.filter(level => {
+    const before = previousByPrice.get(level.price);
+    return !before || before.size !== level.size || before.orderCount !== level.orderCount;
+  });
+
+  for (const level of previous) {
+    if (!nextPrices.has(level.price)) {
+      changes.push({ price: level.price, size: 0, orderCount: 0 });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Insert an order into a FIFO queue by time priority. Orders normally arrive in
+ * time order, so this is an append; re-added orders walk back to their place.
+ */
+function enqueueByTime(queue: OrderBookEntry[], order: OrderBookEntry): void {
+  let index = queue.length;
+  while (index > 0 && queue[index - 1].createdAt.getTime() > order.createdAt.getTime()) {
+    index--;
+  }
+  queue.splice(index, 0, order);
+}
+
+/**
+ * Whether an auction order takes part at a clearing price: market orders at any
+ * price, limit orders at their limit or better
+ */
+function isEligibleAt(order: OrderBookEntry, price: number): boolean {
+  if (order.type === 'MARKET') return true;
+  return order.side === 'BUY' ? (order.price || 0) >= price : (order.price || 0) <= price;
+}
+
+/**
+ * Auction priority: market orders first, then the most aggressive limits, then time
+ */
+function compareAuctionPriority(a: OrderBookEntry, b: OrderBookEntry): number {
+  if (a.type !== b.type) return a.type === 'MARKET' ? -1 : 1;
+  if (a.type === 'LIMIT' && a.price !== b.price) {
+    return a.side === 'BUY' ? (b.price || 0) - (a.price || 0) : (a.price || 0) - (b.price || 0);
+  }
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * One side of the book: price levels kept sorted best price first, with a map
+ * from price to level so joining an existing level doesn't need a search
+ */
+class BookSide {
+  readonly levels: PriceLevel[] = [];
+  private levelsByPrice: Map<number, PriceLevel> = new Map();
+
+  constructor(private side: 'BUY' | 'SELL') {}
+
+  add(order: OrderBookEntry): void {
+    const price = order.price || 0;
+    let level = this.levelsByPrice.get(price);
+    if (!level) {
+      level = { price, orders: [], size: 0, orderCount: 0 };
+      this.levelsByPrice.set(price, level);
+      this.levels.splice(this.findIndex(price), 0, level);
+    }
+
+    enqueueByTime(level.orders, order);
+    if (order.remainingQuantity > 0) {
+      level.size += order.remainingQuantity;
+      level.orderCount += 1;
+    }
+  }
+
+  remove(order: OrderBookEntry): void {
+    const level = this.levelsByPrice.get(order.price || 0);
+    if (!level) return;
+
+    const index = level.orders.indexOf(order);
+    if (index === -1) return;
+
+    level.orders.splice(index, 1);
+    if (order.remainingQuantity > 0) {
+      level.size -= order.remainingQuantity;
+      level.orderCount -= 1;
+    }
+    if (level.orders.length === 0) {
+      this.removeLevel(level);
+    }
+  }
+
+  levelFor(order: OrderBookEntry): PriceLevel | undefined {
+    return this.levelsByPrice.get(order.price || 0);
+  }
+
+  /**
+   * Drop fully filled orders from a level, and the level itself once empty.
+   * Returns the orders that were dropped.
+   */
+  compact(level: PriceLevel): OrderBookEntry[] {
+    const filled = level.orders.filter(o => o.remainingQuantity === 0);
+    if (filled.length === 0) return filled;
+
+    level.orders = level.orders.filter(o => o.remainingQuantity > 0);
+    if (level.orders.length === 0) {
+      this.removeLevel(level);
+    }
+    return filled;
+  }
+
+  private removeLevel(level: PriceLevel): void {
+    this.levelsByPrice.delete(level.price);
+    const index = this.findIndex(level.price);
+    if (this.levels[index] === level) {
+      this.levels.splice(index, 1);
+    }
+  }
+
+  /**
+   * Binary search for the position of a price: the first level that does not
+   * rank strictly ahead of it
+   */
+  private findIndex(price: number): number {
+    let low = 0;
+    let high = this.levels.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const levelPrice = this.levels[mid].price;
+      const isAhead = this.side === 'BUY' ? levelPrice > price : levelPrice < price;
+      if (isAhead) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
+
 export class MatchingEngine {
-  private buyOrders: OrderBookEntry[] = [];
-  private sellOrders: OrderBookEntry[] = [];
+  private bids = new BookSide('BUY');
+  private asks = new BookSide('SELL');
+  private marketBuys: OrderBookEntry[] = [];
+  private marketSells: OrderBookEntry[] = [];
+  private orderIndex: Map<string, OrderBookEntry> = new Map();
+  private auctionBooks: Record<AuctionType, OrderBookEntry[]> = { OPENING: [], CLOSING: [] };
+  private auctionOrders: Map<string, AuctionType> = new Map(); // which auction each collected order is waiting for
+
+  constructor(private now: () => Date = () => new Date()) {}
 
   /**
-   * Add an order to the order book
+   * Add an order to the order book. Market orders queue ahead of all limit
+   * orders; limit orders join the FIFO queue at their price level.
    */
   addOrder(order: OrderBookEntry): void {
-    if (order.side === 'BUY') {
-      this.buyOrders.push(order);
-      // Sort buy orders by price DESC (highest first), then by time ASC (oldest first)
-      this.buyOrders.sort((a, b) => {
-        if (a.type === 'MARKET' && b.type !== 'MARKET') return -1;
-        if (b.type === 'MARKET' && a.type !== 'MARKET') return 1;
-        
-        if (a.type === 'MARKET' && b.type === 'MARKET') {
-          return a.createdAt.getTime() - b.createdAt.getTime(); // Time priority for market orders
-        }
-        
-        if (a.price !== b.price) {
-          return (b.price || 0) - (a.price || 0); // Price priority (higher price first for buys)
-        }
-        
-        return a.createdAt.getTime() - b.createdAt.getTime(); // Time priority
-      });
+    if (this.orderIndex.has(order.orderId)) {
+      this.cancelOrder(order.orderId);
+    }
+    this.orderIndex.set(order.orderId, order);
+
+    if (order.type === 'MARKET') {
+      enqueueByTime(order.side === 'BUY' ? this.marketBuys : this.marketSells, order);
     } else {
-      this.sellOrders.push(order);
-      // Sort sell orders by price ASC (lowest first), then by time ASC (oldest first)
-      this.sellOrders.sort((a, b) => {
-        if (a.type === 'MARKET' && b.type !== 'MARKET') return -1;
-        if (b.type === 'MARKET' && a.type !== 'MARKET') return 1;
-        
-        if (a.type === 'MARKET' && b.type === 'MARKET') {
-          return a.createdAt.getTime() - b.createdAt.getTime(); // Time priority for market orders
-        }
-        
-        if (a.price !== b.price) {
-          return (a.price || 0) - (b.price || 0); // Price priority (lower price first for sells)
-        }
-        
-        return a.createdAt.getTime() - b.createdAt.getTime(); // Time priority
+      this.sideFor(order.side).add(order);
+    }
+  }
+
+  /**
+   * Collect an order for an opening or closing auction. Auction orders don't
+   * trade continuously or show in the depth; they wait for the uncross.
+   */
+  addAuctionOrder(auction: AuctionType, order: OrderBookEntry): void {
+    if (this.orderIndex.has(order.orderId)) {
+      this.cancelOrder(order.orderId);
+    }
+    this.orderIndex.set(order.orderId, order);
+    this.auctionOrders.set(order.orderId, auction);
+    enqueueByTime(this.auctionBooks[auction], order);
+  }
+
+  /**
+   * Where an auction would uncross if it ran now, or null with no orders collected.
+   * The clearing price is the one that executes the most volume; ties go to the
+   * smallest imbalance, then to the price closest to the reference.
+   */
+  getAuctionIndication(auction: AuctionType, referencePrice: number): AuctionIndication | null {
+    const orders = this.auctionBooks[auction].filter(order => order.remainingQuantity > 0);
+    if (orders.length === 0) return null;
+
+    const interestAt = (price: number) => {
+      const eligible = orders.filter(order => isEligibleAt(order, price));
+      const buyQuantity = eligible.filter(o => o.side === 'BUY').reduce((sum, o) => sum + o.remainingQuantity, 0);
+      const sellQuantity = eligible.filter(o => o.side === 'SELL').reduce((sum, o) => sum + o.remainingQuantity, 0);
+      return {
+        price,
+        matchedQuantity: Math.min(buyQuantity, sellQuantity),
+        imbalance: Math.abs(buyQuantity - sellQuantity),
+        imbalanceSide: buyQuantity === sellQuantity ? undefined : buyQuantity > sellQuantity ? 'BUY' as const : 'SELL' as const
+      };
+    };
+
+    const candidates = new Set([referencePrice]);
+    for (const order of orders) {
+      if (order.type === 'LIMIT' && order.price) candidates.add(order.price);
+    }
+
+    let best = interestAt(referencePrice);
+    for (const price of candidates) {
+      const interest = interestAt(price);
+      const distance = Math.abs(price - referencePrice);
+      const bestDistance = Math.abs(best.price - referencePrice);
+      if (interest.matchedQuantity > best.matchedQuantity
+        || (interest.matchedQuantity === best.matchedQuantity && (interest.imbalance < best.imbalance
+          || (interest.imbalance === best.imbalance && distance < bestDistance)))) {
+        best = interest;
+      }
+    }
+
+    // With nothing crossing, the auction indicates at the reference price
+    return best.matchedQuantity > 0 ? best : interestAt(referencePrice);
+  }
+
+  /**
+   * Uncross an auction at its single clearing price. Crossing orders fill against
+   * each other in auction priority, then the outside market takes what it can of
+   * the imbalance at the same price. Every collected order leaves the auction,
+   * filled or not.
+   */
+  runAuction(auction: AuctionType, marketData: AuctionMarketData): AuctionResult | null {
+    const indication = this.getAuctionIndication(auction, marketData.referencePrice);
+    const orders = this.auctionBooks[auction];
+    this.auctionBooks[auction] = [];
+    for (const order of orders) {
+      this.orderIndex.delete(order.orderId);
+      this.auctionOrders.delete(order.orderId);
+    }
+    if (!indication) return null;
+
+    const { price } = indication;
+    const eligible = orders
+      .filter(order => order.remainingQuantity > 0 && isEligibleAt(order, price))
+      .sort(compareAuctionPriority);
+    const buys = eligible.filter(order => order.side === 'BUY');
+    const sells = eligible.filter(order => order.side === 'SELL');
+    const fills: Fill[] = [];
+
+    for (const buyOrder of buys) {
+      for (const sellOrder of sells) {
+        if (buyOrder.remainingQuantity === 0) break;
+        if (sellOrder.remainingQuantity === 0) continue;
+        if (sellOrder.accountId === buyOrder.accountId) continue; // No self-trades
+
+        const fillQty = Math.min(buyOrder.remainingQuantity, sellOrder.remainingQuantity);
+        fills.push({ buyOrderId: buyOrder.orderId, sellOrderId: sellOrder.orderId, quantity: fillQty, price, timestamp: this.now() });
+        buyOrder.remainingQuantity -= fillQty;
+        sellOrder.remainingQuantity -= fillQty;
+      }
+    }
+
+    // The outside market absorbs what's left, up to its liquidity
+    let liquidity = marketData.liquidity ?? 0;
+    for (const order of [...buys, ...sells]) {
+      const fillQty = Math.min(order.remainingQuantity, liquidity);
+      if (fillQty <= 0) continue;
+
+      liquidity -= fillQty;
+      fills.push({
+        buyOrderId: order.side === 'BUY' ? order.orderId : 'MARKET',
+        sellOrderId: order.side === 'SELL' ? order.orderId : 'MARKET',
+        quantity: fillQty,
+        price,
+        timestamp: this.now()
       });
+      order.remainingQuantity -= fillQty;
     }
+
+    return { ...indication, fills };
   }
 
   /**
@@ -74,127 +351,268 @@ export class MatchingEngine {
    */
   matchOrders(marketData: MarketData): Fill[] {
     const fills: Fill[] = [];
-    
+    const touched = new Map<PriceLevel, BookSide>();
+
     // Process market orders first
-    this.processMarketOrders(marketData, fills);
-    
+    this.processMarketOrders(marketData, fills, touched);
+
     // Then process limit order crosses
-    this.processLimitOrderCrosses(fills);
-    
+    this.processLimitOrderCrosses(fills, touched);
+
     // Clean up fully filled orders
-    this.cleanup();
-    
+    this.cleanup(touched);
+
     return fills;
   }
 
-  private processMarketOrders(marketData: MarketData, fills: Fill[]): void {
-    // Process market buy orders against best ask
-    const marketBuys = this.buyOrders.filter(o => o.type === 'MARKET' && o.remainingQuantity > 0);
-    for (const buyOrder of marketBuys) {
-      const fillPrice = marketData.ask;
-      const fillQty = Math.min(buyOrder.remainingQuantity, buyOrder.remainingQuantity);
-      
+  private processMarketOrders(marketData: MarketData, fills: Fill[], touched: Map<PriceLevel, BookSide>): void {
+    let liquidity = marketData.liquidity ?? Infinity;
+
+    // Process market buy orders against resting internal sells, then the best ask
+    for (const buyOrder of this.marketBuys) {
+      this.sweepRestingOrders(buyOrder, this.asks, marketData.ask, fills, touched);
+
+      const fillQty = Math.min(buyOrder.remainingQuantity, liquidity);
       if (fillQty > 0) {
+        liquidity -= fillQty;
         fills.push({
           buyOrderId: buyOrder.orderId,
           sellOrderId: 'MARKET',
           quantity: fillQty,
-          price: fillPrice,
-          timestamp: new Date()
+          price: marketData.ask,
+          timestamp: this.now()
         });
-        
+
         buyOrder.remainingQuantity -= fillQty;
       }
     }
 
-    // Process market sell orders against best bid
-    const marketSells = this.sellOrders.filter(o => o.type === 'MARKET' && o.remainingQuantity > 0);
-    for (const sellOrder of marketSells) {
-      const fillPrice = marketData.bid;
-      const fillQty = Math.min(sellOrder.remainingQuantity, sellOrder.remainingQuantity);
-      
+    // Process market sell orders against resting internal buys, then the best bid
+    for (const sellOrder of this.marketSells) {
+      this.sweepRestingOrders(sellOrder, this.bids, marketData.bid, fills, touched);
+
+      const fillQty = Math.min(sellOrder.remainingQuantity, liquidity);
       if (fillQty > 0) {
+        liquidity -= fillQty;
         fills.push({
           buyOrderId: 'MARKET',
           sellOrderId: sellOrder.orderId,
           quantity: fillQty,
-          price: fillPrice,
-          timestamp: new Date()
+          price: marketData.bid,
+          timestamp: this.now()
         });
-        
+
         sellOrder.remainingQuantity -= fillQty;
       }
     }
+
+    // Market orders the quote's liquidity couldn't fill keep their place for the next match
+    for (const order of [...this.marketBuys, ...this.marketSells]) {
+      if (order.remainingQuantity === 0) {
+        this.orderIndex.delete(order.orderId);
+      }
+    }
+    this.marketBuys = this.marketBuys.filter(order => order.remainingQuantity > 0);
+    this.marketSells = this.marketSells.filter(order => order.remainingQuantity > 0);
   }
 
-  private processLimitOrderCrosses(fills: Fill[]): void {
-    // Match limit orders where buy price >= sell price
-    const activeBuys = this.buyOrders.filter(o => o.type === 'LIMIT' && o.remainingQuantity > 0);
-    const activeSells = this.sellOrders.filter(o => o.type === 'LIMIT' && o.remainingQuantity > 0);
-    
-    for (const buyOrder of activeBuys) {
-      if (buyOrder.remainingQuantity === 0) continue;
-      
-      for (const sellOrder of activeSells) {
-        if (sellOrder.remainingQuantity === 0) continue;
-        
-        // Check if orders can cross
-        if ((buyOrder.price || 0) >= (sellOrder.price || 0)) {
-          // Use price of the earlier order (price-time priority)
-          const fillPrice = buyOrder.createdAt <= sellOrder.createdAt 
-            ? (buyOrder.price || 0)
-            : (sellOrder.price || 0);
-          
-          const fillQty = Math.min(buyOrder.remainingQuantity, sellOrder.remainingQuantity);
-          
-          if (fillQty > 0) {
+  /**
+   * Fill a market order against resting limit orders on the other side of the book
+   * that are priced at or better than the external quote, best price first
+   */
+  private sweepRestingOrders(
+    order: OrderBookEntry,
+    restingSide: BookSide,
+    quotePrice: number,
+    fills: Fill[],
+    touched: Map<PriceLevel, BookSide>
+  ): void {
+    for (const level of restingSide.levels) {
+      if (order.remainingQuantity === 0) return;
+
+      const betterThanQuote = order.side === 'BUY' ? level.price <= quotePrice : level.price >= quotePrice;
+      if (!betterThanQuote) return; // Levels are sorted, so nothing further is better either
+
+      for (const resting of level.orders) {
+        if (order.remainingQuantity === 0) break;
+        if (resting.remainingQuantity === 0) continue;
+        if (resting.accountId === order.accountId) continue; // No self-trades
+
+        const fillQty = Math.min(order.remainingQuantity, resting.remainingQuantity);
+        fills.push({
+          buyOrderId: order.side === 'BUY' ? order.orderId : resting.orderId,
+          sellOrderId: order.side === 'SELL' ? order.orderId : resting.orderId,
+          quantity: fillQty,
+          price: level.price,
+          timestamp: this.now()
+        });
+
+        order.remainingQuantity -= fillQty;
+        this.reduceResting(level, resting, fillQty);
+        touched.set(level, restingSide);
+      }
+    }
+  }
+
+  private processLimitOrderCrosses(fills: Fill[], touched: Map<PriceLevel, BookSide>): void {
+    // Buys in priority order each take crossing sells best-first, stopping as soon
+    // as the sell price no longer crosses. Exhausted sells at the front of the book
+    // are skipped via per-level heads so they are only scanned once.
+    const heads = new Map<PriceLevel, number>();
+    let firstAskLevel = 0;
+
+    for (const bidLevel of this.bids.levels) {
+      const asks = this.asks.levels;
+      if (firstAskLevel >= asks.length || bidLevel.price < asks[firstAskLevel].price) break;
+
+      for (const buyOrder of bidLevel.orders) {
+        if (buyOrder.remainingQuantity === 0) continue;
+
+        for (let i = firstAskLevel; i < asks.length && buyOrder.remainingQuantity > 0; i++) {
+          const askLevel = asks[i];
+          if (askLevel.price > bidLevel.price) break;
+
+          let head = heads.get(askLevel) || 0;
+          while (head < askLevel.orders.length && askLevel.orders[head].remainingQuantity === 0) {
+            head++;
+          }
+          heads.set(askLevel, head);
+          if (head === askLevel.orders.length && i === firstAskLevel) {
+            firstAskLevel++;
+            continue;
+          }
+
+          for (let j = head; j < askLevel.orders.length && buyOrder.remainingQuantity > 0; j++) {
+            const sellOrder = askLevel.orders[j];
+            if (sellOrder.remainingQuantity === 0) continue;
+            if (sellOrder.accountId === buyOrder.accountId) continue; // No self-trades
+
+            // Use price of the earlier order (price-time priority)
+            const fillPrice = buyOrder.createdAt <= sellOrder.createdAt
+              ? bidLevel.price
+              : askLevel.price;
+
+            const fillQty = Math.min(buyOrder.remainingQuantity, sellOrder.remainingQuantity);
+
             fills.push({
               buyOrderId: buyOrder.orderId,
               sellOrderId: sellOrder.orderId,
               quantity: fillQty,
               price: fillPrice,
-              timestamp: new Date()
+              timestamp: this.now()
             });
-            
-            buyOrder.remainingQuantity -= fillQty;
-            sellOrder.remainingQuantity -= fillQty;
+
+            this.reduceResting(bidLevel, buyOrder, fillQty);
+            this.reduceResting(askLevel, sellOrder, fillQty);
+            touched.set(bidLevel, this.bids);
+            touched.set(askLevel, this.asks);
           }
         }
       }
     }
   }
 
-  private cleanup(): void {
-    this.buyOrders = this.buyOrders.filter(o => o.remainingQuantity > 0);
-    this.sellOrders = this.sellOrders.filter(o => o.remainingQuantity > 0);
+  private reduceResting(level: PriceLevel, order: OrderBookEntry, quantity: number): void {
+    order.remainingQuantity -= quantity;
+    level.size -= quantity;
+    if (order.remainingQuantity === 0) {
+      level.orderCount -= 1;
+    }
+  }
+
+  private cleanup(touched: Map<PriceLevel, BookSide>): void {
+    for (const [level, side] of touched) {
+      for (const order of side.compact(level)) {
+        this.orderIndex.delete(order.orderId);
+      }
+    }
+  }
+
+  private sideFor(side: 'BUY' | 'SELL'): BookSide {
+    return side === 'BUY' ? this.bids : this.asks;
   }
 
   /**
    * Remove an order from the book (for cancellations)
    */
   cancelOrder(orderId: string): boolean {
-    const buyIndex = this.buyOrders.findIndex(o => o.orderId === orderId);
-    if (buyIndex !== -1) {
-      this.buyOrders.splice(buyIndex, 1);
-      return true;
+    const order = this.orderIndex.get(orderId);
+    if (!order) return false;
+
+    this.orderIndex.delete(orderId);
+
+    const auction = this.auctionOrders.get(orderId);
+    if (auction) {
+      this.auctionOrders.delete(orderId);
+      const book = this.auctionBooks[auction];
+      book.splice(book.indexOf(order), 1);
+    } else if (order.type === 'MARKET') {
+      const queue = order.side === 'BUY' ? this.marketBuys : this.marketSells;
+      const index = queue.indexOf(order);
+      if (index !== -1) {
+        queue.splice(index, 1);
+      }
+    } else {
+      this.sideFor(order.side).remove(order);
     }
-    
-    const sellIndex = this.sellOrders.findIndex(o => o.orderId === orderId);
-    if (sellIndex !== -1) {
-      this.sellOrders.splice(sellIndex, 1);
-      return true;
+
+    return true;
+  }
+
+  /**
+   * Set the quantity still working for an order, e.g. after part of it filled
+   * against the external quote. Orders with nothing left leave the book.
+   */
+  setRemainingQuantity(orderId: string, remainingQuantity: number): boolean {
+    const order = this.orderIndex.get(orderId);
+    if (!order) return false;
+
+    if (remainingQuantity <= 0) {
+      return this.cancelOrder(orderId);
     }
-    
-    return false;
+
+    const level = order.type === 'LIMIT' && !this.auctionOrders.has(orderId) ? this.sideFor(order.side).levelFor(order) : undefined;
+    if (level) {
+      level.size += remainingQuantity - order.remainingQuantity;
+      if (order.remainingQuantity === 0) {
+        level.orderCount += 1;
+      }
+    }
+
+    order.remainingQuantity = remainingQuantity;
+    return true;
   }
 
   /**
-   * Get current order book state
+   * Whether an order is resting in the book or collected for an auction
+   */
+  hasOrder(orderId: string): boolean {
+    return this.orderIndex.has(orderId);
+  }
+
+  /**
+   * Get current order book state, each side in priority order
    */
   getOrderBook(): { buys: OrderBookEntry[], sells: OrderBookEntry[] } {
     return {
-      buys: [...this.buyOrders],
-      sells: [...this.sellOrders]
+      buys: [...this.marketBuys, ...this.bids.levels.flatMap(level => level.orders)],
+      sells: [...this.marketSells, ...this.asks.levels.flatMap(level => level.orders)]
+    };
+  }
+
+  /**
+   * Get aggregated depth (price, total size, order count) for each side of the
+   * book, best prices first, optionally limited to the top levels
+   */
+  getDepth(levels?: number): OrderBookDepth {
+    const aggregate = (side: BookSide): DepthLevel[] => side.levels
+      .filter(level => level.orderCount > 0)
+      .slice(0, levels)
+      .map(level => ({ price: level.price, size: level.size, orderCount: level.orderCount }));
+
+    return {
+      bids: aggregate(this.bids),
+      asks: aggregate(this.asks)
     };
   }
 
@@ -202,9 +620,9 @@ export class MatchingEngine {
    * Get best bid and ask prices
    */
   getBestBidAsk(): { bestBid?: number, bestAsk?: number } {
-    const bestBid = this.buyOrders.find(o => o.type === 'LIMIT' && o.price)?.price;
-    const bestAsk = this.sellOrders.find(o => o.type === 'LIMIT' && o.price)?.price;
-    
+    const bestBid = this.bids.levels.find(level => level.orderCount > 0)?.price;
+    const bestAsk = this.asks.levels.find(level => level.orderCount > 0)?.price;
+
     return { bestBid, bestAsk };
   }
-}
\ No newline at end of file
+}
@@ -13,11 +13,38 @@ export interface OrderEventPayload {
   fillPrice?: number;
   fillQuantity?: number;
   remainingQuantity?: number;
+  counterpartyOrderId?: string; // 'MARKET' when filled against the bar-derived quote
+  
+  // For TRIGGERED events
+  stopPrice?: number;
+  triggerPrice?: number;
+  convertedTo?: 'MARKET' | 'LIMIT';
+  
+  // For RATCHETED events
+  highWaterMark?: number;
+  previousStopPrice?: number;
+  
+  // For EXPIRED events
+  expiredReason?: string;
+  timeInForce?: string;
+  
+  // For ACTIVATED events
+  activatedReason?: string;
+  parentOrderId?: string;
+  
+  // For REPLACED events
+  previousQuantity?: number;
+  previousPrice?: number;
+  lostTimePriority?: boolean;
   
   // For CANCELED events
   canceledReason?: string;
   canceledBy?: string;
   
+  // For orders in a bracket or OCO group
+  groupId?: string;
+  groupRole?: string;
+  
   // General metadata
   metadata?: Record<string, any>;
 }
@@ -0,0 +1,139 @@
+import { PrismaClient } from '@prisma/client';
+import { RiskEngine } from './riskEngine';
+import { calculateTrailingStopPrice } from './trailingStop';
+import { roundToTick } from './fillModel';
+import { getSimulatorInstance } from './simulatorInstance';
+import { CreateOrderRequest } from '../validation/orderSchemas';
+import { ValidationError } from '../middleware/errorHandling';
+
+const prisma = new PrismaClient();
+
+// Find an instrument by ticker. Orders can only be placed on instruments in the reference data.
+export async function findInstrument(tx: any, ticker: string) {
+  const instrument = await tx.instrument.findUnique({
+    where: { symbol: ticker.toUpperCase() },
+  });
+
+  if (!instrument) {
+    throw new ValidationError(`Unknown ticker: ${ticker.toUpperCase()}`, 'UNKNOWN_TICKER');
+  }
+
+  return instrument;
+}
+
+export interface PlaceOrderOptions {
+  metadata?: Record<string, any>; // stored on the ACCEPTED/REJECTED event
+  onRecorded?: (orderId: string) => void; // called once the order exists, before it can fill
+}
+
+export class OrderService {
+  /**
+   * Risk-check and record a single order, then hand it to the execution
+   * simulator if it was accepted. Rejected orders are still recorded with
+   * their reasons.
+   */
+  static async placeOrder(request: CreateOrderRequest, options: PlaceOrderOptions = {}) {
+    const { metadata, onRecorded } = options;
+    const { accountId, ticker, type, side, quantity, price, trailAmount, trailPercent, timeInForce } = request;
+
+    // Use transaction for atomic order creation + audit trail
+    const result = await prisma.$transaction(async (tx) => {
+      const instrument = await findInstrument(tx, ticker);
+
+      // Trailing stops start trailing from the current instrument price, on the tick grid away from the market
+      let stopPrice: number | undefined = request.stopPrice;
+      let highWaterMark: number | undefined;
+      if (type === 'TRAILING_STOP') {
+        highWaterMark = parseFloat(instrument.price.toString());
+        stopPrice = roundToTick(
+          calculateTrailingStopPrice(side, highWaterMark, { trailAmount, trailPercent }),
+          parseFloat(instrument.tickSize.toString()),
+          side === 'SELL' ? 'DOWN' : 'UP'
+        );
+      }
+
+      // Run risk checks BEFORE creating order
+      const riskCheck = await RiskEngine.validateOrder({
+        accountId,
+        instrumentId: instrument.id,
+        side,
+        quantity,
+        type,
+        price,
+        stopPrice,
+        timeInForce,
+      });
+
+      // PENDING orders are accepted (and filled immediately for MARKET orders); the rest are rejected
+      const order = await tx.order.create({
+        data: {
+          accountId,
+          instrumentId: instrument.id,
+          type,
+          side,
+          quantity,
+          price,
+          stopPrice,
+          trailAmount,
+          trailPercent,
+          highWaterMark,
+          timeInForce,
+          status: riskCheck.passed ? 'PENDING' : 'REJECTED',
+        },
+        include: {
+          instrument: true,
+        },
+      });
+
+      const eventPayload = {
+        orderType: type,
+        side,
+        quantity,
+        price,
+        stopPrice,
+        trailAmount,
+        trailPercent,
+        timeInForce,
+        ...(metadata && { metadata }),
+      };
+
+      // Create ACCEPTED event, or REJECTED event with reasons
+      await tx.orderEvent.create({
+        data: {
+          orderId: order.id,
+          instrumentId: instrument.id,
+          type: riskCheck.passed ? 'ACCEPTED' : 'REJECTED',
+          payload: riskCheck.passed
+            ? { acceptedReason: 'Order passed all pre-trade risk checks', ...eventPayload }
+            : { rejectedReasons: riskCheck.reasons, ...eventPayload },
+        },
+      });
+
+      return { order, instrument, stopPrice, highWaterMark };
+    });
+
+    const { order, instrument, stopPrice, highWaterMark } = result;
+    onRecorded?.(order.id);
+
+    // Submit order to execution simulator if it was ACCEPTED by risk engine
+    if (order.status === 'PENDING') {
+      const simulator = getSimulatorInstance();
+      await simulator.addPendingOrder({
+        id: order.id,
+        accountId,
+        instrumentId: instrument.id,
+        type,
+        side,
+        quantity,
+        price,
+        stopPrice,
+        trailAmount,
+        trailPercent,
+        highWaterMark,
+        timeInForce
+      });
+    }
+
+    return order;
+  }
+}
@@ -0,0 +1,65 @@
+import { RandomSource } from './simulationClock';
+
+export type PriceModelType = 'RAW' | 'BOUNDED_NOISE' | 'MEAN_REVERTING';
+
+export interface PriceModelConfig {
+  priceModel: PriceModelType;
+  noiseSigma: number; // standard deviation of the overlay as a fraction of the close (0.01 = 1%)
+  meanReversion: number; // 0-1, share of the previous deviation pulled back toward the real close each bar
+}
+
+interface PriceBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Noise is clamped to this many sigmas so a single bar can never run away from the data
+export const MAX_NOISE_SIGMAS = 2;
+
+/**
+ * Standard normal draw (Box-Muller) from a uniform random source
+ */
+export function normalRandom(random: RandomSource): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Next deviation from the real close, as a fraction of it. RAW replays the
+ * bar untouched, BOUNDED_NOISE draws independent noise each bar and
+ * MEAN_REVERTING lets the deviation wander but decays it toward zero so the
+ * simulated price stays anchored to the historical close.
+ */
+export function nextDeviation(previousDeviation: number, config: PriceModelConfig, random: RandomSource): number {
+  if (config.priceModel === 'RAW' || config.noiseSigma <= 0) {
+    return 0;
+  }
+
+  const shock = normalRandom(random) * config.noiseSigma;
+  const deviation = config.priceModel === 'MEAN_REVERTING'
+    ? previousDeviation * (1 - config.meanReversion) + shock
+    : shock;
+
+  const bound = MAX_NOISE_SIGMAS * config.noiseSigma;
+  return Math.min(Math.max(deviation, -bound), bound);
+}
+
+/**
+ * Apply a deviation to a historical bar, widening high/low to contain the new close
+ */
+export function applyDeviation<T extends PriceBar>(bar: T, deviation: number): T {
+  if (deviation === 0) {
+    return { ...bar };
+  }
+
+  const close = Math.max(bar.close * (1 + deviation), 0.01);
+  return {
+    ...bar,
+    close,
+    high: Math.max(bar.high, close),
+    low: Math.min(bar.low, close)
+  };
+}
@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { getSimulatorInstance } from './simulatorInstance';
+import { getInstrumentRejections } from './instrumentRules';
 
 const prisma = new PrismaClient();
 
@@ -12,8 +14,11 @@ export interface OrderRequest {
   instrumentId: string;
   side: 'BUY' | 'SELL';
   quantity: number;
-  type: 'MARKET' | 'LIMIT';
+  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MOO' | 'MOC' | 'LOO' | 'LOC';
   price?: number;
+  stopPrice?: number;
+  timeInForce?: 'DAY' | 'GTC' | 'IOC' | 'FOK';
+  lotQuantity?: number; // quantity the lot rules apply to when it isn't `quantity`, e.g. an amended order's new total
 }
 
 export interface RiskLimits {
@@ -54,6 +59,13 @@ export class RiskEngine {
         return { passed: false, reasons };
       }
 
+      // 2. Trading session: extended hours and closed markets take fewer order types
+      const sessionRejection = getSimulatorInstance().getSessionRejection(orderRequest);
+      if (sessionRejection) {
+        reasons.push(sessionRejection);
+        return { passed: false, reasons };
+      }
+
       // Get current instrument price for calculations
       const instrument = await prisma.instrument.findUnique({
         where: { id: orderRequest.instrumentId },
@@ -64,9 +76,34 @@ export class RiskEngine {
         return { passed: false, reasons };
       }
 
+      // 3. Instrument status: deactivated instruments take no new orders
+      if (!instrument.isActive) {
+        reasons.push(`${instrument.symbol} is not active for trading`);
+        return { passed: false, reasons };
+      }
+
+      // 4. Trading halt: orders that can wait are queued for the resumption
+      const haltRejection = getSimulatorInstance().getHaltRejection(instrument.symbol, orderRequest);
+      if (haltRejection) {
+        reasons.push(haltRejection);
+        return { passed: false, reasons };
+      }
+
+      // 5. Tick size and lot size: prices on the instrument's grid, quantities in its lots
+      const instrumentRejections = getInstrumentRejections({
+        symbol: instrument.symbol,
+        tickSize: parseFloat(instrument.tickSize.toString()),
+        lotSize: instrument.lotSize,
+        oddLotPolicy: instrument.oddLotPolicy
+      }, { ...orderRequest, quantity: orderRequest.lotQuantity ?? orderRequest.quantity });
+      if (instrumentRejections.length > 0) {
+        reasons.push(...instrumentRejections);
+        return { passed: false, reasons };
+      }
+
       const effectivePrice = this.getEffectivePrice(orderRequest, instrument);
 
-      // 2. Buying power check (only for BUY orders)
+      // 6. Buying power check (only for BUY orders)
       if (orderRequest.side === 'BUY') {
         const buyingPowerCheck = await this.checkBuyingPower(
           orderRequest.accountId,
@@ -78,7 +115,7 @@ export class RiskEngine {
         }
       }
 
-      // 3. Per-symbol quantity limit
+      // 7. Per-symbol quantity limit
       const symbolLimitCheck = await this.checkSymbolQuantityLimit(
         orderRequest.accountId,
         orderRequest.instrumentId,
@@ -89,7 +126,7 @@ export class RiskEngine {
         reasons.push(...symbolLimitCheck.reasons);
       }
 
-      // 4. Notional value limit
+      // 8. Notional value limit
       const notionalCheck = await this.checkNotionalLimit(
         orderRequest.accountId,
         orderRequest.quantity,
@@ -99,7 +136,7 @@ export class RiskEngine {
         reasons.push(...notionalCheck.reasons);
       }
 
-      // 5. Daily order count limit
+      // 9. Daily order count limit
       const dailyOrderCheck = await this.checkDailyOrderLimit(orderRequest.accountId);
       if (!dailyOrderCheck.passed) {
         reasons.push(...dailyOrderCheck.reasons);
@@ -119,10 +156,14 @@ export class RiskEngine {
   }
 
   private static getEffectivePrice(orderRequest: OrderRequest, instrument: any): number {
-    if (orderRequest.type === 'LIMIT' && orderRequest.price) {
+    if (['LIMIT', 'STOP_LIMIT', 'LOO', 'LOC'].includes(orderRequest.type) && orderRequest.price) {
       return orderRequest.price;
     }
-    // For MARKET orders, use current instrument price
+    // STOP orders become market orders at roughly the stop price
+    if (orderRequest.type === 'STOP' && orderRequest.stopPrice) {
+      return orderRequest.stopPrice;
+    }
+    // For MARKET, MOO and MOC orders, use current instrument price
     return parseFloat(instrument.price.toString());
   }
 
@@ -0,0 +1,148 @@
+export type RandomSource = () => number; // uniform in [0, 1), same contract as Math.random
+
+export type TimerHandle = number;
+
+export interface SimulationClock {
+  now(): Date;
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+  setTimeout(callback: () => void | Promise<void>, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Seeded PRNG (mulberry32). The same seed always yields the same sequence,
+ * which is what makes a simulation run reproducible.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Wall-clock time and Node timers, used for the live simulation
+ */
+export class SystemClock implements SimulationClock {
+  private nextHandle = 1;
+  private timers: Map<TimerHandle, NodeJS.Timeout> = new Map();
+
+  now(): Date {
+    return new Date();
+  }
+
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, setInterval(callback, intervalMs));
+    return handle;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    const timer = this.timers.get(handle);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(handle);
+    }
+  }
+
+  setTimeout(callback: () => void | Promise<void>, delayMs: number): TimerHandle {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, setTimeout(() => {
+      this.timers.delete(handle);
+      callback();
+    }, delayMs));
+    return handle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    const timer = this.timers.get(handle);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(handle);
+    }
+  }
+}
+
+interface VirtualTimer {
+  handle: TimerHandle;
+  callback: () => void | Promise<void>;
+  intervalMs: number;
+  dueAt: number;
+  repeat: boolean;
+}
+
+/**
+ * Clock that only moves when advanced. Due timers fire in (due time, creation
+ * order) and each callback is awaited before the next one runs, so async tick
+ * handlers never interleave the way they can with real timers.
+ */
+export class VirtualClock implements SimulationClock {
+  private currentTime: number;
+  private nextHandle = 1;
+  private timers: Map<TimerHandle, VirtualTimer> = new Map();
+
+  constructor(start: Date | number = 0) {
+    this.currentTime = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): TimerHandle {
+    const handle = this.nextHandle++;
+    const period = Math.max(1, intervalMs);
+    this.timers.set(handle, { handle, callback, intervalMs: period, dueAt: this.currentTime + period, repeat: true });
+    return handle;
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle);
+  }
+
+  setTimeout(callback: () => void | Promise<void>, delayMs: number): TimerHandle {
+    const handle = this.nextHandle++;
+    const delay = Math.max(0, delayMs);
+    this.timers.set(handle, { handle, callback, intervalMs: delay, dueAt: this.currentTime + delay, repeat: false });
+    return handle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle);
+  }
+
+  /**
+   * Move time forward, firing every timer that falls due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.currentTime + ms;
+
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.currentTime = timer.dueAt;
+      if (timer.repeat) {
+        timer.dueAt += timer.intervalMs;
+      } else {
+        this.timers.delete(timer.handle);
+      }
+      await timer.callback();
+    }
+
+    this.currentTime = target;
+  }
+
+  private nextDue(target: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.dueAt > target) continue;
+      if (!next || timer.dueAt < next.dueAt || (timer.dueAt === next.dueAt && timer.handle < next.handle)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
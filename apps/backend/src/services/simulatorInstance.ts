@@ -0,0 +1,17 @@
+import { PrismaClient } from '@prisma/client';
+import { ExecutionSimulator } from './executionSimulator';
+import { PrismaSimulatorStore } from './simulatorStore';
+
+const prisma = new PrismaClient();
+
+// The one simulator the routes, services and WebSocket server share
+let simulatorInstance: ExecutionSimulator | null = null;
+
+export const getSimulatorInstance = (): ExecutionSimulator => {
+  if (!simulatorInstance) {
+    // SIMULATION_SEED makes jitter, volatility and partial fills reproducible
+    const seed = process.env.SIMULATION_SEED ? parseInt(process.env.SIMULATION_SEED, 10) : undefined;
+    simulatorInstance = new ExecutionSimulator(new PrismaSimulatorStore(prisma), seed !== undefined && !isNaN(seed) ? { seed } : {});
+  }
+  return simulatorInstance;
+};
@@ -0,0 +1,424 @@
+import { Prisma, PrismaClient, Account, EventType, Fill, Instrument, MarketData, Order, OrderGroupRole, OrderGroupStatus, OrderSide, OrderStatus, Position } from '@prisma/client';
+import { MarketBar } from './marketData';
+import { FillModel } from './fillModel';
+import { PriceModelType } from './priceModel';
+
+/**
+ * The simulator's settings as they are saved between runs, with its place in
+ * the replay
+ */
+export interface SimulatorStateRecord {
+  isRunning: boolean;
+  currentIndices: Record<string, number>; // symbol -> index of its current bar
+  playbackSpeedMs: number;
+  bidAskSpreadBps: number;
+  feePerShare: number;
+  slippageBps: number;
+  maxPartialFillPct: number;
+  priceModel: PriceModelType;
+  noiseSigma: number;
+  meanReversion: number;
+  fillModel: FillModel;
+  participationRate: number;
+  impactBps: number;
+  latencyMs: number;
+  queueAheadPct: number;
+  marketHours: boolean;
+  luldBandPct: number;
+  haltDurationMs: number;
+}
+
+export interface StoredBar {
+  symbol: string;
+  bar: MarketBar;
+}
+
+export type StoredOrder = Order & { fills: Fill[]; instrument: Instrument };
+
+export interface OrderFilter {
+  ids?: string[];
+  statuses?: OrderStatus[];
+  groupId?: string;
+  groupRole?: OrderGroupRole;
+  excludeId?: string; // leave this order out, as when looking for an order's siblings
+}
+
+export interface OrderChanges {
+  status?: OrderStatus;
+  quantity?: number;
+  price?: number;
+  stopPrice?: number;
+  highWaterMark?: number;
+  filledAt?: Date;
+  cancelledAt?: Date;
+  triggeredAt?: Date;
+  expiredAt?: Date;
+}
+
+export interface OrderEventRecord {
+  type: EventType;
+  payload: Prisma.InputJsonObject;
+  timestamp: Date;
+}
+
+export interface OrderUpdate {
+  changes: OrderChanges;
+  onlyIfStatus?: OrderStatus[]; // leave the order alone unless it is still in one of these
+  event: (previous: Order) => OrderEventRecord; // written with the change, from the order as it was
+}
+
+export interface UpdatedOrder {
+  previous: Order;
+  order: Order & { instrument: Instrument };
+}
+
+/**
+ * One side of a trade. Its fill row, order status, event, position and
+ * account balance are written together.
+ */
+export interface FillRecord {
+  orderId: string;
+  accountId: string;
+  instrumentId: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  fees: number;
+  status: 'FILLED' | 'PARTIALLY_FILLED';
+  executedAt: Date;
+  payload: Prisma.InputJsonObject; // details for the fill's order event
+}
+
+/**
+ * Everything the execution simulator reads and writes. Live, that is the
+ * database; a backtest keeps it in memory so nothing it does leaves the run.
+ */
+export interface SimulatorStore {
+  loadState(): Promise<SimulatorStateRecord | null>;
+  saveState(state: Partial<SimulatorStateRecord>): Promise<void>; // columns left out keep their saved values
+  findStoredBars(filter?: { symbol?: string; from?: Date; to?: Date }): Promise<StoredBar[]>; // oldest first
+  findLatestBarTime(symbol: string): Promise<Date | null>;
+  findInstrument(where: { id: string } | { symbol: string }): Promise<Instrument | null>;
+  updateInstrumentPrices(symbol: string, prices: { price?: number; previousClose?: number; referencePrice?: number }): Promise<void>;
+  findOrder(orderId: string): Promise<Order | null>;
+  findOrders(filter: OrderFilter): Promise<StoredOrder[]>; // oldest first
+  updateOrder(orderId: string, update: OrderUpdate): Promise<UpdatedOrder | null>; // null when there was no order to change
+  updateOrderGroup(groupId: string, status: OrderGroupStatus): Promise<void>;
+  recordFills(fills: FillRecord[]): Promise<void>; // all of them or none
+  findPosition(accountId: string, instrumentId: string): Promise<(Position & { instrument: Instrument }) | null>;
+  findAccount(accountId: string): Promise<Account | null>;
+}
+
+export interface PositionValues {
+  quantity: number;
+  avgPrice: number;
+  marketValue: number;
+  unrealizedPL: number;
+}
+
+/**
+ * A position after a fill, marked to the instrument's price, or null once it
+ * is closed out. Sells with no position to sell from leave it alone.
+ */
+export function applyFillToPosition(
+  position: { quantity: number; avgPrice: number } | null,
+  fill: { side: OrderSide; quantity: number; price: number },
+  marketPrice: number
+): PositionValues | null {
+  if (!position) {
+    if (fill.side !== 'BUY') return null;
+    return {
+      quantity: fill.quantity,
+      avgPrice: fill.price,
+      marketValue: fill.quantity * marketPrice,
+      unrealizedPL: (marketPrice - fill.price) * fill.quantity
+    };
+  }
+
+  const quantity = fill.side === 'BUY' ? position.quantity + fill.quantity : position.quantity - fill.quantity;
+  if (quantity === 0) return null;
+
+  const avgPrice = fill.side === 'BUY'
+    ? ((position.quantity * position.avgPrice) + (fill.quantity * fill.price)) / quantity
+    : position.avgPrice;
+  return {
+    quantity,
+    avgPrice,
+    marketValue: quantity * marketPrice,
+    unrealizedPL: (marketPrice - avgPrice) * quantity
+  };
+}
+
+/**
+ * How much a fill moves an account's balance and buying power: buys pay the
+ * gross amount plus fees, sells take the gross amount less fees
+ */
+export function getFillCashFlow(fill: { side: OrderSide; quantity: number; price: number; fees: number }): number {
+  const grossAmount = fill.quantity * fill.price;
+  return fill.side === 'BUY' ? -(grossAmount + fill.fees) : grossAmount - fill.fees;
+}
+
+const toNumber = (value: Prisma.Decimal): number => parseFloat(value.toString());
+
+/**
+ * Map a stored MarketData row onto a bar
+ */
+function toMarketBar(row: MarketData): MarketBar {
+  return {
+    timestamp: row.timestamp.toISOString(),
+    open: toNumber(row.open),
+    high: toNumber(row.high),
+    low: toNumber(row.low),
+    close: toNumber(row.close),
+    volume: row.volume
+  };
+}
+
+const SINGLETON_STATE_ID = 'singleton';
+
+/**
+ * The simulator's store in the database
+ */
+export class PrismaSimulatorStore implements SimulatorStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async loadState(): Promise<SimulatorStateRecord | null> {
+    const state = await this.prisma.simulatorState.findFirst();
+    if (!state) return null;
+
+    return {
+      isRunning: state.isRunning,
+      currentIndices: state.currentIndices as Record<string, number>,
+      playbackSpeedMs: state.playbackSpeedMs,
+      bidAskSpreadBps: state.bidAskSpreadBps,
+      feePerShare: toNumber(state.feePerShare),
+      slippageBps: state.slippageBps,
+      maxPartialFillPct: toNumber(state.maxPartialFillPct),
+      priceModel: state.priceModel,
+      noiseSigma: toNumber(state.noiseSigma),
+      meanReversion: toNumber(state.meanReversion),
+      fillModel: state.fillModel,
+      participationRate: toNumber(state.participationRate),
+      impactBps: state.impactBps,
+      latencyMs: state.latencyMs,
+      queueAheadPct: toNumber(state.queueAheadPct),
+      marketHours: state.marketHours,
+      luldBandPct: toNumber(state.luldBandPct),
+      haltDurationMs: state.haltDurationMs
+    };
+  }
+
+  async saveState(state: Partial<SimulatorStateRecord>): Promise<void> {
+    await this.prisma.simulatorState.upsert({
+      where: { id: SINGLETON_STATE_ID },
+      update: state,
+      create: {
+        id: SINGLETON_STATE_ID,
+        currentIndices: {},
+        ...state
+      }
+    });
+  }
+
+  async findStoredBars(filter: { symbol?: string; from?: Date; to?: Date } = {}): Promise<StoredBar[]> {
+    const rows = await this.prisma.marketData.findMany({
+      where: {
+        ...(filter.symbol && { instrument: { symbol: filter.symbol } }),
+        ...((filter.from || filter.to) && {
+          timestamp: {
+            ...(filter.from && { gte: filter.from }),
+            ...(filter.to && { lte: filter.to })
+          }
+        })
+      },
+      include: { instrument: { select: { symbol: true } } },
+      orderBy: { timestamp: 'asc' }
+    });
+    return rows.map(row => ({ symbol: row.instrument.symbol, bar: toMarketBar(row) }));
+  }
+
+  async findLatestBarTime(symbol: string): Promise<Date | null> {
+    const latest = await this.prisma.marketData.findFirst({
+      where: { instrument: { symbol } },
+      orderBy: { timestamp: 'desc' }
+    });
+    return latest?.timestamp || null;
+  }
+
+  findInstrument(where: { id: string } | { symbol: string }): Promise<Instrument | null> {
+    return this.prisma.instrument.findUnique({ where });
+  }
+
+  async updateInstrumentPrices(symbol: string, prices: { price?: number; previousClose?: number; referencePrice?: number }): Promise<void> {
+    await this.prisma.instrument.updateMany({
+      where: { symbol },
+      data: prices
+    });
+  }
+
+  findOrder(orderId: string): Promise<Order | null> {
+    return this.prisma.order.findUnique({ where: { id: orderId } });
+  }
+
+  findOrders(filter: OrderFilter): Promise<StoredOrder[]> {
+    return this.prisma.order.findMany({
+      where: {
+        ...((filter.ids || filter.excludeId) && {
+          id: {
+            ...(filter.ids && { in: filter.ids }),
+            ...(filter.excludeId && { not: filter.excludeId })
+          }
+        }),
+        ...(filter.statuses && { status: { in: filter.statuses } }),
+        ...(filter.groupId && { groupId: filter.groupId }),
+        ...(filter.groupRole && { groupRole: filter.groupRole })
+      },
+      include: { fills: true, instrument: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  updateOrder(orderId: string, update: OrderUpdate): Promise<UpdatedOrder | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const previous = await tx.order.findUnique({ where: { id: orderId } });
+      if (!previous) return null;
+
+      // Only move the order if it is still where the caller expects, so a change that already landed wins
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, ...(update.onlyIfStatus && { status: { in: update.onlyIfStatus } }) },
+        data: update.changes
+      });
+      if (count === 0) return null;
+
+      const event = update.event(previous);
+      await tx.orderEvent.create({
+        data: {
+          orderId,
+          instrumentId: previous.instrumentId,
+          type: event.type,
+          payload: event.payload,
+          timestamp: event.timestamp
+        }
+      });
+
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: { instrument: true }
+      });
+      return order && { previous, order };
+    });
+  }
+
+  async updateOrderGroup(groupId: string, status: OrderGroupStatus): Promise<void> {
+    await this.prisma.orderGroup.update({
+      where: { id: groupId },
+      data: { status }
+    });
+  }
+
+  async recordFills(fills: FillRecord[]): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const fill of fills) {
+        await tx.fill.create({
+          data: {
+            orderId: fill.orderId,
+            accountId: fill.accountId,
+            instrumentId: fill.instrumentId,
+            quantity: fill.quantity,
+            price: fill.price,
+            side: fill.side,
+            executedAt: fill.executedAt
+          }
+        });
+
+        await tx.order.update({
+          where: { id: fill.orderId },
+          data: {
+            status: fill.status,
+            filledAt: fill.status === 'FILLED' ? fill.executedAt : undefined
+          }
+        });
+
+        await tx.orderEvent.create({
+          data: {
+            orderId: fill.orderId,
+            instrumentId: fill.instrumentId,
+            type: fill.status,
+            payload: fill.payload,
+            timestamp: fill.executedAt
+          }
+        });
+
+        await this.updatePosition(tx, fill);
+        await this.updateAccountBalance(tx, fill);
+      }
+    });
+  }
+
+  private async updatePosition(tx: Prisma.TransactionClient, fill: FillRecord): Promise<void> {
+    const existingPosition = await tx.position.findUnique({
+      where: {
+        accountId_instrumentId: {
+          accountId: fill.accountId,
+          instrumentId: fill.instrumentId
+        }
+      }
+    });
+    const instrument = await tx.instrument.findUnique({
+      where: { id: fill.instrumentId }
+    });
+    if (!instrument) return;
+
+    const values = applyFillToPosition(
+      existingPosition && { quantity: existingPosition.quantity, avgPrice: toNumber(existingPosition.avgPrice) },
+      fill,
+      toNumber(instrument.price)
+    );
+
+    if (existingPosition && !values) {
+      await tx.position.delete({
+        where: { id: existingPosition.id }
+      });
+    } else if (existingPosition && values) {
+      await tx.position.update({
+        where: { id: existingPosition.id },
+        data: values
+      });
+    } else if (values) {
+      await tx.position.create({
+        data: {
+          accountId: fill.accountId,
+          instrumentId: fill.instrumentId,
+          ...values
+        }
+      });
+    }
+  }
+
+  private async updateAccountBalance(tx: Prisma.TransactionClient, fill: FillRecord): Promise<void> {
+    const account = await tx.account.findUnique({
+      where: { id: fill.accountId }
+    });
+    if (!account) return;
+
+    const cashFlow = getFillCashFlow(fill);
+    await tx.account.update({
+      where: { id: fill.accountId },
+      data: {
+        balance: toNumber(account.balance) + cashFlow,
+        buyingPower: toNumber(account.buyingPower) + cashFlow
+      }
+    });
+  }
+
+  findPosition(accountId: string, instrumentId: string): Promise<(Position & { instrument: Instrument }) | null> {
+    return this.prisma.position.findUnique({
+      where: { accountId_instrumentId: { accountId, instrumentId } },
+      include: { instrument: true }
+    });
+  }
+
+  findAccount(accountId: string): Promise<Account | null> {
+    return this.prisma.account.findUnique({ where: { id: accountId } });
+  }
+}
@@ -0,0 +1,12 @@
+import { StrategyRuntime, StrategyDefinition } from '../strategyRuntime';
+import { movingAverageCrossover } from './movingAverageCrossover';
+
+export const builtInStrategies: StrategyDefinition[] = [
+  movingAverageCrossover
+];
+
+export function registerBuiltInStrategies(): void {
+  for (const definition of builtInStrategies) {
+    StrategyRuntime.register(definition);
+  }
+}
@@ -0,0 +1,62 @@
+import { Strategy, StrategyDefinition, StrategyParams } from '../strategyRuntime';
+
+/**
+ * Goes long when the fast moving average of the last price crosses above the
+ * slow one, and flattens when it crosses back below
+ */
+export const movingAverageCrossover: StrategyDefinition = {
+  name: 'moving-average-crossover',
+  description: 'Buy when the fast SMA crosses above the slow SMA, sell the position when it crosses below',
+  defaultParams: {
+    fastPeriod: 5,
+    slowPeriod: 20,
+    quantity: 10
+  },
+  create(params: StrategyParams): Strategy {
+    const fastPeriod = Number(params.fastPeriod);
+    const slowPeriod = Number(params.slowPeriod);
+    const quantity = Number(params.quantity);
+    const prices = new Map<string, number[]>();
+    const previousSpread = new Map<string, number>();
+
+    const average = (values: number[], period: number) =>
+      values.slice(-period).reduce((sum, value) => sum + value, 0) / period;
+
+    return {
+      onStart(context) {
+        if (!(fastPeriod > 0 && slowPeriod > fastPeriod && quantity > 0)) {
+          throw new Error('Requires 0 < fastPeriod < slowPeriod and a positive quantity');
+        }
+        context.log(`Watching SMA(${fastPeriod}) vs SMA(${slowPeriod})`);
+      },
+
+      async onBar(bar, context) {
+        const history = prices.get(bar.symbol) || [];
+        history.push(bar.price);
+        if (history.length > slowPeriod) history.shift();
+        prices.set(bar.symbol, history);
+        if (history.length < slowPeriod) return;
+
+        const spread = average(history, fastPeriod) - average(history, slowPeriod);
+        const previous = previousSpread.get(bar.symbol);
+        previousSpread.set(bar.symbol, spread);
+        if (previous === undefined) return;
+
+        const position = await context.getPosition(bar.symbol);
+        const held = position?.quantity || 0;
+
+        if (previous <= 0 && spread > 0 && held === 0) {
+          context.log(`${bar.symbol} fast SMA crossed above slow at ${bar.price.toFixed(2)}`);
+          await context.placeOrder({ ticker: bar.symbol, type: 'MARKET', side: 'BUY', quantity });
+        } else if (previous >= 0 && spread < 0 && held > 0) {
+          context.log(`${bar.symbol} fast SMA crossed below slow at ${bar.price.toFixed(2)}`);
+          await context.placeOrder({ ticker: bar.symbol, type: 'MARKET', side: 'SELL', quantity: held });
+        }
+      },
+
+      onFill(fill, context) {
+        context.log(`Filled ${fill.side} ${fill.quantity} @ ${fill.price.toFixed(2)}`);
+      }
+    };
+  }
+};
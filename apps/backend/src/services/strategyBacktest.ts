@@ -0,0 +1,58 @@
+import { BACKTEST_ACCOUNT_ID, BacktestContext, BacktestOrderSource } from './backtestRunner';
+import { StrategyContext, StrategyDefinition, StrategyParams } from './strategyRuntime';
+
+/**
+ * Drive a registered strategy from a backtest instead of the live feed. Each
+ * bar reaches onBar as a price event at its close, and orders go to the
+ * runner's simulator rather than through OrderService, so nothing touches live accounts.
+ */
+export function createStrategyOrderSource(
+  definition: StrategyDefinition,
+  params: StrategyParams = {},
+  onLog?: (timestamp: string, message: string, data?: Record<string, any>) => void
+): BacktestOrderSource {
+  const mergedParams = { ...definition.defaultParams, ...params };
+  const strategy = definition.create(mergedParams);
+  let strategyContext: StrategyContext | undefined;
+
+  const contextFor = (backtest: BacktestContext): StrategyContext => {
+    if (!strategyContext) {
+      strategyContext = {
+        strategyId: `backtest-${definition.name}`,
+        accountId: BACKTEST_ACCOUNT_ID,
+        params: mergedParams,
+        placeOrder: async ({ ticker, ...order }) => {
+          const placed = await backtest.submitOrder({ ...order, symbol: ticker.toUpperCase() });
+          return { id: placed.orderId, status: placed.status };
+        },
+        cancelOrder: async (orderId) => backtest.cancelOrder(orderId),
+        getPosition: async (symbol) => {
+          const position = backtest.getPosition(symbol);
+          return position && position.quantity !== 0
+            ? { quantity: position.quantity, avgPrice: position.avgPrice }
+            : null;
+        },
+        log: (message, data) => onLog?.(backtest.timestamp, message, data)
+      };
+    }
+    return strategyContext;
+  };
+
+  return {
+    onStart: async (context) => {
+      await strategy.onStart?.(contextFor(context));
+    },
+    onStop: async (context) => {
+      await strategy.onStop?.(contextFor(context));
+    },
+    onBar: async (symbol, bar, context) => {
+      await strategy.onBar?.({ symbol, price: bar.close, timestamp: bar.timestamp, volume: bar.volume }, contextFor(context));
+    },
+    onFill: async (fill, context) => {
+      await strategy.onFill?.(fill, contextFor(context));
+    },
+    onOrderUpdate: async (update, context) => {
+      await strategy.onOrderUpdate?.(update, contextFor(context));
+    }
+  };
+}
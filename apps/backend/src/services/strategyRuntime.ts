@@ -0,0 +1,325 @@
+import { PrismaClient } from '@prisma/client';
+import { OrderService } from './orderService';
+import { PriceEvent, tradingEvents } from './tradingEvents';
+import { createOrderSchema } from '../validation/orderSchemas';
+import { getSimulatorInstance } from './simulatorInstance';
+import { broadcastLog } from '../websocket/websocket';
+
+const prisma = new PrismaClient();
+
+export interface StrategyOrderRequest {
+  ticker: string;
+  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP';
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: 'DAY' | 'GTC' | 'IOC' | 'FOK';
+}
+
+export interface StrategyOrderResult {
+  id: string;
+  status: string;
+}
+
+export interface StrategyPosition {
+  quantity: number;
+  avgPrice: number;
+}
+
+export interface StrategyFill {
+  orderId: string;
+  symbol?: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  fees: number;
+  executedAt: string;
+}
+
+export interface StrategyOrderUpdate {
+  orderId: string;
+  type: string; // FILL, CANCELLED, EXPIRED, TRIGGERED, REPLACED, ...
+  status?: string;
+  [key: string]: any;
+}
+
+export type StrategyParams = Record<string, number | string | boolean>;
+
+/**
+ * What a strategy can do. Live runs place orders through the same risk-checked
+ * path as POST /api/orders; backtests supply their own implementation.
+ */
+export interface StrategyContext {
+  readonly strategyId: string;
+  readonly accountId: string;
+  readonly params: StrategyParams;
+  placeOrder(order: StrategyOrderRequest): Promise<StrategyOrderResult>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  getPosition(symbol: string): Promise<StrategyPosition | null>;
+  log(message: string, data?: Record<string, any>): void;
+}
+
+export interface Strategy {
+  onStart?(context: StrategyContext): void | Promise<void>;
+  onStop?(context: StrategyContext): void | Promise<void>;
+  onBar?(bar: PriceEvent, context: StrategyContext): void | Promise<void>;
+  onFill?(fill: StrategyFill, context: StrategyContext): void | Promise<void>;
+  onOrderUpdate?(update: StrategyOrderUpdate, context: StrategyContext): void | Promise<void>;
+}
+
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  defaultParams: StrategyParams;
+  create(params: StrategyParams): Strategy;
+}
+
+export interface StrategyLogEntry {
+  timestamp: string;
+  level: 'info' | 'error';
+  message: string;
+  data?: Record<string, any>;
+}
+
+export interface StrategyInstanceStatus {
+  id: string;
+  strategy: string;
+  accountId: string;
+  symbols: string[];
+  params: StrategyParams;
+  status: 'RUNNING' | 'STOPPED' | 'ERROR';
+  startedAt: string;
+  stoppedAt?: string;
+  lastError?: string;
+  eventsProcessed: number;
+  ordersPlaced: number;
+}
+
+interface StrategyInstance extends StrategyInstanceStatus {
+  strategyImpl: Strategy;
+  context: StrategyContext;
+  orderIds: Set<string>;
+  logs: StrategyLogEntry[];
+  queue: Promise<void>; // handlers run one at a time, in event order
+  consecutiveErrors: number;
+  unsubscribe: Array<() => void>;
+}
+
+const MAX_LOG_ENTRIES = 500;
+const MAX_CONSECUTIVE_ERRORS = 5; // a strategy that keeps throwing is stopped rather than left spamming its log
+
+export class StrategyRuntime {
+  private static definitions: Map<string, StrategyDefinition> = new Map();
+  private static instances: Map<string, StrategyInstance> = new Map();
+  private static nextInstanceNumber = 1;
+
+  static register(definition: StrategyDefinition): void {
+    this.definitions.set(definition.name, definition);
+  }
+
+  static getDefinition(name: string): StrategyDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  static listDefinitions(): Array<Omit<StrategyDefinition, 'create'>> {
+    return Array.from(this.definitions.values()).map(({ name, description, defaultParams }) => ({
+      name,
+      description,
+      defaultParams
+    }));
+  }
+
+  /**
+   * Start a registered strategy against an account. Price events for its
+   * symbols, and fills and updates for the orders it placed, are delivered to
+   * its hooks until it is stopped.
+   */
+  static async start(name: string, accountId: string, symbols: string[], params: StrategyParams = {}): Promise<StrategyInstanceStatus> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown strategy: ${name}`);
+    }
+
+    const mergedParams = { ...definition.defaultParams, ...params };
+    const instance: StrategyInstance = {
+      id: `${name}-${this.nextInstanceNumber++}`,
+      strategy: name,
+      accountId,
+      symbols: symbols.map(s => s.toUpperCase()),
+      params: mergedParams,
+      status: 'RUNNING',
+      startedAt: new Date().toISOString(),
+      eventsProcessed: 0,
+      ordersPlaced: 0,
+      strategyImpl: definition.create(mergedParams),
+      orderIds: new Set(),
+      logs: [],
+      queue: Promise.resolve(),
+      consecutiveErrors: 0,
+      unsubscribe: [],
+      context: this.createContext(() => instance)
+    };
+    this.instances.set(instance.id, instance);
+
+    const strategy = instance.strategyImpl;
+    instance.unsubscribe.push(
+      tradingEvents.on('price', (event) => {
+        if (strategy.onBar && instance.symbols.includes(event.symbol)) {
+          this.enqueue(instance, 'onBar', () => strategy.onBar!(event, instance.context));
+        }
+      }),
+      tradingEvents.on('fill', (eventAccountId, fill) => {
+        if (strategy.onFill && eventAccountId === accountId && instance.orderIds.has(fill.orderId)) {
+          this.enqueue(instance, 'onFill', () => strategy.onFill!(fill, instance.context));
+        }
+      }),
+      tradingEvents.on('order', (eventAccountId, update) => {
+        if (strategy.onOrderUpdate && eventAccountId === accountId && instance.orderIds.has(update.orderId)) {
+          this.enqueue(instance, 'onOrderUpdate', () => strategy.onOrderUpdate!(update, instance.context));
+        }
+      })
+    );
+
+    this.log(instance, 'info', `Started ${name} on ${instance.symbols.join(', ')}`, { params: mergedParams });
+
+    if (strategy.onStart) {
+      this.enqueue(instance, 'onStart', () => strategy.onStart!(instance.context));
+    }
+    await instance.queue;
+
+    return this.toStatus(instance);
+  }
+
+  static async stop(instanceId: string): Promise<StrategyInstanceStatus | undefined> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return undefined;
+    if (instance.status !== 'RUNNING') return this.toStatus(instance);
+
+    this.detach(instance);
+    await instance.queue;
+
+    if (instance.strategyImpl.onStop) {
+      try {
+        await instance.strategyImpl.onStop(instance.context);
+      } catch (error: any) {
+        this.log(instance, 'error', `onStop failed: ${error.message}`);
+      }
+    }
+
+    instance.status = 'STOPPED';
+    instance.stoppedAt = new Date().toISOString();
+    this.log(instance, 'info', 'Stopped');
+
+    return this.toStatus(instance);
+  }
+
+  static async stopAll(): Promise<void> {
+    for (const instanceId of this.instances.keys()) {
+      await this.stop(instanceId);
+    }
+  }
+
+  static getStatus(instanceId: string): StrategyInstanceStatus | undefined {
+    const instance = this.instances.get(instanceId);
+    return instance ? this.toStatus(instance) : undefined;
+  }
+
+  static listInstances(accountId?: string): StrategyInstanceStatus[] {
+    return Array.from(this.instances.values())
+      .filter(instance => !accountId || instance.accountId === accountId)
+      .map(instance => this.toStatus(instance));
+  }
+
+  static getLogs(instanceId: string, limit: number = 100): StrategyLogEntry[] | undefined {
+    const instance = this.instances.get(instanceId);
+    return instance ? instance.logs.slice(-limit) : undefined;
+  }
+
+  private static createContext(getInstance: () => StrategyInstance): StrategyContext {
+    return {
+      get strategyId() { return getInstance().id; },
+      get accountId() { return getInstance().accountId; },
+      get params() { return getInstance().params; },
+      placeOrder: async (order) => {
+        const instance = getInstance();
+        const request = createOrderSchema.parse({ ...order, accountId: instance.accountId });
+        // Market orders can fill before placeOrder returns, so claim the id as soon as it exists
+        const placed = await OrderService.placeOrder(request, {
+          metadata: { strategyId: instance.id },
+          onRecorded: (orderId) => instance.orderIds.add(orderId)
+        });
+
+        instance.ordersPlaced++;
+        this.log(instance, placed.status === 'REJECTED' ? 'error' : 'info',
+          `${placed.status === 'REJECTED' ? 'Rejected' : 'Placed'} ${order.side} ${order.quantity} ${order.ticker.toUpperCase()} ${order.type}`,
+          { orderId: placed.id });
+
+        return { id: placed.id, status: placed.status };
+      },
+      cancelOrder: async (orderId) => {
+        const instance = getInstance();
+        if (!instance.orderIds.has(orderId)) return false;
+        const result = await getSimulatorInstance().cancelOrder(orderId, `Cancelled by strategy ${instance.id}`, 'strategy');
+        return result.cancelled;
+      },
+      getPosition: async (symbol) => {
+        const instance = getInstance();
+        const position = await prisma.position.findFirst({
+          where: { accountId: instance.accountId, instrument: { symbol: symbol.toUpperCase() } }
+        });
+        return position
+          ? { quantity: position.quantity, avgPrice: parseFloat(position.avgPrice.toString()) }
+          : null;
+      },
+      log: (message, data) => this.log(getInstance(), 'info', message, data)
+    };
+  }
+
+  private static enqueue(instance: StrategyInstance, hook: string, handler: () => void | Promise<void>): void {
+    instance.queue = instance.queue.then(async () => {
+      if (instance.status !== 'RUNNING') return;
+
+      try {
+        await handler();
+        instance.eventsProcessed++;
+        instance.consecutiveErrors = 0;
+      } catch (error: any) {
+        instance.consecutiveErrors++;
+        instance.lastError = error.message;
+        this.log(instance, 'error', `${hook} failed: ${error.message}`);
+
+        if (hook === 'onStart' || instance.consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+          this.detach(instance);
+          instance.status = 'ERROR';
+          instance.stoppedAt = new Date().toISOString();
+          this.log(instance, 'error', `Stopped after ${hook === 'onStart' ? 'failing to start' : `${instance.consecutiveErrors} consecutive errors`}`);
+        }
+      }
+    });
+  }
+
+  private static detach(instance: StrategyInstance): void {
+    instance.unsubscribe.forEach(unsubscribe => unsubscribe());
+    instance.unsubscribe = [];
+  }
+
+  private static log(instance: StrategyInstance, level: StrategyLogEntry['level'], message: string, data?: Record<string, any>): void {
+    const entry: StrategyLogEntry = { timestamp: new Date().toISOString(), level, message, ...(data && { data }) };
+
+    instance.logs.push(entry);
+    if (instance.logs.length > MAX_LOG_ENTRIES) {
+      instance.logs.shift();
+    }
+
+    broadcastLog(instance.accountId, { strategyId: instance.id, ...entry });
+    console.log(`[strategy ${instance.id}] ${message}`);
+  }
+
+  private static toStatus(instance: StrategyInstance): StrategyInstanceStatus {
+    const { id, strategy, accountId, symbols, params, status, startedAt, stoppedAt, lastError, eventsProcessed, ordersPlaced } = instance;
+    return { id, strategy, accountId, symbols, params, status, startedAt, stoppedAt, lastError, eventsProcessed, ordersPlaced };
+  }
+}
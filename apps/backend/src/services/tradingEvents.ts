@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events';
+
+export interface PriceEvent {
+  symbol: string;
+  price: number;
+  timestamp: string;
+  volume?: number;
+  bid?: number;
+  ask?: number;
+  change?: number;
+  changePercent?: number;
+}
+
+interface TradingEventMap {
+  price: [PriceEvent];
+  order: [accountId: string, orderData: any];
+  fill: [accountId: string, fillData: any];
+}
+
+/**
+ * In-process feed of the price, order and fill updates pushed to WebSocket
+ * clients, so server-side consumers see exactly what the UI sees
+ */
+class TradingEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  on<K extends keyof TradingEventMap>(event: K, listener: (...args: TradingEventMap[K]) => void): () => void {
+    this.emitter.on(event, listener as (...args: any[]) => void);
+    return () => {
+      this.emitter.off(event, listener as (...args: any[]) => void);
+    };
+  }
+
+  emit<K extends keyof TradingEventMap>(event: K, ...args: TradingEventMap[K]): void {
+    this.emitter.emit(event, ...args);
+  }
+}
+
+export const tradingEvents = new TradingEventBus();
@@ -0,0 +1,50 @@
+export type HaltReason = 'LIMIT_UP' | 'LIMIT_DOWN' | 'MANUAL';
+
+export interface PriceBands {
+  referencePrice: number;
+  lower: number;
+  upper: number;
+}
+
+export interface TradingHalt {
+  symbol: string;
+  reason: HaltReason;
+  message?: string; // why an admin halted the symbol
+  haltedAt: string;
+  resumesAt?: string; // unset on manual halts until an admin resumes them
+  bands?: PriceBands; // bands that were breached, on limit-up/limit-down pauses
+  price?: number; // price that breached them
+}
+
+/**
+ * Limit-up/limit-down bands a given share either side of the reference price,
+ * rounded to the cent
+ */
+export function calculatePriceBands(referencePrice: number, bandPct: number): PriceBands {
+  return {
+    referencePrice,
+    lower: Math.round(referencePrice * (1 - bandPct) * 100) / 100,
+    upper: Math.round(referencePrice * (1 + bandPct) * 100) / 100
+  };
+}
+
+/**
+ * Which band a price is outside of, if any. Prices on a band are still inside it.
+ */
+export function getBandBreach(price: number, bands: PriceBands): 'LIMIT_UP' | 'LIMIT_DOWN' | null {
+  if (price > bands.upper) return 'LIMIT_UP';
+  if (price < bands.lower) return 'LIMIT_DOWN';
+  return null;
+}
+
+/**
+ * Why an order on a halted symbol can't be accepted, if it can't. Orders that
+ * can wait are queued for the resumption; anything that needs to execute
+ * immediately is turned away.
+ */
+export function getHaltRejection(halt: TradingHalt, order: { timeInForce?: string }): string | undefined {
+  if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+    return `Trading in ${halt.symbol} is halted (${halt.reason}): ${order.timeInForce} orders are not accepted`;
+  }
+  return undefined;
+}
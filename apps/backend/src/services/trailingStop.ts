@@ -0,0 +1,63 @@
+export interface TrailingStopOffset {
+  trailAmount?: number;
+  trailPercent?: number; // 0-100
+}
+
+export interface TrailingStopState {
+  highWaterMark: number;
+  stopPrice: number;
+}
+
+/**
+ * Distance between the high-water mark and the stop level
+ */
+export function getTrailOffset(highWaterMark: number, offset: TrailingStopOffset): number {
+  if (offset.trailAmount) {
+    return offset.trailAmount;
+  }
+  return (highWaterMark * (offset.trailPercent || 0)) / 100;
+}
+
+/**
+ * Compute the stop level for a given high-water mark. Sell stops trail below
+ * the highest price seen, buy stops trail above the lowest price seen.
+ */
+export function calculateTrailingStopPrice(
+  side: 'BUY' | 'SELL',
+  highWaterMark: number,
+  offset: TrailingStopOffset
+): number {
+  const trail = getTrailOffset(highWaterMark, offset);
+  return side === 'SELL' ? highWaterMark - trail : highWaterMark + trail;
+}
+
+/**
+ * Ratchet a trailing stop with the latest price. Returns the new state if the
+ * price improved on the high-water mark, or null when the stop stays put.
+ * The stop never moves against the position.
+ */
+export function ratchetTrailingStop(
+  side: 'BUY' | 'SELL',
+  current: TrailingStopState | undefined,
+  price: number,
+  offset: TrailingStopOffset
+): TrailingStopState | null {
+  const isImprovement = !current
+    || (side === 'SELL' ? price > current.highWaterMark : price < current.highWaterMark);
+
+  if (!isImprovement) {
+    return null;
+  }
+
+  return {
+    highWaterMark: price,
+    stopPrice: calculateTrailingStopPrice(side, price, offset)
+  };
+}
+
+/**
+ * Whether the latest price has crossed the trailing stop level
+ */
+export function isTrailingStopTriggered(side: 'BUY' | 'SELL', stopPrice: number, price: number): boolean {
+  return side === 'SELL' ? price <= stopPrice : price >= stopPrice;
+}
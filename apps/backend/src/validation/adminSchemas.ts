@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const haltSymbolSchema = z.object({
+  message: z.string().max(200, 'Message must be 200 characters or less').optional(),
+  durationMs: z.number().int().positive('Duration must be a positive integer').optional()
+});
+
+export type HaltSymbolRequest = z.infer<typeof haltSymbolSchema>;
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { countParamCombinations } from '../services/backtestJobs';
+
+const scriptedOrderSchema = z.object({
+  at: z.string().datetime({ message: 'at must be an ISO timestamp' }),
+  symbol: z.string().min(1, 'Symbol is required').max(10, 'Symbol must be 10 characters or less'),
+  type: z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP'], { message: 'Type must be MARKET, LIMIT, STOP, STOP_LIMIT or TRAILING_STOP' }),
+  side: z.enum(['BUY', 'SELL'], { message: 'Side must be BUY or SELL' }),
+  quantity: z.number().int().positive('Quantity must be a positive integer'),
+  price: z.number().positive('Price must be positive').optional(),
+  stopPrice: z.number().positive('Stop price must be positive').optional(),
+  trailAmount: z.number().positive('Trail amount must be positive').optional(),
+  trailPercent: z.number().positive('Trail percent must be positive').lt(100, 'Trail percent must be less than 100').optional(),
+  timeInForce: z.enum(['DAY', 'GTC', 'IOC', 'FOK'], { message: 'Time in force must be DAY, GTC, IOC or FOK' }).default('DAY')
+});
+
+export const backtestConfigSchema = z.object({
+  symbols: z.array(z.string().min(1)).min(1, 'At least one symbol is required').optional(),
+  startDate: z.string().datetime({ message: 'startDate must be an ISO timestamp' }).optional(),
+  endDate: z.string().datetime({ message: 'endDate must be an ISO timestamp' }).optional(),
+  initialCash: z.number().positive('Initial cash must be positive').optional(),
+  seed: z.number().int('Seed must be an integer').optional(),
+  bidAskSpreadBps: z.number().int().nonnegative('Bid/ask spread must be non-negative').optional(),
+  feePerShare: z.number().nonnegative('Fee per share must be non-negative').optional(),
+  slippageBps: z.number().int().nonnegative('Slippage must be non-negative').optional(),
+  maxPartialFillPct: z.number().gt(0, 'Max partial fill must be greater than 0').max(1, 'Max partial fill must be at most 1').optional(),
+  priceModel: z.enum(['RAW', 'BOUNDED_NOISE', 'MEAN_REVERTING'], { message: 'Price model must be RAW, BOUNDED_NOISE or MEAN_REVERTING' }).optional(),
+  noiseSigma: z.number().nonnegative('Noise sigma must be non-negative').max(0.5, 'Noise sigma must be at most 0.5').optional(),
+  meanReversion: z.number().min(0, 'Mean reversion must be between 0 and 1').max(1, 'Mean reversion must be between 0 and 1').optional(),
+  fillModel: z.enum(['CLOSE', 'CONSERVATIVE', 'OPTIMISTIC'], { message: 'Fill model must be CLOSE, CONSERVATIVE or OPTIMISTIC' }).optional(),
+  participationRate: z.number().gt(0, 'Participation rate must be greater than 0').max(1, 'Participation rate must be at most 1').optional(),
+  impactBps: z.number().int().nonnegative('Impact must be non-negative').optional(),
+  queueAheadPct: z.number().min(0, 'Queue ahead must be between 0 and 1').max(1, 'Queue ahead must be between 0 and 1').optional(),
+  latencyMs: z.number().int().nonnegative('Latency must be non-negative').optional(),
+  marketHours: z.boolean().optional(),
+  luldBandPct: z.number().gt(0, 'LULD band must be greater than 0').max(1, 'LULD band must be at most 1').optional(),
+  haltDurationMs: z.number().int().positive('Halt duration must be a positive integer').optional()
+});
+
+const paramValueSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+const metricSchema = z.enum(['totalReturn', 'maxDrawdown', 'sharpeRatio', 'tradeCount', 'feeDrag'], {
+  message: 'Metric must be totalReturn, maxDrawdown, sharpeRatio, tradeCount or feeDrag'
+});
+
+const MAX_JOB_RUNS = 200; // jobs run in-process, so keep a single request from queueing thousands of backtests
+
+const paramGridSchema = z.record(z.array(paramValueSchema).min(1, 'Each parameter needs at least one value'))
+  .default({});
+
+const windowSchema = z.object({
+  startDate: z.string().datetime({ message: 'startDate must be an ISO timestamp' }),
+  endDate: z.string().datetime({ message: 'endDate must be an ISO timestamp' })
+}).refine(window => Date.parse(window.startDate) < Date.parse(window.endDate), {
+  message: 'startDate must be before endDate'
+});
+
+const jobBaseSchema = {
+  name: z.string().max(100, 'Name must be 100 characters or less').optional(),
+  strategy: z.string().min(1, 'Strategy is required'),
+  config: backtestConfigSchema.default({}),
+  paramGrid: paramGridSchema,
+  objective: metricSchema.default('sharpeRatio')
+};
+
+export const createBacktestJobSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...jobBaseSchema,
+    type: z.literal('SWEEP'),
+    windows: z.array(windowSchema).max(20, 'At most 20 windows').default([])
+  }),
+  z.object({
+    ...jobBaseSchema,
+    type: z.literal('WALK_FORWARD'),
+    folds: z.number().int().min(1, 'At least one fold is required').max(20, 'At most 20 folds'),
+    inSampleRatio: z.number().gt(0, 'In-sample ratio must be between 0 and 1').lt(1, 'In-sample ratio must be between 0 and 1').default(0.7)
+  })
+]).refine(job => {
+  const combinations = countParamCombinations(job.paramGrid);
+  const runs = job.type === 'SWEEP' ? combinations * Math.max(job.windows.length, 1) : job.folds * (combinations + 1);
+  return runs <= MAX_JOB_RUNS;
+}, { message: `A job can run at most ${MAX_JOB_RUNS} backtests`, path: ['paramGrid'] });
+
+export const createBacktestSchema = z.object({
+  name: z.string().max(100, 'Name must be 100 characters or less').optional(),
+  config: backtestConfigSchema.default({}),
+  orders: z.array(scriptedOrderSchema).default([]),
+  strategy: z.string().min(1, 'Strategy is required').optional(),
+  params: z.record(paramValueSchema).optional()
+});
+
+export const compareBacktestsSchema = z.object({
+  jobId: z.string().optional(),
+  metric: metricSchema.default('sharpeRatio'),
+  windowRole: z.enum(['IN_SAMPLE', 'OUT_OF_SAMPLE'], { message: 'Window role must be IN_SAMPLE or OUT_OF_SAMPLE' }).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50)
+});
+
+export type CreateBacktestRequest = z.infer<typeof createBacktestSchema>;
+export type CreateBacktestJobRequest = z.infer<typeof createBacktestJobSchema>;
+export type CompareBacktestsRequest = z.infer<typeof compareBacktestsSchema>;
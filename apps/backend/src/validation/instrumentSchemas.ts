@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+const instrumentFields = {
+  name: z.string().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  sector: z.string().max(50, 'Sector must be 50 characters or less').optional(),
+  exchange: z.string().min(1, 'Exchange is required').max(20, 'Exchange must be 20 characters or less').transform(exchange => exchange.toUpperCase()),
+  tickSize: z.number().positive('Tick size must be positive').max(1000, 'Tick size must be at most 1000'),
+  lotSize: z.number().int().positive('Lot size must be a positive integer'),
+  oddLotPolicy: z.enum(['ALLOW', 'MIXED_LOTS', 'ROUND_LOTS'], { message: 'Odd lot policy must be ALLOW, MIXED_LOTS or ROUND_LOTS' }),
+  referencePrice: z.number().positive('Reference price must be positive'),
+  price: z.number().positive('Price must be positive'),
+  previousClose: z.number().positive('Previous close must be positive'),
+  isActive: z.boolean()
+};
+
+export const createInstrumentSchema = z.object({
+  symbol: z.string()
+    .regex(/^[A-Za-z][A-Za-z0-9.-]{0,9}$/, 'Symbol must be 1-10 letters, digits, dots or dashes, starting with a letter')
+    .transform(symbol => symbol.toUpperCase()),
+  name: instrumentFields.name,
+  sector: instrumentFields.sector,
+  exchange: instrumentFields.exchange,
+  tickSize: instrumentFields.tickSize.default(0.01),
+  lotSize: instrumentFields.lotSize.default(1),
+  oddLotPolicy: instrumentFields.oddLotPolicy.default('ROUND_LOTS'),
+  referencePrice: instrumentFields.referencePrice.optional(),
+  price: instrumentFields.price,
+  previousClose: instrumentFields.previousClose.optional(),
+  isActive: instrumentFields.isActive.default(true)
+});
+
+export const updateInstrumentSchema = z.object({
+  name: instrumentFields.name.optional(),
+  sector: instrumentFields.sector.nullable(),
+  exchange: instrumentFields.exchange.optional(),
+  tickSize: instrumentFields.tickSize.optional(),
+  lotSize: instrumentFields.lotSize.optional(),
+  oddLotPolicy: instrumentFields.oddLotPolicy.optional(),
+  referencePrice: instrumentFields.referencePrice.nullable().optional(),
+  isActive: instrumentFields.isActive.optional()
+}).refine((data) => Object.values(data).some(value => value !== undefined), {
+  message: 'At least one field to update is required'
+});
+
+export const getInstrumentsSchema = z.object({
+  search: z.string().max(100, 'Search must be 100 characters or less').optional(),
+  sector: z.string().optional(),
+  exchange: z.string().optional(),
+  isActive: z.enum(['true', 'false'], { message: 'isActive must be true or false' }).transform(value => value === 'true').optional()
+});
+
+export const importInstrumentsSchema = z.object({
+  csv: z.string().min(1, 'CSV is required')
+});
+
+export type CreateInstrumentRequest = z.infer<typeof createInstrumentSchema>;
+export type UpdateInstrumentRequest = z.infer<typeof updateInstrumentSchema>;
+export type GetInstrumentsRequest = z.infer<typeof getInstrumentsSchema>;
+export type ImportInstrumentsRequest = z.infer<typeof importInstrumentsSchema>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+const marketBarSchema = z.object({
+  timestamp: z.string().datetime({ offset: true, message: 'Timestamp must be an ISO 8601 date-time' }),
+  open: z.number({ message: 'Open must be a number' }),
+  high: z.number({ message: 'High must be a number' }),
+  low: z.number({ message: 'Low must be a number' }),
+  close: z.number({ message: 'Close must be a number' }),
+  volume: z.number().int('Volume must be an integer')
+});
+
+// Bars come either as JSON or as CSV in the same format as the data directory's bar files
+export const uploadMarketDataSchema = z.object({
+  bars: z.array(marketBarSchema).min(1, 'At least one bar is required').max(10000, 'At most 10000 bars per upload').optional(),
+  csv: z.string().min(1, 'CSV is required').optional()
+}).refine((data) => (data.bars === undefined) !== (data.csv === undefined), {
+  message: 'Provide either bars or csv'
+});
+
+export const getCandlesSchema = z.object({
+  interval: z.enum(['1m', '5m', '15m', '1h', '1d'], { message: 'Interval must be 1m, 5m, 15m, 1h or 1d' }).default('1m'),
+  from: z.string().datetime({ offset: true, message: 'from must be an ISO 8601 date-time' }).optional(),
+  to: z.string().datetime({ offset: true, message: 'to must be an ISO 8601 date-time' }).optional(),
+  limit: z.coerce.number().int().positive('Limit must be a positive integer').max(5000, 'Limit must be 5000 or less').default(500)
+}).refine((data) => !data.from || !data.to || Date.parse(data.from) <= Date.parse(data.to), {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+export type UploadMarketDataRequest = z.infer<typeof uploadMarketDataSchema>;
+export type GetCandlesRequest = z.infer<typeof getCandlesSchema>;
@@ -3,12 +3,66 @@ import { z } from 'zod';
 export const createOrderSchema = z.object({
   accountId: z.string().min(1, 'Account ID is required'),
   ticker: z.string().min(1, 'Ticker is required').max(10, 'Ticker must be 10 characters or less'),
-  type: z.enum(['MARKET', 'LIMIT'], { message: 'Type must be MARKET or LIMIT' }),
+  type: z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP', 'MOO', 'MOC', 'LOO', 'LOC'], { message: 'Type must be MARKET, LIMIT, STOP, STOP_LIMIT, TRAILING_STOP, MOO, MOC, LOO or LOC' }),
   side: z.enum(['BUY', 'SELL'], { message: 'Side must be BUY or SELL' }),
   quantity: z.number().int().positive('Quantity must be a positive integer'),
-  price: z.number().positive('Price must be positive').optional()
+  price: z.number().positive('Price must be positive').multipleOf(0.0001, 'Price must have at most 4 decimal places').optional(),
+  stopPrice: z.number().positive('Stop price must be positive').multipleOf(0.0001, 'Stop price must have at most 4 decimal places').optional(),
+  trailAmount: z.number().positive('Trail amount must be positive').optional(),
+  trailPercent: z.number().positive('Trail percent must be positive').lt(100, 'Trail percent must be less than 100').optional(),
+  timeInForce: z.enum(['DAY', 'GTC', 'IOC', 'FOK'], { message: 'Time in force must be DAY, GTC, IOC or FOK' }).default('DAY')
 }).refine((data) => {
-  // For LIMIT orders, price is required
+  // For LIMIT, STOP_LIMIT, LOO and LOC orders, price is required
+  if ((data.type === 'LIMIT' || data.type === 'STOP_LIMIT' || data.type === 'LOO' || data.type === 'LOC') && !data.price) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Price is required for LIMIT, STOP_LIMIT, LOO and LOC orders',
+  path: ['price']
+}).refine((data) => {
+  // For STOP and STOP_LIMIT orders, stop price is required
+  if ((data.type === 'STOP' || data.type === 'STOP_LIMIT') && !data.stopPrice) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Stop price is required for STOP and STOP_LIMIT orders',
+  path: ['stopPrice']
+}).refine((data) => {
+  // For TRAILING_STOP orders, exactly one of trail amount or trail percent is required
+  if (data.type === 'TRAILING_STOP' && !!data.trailAmount === !!data.trailPercent) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Exactly one of trailAmount or trailPercent is required for TRAILING_STOP orders',
+  path: ['trailAmount']
+}).refine((data) => {
+  // Auction orders (MOO, MOC, LOO, LOC) only live until their auction
+  if (['MOO', 'MOC', 'LOO', 'LOC'].includes(data.type) && data.timeInForce !== 'DAY') {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Time in force must be DAY for MOO, MOC, LOO and LOC orders',
+  path: ['timeInForce']
+});
+
+export const createBracketOrderSchema = z.object({
+  accountId: z.string().min(1, 'Account ID is required'),
+  ticker: z.string().min(1, 'Ticker is required').max(10, 'Ticker must be 10 characters or less'),
+  type: z.enum(['MARKET', 'LIMIT'], { message: 'Entry type must be MARKET or LIMIT' }),
+  side: z.enum(['BUY', 'SELL'], { message: 'Side must be BUY or SELL' }),
+  quantity: z.number().int().positive('Quantity must be a positive integer'),
+  price: z.number().positive('Price must be positive').optional(),
+  // Legs have to rest: an IOC or FOK leg would expire on arrival and take the rest of the group with it
+  timeInForce: z.enum(['DAY', 'GTC'], { message: 'Time in force must be DAY or GTC for bracket orders' }).default('DAY'),
+  takeProfitPrice: z.number().positive('Take-profit price must be positive'),
+  stopLossPrice: z.number().positive('Stop-loss price must be positive'),
+  stopLossLimitPrice: z.number().positive('Stop-loss limit price must be positive').optional()
+}).refine((data) => {
+  // For LIMIT entries, price is required
   if (data.type === 'LIMIT' && !data.price) {
     return false;
   }
@@ -16,6 +70,67 @@ export const createOrderSchema = z.object({
 }, {
   message: 'Price is required for LIMIT orders',
   path: ['price']
+}).refine((data) => {
+  // Exits must sit on either side of the market: above/below for long entries, below/above for short
+  return data.side === 'BUY'
+    ? data.takeProfitPrice > data.stopLossPrice
+    : data.takeProfitPrice < data.stopLossPrice;
+}, {
+  message: 'Take-profit must be above stop-loss for BUY entries and below it for SELL entries',
+  path: ['takeProfitPrice']
+}).refine((data) => {
+  // A stop-limit exit must leave room to fill once triggered: at or below the stop for long entries, at or above it for short
+  if (data.stopLossLimitPrice === undefined) {
+    return true;
+  }
+  return data.side === 'BUY'
+    ? data.stopLossLimitPrice <= data.stopLossPrice
+    : data.stopLossLimitPrice >= data.stopLossPrice;
+}, {
+  message: 'Stop-loss limit price must be at or below the stop-loss price for BUY entries and at or above it for SELL entries',
+  path: ['stopLossLimitPrice']
+});
+
+const ocoLegSchema = z.object({
+  type: z.enum(['LIMIT', 'STOP', 'STOP_LIMIT'], { message: 'OCO leg type must be LIMIT, STOP or STOP_LIMIT' }),
+  price: z.number().positive('Price must be positive').optional(),
+  stopPrice: z.number().positive('Stop price must be positive').optional()
+}).refine((data) => {
+  if ((data.type === 'LIMIT' || data.type === 'STOP_LIMIT') && !data.price) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Price is required for LIMIT and STOP_LIMIT legs',
+  path: ['price']
+}).refine((data) => {
+  if ((data.type === 'STOP' || data.type === 'STOP_LIMIT') && !data.stopPrice) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Stop price is required for STOP and STOP_LIMIT legs',
+  path: ['stopPrice']
+});
+
+export const createOcoOrderSchema = z.object({
+  accountId: z.string().min(1, 'Account ID is required'),
+  ticker: z.string().min(1, 'Ticker is required').max(10, 'Ticker must be 10 characters or less'),
+  side: z.enum(['BUY', 'SELL'], { message: 'Side must be BUY or SELL' }),
+  quantity: z.number().int().positive('Quantity must be a positive integer'),
+  timeInForce: z.enum(['DAY', 'GTC'], { message: 'Time in force must be DAY or GTC for OCO orders' }).default('DAY'),
+  legs: z.array(ocoLegSchema).length(2, 'OCO orders require exactly two legs')
+});
+
+export const amendOrderSchema = z.object({
+  quantity: z.number().int().positive('Quantity must be a positive integer').optional(),
+  price: z.number().positive('Price must be positive').multipleOf(0.0001, 'Price must have at most 4 decimal places').optional(),
+  stopPrice: z.number().positive('Stop price must be positive').multipleOf(0.0001, 'Stop price must have at most 4 decimal places').optional()
+}).refine((data) => {
+  // At least one field must be changed
+  return data.quantity !== undefined || data.price !== undefined || data.stopPrice !== undefined;
+}, {
+  message: 'At least one of quantity, price or stopPrice is required'
 });
 
 export const cancelOrderSchema = z.object({
@@ -27,5 +142,8 @@ export const getOrdersSchema = z.object({
 });
 
 export type CreateOrderRequest = z.infer<typeof createOrderSchema>;
+export type CreateBracketOrderRequest = z.infer<typeof createBracketOrderSchema>;
+export type CreateOcoOrderRequest = z.infer<typeof createOcoOrderSchema>;
+export type AmendOrderRequest = z.infer<typeof amendOrderSchema>;
 export type CancelOrderRequest = z.infer<typeof cancelOrderSchema>;
 export type GetOrdersRequest = z.infer<typeof getOrdersSchema>;
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const updateSimulatorConfigSchema = z.object({
+  bidAskSpreadBps: z.number().int().nonnegative('Bid/ask spread must be non-negative').optional(),
+  feePerShare: z.number().nonnegative('Fee per share must be non-negative').optional(),
+  slippageBps: z.number().int().nonnegative('Slippage must be non-negative').optional(),
+  playbackSpeedMs: z.number().int().positive('Playback speed must be a positive integer').optional(),
+  maxPartialFillPct: z.number().gt(0, 'Max partial fill must be greater than 0').max(1, 'Max partial fill must be at most 1').optional(),
+  priceModel: z.enum(['RAW', 'BOUNDED_NOISE', 'MEAN_REVERTING'], { message: 'Price model must be RAW, BOUNDED_NOISE or MEAN_REVERTING' }).optional(),
+  noiseSigma: z.number().nonnegative('Noise sigma must be non-negative').max(0.5, 'Noise sigma must be at most 0.5').optional(),
+  meanReversion: z.number().min(0, 'Mean reversion must be between 0 and 1').max(1, 'Mean reversion must be between 0 and 1').optional(),
+  fillModel: z.enum(['CLOSE', 'CONSERVATIVE', 'OPTIMISTIC'], { message: 'Fill model must be CLOSE, CONSERVATIVE or OPTIMISTIC' }).optional(),
+  participationRate: z.number().gt(0, 'Participation rate must be greater than 0').max(1, 'Participation rate must be at most 1').optional(),
+  impactBps: z.number().int().nonnegative('Impact must be non-negative').optional(),
+  latencyMs: z.number().int().nonnegative('Latency must be non-negative').optional(),
+  queueAheadPct: z.number().min(0, 'Queue ahead must be between 0 and 1').max(1, 'Queue ahead must be between 0 and 1').optional(),
+  marketHours: z.boolean().optional(),
+  luldBandPct: z.number().gt(0, 'LULD band must be greater than 0').max(1, 'LULD band must be at most 1').optional(),
+  haltDurationMs: z.number().int().positive('Halt duration must be a positive integer').optional()
+});
+
+export type UpdateSimulatorConfigRequest = z.infer<typeof updateSimulatorConfigSchema>;
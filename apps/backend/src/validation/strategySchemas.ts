@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const startStrategySchema = z.object({
+  strategy: z.string().min(1, 'Strategy name is required'),
+  accountId: z.string().min(1, 'Account ID is required'),
+  symbols: z.array(z.string().min(1).max(10, 'Symbol must be 10 characters or less')).min(1, 'At least one symbol is required'),
+  params: z.record(z.union([z.number(), z.string(), z.boolean()])).default({})
+});
+
+export const getStrategyLogsSchema = z.object({
+  limit: z.coerce.number().int().positive('Limit must be a positive integer').max(500, 'Limit must be 500 or less').default(100)
+});
+
+export type StartStrategyRequest = z.infer<typeof startStrategySchema>;
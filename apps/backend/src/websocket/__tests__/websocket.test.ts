@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { PrismaClient } from '@prisma/client';
+import { setupWebSocket } from '../websocket';
+import { ExecutionSimulator } from '../../services/executionSimulator';
+import { PrismaSimulatorStore } from '../../services/simulatorStore';
+import { VirtualClock } from '../../services/simulationClock';
+
+// Only the instrument lookup an arriving order makes is needed; no market data is loaded, so no symbol has a bar
+const mockPrisma = {
+  instrument: {
+    findUnique: async () => ({ id: 'inst-aapl', symbol: 'AAPL', tickSize: 0.01 })
+  }
+} as unknown as PrismaClient;
+
+// A Saturday: the market is closed, so orders rest on the book untouched
+const mockSimulator = new ExecutionSimulator(new PrismaSimulatorStore(mockPrisma), { clock: new VirtualClock(new Date('2024-01-06T15:00:00Z')) });
+
+jest.mock('../../services/simulatorInstance', () => ({
+  getSimulatorInstance: () => mockSimulator
+}));
+
+/**
+ * A connected client that keeps every message it receives, so tests can wait
+ * for the next one of a type without racing the server
+ */
+async function connect(url: string) {
+  const ws = new WebSocket(url);
+  const messages: any[] = [];
+  const waiters: Array<{ type: string; resolve: (message: any) => void }> = [];
+
+  ws.on('message', (data: Buffer) => {
+    const message = JSON.parse(data.toString());
+    const waiter = waiters.findIndex(w => w.type === message.type);
+    if (waiter > -1) {
+      waiters.splice(waiter, 1)[0].resolve(message);
+    } else {
+      messages.push(message);
+    }
+  });
+
+  const next = (type: string): Promise<any> => {
+    const index = messages.findIndex(m => m.type === type);
+    if (index > -1) {
+      return Promise.resolve(messages.splice(index, 1)[0]);
+    }
+    return new Promise(resolve => waiters.push({ type, resolve }));
+  };
+
+  await new Promise(resolve => ws.once('open', resolve));
+  await next('connection');
+  return {
+    next,
+    send: (message: any) => ws.send(JSON.stringify(message)),
+    close: () => new Promise(resolve => {
+      ws.once('close', resolve);
+      ws.close();
+    })
+  };
+}
+
+describe('WebSocket depth subscriptions', () => {
+  let wss: WebSocketServer;
+  let url: string;
+
+  beforeAll(async () => {
+    wss = new WebSocketServer({ port: 0 });
+    await new Promise(resolve => wss.once('listening', resolve));
+    setupWebSocket(wss, mockPrisma);
+    url = `ws://localhost:${(wss.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    wss.clients.forEach(client => client.terminate());
+    await new Promise(resolve => wss.close(resolve));
+  });
+
+  it('should send a snapshot, then depth updates with higher sequences', async () => {
+    const client = await connect(url);
+
+    client.send({ type: 'subscribe_depth', symbols: ['aapl'] });
+    const snapshot = await client.next('depth_snapshot');
+
+    expect(snapshot.symbol).toBe('AAPL');
+    expect(snapshot.data).toEqual({ sequence: 0, bids: [], asks: [] });
+
+    // The symbol has no current bar, and its depth still changes
+    await mockSimulator.addPendingOrder({
+      id: 'bid1',
+      accountId: 'acc1',
+      instrumentId: 'inst-aapl',
+      type: 'LIMIT',
+      side: 'BUY',
+      quantity: 100,
+      price: 185
+    });
+    const first = await client.next('depth_update');
+
+    expect(first.symbol).toBe('AAPL');
+    expect(first.data.sequence).toBeGreaterThan(snapshot.data.sequence);
+    expect(first.data.bids).toEqual([{ price: 185, size: 100, orderCount: 1 }]);
+
+    await mockSimulator.addPendingOrder({
+      id: 'ask1',
+      accountId: 'acc2',
+      instrumentId: 'inst-aapl',
+      type: 'LIMIT',
+      side: 'SELL',
+      quantity: 50,
+      price: 186
+    });
+    const second = await client.next('depth_update');
+
+    expect(second.data.sequence).toBe(first.data.sequence + 1);
+    expect(second.data.bids).toEqual([]);
+    expect(second.data.asks).toEqual([{ price: 186, size: 50, orderCount: 1 }]);
+
+    await client.close();
+  });
+
+  it('should start a late subscriber from the current depth and sequence', async () => {
+    const client = await connect(url);
+
+    client.send({ type: 'subscribe_depth', symbols: 'AAPL' });
+    const snapshot = await client.next('depth_snapshot');
+
+    expect(snapshot.data.sequence).toBe(mockSimulator.getDepthSnapshot('AAPL').sequence);
+    expect(snapshot.data.bids).toEqual([{ price: 185, size: 100, orderCount: 1 }]);
+    expect(snapshot.data.asks).toEqual([{ price: 186, size: 50, orderCount: 1 }]);
+
+    await client.close();
+  });
+});
@@ -1,10 +1,12 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { PrismaClient } from '@prisma/client';
+import { tradingEvents } from '../services/tradingEvents';
 
 export interface ExtendedWebSocket extends WebSocket {
   isAlive: boolean;
   accountId?: string;
   subscribedSymbols?: Set<string>;
+  depthSymbols?: Set<string>;
 }
 
 // Global WebSocket server instance for broadcasting
@@ -16,6 +18,7 @@ export const setupWebSocket = (wss: WebSocketServer, prisma: PrismaClient): void
   wss.on('connection', (ws: ExtendedWebSocket) => {
     ws.isAlive = true;
     ws.subscribedSymbols = new Set();
+    ws.depthSymbols = new Set();
     
     ws.on('pong', () => {
       ws.isAlive = true;
@@ -92,6 +95,41 @@ const handleWebSocketMessage = async (
       }));
       break;
       
+    case 'subscribe_depth': {
+      const depthSymbols: string[] = Array.isArray(message.symbols) ? message.symbols : [message.symbols];
+      // Loaded lazily, as the simulator itself broadcasts through this module
+      const { getSimulatorInstance } = await import('../services/simulatorInstance');
+      const simulator = getSimulatorInstance();
+
+      depthSymbols.forEach(symbol => {
+        ws.depthSymbols?.add(symbol.toUpperCase());
+
+        // Initial snapshot; depth_update messages with a higher sequence follow
+        const snapshot = simulator.getDepthSnapshot(symbol);
+        ws.send(JSON.stringify({
+          type: 'depth_snapshot',
+          symbol: snapshot.symbol,
+          data: {
+            sequence: snapshot.sequence,
+            bids: snapshot.bids,
+            asks: snapshot.asks
+          },
+          timestamp: new Date().toISOString()
+        }));
+      });
+      break;
+    }
+
+    case 'unsubscribe_depth': {
+      const depthSymbols: string[] = Array.isArray(message.symbols) ? message.symbols : [message.symbols];
+      depthSymbols.forEach(symbol => ws.depthSymbols?.delete(symbol.toUpperCase()));
+      ws.send(JSON.stringify({
+        type: 'depth_unsubscription_confirmed',
+        symbols: depthSymbols
+      }));
+      break;
+    }
+
     case 'ping':
       ws.send(JSON.stringify({ type: 'pong' }));
       break;
@@ -114,6 +152,7 @@ export const broadcastPriceUpdate = (symbol: string, priceData: {
   change?: number;
   changePercent?: number;
 }): void => {
+  tradingEvents.emit('price', { symbol: symbol.toUpperCase(), ...priceData });
   if (!globalWss) return;
 
   const message = JSON.stringify({
@@ -133,6 +172,7 @@ export const broadcastPriceUpdate = (symbol: string, priceData: {
 
 // Broadcast order updates to account subscribers
 export const broadcastOrderUpdate = (accountId: string, orderData: any): void => {
+  tradingEvents.emit('order', accountId, orderData);
   if (!globalWss) return;
 
   const message = JSON.stringify({
@@ -151,6 +191,7 @@ export const broadcastOrderUpdate = (accountId: string, orderData: any): void =>
 
 // Broadcast fill updates to account subscribers
 export const broadcastFillUpdate = (accountId: string, fillData: any): void => {
+  tradingEvents.emit('fill', accountId, fillData);
   if (!globalWss) return;
 
   const message = JSON.stringify({
@@ -219,4 +260,89 @@ export const broadcastLog = (accountId: string, logData: any): void => {
       ws.send(message);
     }
   });
-};
\ No newline at end of file
+};
+
+// Broadcast incremental depth changes to depth subscribers. Levels with zero size were removed.
+export const broadcastDepthUpdate = (symbol: string, depthData: {
+  sequence: number;
+  bids: Array<{ price: number; size: number; orderCount: number }>;
+  asks: Array<{ price: number; size: number; orderCount: number }>;
+}): void => {
+  if (!globalWss) return;
+
+  const message = JSON.stringify({
+    type: 'depth_update',
+    symbol: symbol.toUpperCase(),
+    data: depthData,
+    timestamp: new Date().toISOString()
+  });
+
+  globalWss.clients.forEach((ws: ExtendedWebSocket) => {
+    if (ws.readyState === WebSocket.OPEN &&
+        ws.depthSymbols?.has(symbol.toUpperCase())) {
+      ws.send(message);
+    }
+  });
+};
+
+// Broadcast market session changes to every client
+export const broadcastMarketSession = (sessionData: any): void => {
+  if (!globalWss) return;
+
+  const message = JSON.stringify({
+    type: 'market_session',
+    data: sessionData,
+    timestamp: new Date().toISOString()
+  });
+
+  globalWss.clients.forEach((ws: ExtendedWebSocket) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+};
+
+// Broadcast trading halts and resumptions to every client
+export const broadcastTradingStatus = (symbol: string, statusData: { status: 'HALTED' | 'RESUMED'; [key: string]: any }): void => {
+  if (!globalWss) return;
+
+  const message = JSON.stringify({
+    type: 'trading_status',
+    symbol: symbol.toUpperCase(),
+    data: statusData,
+    timestamp: new Date().toISOString()
+  });
+
+  globalWss.clients.forEach((ws: ExtendedWebSocket) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+};
+
+// Broadcast auction indications while orders are collected, and the result once it uncrosses, to price subscribers
+export const broadcastAuctionUpdate = (symbol: string, auctionData: {
+  auction: 'OPENING' | 'CLOSING';
+  status: 'INDICATIVE' | 'UNCROSSED';
+  price: number;
+  matchedQuantity: number;
+  imbalance: number;
+  imbalanceSide?: 'BUY' | 'SELL';
+  executedQuantity?: number;
+}): void => {
+  if (!globalWss) return;
+
+  const message = JSON.stringify({
+    type: 'auction_update',
+    symbol: symbol.toUpperCase(),
+    data: auctionData,
+    timestamp: new Date().toISOString()
+  });
+
+  globalWss.clients.forEach((ws: ExtendedWebSocket) => {
+    if (ws.readyState === WebSocket.OPEN &&
+        ws.subscribedSymbols?.has(symbol.toUpperCase())) {
+      ws.send(message);
+    }
+  });
+};
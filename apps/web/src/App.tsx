@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { apiClient } from './api/client';
+import { apiClient, type MarketSessionStatus } from './api/client';
 
 // Demo account ID - matches the seeded account in database
 const DEMO_ACCOUNT_ID = 'cmexnwhhm00003hl9iaihxvtg';
@@ -39,6 +39,8 @@ const BlotterSection: React.FC<{
       case 'PARTIALLY_FILLED': return '#17a2b8';
       case 'REJECTED': return '#dc3545';
       case 'CANCELLED': return '#6c757d';
+      case 'EXPIRED': return '#6c757d';
+      case 'HELD': return '#adb5bd';
       default: return '#6c757d';
     }
   };
@@ -68,7 +70,7 @@ const BlotterSection: React.FC<{
   };
 
   const canCancelOrder = (order: any): boolean => {
-    return order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED';
+    return order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED' || order.status === 'HELD';
   };
 
   const getFilledQuantity = (order: any): number => {
@@ -176,6 +178,7 @@ const BlotterSection: React.FC<{
                   </td>
                   <td style={{ padding: '10px', border: '1px solid #ddd' }}>
                     {order.price ? `$${parseFloat(order.price).toFixed(2)}` : 'Market'}
+                    {order.stopPrice && ` (stop $${parseFloat(order.stopPrice).toFixed(2)})`}
                   </td>
                   <td style={{ 
                     padding: '10px', 
@@ -573,14 +576,26 @@ const PositionsSection: React.FC<{
   );
 };
 
-// Market simulation system
-const MARKET_DATA: { [key: string]: { basePrice: number, currentPrice: number, trend: number, lastUpdate: number } } = {};
+// How each session the backend reports is labelled and coloured
+const SESSION_DISPLAY: Record<MarketSessionStatus['session'], { label: string, color: string }> = {
+  PRE_MARKET: { label: 'Pre-Market', color: '#f6ad55' },
+  REGULAR: { label: 'OPEN', color: '#68d391' },
+  POST_MARKET: { label: 'After Hours', color: '#f6ad55' },
+  CLOSED: { label: 'CLOSED', color: '#fc8181' }
+};
 
-// Removed market hours restriction - simulation always runs for testing/demo purposes
-const isMarketOpen = () => {
-  return true; // Always open for continuous testing and demo
+const describeMarketSession = (status?: MarketSessionStatus) => {
+  if (!status) {
+    return { text: 'status unavailable', color: '#a0aec0' };
+  }
+  const { label, color } = SESSION_DISPLAY[status.session];
+  const detail = [status.reason, status.auction && `${status.auction.toLowerCase()} auction`].filter(Boolean).join(', ');
+  return { text: `${label}${detail ? ` (${detail})` : ''}`, color };
 };
 
+// Market simulation system
+const MARKET_DATA: { [key: string]: { basePrice: number, currentPrice: number, trend: number, lastUpdate: number } } = {};
+
 const getRealisticPrice = (symbol: string, avgPrice: number) => {
   const now = Date.now();
   
@@ -702,8 +717,12 @@ function App(): JSX.Element {
   const [currentPage, setCurrentPage] = useState('market-data');
   const [symbol, setSymbol] = useState('');
   const [quantity, setQuantity] = useState<number>(100);
-  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT'>('MARKET');
+  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP'>('MARKET');
   const [price, setPrice] = useState<number | undefined>(undefined);
+  const [stopPrice, setStopPrice] = useState<number | undefined>(undefined);
+  const [trailMode, setTrailMode] = useState<'AMOUNT' | 'PERCENT'>('PERCENT');
+  const [trailValue, setTrailValue] = useState<number | undefined>(undefined);
+  const [timeInForce, setTimeInForce] = useState<'DAY' | 'GTC' | 'IOC' | 'FOK'>('DAY');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [orderCount, setOrderCount] = useState(0);
@@ -712,6 +731,8 @@ function App(): JSX.Element {
   // Removed simulateMarketOpen - market always active for demo
   const [priceUpdateTrigger, setPriceUpdateTrigger] = useState(0);
   const [backendPrices, setBackendPrices] = useState<Record<string, {price: number, previousClose: number, change: number, changePercent: number}>>({});
+  const [marketSession, setMarketSession] = useState<MarketSessionStatus>();
+  const sessionDisplay = describeMarketSession(marketSession);
 
   // Function to fetch current prices from backend
   const fetchBackendPrices = async () => {
@@ -741,14 +762,27 @@ function App(): JSX.Element {
     return {};
   };
 
-  // Sync with backend simulator state and prices on load
+  // Function to fetch the trading session the simulator is in
+  const fetchMarketSession = async () => {
+    try {
+      setMarketSession(await apiClient.getMarketSession());
+    } catch (error) {
+      console.warn('Failed to fetch market session:', error);
+    }
+  };
+
+  // Sync with backend simulator state, prices and session on load
   useEffect(() => {
     fetchBackendPrices();
+    fetchMarketSession();
   }, []);
 
-  // Poll for price updates continuously
+  // Poll for price and session updates continuously
   useEffect(() => {
-    const interval = setInterval(fetchBackendPrices, 2000); // Poll every 2 seconds continuously
+    const interval = setInterval(() => {
+      fetchBackendPrices();
+      fetchMarketSession();
+    }, 2000); // Poll every 2 seconds continuously
     return () => clearInterval(interval);
   }, []);
 
@@ -852,12 +886,20 @@ function App(): JSX.Element {
       return;
     }
 
-    if (orderType === 'LIMIT' && !price) {
+    if ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && !price) {
       addToast('Please enter a price for limit orders', 'error');
       return;
     }
 
-    // Market always open for demo/testing - no restrictions
+    if ((orderType === 'STOP' || orderType === 'STOP_LIMIT') && !stopPrice) {
+      addToast('Please enter a stop price for stop orders', 'error');
+      return;
+    }
+
+    if (orderType === 'TRAILING_STOP' && !trailValue) {
+      addToast('Please enter a trail amount or percent for trailing stop orders', 'error');
+      return;
+    }
 
     setLoading(true);
     setMessage('');
@@ -869,11 +911,21 @@ function App(): JSX.Element {
         type: orderType,
         side,
         quantity,
-        price: orderType === 'LIMIT' ? price : undefined,
+        price: orderType === 'LIMIT' || orderType === 'STOP_LIMIT' ? price : undefined,
+        stopPrice: orderType === 'STOP' || orderType === 'STOP_LIMIT' ? stopPrice : undefined,
+        trailAmount: orderType === 'TRAILING_STOP' && trailMode === 'AMOUNT' ? trailValue : undefined,
+        trailPercent: orderType === 'TRAILING_STOP' && trailMode === 'PERCENT' ? trailValue : undefined,
+        timeInForce,
       });
 
       if (orderType === 'LIMIT') {
         addToast(`${side} LIMIT order submitted! ${quantity} shares of ${symbol.toUpperCase()} at $${price!.toFixed(2)} (pending execution)`, 'success');
+      } else if (orderType === 'STOP' || orderType === 'STOP_LIMIT') {
+        const limitText = orderType === 'STOP_LIMIT' ? `, limit $${price!.toFixed(2)}` : '';
+        addToast(`${side} ${orderType} order submitted! ${quantity} shares of ${symbol.toUpperCase()}, stop $${stopPrice!.toFixed(2)}${limitText} (waiting for trigger)`, 'success');
+      } else if (orderType === 'TRAILING_STOP') {
+        const trailText = trailMode === 'PERCENT' ? `${trailValue}%` : `$${trailValue!.toFixed(2)}`;
+        addToast(`${side} TRAILING_STOP order submitted! ${quantity} shares of ${symbol.toUpperCase()}, trailing by ${trailText}`, 'success');
       } else {
         const executionPrice = getBidAskPrice(symbol.toUpperCase(), price || 100, side);
         addToast(`${side} MARKET order placed! ${quantity} shares of ${symbol.toUpperCase()} at ~$${executionPrice.toFixed(2)}`, 'success');
@@ -881,8 +933,10 @@ function App(): JSX.Element {
       
       // Increment order counter and add to recent orders
       setOrderCount(orderCount + 1);
-      const displayPrice = orderType === 'LIMIT' ? 
+      const displayPrice = orderType === 'LIMIT' || orderType === 'STOP_LIMIT' ? 
         price! : 
+        orderType === 'STOP' ? 
+        stopPrice! : 
         getBidAskPrice(symbol.toUpperCase(), price || 100, side);
         
       setRecentOrders(prev => [{
@@ -898,6 +952,8 @@ function App(): JSX.Element {
       setSymbol('');
       setQuantity(100);
       setPrice(undefined);
+      setStopPrice(undefined);
+      setTrailValue(undefined);
     } catch (error) {
       addToast(`Error placing order: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
     } finally {
@@ -979,10 +1035,10 @@ function App(): JSX.Element {
               <div style={{ display: 'flex', alignItems: 'center', gap: '15px' }}>
                 <span style={{ 
                   fontSize: '14px', 
-                  color: '#68d391',
+                  color: sessionDisplay.color,
                   fontWeight: 'bold'
                 }}>
-                  Market OPEN (24/7 Demo Mode)
+                  Market {sessionDisplay.text}
                 </span>
               </div>
             </div>
@@ -1164,7 +1220,7 @@ function App(): JSX.Element {
                         <strong>Total Instruments:</strong> {availableStocks.length}
                       </div>
                       <div>
-                        <strong>Market Status:</strong> 🟢 Open (24/7 Demo)
+                        <strong>Market Status:</strong> {sessionDisplay.text}
                       </div>
                       <div>
                         <strong>Update Frequency:</strong> Every 3 seconds
@@ -1196,15 +1252,15 @@ function App(): JSX.Element {
                 width: '8px', 
                 height: '8px', 
                 borderRadius: '50%', 
-                backgroundColor: '#48bb78',
+                backgroundColor: sessionDisplay.color,
                 marginRight: '8px'
               }}></div>
               <span style={{ 
                 fontSize: '14px', 
                 fontWeight: '600',
-                color: '#68d391'
+                color: sessionDisplay.color
               }}>
-                Market OPEN (24/7 Demo Mode)
+                Market {sessionDisplay.text}
               </span>
             </div>
             
@@ -1251,16 +1307,58 @@ function App(): JSX.Element {
                 <label>Order Type: </label>
                 <select 
                   value={orderType}
-                  onChange={(e) => setOrderType(e.target.value as 'MARKET' | 'LIMIT')}
+                  onChange={(e) => setOrderType(e.target.value as 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP')}
                   style={{ marginLeft: '10px', padding: '5px' }}
                   disabled={loading}
                 >
                   <option value="MARKET">Market</option>
                   <option value="LIMIT">Limit</option>
+                  <option value="STOP">Stop</option>
+                  <option value="STOP_LIMIT">Stop Limit</option>
+                  <option value="TRAILING_STOP">Trailing Stop</option>
                 </select>
               </div>
 
-              {orderType === 'LIMIT' && (
+              {(orderType === 'STOP' || orderType === 'STOP_LIMIT') && (
+                <div style={{ marginBottom: '10px' }}>
+                  <label>Stop Price: </label>
+                  <input 
+                    type="number" 
+                    placeholder="0.00" 
+                    value={stopPrice || ''}
+                    onChange={(e) => setStopPrice(parseFloat(e.target.value) || undefined)}
+                    style={{ marginLeft: '10px', padding: '5px' }} 
+                    disabled={loading}
+                    step="0.01"
+                  />
+                </div>
+              )}
+
+              {orderType === 'TRAILING_STOP' && (
+                <div style={{ marginBottom: '10px' }}>
+                  <label>Trail By: </label>
+                  <select 
+                    value={trailMode}
+                    onChange={(e) => setTrailMode(e.target.value as 'AMOUNT' | 'PERCENT')}
+                    style={{ marginLeft: '10px', padding: '5px' }}
+                    disabled={loading}
+                  >
+                    <option value="PERCENT">Percent (%)</option>
+                    <option value="AMOUNT">Amount ($)</option>
+                  </select>
+                  <input 
+                    type="number" 
+                    placeholder={trailMode === 'PERCENT' ? '5' : '0.00'} 
+                    value={trailValue || ''}
+                    onChange={(e) => setTrailValue(parseFloat(e.target.value) || undefined)}
+                    style={{ marginLeft: '10px', padding: '5px' }} 
+                    disabled={loading}
+                    step="0.01"
+                  />
+                </div>
+              )}
+
+              {(orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && (
                 <div style={{ marginBottom: '10px' }}>
                   <label>Price: </label>
                   <input 
@@ -1275,6 +1373,21 @@ function App(): JSX.Element {
                 </div>
               )}
               
+              <div style={{ marginBottom: '10px' }}>
+                <label>Time in Force: </label>
+                <select 
+                  value={timeInForce}
+                  onChange={(e) => setTimeInForce(e.target.value as 'DAY' | 'GTC' | 'IOC' | 'FOK')}
+                  style={{ marginLeft: '10px', padding: '5px' }}
+                  disabled={loading}
+                >
+                  <option value="DAY">Day</option>
+                  <option value="GTC">Good 'Til Cancelled</option>
+                  <option value="IOC">Immediate or Cancel</option>
+                  <option value="FOK">Fill or Kill</option>
+                </select>
+              </div>
+
               <div style={{ marginTop: '20px' }}>
                 <button 
                   className="button-buy" 
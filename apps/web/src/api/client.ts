@@ -26,6 +26,13 @@ export interface Order {
   side: string;
   quantity: number;
   price?: string;
+  stopPrice?: string;
+  trailAmount?: string;
+  trailPercent?: string;
+  highWaterMark?: string;
+  timeInForce?: string;
+  groupId?: string;
+  groupRole?: string;
   status: string;
   createdAt: string;
   instrument: {
@@ -44,6 +51,40 @@ export interface Order {
   }>;
 }
 
+export interface OrderGroup {
+  id: string;
+  accountId: string;
+  type: string;
+  status: string;
+  createdAt: string;
+  orders: Order[];
+}
+
+export interface DepthLevel {
+  price: number;
+  size: number;
+  orderCount: number;
+}
+
+export interface OrderBookDepth {
+  symbol: string;
+  sequence: number;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+  timestamp: string;
+}
+
+export interface MarketSessionStatus {
+  session: 'PRE_MARKET' | 'REGULAR' | 'POST_MARKET' | 'CLOSED';
+  tradingDate: string;
+  reason?: string; // weekend or holiday name on a closed day, occasion on an early-close day
+  earlyClose: boolean;
+  nextSession: 'PRE_MARKET' | 'REGULAR' | 'POST_MARKET' | 'CLOSED';
+  nextChangeAt: string;
+  auction?: 'OPENING' | 'CLOSING';
+  timestamp: string;
+}
+
 export interface Position {
   id: string;
   accountId: string;
@@ -67,6 +108,33 @@ export interface Fill {
   symbol: Symbol;
 }
 
+export interface StrategyDefinition {
+  name: string;
+  description: string;
+  defaultParams: Record<string, number | string | boolean>;
+}
+
+export interface StrategyInstance {
+  id: string;
+  strategy: string;
+  accountId: string;
+  symbols: string[];
+  params: Record<string, number | string | boolean>;
+  status: 'RUNNING' | 'STOPPED' | 'ERROR';
+  startedAt: string;
+  stoppedAt?: string;
+  lastError?: string;
+  eventsProcessed: number;
+  ordersPlaced: number;
+}
+
+export interface StrategyLogEntry {
+  timestamp: string;
+  level: 'info' | 'error';
+  message: string;
+  data?: Record<string, any>;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -115,6 +183,10 @@ class ApiClient {
     side: string;
     quantity: number;
     price?: number;
+    stopPrice?: number;
+    trailAmount?: number;
+    trailPercent?: number;
+    timeInForce?: string;
   }): Promise<Order> {
     return this.request<Order>('/api/orders', {
       method: 'POST',
@@ -122,6 +194,49 @@ class ApiClient {
     });
   }
 
+  async createBracketOrder(orderData: {
+    accountId: string;
+    ticker: string;
+    type: string;
+    side: string;
+    quantity: number;
+    price?: number;
+    timeInForce?: string;
+    takeProfitPrice: number;
+    stopLossPrice: number;
+    stopLossLimitPrice?: number;
+  }): Promise<OrderGroup> {
+    return this.request<OrderGroup>('/api/orders/bracket', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  async createOcoOrder(orderData: {
+    accountId: string;
+    ticker: string;
+    side: string;
+    quantity: number;
+    timeInForce?: string;
+    legs: Array<{ type: string; price?: number; stopPrice?: number }>;
+  }): Promise<OrderGroup> {
+    return this.request<OrderGroup>('/api/orders/oco', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  async amendOrder(orderId: string, changes: {
+    quantity?: number;
+    price?: number;
+    stopPrice?: number;
+  }): Promise<Order> {
+    return this.request<Order>(`/api/orders/${orderId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
   async cancelOrder(orderId: string): Promise<{ message: string }> {
     return this.request<{ message: string }>(`/api/orders/${orderId}/cancel`, {
       method: 'POST',
@@ -143,6 +258,48 @@ class ApiClient {
   async getFills(accountId: string): Promise<Fill[]> {
     return this.request<Fill[]>(`/api/fills?accountId=${accountId}`);
   }
+
+  // Market API
+  async getDepth(symbol: string, levels?: number): Promise<OrderBookDepth> {
+    const query = levels ? `?levels=${levels}` : '';
+    return this.request<OrderBookDepth>(`/api/market/${symbol}/depth${query}`);
+  }
+
+  async getMarketSession(): Promise<MarketSessionStatus> {
+    return this.request<MarketSessionStatus>('/api/market/session');
+  }
+
+  // Strategies API
+  async getStrategies(): Promise<StrategyDefinition[]> {
+    return this.request<StrategyDefinition[]>('/api/strategies');
+  }
+
+  async getStrategyInstances(accountId: string): Promise<StrategyInstance[]> {
+    return this.request<StrategyInstance[]>(`/api/strategies/instances?accountId=${accountId}`);
+  }
+
+  async startStrategy(data: {
+    strategy: string;
+    accountId: string;
+    symbols: string[];
+    params?: Record<string, number | string | boolean>;
+  }): Promise<StrategyInstance> {
+    return this.request<StrategyInstance>('/api/strategies/instances', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async stopStrategy(instanceId: string): Promise<StrategyInstance> {
+    return this.request<StrategyInstance>(`/api/strategies/instances/${instanceId}/stop`, {
+      method: 'POST',
+    });
+  }
+
+  async getStrategyLogs(instanceId: string, limit?: number): Promise<StrategyLogEntry[]> {
+    const query = limit ? `?limit=${limit}` : '';
+    return this.request<StrategyLogEntry[]>(`/api/strategies/instances/${instanceId}/logs${query}`);
+  }
 }
 
 export const apiClient = new ApiClient();
\ No newline at end of file
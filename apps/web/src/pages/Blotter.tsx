@@ -51,6 +51,10 @@ export const Blotter = (): JSX.Element => {
         return '#fd7e14';
       case 'REJECTED':
         return '#dc3545';
+      case 'EXPIRED':
+        return '#6c757d';
+      case 'HELD':
+        return '#adb5bd';
       default:
         return '#6c757d';
     }
@@ -79,7 +83,7 @@ export const Blotter = (): JSX.Element => {
   };
 
   const canCancelOrder = (order: Order): boolean => {
-    const canCancel = order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED';
+    const canCancel = order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED' || order.status === 'HELD';
     console.log(`Order ${order.id}: status=${order.status}, canCancel=${canCancel}`);
     return canCancel;
   };
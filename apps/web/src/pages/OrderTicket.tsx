@@ -7,11 +7,25 @@ const DEMO_ACCOUNT_ID = 'cmervfosj0000c04oi42mn7zl';
 export const OrderTicket = (): JSX.Element => {
   const [symbol, setSymbol] = useState('');
   const [quantity, setQuantity] = useState<number>(100);
-  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT'>('MARKET');
+  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MOO' | 'MOC' | 'LOO' | 'LOC'>('MARKET');
   const [price, setPrice] = useState<number | undefined>(undefined);
+  const [stopPrice, setStopPrice] = useState<number | undefined>(undefined);
+  const [trailMode, setTrailMode] = useState<'AMOUNT' | 'PERCENT'>('PERCENT');
+  const [trailValue, setTrailValue] = useState<number | undefined>(undefined);
+  const [timeInForce, setTimeInForce] = useState<'DAY' | 'GTC' | 'IOC' | 'FOK'>('DAY');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
 
+  // Auction orders only live until their auction, so they are always DAY orders
+  const isAuctionOrder = orderType === 'MOO' || orderType === 'MOC' || orderType === 'LOO' || orderType === 'LOC';
+
+  const handleOrderTypeChange = (type: typeof orderType) => {
+    setOrderType(type);
+    if (type === 'MOO' || type === 'MOC' || type === 'LOO' || type === 'LOC') {
+      setTimeInForce('DAY');
+    }
+  };
+
   const handleSubmitOrder = async (side: 'BUY' | 'SELL') => {
     if (!symbol || !quantity) {
       setMessage('Please fill in all required fields');
@@ -28,7 +42,11 @@ export const OrderTicket = (): JSX.Element => {
         type: orderType,
         side,
         quantity,
-        price: orderType === 'LIMIT' ? price : undefined,
+        price: orderType === 'LIMIT' || orderType === 'STOP_LIMIT' || orderType === 'LOO' || orderType === 'LOC' ? price : undefined,
+        stopPrice: orderType === 'STOP' || orderType === 'STOP_LIMIT' ? stopPrice : undefined,
+        trailAmount: orderType === 'TRAILING_STOP' && trailMode === 'AMOUNT' ? trailValue : undefined,
+        trailPercent: orderType === 'TRAILING_STOP' && trailMode === 'PERCENT' ? trailValue : undefined,
+        timeInForce,
       });
 
       setMessage(`✅ Order placed successfully! Order ID: ${order.id}`);
@@ -37,6 +55,8 @@ export const OrderTicket = (): JSX.Element => {
       setSymbol('');
       setQuantity(100);
       setPrice(undefined);
+      setStopPrice(undefined);
+      setTrailValue(undefined);
     } catch (error) {
       setMessage(`❌ Error placing order: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -91,16 +111,62 @@ export const OrderTicket = (): JSX.Element => {
           <label>Order Type: </label>
           <select 
             value={orderType}
-            onChange={(e) => setOrderType(e.target.value as 'MARKET' | 'LIMIT')}
+            onChange={(e) => handleOrderTypeChange(e.target.value as 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'MOO' | 'MOC' | 'LOO' | 'LOC')}
             style={{ marginLeft: '10px', padding: '5px' }}
             disabled={loading}
           >
             <option value="MARKET">Market</option>
             <option value="LIMIT">Limit</option>
+            <option value="STOP">Stop</option>
+            <option value="STOP_LIMIT">Stop Limit</option>
+            <option value="TRAILING_STOP">Trailing Stop</option>
+            <option value="MOO">Market on Open</option>
+            <option value="MOC">Market on Close</option>
+            <option value="LOO">Limit on Open</option>
+            <option value="LOC">Limit on Close</option>
           </select>
         </div>
 
-        {orderType === 'LIMIT' && (
+        {(orderType === 'STOP' || orderType === 'STOP_LIMIT') && (
+          <div style={{ marginBottom: '10px' }}>
+            <label>Stop Price: </label>
+            <input 
+              type="number" 
+              placeholder="0.00" 
+              value={stopPrice || ''}
+              onChange={(e) => setStopPrice(parseFloat(e.target.value) || undefined)}
+              style={{ marginLeft: '10px', padding: '5px' }} 
+              disabled={loading}
+              step="0.01"
+            />
+          </div>
+        )}
+
+        {orderType === 'TRAILING_STOP' && (
+          <div style={{ marginBottom: '10px' }}>
+            <label>Trail By: </label>
+            <select 
+              value={trailMode}
+              onChange={(e) => setTrailMode(e.target.value as 'AMOUNT' | 'PERCENT')}
+              style={{ marginLeft: '10px', padding: '5px' }}
+              disabled={loading}
+            >
+              <option value="PERCENT">Percent (%)</option>
+              <option value="AMOUNT">Amount ($)</option>
+            </select>
+            <input 
+              type="number" 
+              placeholder={trailMode === 'PERCENT' ? '5' : '0.00'} 
+              value={trailValue || ''}
+              onChange={(e) => setTrailValue(parseFloat(e.target.value) || undefined)}
+              style={{ marginLeft: '10px', padding: '5px' }} 
+              disabled={loading}
+              step="0.01"
+            />
+          </div>
+        )}
+
+        {(orderType === 'LIMIT' || orderType === 'STOP_LIMIT' || orderType === 'LOO' || orderType === 'LOC') && (
           <div style={{ marginBottom: '10px' }}>
             <label>Price: </label>
             <input 
@@ -115,6 +181,21 @@ export const OrderTicket = (): JSX.Element => {
           </div>
         )}
         
+        <div style={{ marginBottom: '10px' }}>
+          <label>Time in Force: </label>
+          <select 
+            value={timeInForce}
+            onChange={(e) => setTimeInForce(e.target.value as 'DAY' | 'GTC' | 'IOC' | 'FOK')}
+            style={{ marginLeft: '10px', padding: '5px' }}
+            disabled={loading || isAuctionOrder}
+          >
+            <option value="DAY">Day</option>
+            <option value="GTC">Good 'Til Cancelled</option>
+            <option value="IOC">Immediate or Cancel</option>
+            <option value="FOK">Fill or Kill</option>
+          </select>
+        </div>
+
         <div style={{ marginTop: '20px' }}>
           <button 
             className="button" 
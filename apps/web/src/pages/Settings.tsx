@@ -16,6 +16,17 @@ interface SimulatorConfig {
   slippageBps: number;
   playbackSpeedMs: number;
   maxPartialFillPct: number;
+  priceModel: 'RAW' | 'BOUNDED_NOISE' | 'MEAN_REVERTING';
+  noiseSigma: number;
+  meanReversion: number;
+  fillModel: 'CLOSE' | 'CONSERVATIVE' | 'OPTIMISTIC';
+  participationRate: number;
+  impactBps: number;
+  latencyMs: number;
+  queueAheadPct: number;
+  marketHours: boolean;
+  luldBandPct: number;
+  haltDurationMs: number;
 }
 
 export const Settings = (): JSX.Element => {
@@ -25,7 +36,18 @@ export const Settings = (): JSX.Element => {
     feePerShare: 0.005,
     slippageBps: 5,
     playbackSpeedMs: 3000,
-    maxPartialFillPct: 0.3
+    maxPartialFillPct: 0.3,
+    priceModel: 'BOUNDED_NOISE',
+    noiseSigma: 0.04,
+    meanReversion: 0.2,
+    fillModel: 'CONSERVATIVE',
+    participationRate: 0.1,
+    impactBps: 50,
+    latencyMs: 0,
+    queueAheadPct: 0.25,
+    marketHours: true,
+    luldBandPct: 0.05,
+    haltDurationMs: 300000
   });
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
@@ -254,7 +276,7 @@ export const Settings = (): JSX.Element => {
                 step="100"
               />
             </label>
-            <label style={{ display: 'block', marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
               Max Partial Fill %:
               <input 
                 type="number" 
@@ -266,6 +288,138 @@ export const Settings = (): JSX.Element => {
                 max="100"
               />
             </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Price Model:
+              <select
+                value={simulatorConfig.priceModel}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, priceModel: e.target.value as SimulatorConfig['priceModel'] })}
+                style={{ marginLeft: '10px', padding: '5px' }}
+              >
+                <option value="RAW">Raw replay</option>
+                <option value="BOUNDED_NOISE">Bounded noise</option>
+                <option value="MEAN_REVERTING">Mean-reverting noise</option>
+              </select>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Noise Sigma %:
+              <input 
+                type="number" 
+                value={simulatorConfig.noiseSigma * 100}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, noiseSigma: parseFloat(e.target.value) / 100 })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                step="0.1"
+                min="0"
+                disabled={simulatorConfig.priceModel === 'RAW'}
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(clamped at 2 sigma)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Mean Reversion:
+              <input 
+                type="number" 
+                value={simulatorConfig.meanReversion}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, meanReversion: parseFloat(e.target.value) })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                step="0.05"
+                min="0"
+                max="1"
+                disabled={simulatorConfig.priceModel !== 'MEAN_REVERTING'}
+              />
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Fill Model:
+              <select
+                value={simulatorConfig.fillModel}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, fillModel: e.target.value as SimulatorConfig['fillModel'] })}
+                style={{ marginLeft: '10px', padding: '5px' }}
+              >
+                <option value="CLOSE">Close only</option>
+                <option value="CONSERVATIVE">High/low range, adverse path first</option>
+                <option value="OPTIMISTIC">High/low range, favorable path first</option>
+              </select>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Max Participation %:
+              <input 
+                type="number" 
+                value={simulatorConfig.participationRate * 100}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, participationRate: parseFloat(e.target.value) / 100 })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                step="1"
+                min="1"
+                max="100"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(of each bar's volume)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Market Impact (bps):
+              <input 
+                type="number" 
+                value={simulatorConfig.impactBps}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, impactBps: parseInt(e.target.value) })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                min="0"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(x sqrt of size / bar volume)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Order Latency (ms):
+              <input 
+                type="number" 
+                value={simulatorConfig.latencyMs}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, latencyMs: parseInt(e.target.value) })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                min="0"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(before an order reaches the book)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Queue Ahead %:
+              <input 
+                type="number" 
+                value={simulatorConfig.queueAheadPct * 100}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, queueAheadPct: parseFloat(e.target.value) / 100 })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                step="5"
+                min="0"
+                max="100"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(of a bar's volume ahead of a new limit at the touch)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              Market Hours:
+              <input 
+                type="checkbox" 
+                checked={simulatorConfig.marketHours}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, marketHours: e.target.checked })}
+                style={{ marginLeft: '10px' }}
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(follow exchange sessions and holidays; off trades around the clock)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '10px' }}>
+              LULD Band %:
+              <input 
+                type="number" 
+                value={simulatorConfig.luldBandPct * 100}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, luldBandPct: parseFloat(e.target.value) / 100 })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                step="1"
+                min="1"
+                max="100"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(either side of the reference price before a halt)</small>
+            </label>
+            <label style={{ display: 'block', marginBottom: '15px' }}>
+              Halt Duration (ms):
+              <input 
+                type="number" 
+                value={simulatorConfig.haltDurationMs}
+                onChange={(e) => setSimulatorConfig({ ...simulatorConfig, haltDurationMs: parseInt(e.target.value) })}
+                style={{ marginLeft: '10px', padding: '5px', width: '80px' }}
+                min="1"
+              />
+              <small style={{ marginLeft: '10px', color: '#666' }}>(pause after a band breach)</small>
+            </label>
             <button 
               onClick={updateSimulatorConfig}
               disabled={loading}
@@ -55,6 +55,38 @@ export interface AccountUpdateMessage extends WebSocketMessage {
   };
 }
 
+export interface DepthLevel {
+  price: number;
+  size: number;
+  orderCount: number;
+}
+
+export interface SubscribeDepthMessage extends WebSocketMessage {
+  type: 'subscribe_depth';
+  symbols: string | string[];
+}
+
+export interface DepthSnapshotMessage extends WebSocketMessage {
+  type: 'depth_snapshot';
+  symbol: string;
+  data: {
+    sequence: number;
+    bids: DepthLevel[];
+    asks: DepthLevel[];
+  };
+}
+
+// Only the levels that changed; a size of 0 means the level was removed
+export interface DepthUpdateMessage extends WebSocketMessage {
+  type: 'depth_update';
+  symbol: string;
+  data: {
+    sequence: number;
+    bids: DepthLevel[];
+    asks: DepthLevel[];
+  };
+}
+
 export interface ErrorMessage extends WebSocketMessage {
   type: 'error';
   data: {
@@ -79,6 +111,9 @@ export type WebSocketEvent =
   | FillUpdateMessage
   | PositionUpdateMessage
   | AccountUpdateMessage
+  | SubscribeDepthMessage
+  | DepthSnapshotMessage
+  | DepthUpdateMessage
   | ErrorMessage
   | PingMessage
   | PongMessage;
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { z } from 'zod';
 
-export const OrderTypeSchema = z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT']);
+export const OrderTypeSchema = z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP']);
 export const OrderSideSchema = z.enum(['BUY', 'SELL']);
-export const OrderStatusSchema = z.enum(['PENDING', 'FILLED', 'PARTIALLY_FILLED', 'CANCELLED', 'REJECTED']);
+export const OrderStatusSchema = z.enum(['PENDING', 'FILLED', 'PARTIALLY_FILLED', 'CANCELLED', 'REJECTED', 'EXPIRED', 'HELD']);
+export const OrderGroupRoleSchema = z.enum(['ENTRY', 'TAKE_PROFIT', 'STOP_LOSS', 'OCO_LEG']);
 export const TimeInForceSchema = z.enum(['DAY', 'GTC', 'IOC', 'FOK']);
 
 export const AccountSchema = z.object({
@@ -36,12 +37,20 @@ export const OrderSchema = z.object({
   side: OrderSideSchema,
   quantity: z.number().int().positive(),
   price: z.number().positive().optional(),
+  stopPrice: z.number().positive().optional(),
+  trailAmount: z.number().positive().optional(),
+  trailPercent: z.number().positive().optional(),
+  highWaterMark: z.number().positive().optional(),
   status: OrderStatusSchema,
   timeInForce: TimeInForceSchema,
+  groupId: z.string().optional(),
+  groupRole: OrderGroupRoleSchema.optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   filledAt: z.date().optional(),
   cancelledAt: z.date().optional(),
+  triggeredAt: z.date().optional(),
+  expiredAt: z.date().optional(),
 });
 
 export const CreateOrderSchema = z.object({
@@ -50,6 +59,9 @@ export const CreateOrderSchema = z.object({
   side: OrderSideSchema,
   quantity: z.number().int().positive(),
   price: z.number().positive().optional(),
+  stopPrice: z.number().positive().optional(),
+  trailAmount: z.number().positive().optional(),
+  trailPercent: z.number().positive().optional(),
   timeInForce: TimeInForceSchema.default('DAY'),
 });
 
@@ -29,12 +29,30 @@ export interface Order {
   side: OrderSide;
   quantity: number;
   price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  highWaterMark?: number;
   status: OrderStatus;
   timeInForce: TimeInForce;
+  groupId?: string;
+  groupRole?: OrderGroupRole;
   createdAt: Date;
   updatedAt: Date;
   filledAt?: Date;
   cancelledAt?: Date;
+  triggeredAt?: Date;
+  expiredAt?: Date;
+}
+
+export interface OrderGroup {
+  id: string;
+  accountId: string;
+  type: OrderGroupType;
+  status: OrderGroupStatus;
+  orders: Order[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Fill {
@@ -76,6 +94,7 @@ export enum OrderType {
   LIMIT = 'LIMIT',
   STOP = 'STOP',
   STOP_LIMIT = 'STOP_LIMIT',
+  TRAILING_STOP = 'TRAILING_STOP',
 }
 
 export enum OrderSide {
@@ -89,6 +108,27 @@ export enum OrderStatus {
   PARTIALLY_FILLED = 'PARTIALLY_FILLED',
   CANCELLED = 'CANCELLED',
   REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED',
+  HELD = 'HELD',
+}
+
+export enum OrderGroupType {
+  BRACKET = 'BRACKET',
+  OCO = 'OCO',
+}
+
+export enum OrderGroupStatus {
+  ACTIVE = 'ACTIVE',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  REJECTED = 'REJECTED',
+}
+
+export enum OrderGroupRole {
+  ENTRY = 'ENTRY',
+  TAKE_PROFIT = 'TAKE_PROFIT',
+  STOP_LOSS = 'STOP_LOSS',
+  OCO_LEG = 'OCO_LEG',
 }
 
 export enum TimeInForce {